@@ -0,0 +1,503 @@
+/**
+ * Local Realtime Server
+ *
+ * A stand-in for the backend's Socket.IO gateways, implementing the event contracts the client
+ * uses on /ws/docs (YjsClient, SocketManager), /ws/chat (ChatService) and /ws/meetings
+ * (MeetingService) with in-memory state. Run it instead of the backend to work on realtime
+ * features locally, or start it from a test to exercise several clients at once:
+ *
+ *   npm run dev:realtime                 # listens on REALTIME_PORT, default 3000
+ *
+ *   const server = await startRealtimeServer({ port: 0 });
+ *   // connect clients to `http://localhost:${server.port}`, then
+ *   await server.close();
+ *
+ * Tokens aren't verified: any JWT-shaped token is accepted and its payload names the user.
+ * Nothing is persisted - restarting the server forgets every document, message and meeting.
+ */
+
+import { createServer } from 'node:http';
+import { pathToFileURL } from 'node:url';
+import { Server } from 'socket.io';
+import * as Y from 'yjs';
+import { Awareness, applyAwarenessUpdate, encodeAwarenessUpdate, removeAwarenessStates } from 'y-protocols/awareness';
+
+const USER_COLORS = ['#3b82f6', '#ef4444', '#10b981', '#f59e0b', '#8b5cf6', '#ec4899', '#14b8a6', '#f97316'];
+
+let nextId = 1;
+const newId = () => `${Date.now().toString(16)}${(nextId++).toString(16).padStart(6, '0')}`;
+
+const colorFor = (userId) => {
+    let hash = 0;
+    for (let i = 0; i < userId.length; i++) hash = (hash * 31 + userId.charCodeAt(i)) | 0;
+    return USER_COLORS[Math.abs(hash) % USER_COLORS.length];
+};
+
+// The user a token belongs to, read from its payload like the client's getCurrentUserId
+const userFromToken = (token) => {
+    try {
+        const payload = JSON.parse(Buffer.from(token.split('.')[1], 'base64url').toString('utf8'));
+        const id = String(payload.id || payload._id || payload.userId || payload.sub || '');
+        if (!id) return null;
+        const name = [payload.firstName, payload.lastName].filter(Boolean).join(' ') || payload.name || payload.email || `User ${id.slice(-4)}`;
+        return {
+            _id: id,
+            firstName: payload.firstName || name,
+            lastName: payload.lastName || '',
+            email: payload.email || '',
+            picture: payload.picture,
+            name,
+        };
+    } catch {
+        return null;
+    }
+};
+
+// Same handshake as the backend: the token comes in the auth payload (or the query, for older clients)
+const authenticate = (socket, next) => {
+    const token = socket.handshake.auth?.token || socket.handshake.query?.token;
+    const user = token ? userFromToken(String(token)) : null;
+    if (!user) {
+        next(new Error('Authentication failed'));
+        return;
+    }
+    socket.data.user = user;
+    next();
+};
+
+/**
+ * /ws/docs - document rooms with the shared Yjs state, awareness and presence
+ */
+function attachDocuments(namespace) {
+    // documentId -> { ydoc, awareness, content, sockets: Map<socketId, awareness client ids> }
+    const documents = new Map();
+
+    const getDocument = (documentId) => {
+        let document = documents.get(documentId);
+        if (!document) {
+            const ydoc = new Y.Doc();
+            const awareness = new Awareness(ydoc);
+            // The server has no state of its own to share
+            awareness.setLocalState(null);
+            document = { ydoc, awareness, content: null, sockets: new Map() };
+            documents.set(documentId, document);
+        }
+        return document;
+    };
+
+    const presence = (documentId) => {
+        const document = documents.get(documentId);
+        if (!document) return [];
+        const users = new Map();
+        document.sockets.forEach((_, socketId) => {
+            const user = namespace.sockets.get(socketId)?.data.user;
+            if (user && !users.has(user._id)) {
+                users.set(user._id, { id: user._id, name: user.name, color: colorFor(user._id), socketId, avatar: user.picture });
+            }
+        });
+        return Array.from(users.values());
+    };
+
+    const broadcastPresence = (documentId) => {
+        namespace.to(documentId).emit('presence_update', { documentId, users: presence(documentId) });
+    };
+
+    const leave = (socket, documentId) => {
+        const document = documents.get(documentId);
+        if (!document || !document.sockets.has(socket.id)) return;
+
+        // Drop the carets of the editors that were open on this socket right away
+        const clients = Array.from(document.sockets.get(socket.id));
+        document.sockets.delete(socket.id);
+        socket.leave(documentId);
+        if (clients.length > 0) {
+            removeAwarenessStates(document.awareness, clients, socket.id);
+            socket.to(documentId).emit('awareness_update', {
+                documentId,
+                update: Array.from(encodeAwarenessUpdate(document.awareness, clients)),
+            });
+        }
+
+        const userId = socket.data.user._id;
+        const stillHere = Array.from(document.sockets.keys()).some((id) => namespace.sockets.get(id)?.data.user._id === userId);
+        if (!stillHere) namespace.to(documentId).emit('user_left', { userId, documentId });
+        broadcastPresence(documentId);
+    };
+
+    namespace.on('connection', (socket) => {
+        const user = socket.data.user;
+        const joined = new Set();
+
+        socket.on('join_document', ({ documentId } = {}) => {
+            if (!documentId) {
+                socket.emit('error', { message: 'documentId is required' });
+                return;
+            }
+
+            const document = getDocument(documentId);
+            if (!document.sockets.has(socket.id)) document.sockets.set(socket.id, new Set());
+            joined.add(documentId);
+            socket.join(documentId);
+
+            socket.emit('document_joined', { documentId, content: document.content, users: presence(documentId) });
+            socket.emit('yjs_sync', Array.from(Y.encodeStateAsUpdate(document.ydoc)));
+
+            // Collaborators' carets, which they would otherwise only renew every 15 seconds
+            const states = Array.from(document.awareness.getStates().keys());
+            if (states.length > 0) {
+                socket.emit('awareness_update', {
+                    documentId,
+                    update: Array.from(encodeAwarenessUpdate(document.awareness, states)),
+                });
+            }
+
+            socket.to(documentId).emit('user_joined', { userId: user._id, documentId, users: presence(documentId) });
+            broadcastPresence(documentId);
+        });
+
+        socket.on('leave_document', ({ documentId } = {}) => {
+            joined.delete(documentId);
+            leave(socket, documentId);
+        });
+
+        socket.on('yjs_update', ({ documentId, update, timestamp } = {}) => {
+            const document = documents.get(documentId);
+            if (!document || !Array.isArray(update)) return;
+            try {
+                Y.applyUpdate(document.ydoc, new Uint8Array(update), socket.id);
+            } catch (error) {
+                socket.emit('error', { message: `Invalid Yjs update: ${error.message}` });
+                return;
+            }
+            socket.to(documentId).emit('yjs_update', { documentId, update, timestamp: timestamp || Date.now() });
+        });
+
+        socket.on('awareness_update', ({ documentId, update } = {}) => {
+            const document = documents.get(documentId);
+            if (!document || !Array.isArray(update)) return;
+
+            // Remember which awareness clients belong to this socket, to drop them when it leaves
+            const clients = document.sockets.get(socket.id);
+            const track = ({ added, updated, removed }, origin) => {
+                if (origin !== socket.id || !clients) return;
+                [...added, ...updated].forEach((clientId) => clients.add(clientId));
+                removed.forEach((clientId) => clients.delete(clientId));
+            };
+            document.awareness.on('update', track);
+            try {
+                applyAwarenessUpdate(document.awareness, new Uint8Array(update), socket.id);
+            } catch (error) {
+                socket.emit('error', { message: `Invalid awareness update: ${error.message}` });
+                return;
+            } finally {
+                document.awareness.off('update', track);
+            }
+            socket.to(documentId).emit('awareness_update', { documentId, update });
+        });
+
+        // Pixel carets from clients that predate awareness
+        socket.on('cursor_update', (data = {}) => {
+            if (!data.documentId) return;
+            socket.to(data.documentId).emit('cursor_update', { ...data, userId: user._id, userName: user.name });
+        });
+
+        // Whole-document content from clients that predate the shared block model
+        socket.on('content_update', ({ documentId, content, blockId, operation } = {}) => {
+            const document = documents.get(documentId);
+            if (!document) return;
+            document.content = content;
+            socket.to(documentId).emit('content_updated', { documentId, content, blockId, operation, userId: user._id });
+        });
+
+        socket.on('formatting_update', ({ documentId, formatting } = {}) => {
+            if (!documentId) return;
+            socket.to(documentId).emit('formatting_updated', { userId: user._id, formatting });
+        });
+
+        socket.on('get_presence', ({ documentId } = {}) => {
+            socket.emit('presence_update', { documentId, users: presence(documentId) });
+        });
+
+        socket.on('save_snapshot', ({ documentId } = {}) => {
+            if (!documentId) return;
+            socket.emit('snapshot_saved', { documentId, timestamp: new Date() });
+        });
+
+        // Milestone versions are saved through the API; pass the news on to everyone else in the document
+        socket.on('announce_snapshot', ({ documentId, versionId, version, name, description } = {}) => {
+            if (!documentId || !versionId || !joined.has(documentId)) return;
+            socket.to(documentId).emit('snapshot_saved', {
+                documentId,
+                timestamp: new Date(),
+                versionId,
+                version,
+                name,
+                description,
+                userId: user._id,
+                userName: user.name,
+            });
+        });
+
+        socket.on('disconnect', () => {
+            joined.forEach((documentId) => leave(socket, documentId));
+            joined.clear();
+        });
+    });
+
+    // Awareness checks for stale states on a timer, which would keep the process alive
+    return () => documents.forEach(({ ydoc, awareness }) => {
+        awareness.destroy();
+        ydoc.destroy();
+    });
+}
+
+/**
+ * /ws/chat - conversation rooms, messages and read receipts
+ */
+function attachChat(namespace) {
+    // conversationId -> messages
+    const conversations = new Map();
+    // userId -> number of connected sockets
+    const online = new Map();
+
+    const onlineIn = (conversationId) => {
+        const userIds = new Set();
+        namespace.adapter.rooms.get(conversationId)?.forEach((socketId) => {
+            const user = namespace.sockets.get(socketId)?.data.user;
+            if (user) userIds.add(user._id);
+        });
+        return Array.from(userIds);
+    };
+
+    namespace.on('connection', (socket) => {
+        const user = socket.data.user;
+        online.set(user._id, (online.get(user._id) || 0) + 1);
+        if (online.get(user._id) === 1) socket.broadcast.emit('user_online', { userId: user._id });
+
+        socket.on('join_conversation', ({ conversationId } = {}) => {
+            if (!conversationId) {
+                socket.emit('error', { message: 'conversationId is required' });
+                return;
+            }
+            socket.join(conversationId);
+            socket.emit('conversation_joined', { conversationId });
+            namespace.to(conversationId).emit('online_users', { userIds: onlineIn(conversationId) });
+        });
+
+        socket.on('leave_conversation', ({ conversationId } = {}) => {
+            socket.leave(conversationId);
+        });
+
+        socket.on('send_message', ({ conversationId, content, type, metadata } = {}) => {
+            if (!conversationId || !content) {
+                socket.emit('error', { message: 'conversationId and content are required' });
+                return;
+            }
+            const now = new Date();
+            const message = {
+                _id: newId(),
+                conversationId,
+                senderId: { _id: user._id, firstName: user.firstName, lastName: user.lastName, email: user.email, picture: user.picture },
+                content,
+                read: false,
+                type: type || 'text',
+                metadata,
+                createdAt: now,
+                updatedAt: now,
+            };
+            if (!conversations.has(conversationId)) conversations.set(conversationId, []);
+            conversations.get(conversationId).push(message);
+            namespace.to(conversationId).emit('new_message', message);
+        });
+
+        socket.on('mark_read', ({ conversationId } = {}) => {
+            const readAt = new Date();
+            conversations.get(conversationId)?.forEach((message) => {
+                if (message.senderId._id !== user._id && !message.read) {
+                    message.read = true;
+                    message.readAt = readAt;
+                }
+            });
+            socket.to(conversationId).emit('messages_read', { conversationId, userId: user._id });
+        });
+
+        socket.on('get_online_users', ({ conversationId } = {}) => {
+            socket.emit('online_users', { userIds: conversationId ? onlineIn(conversationId) : Array.from(online.keys()) });
+        });
+
+        socket.on('disconnect', () => {
+            const count = (online.get(user._id) || 1) - 1;
+            if (count > 0) {
+                online.set(user._id, count);
+            } else {
+                online.delete(user._id);
+                socket.broadcast.emit('user_offline', { userId: user._id });
+            }
+        });
+    });
+}
+
+/**
+ * /ws/meetings - meeting rooms with their participants and chat
+ */
+function attachMeetings(namespace) {
+    // meetingRoomId -> { meeting, participants: Map<userId, participant>, sockets: Map<userId, count>, messages }
+    const meetings = new Map();
+
+    const getMeeting = (meetingRoomId, user) => {
+        let meeting = meetings.get(meetingRoomId);
+        if (!meeting) {
+            meeting = {
+                meeting: {
+                    _id: newId(),
+                    title: 'Meeting',
+                    meetingRoomId,
+                    startTime: new Date().toISOString(),
+                    status: 'active',
+                    createdBy: { _id: user._id, firstName: user.firstName, lastName: user.lastName },
+                },
+                participants: new Map(),
+                sockets: new Map(),
+                messages: [],
+            };
+            meetings.set(meetingRoomId, meeting);
+        }
+        return meeting;
+    };
+
+    const state = (meeting) => ({
+        meeting: meeting.meeting,
+        participants: Array.from(meeting.participants.values()),
+        messages: meeting.messages,
+    });
+
+    const leave = (socket, meetingRoomId) => {
+        const meeting = meetings.get(meetingRoomId);
+        const userId = socket.data.user._id;
+        socket.leave(meetingRoomId);
+        if (!meeting || !meeting.sockets.has(userId)) return;
+
+        const count = meeting.sockets.get(userId) - 1;
+        if (count > 0) {
+            meeting.sockets.set(userId, count);
+            return;
+        }
+        meeting.sockets.delete(userId);
+        const participant = meeting.participants.get(userId);
+        if (participant) participant.isConnected = false;
+        namespace.to(meetingRoomId).emit('participant_left', { participantId: userId });
+    };
+
+    namespace.on('connection', (socket) => {
+        const user = socket.data.user;
+        const joined = new Set();
+
+        socket.on('join_meeting', ({ meetingRoomId } = {}) => {
+            if (!meetingRoomId) {
+                socket.emit('error', { message: 'meetingRoomId is required' });
+                return;
+            }
+
+            const meeting = getMeeting(meetingRoomId, user);
+            // A reconnect re-joins without having left
+            if (!joined.has(meetingRoomId)) {
+                joined.add(meetingRoomId);
+                meeting.sockets.set(user._id, (meeting.sockets.get(user._id) || 0) + 1);
+            }
+            const participant = {
+                _id: user._id,
+                firstName: user.firstName,
+                lastName: user.lastName,
+                email: user.email,
+                picture: user.picture,
+                isConnected: true,
+            };
+            meeting.participants.set(user._id, participant);
+
+            socket.join(meetingRoomId);
+            socket.emit('meeting_state', state(meeting));
+            socket.to(meetingRoomId).emit('participant_joined', { participant });
+        });
+
+        socket.on('leave_meeting', ({ meetingRoomId } = {}) => {
+            if (!joined.delete(meetingRoomId)) return;
+            leave(socket, meetingRoomId);
+        });
+
+        socket.on('send_message', ({ meetingRoomId, content } = {}) => {
+            const meeting = meetings.get(meetingRoomId);
+            if (!meeting || !joined.has(meetingRoomId) || !content) {
+                socket.emit('error', { message: 'Join the meeting before sending messages' });
+                return;
+            }
+            const message = {
+                id: newId(),
+                meetingRoomId,
+                userId: user._id,
+                content,
+                createdAt: new Date().toISOString(),
+                user: { _id: user._id, firstName: user.firstName, lastName: user.lastName, email: user.email, picture: user.picture },
+            };
+            meeting.messages.push(message);
+            namespace.to(meetingRoomId).emit('meeting_message', message);
+        });
+
+        socket.on('disconnect', () => {
+            joined.forEach((meetingRoomId) => leave(socket, meetingRoomId));
+            joined.clear();
+        });
+    });
+}
+
+/**
+ * Start the server; resolves once it is listening. Port 0 picks a free port.
+ */
+export function startRealtimeServer({ port = 3000, log = false } = {}) {
+    const httpServer = createServer((_, res) => {
+        res.writeHead(404).end();
+    });
+    const io = new Server(httpServer, { cors: { origin: true, credentials: true } });
+
+    const namespaces = {
+        '/ws/docs': attachDocuments,
+        '/ws/chat': attachChat,
+        '/ws/meetings': attachMeetings,
+    };
+    const cleanups = [];
+    Object.entries(namespaces).forEach(([name, attach]) => {
+        const namespace = io.of(name);
+        namespace.use(authenticate);
+        if (log) {
+            namespace.on('connection', (socket) => {
+                console.log(`🔌 ${name}: ${socket.data.user.name} connected`);
+                socket.on('disconnect', (reason) => console.log(`⚠️ ${name}: ${socket.data.user.name} disconnected (${reason})`));
+            });
+        }
+        const cleanup = attach(namespace);
+        if (cleanup) cleanups.push(cleanup);
+    });
+
+    return new Promise((resolve, reject) => {
+        httpServer.once('error', reject);
+        httpServer.listen(port, () => {
+            resolve({
+                io,
+                port: httpServer.address().port,
+                close: () => new Promise((done) => io.close(() => {
+                    cleanups.forEach((cleanup) => cleanup());
+                    done();
+                })),
+            });
+        });
+    });
+}
+
+if (import.meta.url === pathToFileURL(process.argv[1] || '').href) {
+    const port = Number(process.env.REALTIME_PORT || 3000);
+    startRealtimeServer({ port, log: true })
+        .then((server) => console.log(`✅ Realtime server listening on http://localhost:${server.port}`))
+        .catch((error) => {
+            console.error('❌ Failed to start the realtime server:', error);
+            process.exit(1);
+        });
+}
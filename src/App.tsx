@@ -15,6 +15,7 @@ import Documents from "./components/pages/Documents";
 import Folders from "./components/pages/Folders";
 import FolderDetail from "./components/pages/FolderDetail";
 import DocumentEditor from "./components/pages/DocumentEditor";
+import PresenterView from "./components/pages/PresenterView";
 import Calendar from "./components/pages/Calendar";
 import Chat from "./components/pages/Chat";
 import AIAssistant from "./components/pages/AIAssistant";
@@ -81,6 +82,7 @@ export default function App() {
             {/* Meeting room - accessible without authentication (participants need to join via link) */}
             <Route path="/meet" element={<MeetingRoom />} />
             <Route element={<PrivateRoute />}>
+              <Route path="/documents/:id/presenter" element={<PresenterView />} />
               <Route element={<MainLayout onLogout={handleLogout} />}>
                 <Route path="/" element={<Dashboard />} />
                 <Route path="/dashboard" element={<Dashboard />} />
@@ -88,6 +90,7 @@ export default function App() {
                 <Route path="/folders" element={<Folders />} />
                 <Route path="/folders/:id" element={<FolderDetail />} />
                 <Route path="/documents/:id" element={<DocumentEditor />} />
+                <Route path="/documents/:id/history" element={<HistoricalChangesPage />} />
                 <Route path="/analytics" element={<Analytics />} />
                 <Route
                   path="/business-analytics"
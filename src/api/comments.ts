@@ -19,22 +19,49 @@ axiosAuth.interceptors.request.use((config) => {
     return config;
 });
 
+// Position of an inline comment: a character range inside a block's text.
+// quote/prefix/suffix let the range be found again after the text around it is edited.
+export interface CommentAnchor {
+    blockId: string;
+    start: number;
+    end: number;
+    quote: string;
+    prefix?: string;
+    suffix?: string;
+}
+
+export interface CommentUser {
+    _id: string;
+    firstName: string;
+    lastName: string;
+    email: string;
+}
+
+export interface CommentReaction {
+    emoji: string;
+    users: string[];
+}
+
 export interface Comment {
     _id: string;
     content: string;
+    anchor?: CommentAnchor;
+    // Set on replies - the id of the thread's top-level comment
+    parentId?: string | null;
+    resolved?: boolean;
+    resolvedBy?: CommentUser | string | null;
+    resolvedAt?: string;
+    reactions?: CommentReaction[];
     createdAt: string;
-    user: {
-        _id: string;
-        firstName: string;
-        lastName: string;
-        email: string;
-    };
+    user: CommentUser;
     document: string;
 }
 
 export interface CreateCommentDto {
     content: string;
     document: string;
+    anchor?: CommentAnchor;
+    parentId?: string;
 }
 
 export const commentsApi = {
@@ -54,6 +81,26 @@ export const commentsApi = {
     delete: (id: string): Promise<void> =>
         axiosAuth.delete(`/comments/${id}`).then(() => undefined),
 
+    // Reply to a thread
+    reply: (parentId: string, data: CreateCommentDto): Promise<Comment> =>
+        axiosAuth.post('/comments', { ...data, parentId }).then((r) => r.data),
+
+    // Mark a thread as resolved
+    resolve: (id: string): Promise<Comment> =>
+        axiosAuth.put(`/comments/${id}/resolve`, {}).then((r) => r.data),
+
+    // Reopen a resolved thread
+    reopen: (id: string): Promise<Comment> =>
+        axiosAuth.put(`/comments/${id}/reopen`, {}).then((r) => r.data),
+
+    // Add the current user's emoji reaction
+    addReaction: (id: string, emoji: string): Promise<Comment> =>
+        axiosAuth.post(`/comments/${id}/reactions`, { emoji }).then((r) => r.data),
+
+    // Remove the current user's emoji reaction
+    removeReaction: (id: string, emoji: string): Promise<Comment> =>
+        axiosAuth.delete(`/comments/${id}/reactions/${encodeURIComponent(emoji)}`).then((r) => r.data),
+
     // Get a single comment
     getById: (id: string): Promise<Comment> =>
         axiosAuth.get(`/comments/${id}`).then((r) => r.data),
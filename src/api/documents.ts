@@ -168,10 +168,23 @@ export const documentsApi = {
             });
     },
 
+    // Get document content to compare with a local copy - unlike getContent, fails on network errors
+    getLatestContent: (documentId: string): Promise<DocumentContent | null> =>
+        axiosAuth.get(`/content/document/${documentId}`)
+            .then((r) => (r.data?.content ? r.data : null))
+            .catch((err) => {
+                if (err.response?.status === 404) return null;
+                throw err;
+            }),
+
     // Create/Update document content
     saveContent: (data: CreateContentDto): Promise<DocumentContent> =>
         axiosAuth.post('/content', data).then((r) => r.data),
 
+    // Get documents whose content links to this document
+    getBacklinks: (documentId: string): Promise<Document[]> =>
+        axiosAuth.get(`/Document/${documentId}/backlinks`).then((r) => r.data),
+
     // Favorite a document
     favorite: (documentId: string): Promise<Document> =>
         axiosAuth.post(`/Document/${documentId}/favorite`, {}).then((r) => r.data),
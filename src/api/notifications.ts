@@ -41,6 +41,16 @@ export interface Notification {
     updatedAt: string;
 }
 
+export interface CreateNotificationDto {
+    recipient: string;
+    title: string;
+    message: string;
+    type: string;
+    documentId?: string;
+    folderId?: string;
+    metadata?: any;
+}
+
 export const notificationsApi = {
     // Get all notifications
     getAll: (): Promise<Notification[]> =>
@@ -62,6 +72,10 @@ export const notificationsApi = {
     markAllAsRead: (): Promise<void> =>
         axiosAuth.put('/notifications/mark-all-read').then(() => undefined),
 
+    // Create a notification for another user
+    create: (data: CreateNotificationDto): Promise<Notification> =>
+        axiosAuth.post('/notifications', data).then((r) => r.data),
+
     // Delete notification
     delete: (notificationId: string): Promise<void> =>
         axiosAuth.delete(`/notifications/${notificationId}`).then(() => undefined),
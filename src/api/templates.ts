@@ -0,0 +1,56 @@
+import axios from "axios";
+import { API_URL, ACCESS_TOKEN_KEY } from "../lib/config";
+
+// API URL without /api suffix since backend controllers are at root
+const baseURL = API_URL.replace('/api', '');
+
+const axiosAuth = axios.create({
+    baseURL,
+    headers: {
+        "Content-Type": "application/json",
+    },
+});
+
+axiosAuth.interceptors.request.use((config) => {
+    const token = localStorage.getItem(ACCESS_TOKEN_KEY);
+    if (token) {
+        (config.headers as any).Authorization = `Bearer ${token}`;
+    }
+    return config;
+});
+
+// 'user' templates are only visible to their creator, 'folder' templates to everyone in the folder
+export type TemplateScope = 'user' | 'folder';
+
+export interface DocumentTemplate {
+    _id: string;
+    name: string;
+    description?: string;
+    content: string;
+    scope: TemplateScope;
+    folderId?: string;
+    createdBy: string;
+    createdAt: string;
+}
+
+export interface CreateTemplateDto {
+    name: string;
+    description?: string;
+    content: string;
+    scope: TemplateScope;
+    folderId?: string;
+}
+
+export const templatesApi = {
+    // Get the current user's templates, plus the folder's templates when a folder is given
+    getAll: (folderId?: string): Promise<DocumentTemplate[]> =>
+        axiosAuth.get('/template', { params: folderId ? { folderId } : undefined }).then((r) => r.data),
+
+    // Save a template
+    create: (data: CreateTemplateDto): Promise<DocumentTemplate> =>
+        axiosAuth.post('/template', data).then((r) => r.data),
+
+    // Delete a template
+    delete: (id: string): Promise<void> =>
+        axiosAuth.delete(`/template/${id}`).then(() => undefined),
+};
@@ -41,5 +41,16 @@ export const uploadsApi = {
             throw new Error(error?.response?.data?.message || 'Failed to upload image');
         }
     },
+
+    // Fetch an uploaded image (full URL or /uploads/... path) as a Blob
+    fetchImage: async (url: string): Promise<Blob> => {
+        try {
+            const response = await axiosAuth.get(url, { responseType: 'blob' });
+            return response.data;
+        } catch (error: any) {
+            console.error('Image fetch error:', error);
+            throw new Error(error?.response?.data?.message || 'Failed to fetch image');
+        }
+    },
 };
 
@@ -0,0 +1,70 @@
+import axios from "axios";
+import { API_URL, ACCESS_TOKEN_KEY } from "../lib/config";
+
+// API URL without /api suffix since backend controllers are at root
+const baseURL = API_URL.replace('/api', '');
+
+const axiosAuth = axios.create({
+    baseURL,
+    headers: {
+        "Content-Type": "application/json",
+    },
+});
+
+axiosAuth.interceptors.request.use((config) => {
+    const token = localStorage.getItem(ACCESS_TOKEN_KEY);
+    if (token) {
+        (config.headers as any).Authorization = `Bearer ${token}`;
+    }
+    return config;
+});
+
+export interface VersionAuthor {
+    _id?: string;
+    firstName: string;
+    lastName: string;
+    email: string;
+}
+
+export interface DocumentVersion {
+    _id: string;
+    documentId?: string;
+    version: number;
+    // Editor.js data, as stored by the editor (a JSON string or an object)
+    content: any;
+    createdBy: VersionAuthor;
+    // Named milestones (saved from the editor) are kept when old automatic versions are pruned
+    name?: string;
+    milestone?: boolean;
+    description?: string;
+    createdAt: string;
+}
+
+export interface CreateSnapshotDto {
+    name: string;
+    description?: string;
+    // Defaults to the document's current content on the server
+    content?: string;
+}
+
+export const versionsApi = {
+    // Get a document's versions, newest first
+    getAll: (documentId: string): Promise<DocumentVersion[]> =>
+        axiosAuth.get(`/documents/${documentId}/versions`).then((r) => r.data),
+
+    // Get one version with its content
+    getById: (documentId: string, versionId: string): Promise<DocumentVersion> =>
+        axiosAuth.get(`/documents/${documentId}/versions/${versionId}`).then((r) => r.data),
+
+    // Replace the document's content with a version (the server keeps the current content as a new version)
+    restore: (documentId: string, versionId: string): Promise<DocumentVersion> =>
+        axiosAuth.post(`/documents/${documentId}/versions/${versionId}/restore`).then((r) => r.data),
+
+    // Delete a version
+    delete: (documentId: string, versionId: string): Promise<void> =>
+        axiosAuth.post(`/documents/${documentId}/versions/${versionId}/delete`).then(() => undefined),
+
+    // Save the document's content as a named milestone version
+    createSnapshot: (documentId: string, data: CreateSnapshotDto): Promise<DocumentVersion> =>
+        axiosAuth.post(`/documents/${documentId}/versions`, { ...data, milestone: true }).then((r) => r.data),
+};
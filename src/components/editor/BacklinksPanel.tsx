@@ -0,0 +1,71 @@
+import { useState, useEffect } from 'react';
+import { Link } from 'react-router-dom';
+import { FileText, Link2 } from 'lucide-react';
+import { documentsApi, Document } from '../../api/documents';
+
+interface BacklinksPanelProps {
+    documentId: string;
+}
+
+/**
+ * "Linked from" panel listing the documents whose content links to this one
+ */
+export default function BacklinksPanel({ documentId }: BacklinksPanelProps) {
+    const [backlinks, setBacklinks] = useState<Document[]>([]);
+    const [loading, setLoading] = useState(true);
+
+    useEffect(() => {
+        let cancelled = false;
+        setLoading(true);
+
+        documentsApi.getBacklinks(documentId)
+            .then((docs) => {
+                if (!cancelled) setBacklinks(docs.filter((doc) => !doc.archived && doc._id !== documentId));
+            })
+            .catch((error) => {
+                console.error('Failed to load backlinks:', error);
+                if (!cancelled) setBacklinks([]);
+            })
+            .finally(() => {
+                if (!cancelled) setLoading(false);
+            });
+
+        return () => {
+            cancelled = true;
+        };
+    }, [documentId]);
+
+    return (
+        <div className="bg-white dark:bg-card rounded-xl shadow-sm p-4">
+            <div className="flex items-center gap-2 mb-2">
+                <Link2 className="w-4 h-4 text-muted-foreground" />
+                <h3 className="text-sm font-medium text-foreground">Linked from</h3>
+                {backlinks.length > 0 && (
+                    <span className="text-xs text-muted-foreground">({backlinks.length})</span>
+                )}
+            </div>
+
+            {loading ? (
+                <p className="text-xs text-muted-foreground">Loading...</p>
+            ) : backlinks.length === 0 ? (
+                <p className="text-xs text-muted-foreground">
+                    No documents link here yet. Type [[ in another document to link to this one.
+                </p>
+            ) : (
+                <ul className="space-y-1">
+                    {backlinks.map((doc) => (
+                        <li key={doc._id}>
+                            <Link
+                                to={`/documents/${doc._id}`}
+                                className="flex items-center gap-2 px-2 py-1 rounded-md text-sm text-foreground hover:bg-accent"
+                            >
+                                <FileText className="w-4 h-4 text-muted-foreground" />
+                                <span className="truncate">{doc.Title || 'Untitled Document'}</span>
+                            </Link>
+                        </li>
+                    ))}
+                </ul>
+            )}
+        </div>
+    );
+}
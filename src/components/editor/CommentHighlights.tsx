@@ -0,0 +1,119 @@
+import { useEffect, useRef, useCallback } from 'react';
+import { resolveAnchor, rangeContainsPoint } from '../../lib/comments/anchors';
+import { useCommentsStore } from '../../lib/comments/commentsStore';
+
+interface CommentHighlightsProps {
+    onOpenThread: (commentId: string) => void;
+}
+
+const HIGHLIGHT_NAME = 'comment-anchor';
+const ACTIVE_HIGHLIGHT_NAME = 'comment-anchor-active';
+
+// CSS Custom Highlight API paints ranges without touching the editor's DOM,
+// so highlights never end up in saved content
+const supportsHighlights = () => typeof CSS !== 'undefined' && 'highlights' in CSS && typeof Highlight !== 'undefined';
+
+/**
+ * Highlights the text that inline comments are anchored to and opens a thread when its text is clicked.
+ * Anchors are re-resolved whenever the editor content changes (local or remote edits).
+ */
+export default function CommentHighlights({ onOpenThread }: CommentHighlightsProps) {
+    const comments = useCommentsStore((state) => state.comments);
+    const activeCommentId = useCommentsStore((state) => state.activeCommentId);
+    const setOrphanedIds = useCommentsStore((state) => state.setOrphanedIds);
+    const setActiveComment = useCommentsStore((state) => state.setActiveComment);
+    const rangesRef = useRef<Map<string, Range>>(new Map());
+
+    const repaint = useCallback(() => {
+        const holder = window.document.getElementById('editorjs');
+        if (!holder) return;
+
+        const ranges = new Map<string, Range>();
+        const orphaned = new Set<string>();
+        comments.forEach((comment) => {
+            // Replies share their thread's anchor; resolved threads are no longer highlighted
+            if (!comment.anchor || comment.parentId || comment.resolved) return;
+            const range = resolveAnchor(comment.anchor, holder);
+            if (range) {
+                ranges.set(comment._id, range);
+            } else {
+                orphaned.add(comment._id);
+            }
+        });
+        rangesRef.current = ranges;
+        setOrphanedIds(orphaned);
+
+        if (!supportsHighlights()) return;
+        const inactive = Array.from(ranges.entries())
+            .filter(([commentId]) => commentId !== activeCommentId)
+            .map(([, range]) => range);
+        const active = activeCommentId ? ranges.get(activeCommentId) : undefined;
+
+        CSS.highlights.set(HIGHLIGHT_NAME, new Highlight(...inactive));
+        if (active) {
+            CSS.highlights.set(ACTIVE_HIGHLIGHT_NAME, new Highlight(active));
+        } else {
+            CSS.highlights.delete(ACTIVE_HIGHLIGHT_NAME);
+        }
+    }, [comments, activeCommentId, setOrphanedIds]);
+
+    // Repaint now and after every content change
+    useEffect(() => {
+        repaint();
+
+        const holder = window.document.getElementById('editorjs');
+        if (!holder) return;
+
+        let timer: NodeJS.Timeout | null = null;
+        const observer = new MutationObserver(() => {
+            if (timer) clearTimeout(timer);
+            timer = setTimeout(repaint, 150);
+        });
+        observer.observe(holder, { childList: true, subtree: true, characterData: true });
+
+        return () => {
+            observer.disconnect();
+            if (timer) clearTimeout(timer);
+        };
+    }, [repaint]);
+
+    // Clear highlights when the editor goes away
+    useEffect(() => {
+        return () => {
+            if (supportsHighlights()) {
+                CSS.highlights.delete(HIGHLIGHT_NAME);
+                CSS.highlights.delete(ACTIVE_HIGHLIGHT_NAME);
+            }
+        };
+    }, []);
+
+    // Clicking highlighted text opens its thread
+    useEffect(() => {
+        const holder = window.document.getElementById('editorjs');
+        if (!holder) return;
+
+        const handleClick = (e: MouseEvent) => {
+            const selection = window.getSelection();
+            if (selection && !selection.isCollapsed) return;
+
+            // Innermost (shortest) anchor wins when comments overlap
+            let match: { commentId: string; length: number } | null = null;
+            for (const [commentId, range] of rangesRef.current) {
+                const length = range.toString().length;
+                if (rangeContainsPoint(range, e.clientX, e.clientY) && (!match || length < match.length)) {
+                    match = { commentId, length };
+                }
+            }
+
+            if (match) {
+                setActiveComment(match.commentId);
+                onOpenThread(match.commentId);
+            }
+        };
+
+        holder.addEventListener('click', handleClick);
+        return () => holder.removeEventListener('click', handleClick);
+    }, [onOpenThread, setActiveComment]);
+
+    return null;
+}
@@ -0,0 +1,46 @@
+import type { API, InlineTool } from '@editorjs/editorjs';
+import { toast } from 'sonner';
+import { rangeToAnchor } from '../../lib/comments/anchors';
+import { useCommentsStore } from '../../lib/comments/commentsStore';
+
+const COMMENT_ICON = '<svg xmlns="http://www.w3.org/2000/svg" width="24" height="24" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2" stroke-linecap="round" stroke-linejoin="round"><path d="M7.9 20A9 9 0 1 0 4 16.1L2 22Z"/><path d="M12 8v6"/><path d="M9 11h6"/></svg>';
+
+/**
+ * Editor.js inline tool that starts a comment on the selected text.
+ * It doesn't change the block's markup - the selection is stored as a pending
+ * anchor and CommentsPanel attaches it to the next comment.
+ */
+export default class CommentTool implements InlineTool {
+    static isInline = true;
+    static title = 'Comment';
+
+    private api: API;
+    private button: HTMLButtonElement | null = null;
+
+    constructor({ api }: { api: API }) {
+        this.api = api;
+    }
+
+    render(): HTMLElement {
+        this.button = document.createElement('button');
+        this.button.type = 'button';
+        this.button.classList.add(this.api.styles.inlineToolButton);
+        this.button.innerHTML = COMMENT_ICON;
+        return this.button;
+    }
+
+    surround(range: Range): void {
+        const anchor = rangeToAnchor(range);
+        if (!anchor) {
+            toast.error('Select text within a single block to comment on it');
+            return;
+        }
+
+        useCommentsStore.getState().setPendingAnchor(anchor);
+        this.api.inlineToolbar.close();
+    }
+
+    checkState(): boolean {
+        return false;
+    }
+}
@@ -0,0 +1,89 @@
+import { useEffect, useCallback } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { toast } from 'sonner';
+import { DOCUMENT_LINK_SELECTOR, getDocumentLinkStatus } from '../../lib/documentLinks';
+
+const BROKEN_CLASS = 'doc-link--broken';
+
+/**
+ * Keeps document link chips in the editor live: each chip shows its target's current
+ * title, links to deleted or archived documents are marked broken, and clicking a chip
+ * opens the linked document. Chips are re-checked whenever the editor content changes.
+ */
+export default function DocumentLinkChips() {
+    const navigate = useNavigate();
+
+    const refresh = useCallback(() => {
+        const holder = window.document.getElementById('editorjs');
+        if (!holder) return;
+
+        holder.querySelectorAll<HTMLAnchorElement>(DOCUMENT_LINK_SELECTOR).forEach((chip) => {
+            const documentId = chip.dataset.documentId!;
+            getDocumentLinkStatus(documentId)
+                .then((status) => {
+                    // Only touch the DOM when something changed - every edit is synced to collaborators
+                    if (!status.broken && chip.textContent !== status.title) {
+                        chip.textContent = status.title;
+                    }
+                    if (chip.classList.contains(BROKEN_CLASS) !== status.broken) {
+                        chip.classList.toggle(BROKEN_CLASS, status.broken);
+                    }
+                })
+                .catch(() => {
+                    // Leave the chip as it is until the target can be checked
+                });
+        });
+    }, []);
+
+    // Re-check chips now and after every content change (local or remote)
+    useEffect(() => {
+        refresh();
+
+        const holder = window.document.getElementById('editorjs');
+        if (!holder) return;
+
+        let timer: NodeJS.Timeout | null = null;
+        const observer = new MutationObserver(() => {
+            if (timer) clearTimeout(timer);
+            timer = setTimeout(refresh, 300);
+        });
+        observer.observe(holder, { childList: true, subtree: true, characterData: true });
+
+        return () => {
+            observer.disconnect();
+            if (timer) clearTimeout(timer);
+        };
+    }, [refresh]);
+
+    // Links inside contenteditable don't navigate on their own
+    useEffect(() => {
+        const holder = window.document.getElementById('editorjs');
+        if (!holder) return;
+
+        const handleClick = (e: MouseEvent) => {
+            const chip = (e.target as HTMLElement).closest<HTMLAnchorElement>(DOCUMENT_LINK_SELECTOR);
+            if (!chip || !holder.contains(chip)) return;
+
+            e.preventDefault();
+            const documentId = chip.dataset.documentId!;
+            getDocumentLinkStatus(documentId)
+                .then((status) => {
+                    if (status.broken) {
+                        toast.error(status.reason === 'archived'
+                            ? 'The linked document has been archived'
+                            : 'The linked document no longer exists');
+                    } else if (e.ctrlKey || e.metaKey) {
+                        window.open(`/documents/${documentId}`, '_blank');
+                    } else {
+                        navigate(`/documents/${documentId}`);
+                    }
+                })
+                .catch(() => toast.error('Failed to open the linked document'));
+        };
+
+        holder.addEventListener('click', handleClick);
+        return () => holder.removeEventListener('click', handleClick);
+    }, [navigate]);
+
+    return null;
+}
@@ -0,0 +1,220 @@
+import { useState, useEffect, useRef, useCallback } from 'react';
+import type EditorJS from '@editorjs/editorjs';
+import { FileText, Loader2 } from 'lucide-react';
+import {
+    Command,
+    CommandEmpty,
+    CommandGroup,
+    CommandInput,
+    CommandItem,
+    CommandList,
+} from '../ui/command';
+import { documentsApi, Document } from '../../api/documents';
+import { DOCUMENT_LINK_REQUEST_EVENT, documentLinkHtml } from '../../lib/documentLinks';
+import { MENTION_BLOCK_TOOLS } from '../../lib/mentions';
+import type { DocumentLinkRequestDetail } from './DocumentLinkTool';
+
+interface DocumentLinkPickerProps {
+    editor: EditorJS;
+    documentId?: string;
+    onChange?: () => void;
+}
+
+const PICKER_WIDTH = 320;
+const PICKER_HEIGHT = 300;
+
+/**
+ * Text before the caret inside the editable element it is in, or null when the caret is outside the editor
+ */
+const getTextBeforeCaret = (holder: HTMLElement): string | null => {
+    const selection = window.getSelection();
+    if (!selection || selection.rangeCount === 0 || !selection.isCollapsed) return null;
+
+    const range = selection.getRangeAt(0);
+    const container = range.startContainer instanceof HTMLElement ? range.startContainer : range.startContainer.parentElement;
+    const editable = container?.closest('[contenteditable="true"]');
+    if (!editable || !holder.contains(editable)) return null;
+
+    const before = window.document.createRange();
+    before.selectNodeContents(editable);
+    before.setEnd(range.startContainer, range.startOffset);
+    return before.toString();
+};
+
+/**
+ * Document picker for [[wiki links]]. Opens when "[[" is typed (or from the inline toolbar)
+ * and inserts a link chip to the chosen document.
+ */
+export default function DocumentLinkPicker({ editor, documentId, onChange }: DocumentLinkPickerProps) {
+    const [isOpen, setIsOpen] = useState(false);
+    const [search, setSearch] = useState('');
+    const [position, setPosition] = useState({ top: 0, left: 0 });
+    const [documents, setDocuments] = useState<Document[] | null>(null);
+    const pickerRef = useRef<HTMLDivElement>(null);
+    const savedRangeRef = useRef<Range | null>(null);
+
+    const restoreSelection = () => {
+        const selection = window.getSelection();
+        if (savedRangeRef.current && selection) {
+            selection.removeAllRanges();
+            selection.addRange(savedRangeRef.current);
+        }
+    };
+
+    const open = useCallback((range: Range) => {
+        savedRangeRef.current = range;
+
+        // Collapsed ranges in empty blocks have no size - fall back to the containing element
+        let rect = range.getBoundingClientRect();
+        if (rect.top === 0 && rect.left === 0) {
+            const element = range.startContainer instanceof HTMLElement ? range.startContainer : range.startContainer.parentElement;
+            rect = element?.getBoundingClientRect() || rect;
+        }
+        const fitsBelow = rect.bottom + PICKER_HEIGHT < window.innerHeight;
+        setPosition({
+            top: fitsBelow ? rect.bottom + 6 : Math.max(8, rect.top - PICKER_HEIGHT - 6),
+            left: Math.min(rect.left, window.innerWidth - PICKER_WIDTH - 8),
+        });
+        setSearch('');
+        setDocuments(null);
+        setIsOpen(true);
+    }, []);
+
+    // `restoreText` puts back the brackets that opened the picker
+    const close = useCallback((restoreText: string) => {
+        setIsOpen(false);
+        setSearch('');
+        if (restoreText) {
+            restoreSelection();
+            window.document.execCommand('insertText', false, restoreText);
+        }
+    }, []);
+
+    // Open when the second "[" of "[[" is typed in a block that keeps link chips
+    useEffect(() => {
+        const holder = window.document.getElementById('editorjs');
+        if (!holder) return;
+
+        const handleKeyDown = (e: KeyboardEvent) => {
+            if (e.key !== '[' || e.ctrlKey || e.metaKey) return;
+
+            const textBefore = getTextBeforeCaret(holder);
+            if (textBefore === null || !textBefore.endsWith('[')) return;
+
+            const block = editor.blocks.getBlockByIndex(editor.blocks.getCurrentBlockIndex());
+            if (!block || !MENTION_BLOCK_TOOLS.includes(block.name)) return;
+
+            e.preventDefault();
+            // Remove the first "[" - the chip replaces both brackets
+            window.document.execCommand('delete');
+            open(window.getSelection()!.getRangeAt(0).cloneRange());
+        };
+
+        holder.addEventListener('keydown', handleKeyDown);
+        return () => holder.removeEventListener('keydown', handleKeyDown);
+    }, [editor, open]);
+
+    // Open from the inline toolbar button
+    useEffect(() => {
+        const handleRequest = (e: Event) => {
+            open((e as CustomEvent<DocumentLinkRequestDetail>).detail.range);
+        };
+
+        window.addEventListener(DOCUMENT_LINK_REQUEST_EVENT, handleRequest);
+        return () => window.removeEventListener(DOCUMENT_LINK_REQUEST_EVENT, handleRequest);
+    }, [open]);
+
+    // Close when clicking outside the picker
+    useEffect(() => {
+        if (!isOpen) return;
+
+        const handleMouseDown = (e: MouseEvent) => {
+            if (pickerRef.current && !pickerRef.current.contains(e.target as Node)) {
+                close('');
+            }
+        };
+
+        window.document.addEventListener('mousedown', handleMouseDown);
+        return () => window.document.removeEventListener('mousedown', handleMouseDown);
+    }, [isOpen, close]);
+
+    // Load documents each time the picker opens so new and renamed ones show up
+    useEffect(() => {
+        if (!isOpen) return;
+
+        let cancelled = false;
+        documentsApi.getAll()
+            .catch(() => [] as Document[])
+            .then((docs) => {
+                if (cancelled) return;
+                setDocuments(docs.filter((doc) => !doc.archived && doc._id !== documentId));
+            });
+        return () => {
+            cancelled = true;
+        };
+    }, [isOpen, documentId]);
+
+    const insertLink = (doc: Document) => {
+        close('');
+        restoreSelection();
+        // Replaces the selected text when opened from the inline toolbar
+        window.document.execCommand('insertHTML', false, documentLinkHtml(doc));
+        onChange?.();
+    };
+
+    const handleKeyDown = (e: React.KeyboardEvent) => {
+        const fromBrackets = savedRangeRef.current?.collapsed ?? false;
+        if (e.key === 'Escape') {
+            e.preventDefault();
+            e.stopPropagation();
+            close(fromBrackets ? '[[' : '');
+        } else if (e.key === 'Backspace' && search === '') {
+            // Backspace removes the second bracket, like it would have without the picker
+            e.preventDefault();
+            close(fromBrackets ? '[' : '');
+        }
+    };
+
+    if (!isOpen) return null;
+
+    return (
+        <div
+            ref={pickerRef}
+            className="fixed z-50 rounded-xl border border-border bg-popover shadow-lg"
+            style={{ top: position.top, left: position.left, width: PICKER_WIDTH }}
+        >
+            <Command loop onKeyDown={handleKeyDown}>
+                <CommandInput
+                    autoFocus
+                    value={search}
+                    onValueChange={setSearch}
+                    placeholder="Link to a document..."
+                />
+                <CommandList style={{ maxHeight: PICKER_HEIGHT - 48 }}>
+                    {documents === null ? (
+                        <div className="flex items-center justify-center py-3 text-sm text-muted-foreground">
+                            <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                            Loading...
+                        </div>
+                    ) : (
+                        <CommandEmpty>No documents found.</CommandEmpty>
+                    )}
+                    {documents && (
+                        <CommandGroup heading="Documents">
+                            {documents.map((doc) => (
+                                <CommandItem
+                                    key={doc._id}
+                                    value={`${doc.Title || 'Untitled Document'} ${doc._id}`}
+                                    onSelect={() => insertLink(doc)}
+                                >
+                                    <FileText className="w-4 h-4" />
+                                    <span className="truncate">{doc.Title || 'Untitled Document'}</span>
+                                </CommandItem>
+                            ))}
+                        </CommandGroup>
+                    )}
+                </CommandList>
+            </Command>
+        </div>
+    );
+}
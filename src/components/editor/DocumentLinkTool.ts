@@ -0,0 +1,66 @@
+import type { API, InlineTool, SanitizerConfig } from '@editorjs/editorjs';
+import { DOCUMENT_LINK_REQUEST_EVENT } from '../../lib/documentLinks';
+
+const FILE_LINK_ICON = '<svg xmlns="http://www.w3.org/2000/svg" width="24" height="24" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2" stroke-linecap="round" stroke-linejoin="round"><path d="M15 2H6a2 2 0 0 0-2 2v16a2 2 0 0 0 2 2h12a2 2 0 0 0 2-2V7Z"/><path d="M14 2v4a2 2 0 0 0 2 2h4"/><path d="M10 13a2 2 0 0 0 3 .2l2-2a2 2 0 0 0-2.8-2.8l-.5.5"/><path d="M13 17a2 2 0 0 0-3-.2l-2 2a2 2 0 0 0 2.8 2.8l.5-.5"/></svg>';
+
+export interface DocumentLinkRequestDetail {
+    range: Range;
+}
+
+/**
+ * Editor.js inline tool for [[wiki links]] to other documents.
+ * The button asks DocumentLinkPicker (via a window event) to open the document picker for
+ * the current selection; clicking it inside an existing link turns the chip back into text.
+ */
+export default class DocumentLinkTool implements InlineTool {
+    static isInline = true;
+    static title = 'Link to document';
+
+    // Registered after the built-in link tool, so this rule for <a> wins and keeps the chip attributes
+    static get sanitize(): SanitizerConfig {
+        return {
+            a: {
+                href: true,
+                target: '_blank',
+                rel: 'nofollow',
+                class: true,
+                'data-document-id': true,
+                contenteditable: true,
+            },
+        } as SanitizerConfig;
+    }
+
+    private api: API;
+    private button: HTMLButtonElement | null = null;
+
+    constructor({ api }: { api: API }) {
+        this.api = api;
+    }
+
+    render(): HTMLElement {
+        this.button = document.createElement('button');
+        this.button.type = 'button';
+        this.button.classList.add(this.api.styles.inlineToolButton);
+        this.button.innerHTML = FILE_LINK_ICON;
+        return this.button;
+    }
+
+    surround(range: Range): void {
+        const chip = this.api.selection.findParentTag('A', 'doc-link');
+        if (chip) {
+            chip.replaceWith(document.createTextNode(chip.textContent || ''));
+            return;
+        }
+
+        window.dispatchEvent(new CustomEvent<DocumentLinkRequestDetail>(DOCUMENT_LINK_REQUEST_EVENT, {
+            detail: { range: range.cloneRange() },
+        }));
+        this.api.inlineToolbar.close();
+    }
+
+    checkState(): boolean {
+        const isActive = !!this.api.selection.findParentTag('A', 'doc-link');
+        this.button?.classList.toggle(this.api.styles.inlineToolButtonActive, isActive);
+        return isActive;
+    }
+}
@@ -0,0 +1,278 @@
+import { useState, useEffect, useCallback, type DragEvent } from 'react';
+import { GripVertical, ListTree, PanelLeftClose } from 'lucide-react';
+import type EditorJS from '@editorjs/editorjs';
+import { Button } from '../ui/button';
+
+interface DocumentOutlineProps {
+    editor: EditorJS;
+    // Sections can't be rearranged in view-only documents or while suggesting
+    readOnly?: boolean;
+    onChange?: () => void;
+}
+
+interface OutlineHeading {
+    id: string;
+    index: number;
+    level: number;
+    text: string;
+}
+
+const COLLAPSED_STORAGE_KEY = 'document_outline_collapsed';
+
+// A heading counts as "in view" once it scrolls above this line (px from the viewport top)
+const ACTIVE_OFFSET = 120;
+
+// Drop target for the space below the last heading
+const END_TARGET = 'end';
+
+const readHeadings = (editor: EditorJS): OutlineHeading[] => {
+    const headings: OutlineHeading[] = [];
+    const count = editor.blocks.getBlocksCount();
+
+    for (let index = 0; index < count; index++) {
+        const block = editor.blocks.getBlockByIndex(index);
+        if (!block || block.name !== 'header') continue;
+
+        // The header tool renders its level as the tag name (h1-h6)
+        const element = block.holder.querySelector<HTMLElement>('.ce-header');
+        if (!element) continue;
+
+        headings.push({
+            id: block.id,
+            index,
+            level: Number(element.tagName.slice(1)) || 2,
+            text: element.textContent?.trim() || '',
+        });
+    }
+    return headings;
+};
+
+/**
+ * Block range [start, end) covered by a heading: the heading itself plus every block
+ * up to the next heading of the same or higher level
+ */
+const sectionRange = (headings: OutlineHeading[], heading: OutlineHeading, blockCount: number) => {
+    const next = headings.find((h) => h.index > heading.index && h.level <= heading.level);
+    return { start: heading.index, end: next ? next.index : blockCount };
+};
+
+/**
+ * Collapsible outline of the document's header blocks.
+ * Highlights the section in view, jumps to a section on click and moves whole
+ * sections when a heading is dragged to another position.
+ */
+export default function DocumentOutline({ editor, readOnly = false, onChange }: DocumentOutlineProps) {
+    const [headings, setHeadings] = useState<OutlineHeading[]>([]);
+    const [activeId, setActiveId] = useState<string | null>(null);
+    const [collapsed, setCollapsed] = useState(() => localStorage.getItem(COLLAPSED_STORAGE_KEY) === 'true');
+    const [draggedId, setDraggedId] = useState<string | null>(null);
+    const [dropTargetId, setDropTargetId] = useState<string | null>(null);
+
+    const refresh = useCallback(() => {
+        try {
+            setHeadings(readHeadings(editor));
+        } catch (error) {
+            console.error('Failed to read document outline:', error);
+        }
+    }, [editor]);
+
+    // Rebuild the outline after every content change (local or remote)
+    useEffect(() => {
+        refresh();
+
+        const holder = window.document.getElementById('editorjs');
+        if (!holder) return;
+
+        let timer: NodeJS.Timeout | null = null;
+        const observer = new MutationObserver(() => {
+            if (timer) clearTimeout(timer);
+            timer = setTimeout(refresh, 150);
+        });
+        observer.observe(holder, { childList: true, subtree: true, characterData: true });
+
+        return () => {
+            observer.disconnect();
+            if (timer) clearTimeout(timer);
+        };
+    }, [refresh]);
+
+    // Track the section currently in view. The page scrolls inside MainLayout's <main>,
+    // so listen in the capture phase to catch scrolls of any container.
+    useEffect(() => {
+        if (headings.length === 0) {
+            setActiveId(null);
+            return;
+        }
+
+        let frame: number | null = null;
+        const updateActive = () => {
+            frame = null;
+            let current = headings[0].id;
+            for (const heading of headings) {
+                const element = window.document.querySelector(`.ce-block[data-id="${CSS.escape(heading.id)}"]`);
+                if (element && element.getBoundingClientRect().top <= ACTIVE_OFFSET) {
+                    current = heading.id;
+                }
+            }
+            setActiveId(current);
+        };
+        const handleScroll = () => {
+            if (frame === null) frame = requestAnimationFrame(updateActive);
+        };
+
+        updateActive();
+        window.document.addEventListener('scroll', handleScroll, true);
+        return () => {
+            window.document.removeEventListener('scroll', handleScroll, true);
+            if (frame !== null) cancelAnimationFrame(frame);
+        };
+    }, [headings]);
+
+    const toggleCollapsed = () => {
+        setCollapsed((prev) => {
+            localStorage.setItem(COLLAPSED_STORAGE_KEY, String(!prev));
+            return !prev;
+        });
+    };
+
+    const jumpToHeading = (heading: OutlineHeading) => {
+        const block = editor.blocks.getById(heading.id);
+        if (!block) return;
+
+        block.holder.scrollIntoView({ behavior: 'smooth', block: 'start' });
+        editor.caret.setToBlock(editor.blocks.getBlockIndex(heading.id), 'end');
+        setActiveId(heading.id);
+    };
+
+    // Move the dragged heading's section in front of the target heading (or to the end)
+    const moveSection = (sourceId: string, targetId: string) => {
+        // Re-read so indexes reflect edits made since the last refresh
+        const current = readHeadings(editor);
+        const blockCount = editor.blocks.getBlocksCount();
+        const source = current.find((h) => h.id === sourceId);
+        if (!source) return;
+
+        const target = targetId === END_TARGET ? null : current.find((h) => h.id === targetId);
+        if (targetId !== END_TARGET && !target) return;
+
+        const { start, end } = sectionRange(current, source, blockCount);
+        const size = end - start;
+        const insertAt = target ? target.index : blockCount;
+
+        // Dropping inside (or right next to) its own section changes nothing
+        if (insertAt >= start && insertAt <= end) return;
+
+        try {
+            if (insertAt > end) {
+                // Moving down: keep taking the section's first block to just before the target
+                for (let i = 0; i < size; i++) {
+                    editor.blocks.move(insertAt - 1, start);
+                }
+            } else {
+                // Moving up: take each block in order to just after the previous one
+                for (let i = 0; i < size; i++) {
+                    editor.blocks.move(insertAt + i, start + i);
+                }
+            }
+
+            onChange?.();
+            refresh();
+        } catch (error) {
+            console.error('Failed to move section:', error);
+        }
+    };
+
+    const handleDrop = (e: DragEvent, targetId: string) => {
+        e.preventDefault();
+        if (draggedId && draggedId !== targetId) {
+            moveSection(draggedId, targetId);
+        }
+        setDraggedId(null);
+        setDropTargetId(null);
+    };
+
+    const dropProps = (targetId: string) => ({
+        onDragOver: (e: DragEvent) => {
+            if (!draggedId) return;
+            e.preventDefault();
+            e.dataTransfer.dropEffect = 'move';
+            setDropTargetId(targetId);
+        },
+        onDragLeave: () => setDropTargetId((prev) => (prev === targetId ? null : prev)),
+        onDrop: (e: DragEvent) => handleDrop(e, targetId),
+    });
+
+    if (collapsed) {
+        return (
+            <Button
+                variant="ghost"
+                size="icon"
+                className="rounded-lg"
+                title="Show outline"
+                onClick={toggleCollapsed}
+            >
+                <ListTree className="w-4 h-4" />
+            </Button>
+        );
+    }
+
+    const minLevel = headings.reduce((min, heading) => Math.min(min, heading.level), 6);
+
+    return (
+        <nav className="document-outline" aria-label="Document outline">
+            <div className="flex items-center justify-between mb-2">
+                <span className="text-xs font-medium text-muted-foreground">Outline</span>
+                <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-6 w-6"
+                    title="Hide outline"
+                    onClick={toggleCollapsed}
+                >
+                    <PanelLeftClose className="w-3 h-3" />
+                </Button>
+            </div>
+
+            {headings.length === 0 ? (
+                <p className="text-xs text-muted-foreground">
+                    Add headings to see the document outline
+                </p>
+            ) : (
+                <ul>
+                    {headings.map((heading) => (
+                        <li
+                            key={heading.id}
+                            draggable={!readOnly}
+                            className={[
+                                'document-outline__item',
+                                heading.id === activeId ? 'document-outline__item--active' : '',
+                                heading.id === draggedId ? 'document-outline__item--dragging' : '',
+                                heading.id === dropTargetId && heading.id !== draggedId ? 'document-outline__item--drop-target' : '',
+                            ].join(' ')}
+                            style={{ paddingLeft: `${(heading.level - minLevel) * 12 + 4}px` }}
+                            title={heading.text}
+                            onClick={() => jumpToHeading(heading)}
+                            onDragStart={(e) => {
+                                e.dataTransfer.effectAllowed = 'move';
+                                e.dataTransfer.setData('text/plain', heading.text);
+                                setDraggedId(heading.id);
+                            }}
+                            onDragEnd={() => {
+                                setDraggedId(null);
+                                setDropTargetId(null);
+                            }}
+                            {...dropProps(heading.id)}
+                        >
+                            {!readOnly && <GripVertical className="document-outline__grip w-3 h-3" />}
+                            <span className="truncate">{heading.text || 'Untitled section'}</span>
+                        </li>
+                    ))}
+                    <li
+                        className={`document-outline__end ${dropTargetId === END_TARGET ? 'document-outline__item--drop-target' : ''}`}
+                        {...dropProps(END_TARGET)}
+                    />
+                </ul>
+            )}
+        </nav>
+    );
+}
@@ -0,0 +1,455 @@
+import { useState, useEffect, useRef, useCallback, useMemo } from 'react';
+import type EditorJS from '@editorjs/editorjs';
+import {
+    CaseSensitive,
+    ChevronDown,
+    ChevronRight,
+    ChevronUp,
+    Regex,
+    Replace,
+    ReplaceAll,
+    WholeWord,
+    X,
+} from 'lucide-react';
+import { toast } from 'sonner';
+import { Button } from '../ui/button';
+import { Input } from '../ui/input';
+import {
+    FindMatch,
+    FindOptions,
+    buildSearchPattern,
+    findMatches,
+    findRangesInBlock,
+    replaceInBlock,
+    replacementRangesInBlock,
+} from '../../lib/findReplace';
+import {
+    SUGGEST_REPLACEMENT_REQUEST_EVENT,
+    SUGGESTION_BLOCK_TOOLS,
+    SuggestReplacementRequestDetail,
+    SuggestedReplacement,
+} from '../../lib/suggestions';
+
+interface FindReplaceBarProps {
+    editor: EditorJS;
+    // View-only documents can be searched but not changed
+    readOnly?: boolean;
+    // Suggesting mode: replacements become suggested deletions and insertions
+    suggesting?: boolean;
+    onChange?: () => void;
+}
+
+const MATCH_HIGHLIGHT = 'find-match';
+const CURRENT_MATCH_HIGHLIGHT = 'find-match-current';
+
+const supportsHighlights = () => typeof CSS !== 'undefined' && 'highlights' in CSS && typeof Highlight !== 'undefined';
+
+const clearHighlights = () => {
+    if (!supportsHighlights()) return;
+    CSS.highlights.delete(MATCH_HIGHLIGHT);
+    CSS.highlights.delete(CURRENT_MATCH_HIGHLIGHT);
+};
+
+const sameMatch = (a: FindMatch, b: FindMatch) =>
+    a.blockId === b.blockId && a.fieldIndex === b.fieldIndex && a.start === b.start && a.end === b.end;
+
+/**
+ * Find & replace bar for the document editor (Ctrl/Cmd+F, Ctrl/Cmd+H).
+ * Searches every block's saved data, highlights matches in the editor and writes
+ * replacements back with `editor.blocks.update`, so they sync like any other edit.
+ * In suggesting mode replacements are handed to SuggestionTracker as suggestions instead.
+ */
+export default function FindReplaceBar({ editor, readOnly = false, suggesting = false, onChange }: FindReplaceBarProps) {
+    const [isOpen, setIsOpen] = useState(false);
+    const [showReplace, setShowReplace] = useState(false);
+    const [query, setQuery] = useState('');
+    const [replacement, setReplacement] = useState('');
+    const [options, setOptions] = useState<FindOptions>({ caseSensitive: false, wholeWord: false, regex: false });
+    const [matches, setMatches] = useState<FindMatch[]>([]);
+    const [currentIndex, setCurrentIndex] = useState(0);
+    const [replacing, setReplacing] = useState(false);
+    const findInputRef = useRef<HTMLDivElement>(null);
+    const scrollToCurrentRef = useRef(false);
+
+    const { pattern, patternError } = useMemo(() => {
+        if (!query) return { pattern: null, patternError: null };
+        try {
+            return { pattern: buildSearchPattern(query, options), patternError: null };
+        } catch (error) {
+            return { pattern: null, patternError: (error as Error).message };
+        }
+    }, [query, options]);
+
+    const focusFindInput = () => {
+        requestAnimationFrame(() => {
+            const input = findInputRef.current?.querySelector('input');
+            input?.focus();
+            input?.select();
+        });
+    };
+
+    const search = useCallback(async () => {
+        if (!pattern) {
+            setMatches([]);
+            return;
+        }
+
+        try {
+            const data = await editor.save();
+            const found = findMatches(data, pattern);
+            setMatches(found);
+            setCurrentIndex((index) => (found.length === 0 ? 0 : Math.min(index, found.length - 1)));
+        } catch (error) {
+            console.error('Find failed:', error);
+        }
+    }, [editor, pattern]);
+
+    // Open with Ctrl/Cmd+F (find) or Ctrl/Cmd+H (find and replace)
+    useEffect(() => {
+        const handleKeyDown = (e: KeyboardEvent) => {
+            if (!(e.ctrlKey || e.metaKey) || e.altKey) return;
+
+            const key = e.key.toLowerCase();
+            if (key !== 'f' && key !== 'h') return;
+
+            e.preventDefault();
+            const selected = window.getSelection()?.toString().trim();
+            if (selected && !selected.includes('\n')) {
+                setQuery(selected);
+            }
+            if (key === 'h' && !readOnly) setShowReplace(true);
+            setIsOpen(true);
+            focusFindInput();
+        };
+
+        window.addEventListener('keydown', handleKeyDown, true);
+        return () => window.removeEventListener('keydown', handleKeyDown, true);
+    }, [readOnly]);
+
+    // Search when the query or options change
+    useEffect(() => {
+        if (!isOpen) return;
+        setCurrentIndex(0);
+        scrollToCurrentRef.current = true;
+        const timer = setTimeout(search, 150);
+        return () => clearTimeout(timer);
+    }, [isOpen, query, options]);
+
+    // Re-run the search after every content change (local or remote) while open
+    useEffect(() => {
+        if (!isOpen) return;
+
+        const holder = window.document.getElementById('editorjs');
+        if (!holder) return;
+
+        let timer: NodeJS.Timeout | null = null;
+        const observer = new MutationObserver(() => {
+            if (timer) clearTimeout(timer);
+            timer = setTimeout(search, 300);
+        });
+        observer.observe(holder, { childList: true, subtree: true, characterData: true });
+
+        return () => {
+            observer.disconnect();
+            if (timer) clearTimeout(timer);
+        };
+    }, [isOpen, search]);
+
+    // Paint matches in the editor and keep the current one in view
+    useEffect(() => {
+        if (!isOpen || !pattern || matches.length === 0) {
+            clearHighlights();
+            return;
+        }
+
+        const current = matches[currentIndex];
+        const all: Range[] = [];
+        let currentRange: Range | null = null;
+
+        for (const blockId of new Set(matches.map((match) => match.blockId))) {
+            const element = window.document.querySelector<HTMLElement>(`.ce-block[data-id="${CSS.escape(blockId)}"]`);
+            if (!element) continue;
+
+            const ranges = findRangesInBlock(element, pattern);
+            all.push(...ranges);
+            if (current?.blockId === blockId) {
+                // The DOM reports a block's matches in the same order as its data
+                const position = matches.filter((match) => match.blockId === blockId).indexOf(current);
+                currentRange = ranges[position] || null;
+            }
+        }
+
+        // Only scroll when the user moved to another match, not when an edit re-ran the search
+        if (current && scrollToCurrentRef.current) {
+            scrollToCurrentRef.current = false;
+            const target = currentRange?.startContainer.parentElement
+                || window.document.querySelector<HTMLElement>(`.ce-block[data-id="${CSS.escape(current.blockId)}"]`);
+            target?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+        }
+
+        if (!supportsHighlights()) return;
+        CSS.highlights.set(MATCH_HIGHLIGHT, new Highlight(...all.filter((range) => range !== currentRange)));
+        if (currentRange) {
+            CSS.highlights.set(CURRENT_MATCH_HIGHLIGHT, new Highlight(currentRange));
+        } else {
+            CSS.highlights.delete(CURRENT_MATCH_HIGHLIGHT);
+        }
+    }, [isOpen, pattern, matches, currentIndex]);
+
+    // Clear highlights when the editor goes away
+    useEffect(() => clearHighlights, []);
+
+    const close = () => {
+        setIsOpen(false);
+        setMatches([]);
+        clearHighlights();
+    };
+
+    const goTo = (offset: number) => {
+        if (matches.length === 0) return;
+        scrollToCurrentRef.current = true;
+        setCurrentIndex((index) => (index + offset + matches.length) % matches.length);
+    };
+
+    const toggleOption = (option: keyof FindOptions) => {
+        setOptions((prev) => ({ ...prev, [option]: !prev[option] }));
+    };
+
+    const holdsSuggestions = (blockId: string) => {
+        const block = editor.blocks.getById(blockId);
+        return !!block && SUGGESTION_BLOCK_TOOLS.includes(block.name);
+    };
+
+    const warnCantSuggest = (count: number) => {
+        toast.info(`${count} ${count === 1 ? 'match is' : 'matches are'} in blocks that can't hold suggestions - switch to Editing to replace them`);
+    };
+
+    // Suggest the replacements through SuggestionTracker. Blocks that can't hold suggestions are skipped
+    const suggestReplacements = (byBlock: Map<string, FindMatch[]>, fresh: FindMatch[]): number => {
+        if (!pattern) return 0;
+
+        const replacements: SuggestedReplacement[] = [];
+        let skipped = 0;
+        for (const [blockId, blockMatches] of byBlock) {
+            const element = window.document.querySelector<HTMLElement>(`.ce-block[data-id="${CSS.escape(blockId)}"]`);
+            if (!element || !holdsSuggestions(blockId)) {
+                skipped += blockMatches.length;
+                continue;
+            }
+
+            const inBlock = fresh.filter((match) => match.blockId === blockId);
+            const positions = blockMatches.map((target) => inBlock.findIndex((match) => sameMatch(match, target)));
+            replacements.push(...replacementRangesInBlock(element, positions, pattern, replacement, options));
+        }
+
+        if (skipped > 0) warnCantSuggest(skipped);
+        if (replacements.length > 0) {
+            window.dispatchEvent(new CustomEvent<SuggestReplacementRequestDetail>(SUGGEST_REPLACEMENT_REQUEST_EVENT, {
+                detail: { replacements },
+            }));
+        }
+        return replacements.length;
+    };
+
+    // Replace the given matches, block by block, through the editor's update path
+    const applyReplacements = async (targets: FindMatch[]): Promise<number> => {
+        if (!pattern) return 0;
+
+        // Work from fresh data - a collaborator may have edited since the last search
+        const data = await editor.save();
+        const fresh = findMatches(data, pattern);
+        const valid = targets.filter((target) => fresh.some((match) => sameMatch(match, target)));
+
+        const byBlock = new Map<string, FindMatch[]>();
+        valid.forEach((match) => byBlock.set(match.blockId, [...(byBlock.get(match.blockId) || []), match]));
+
+        if (suggesting) return suggestReplacements(byBlock, fresh);
+
+        for (const [blockId, blockMatches] of byBlock) {
+            const block = data.blocks.find((b) => b.id === blockId);
+            if (!block) continue;
+            await editor.blocks.update(blockId, replaceInBlock(block, blockMatches, pattern, replacement, options));
+        }
+
+        if (valid.length > 0) onChange?.();
+        return valid.length;
+    };
+
+    const handleReplace = async () => {
+        const current = matches[currentIndex];
+        if (!current) return;
+        if (suggesting && !holdsSuggestions(current.blockId)) {
+            warnCantSuggest(1);
+            return;
+        }
+
+        try {
+            setReplacing(true);
+            const replaced = await applyReplacements([current]);
+            if (replaced === 0) {
+                toast.error('The document changed - search again');
+            }
+            await search();
+        } catch (error) {
+            console.error('Replace failed:', error);
+            toast.error('Failed to replace');
+        } finally {
+            setReplacing(false);
+        }
+    };
+
+    const handleReplaceAll = async () => {
+        if (matches.length === 0) return;
+
+        try {
+            setReplacing(true);
+            const replaced = await applyReplacements(matches);
+            const occurrences = `${replaced} ${replaced === 1 ? 'occurrence' : 'occurrences'}`;
+            if (!suggesting) toast.success(`Replaced ${occurrences}`);
+            else if (replaced > 0) toast.success(`Suggested replacing ${occurrences}`);
+            await search();
+        } catch (error) {
+            console.error('Replace all failed:', error);
+            toast.error('Failed to replace');
+        } finally {
+            setReplacing(false);
+        }
+    };
+
+    const handleFindKeyDown = (e: React.KeyboardEvent) => {
+        if (e.key === 'Enter') {
+            e.preventDefault();
+            goTo(e.shiftKey ? -1 : 1);
+        } else if (e.key === 'Escape') {
+            e.preventDefault();
+            close();
+        }
+    };
+
+    const handleReplaceKeyDown = (e: React.KeyboardEvent) => {
+        if (e.key === 'Enter') {
+            e.preventDefault();
+            if (e.ctrlKey || e.metaKey) handleReplaceAll();
+            else handleReplace();
+        } else if (e.key === 'Escape') {
+            e.preventDefault();
+            close();
+        }
+    };
+
+    if (!isOpen) return null;
+
+    const status = patternError
+        ? 'Invalid regex'
+        : !query
+            ? ''
+            : matches.length === 0
+                ? 'No results'
+                : `${currentIndex + 1} of ${matches.length}`;
+
+    const optionButtons: Array<{ option: keyof FindOptions; label: string; icon: typeof CaseSensitive }> = [
+        { option: 'caseSensitive', label: 'Match case', icon: CaseSensitive },
+        { option: 'wholeWord', label: 'Match whole word', icon: WholeWord },
+        { option: 'regex', label: 'Use regular expression', icon: Regex },
+    ];
+
+    return (
+        <div className="find-replace-bar rounded-xl border border-border bg-popover shadow-lg p-2 space-y-2">
+            <div className="flex items-center gap-1">
+                {!readOnly && (
+                    <Button
+                        variant="ghost"
+                        size="icon"
+                        className="h-8 w-8"
+                        title={showReplace ? 'Hide replace' : 'Show replace'}
+                        onClick={() => setShowReplace(!showReplace)}
+                    >
+                        {showReplace ? <ChevronDown className="w-4 h-4" /> : <ChevronRight className="w-4 h-4" />}
+                    </Button>
+                )}
+                <div ref={findInputRef} className="flex-1">
+                    <Input
+                        value={query}
+                        onChange={(e) => setQuery(e.target.value)}
+                        onKeyDown={handleFindKeyDown}
+                        placeholder="Find"
+                        aria-invalid={!!patternError}
+                        title={patternError || undefined}
+                        className="h-8"
+                    />
+                </div>
+                <span className="find-replace-bar__status text-xs text-muted-foreground whitespace-nowrap">{status}</span>
+                {optionButtons.map(({ option, label, icon: Icon }) => (
+                    <Button
+                        key={option}
+                        variant={options[option] ? 'secondary' : 'ghost'}
+                        size="icon"
+                        className="h-8 w-8"
+                        title={label}
+                        aria-pressed={options[option]}
+                        onClick={() => toggleOption(option)}
+                    >
+                        <Icon className="w-4 h-4" />
+                    </Button>
+                ))}
+                <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-8 w-8"
+                    title="Previous match (Shift+Enter)"
+                    disabled={matches.length === 0}
+                    onClick={() => goTo(-1)}
+                >
+                    <ChevronUp className="w-4 h-4" />
+                </Button>
+                <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-8 w-8"
+                    title="Next match (Enter)"
+                    disabled={matches.length === 0}
+                    onClick={() => goTo(1)}
+                >
+                    <ChevronDown className="w-4 h-4" />
+                </Button>
+                <Button variant="ghost" size="icon" className="h-8 w-8" title="Close (Esc)" onClick={close}>
+                    <X className="w-4 h-4" />
+                </Button>
+            </div>
+
+            {showReplace && !readOnly && (
+                <div className="flex items-center gap-1 pl-8">
+                    <div className="flex-1">
+                        <Input
+                            value={replacement}
+                            onChange={(e) => setReplacement(e.target.value)}
+                            onKeyDown={handleReplaceKeyDown}
+                            placeholder={options.regex ? 'Replace ($1 for groups)' : 'Replace'}
+                            className="h-8"
+                        />
+                    </div>
+                    <Button
+                        variant="ghost"
+                        size="icon"
+                        className="h-8 w-8"
+                        title="Replace (Enter)"
+                        disabled={replacing || matches.length === 0}
+                        onClick={handleReplace}
+                    >
+                        <Replace className="w-4 h-4" />
+                    </Button>
+                    <Button
+                        variant="ghost"
+                        size="icon"
+                        className="h-8 w-8"
+                        title="Replace all (Ctrl+Enter)"
+                        disabled={replacing || matches.length === 0}
+                        onClick={handleReplaceAll}
+                    >
+                        <ReplaceAll className="w-4 h-4" />
+                    </Button>
+                </div>
+            )}
+        </div>
+    );
+}
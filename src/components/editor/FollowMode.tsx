@@ -0,0 +1,204 @@
+import { useEffect, useRef, useState } from 'react';
+import { toast } from 'sonner';
+import { Eye, X } from 'lucide-react';
+import { useRealtimeStore } from '../../lib/realtime/realtimeStore';
+import { RemoteCursor, Viewport, sameViewport } from '../../lib/realtime/awareness';
+
+interface FollowModeProps {
+    // Id of the Editor.js holder
+    holderId?: string;
+    // Called with the local viewport whenever it moves
+    onViewportChange?: (viewport: Viewport | null) => void;
+    // Called when this editor starts or stops following someone
+    onFollowingChange?: (userId: string | null) => void;
+}
+
+// Viewport broadcasts are throttled to this interval while scrolling
+const BROADCAST_INTERVAL = 150;
+
+// Keys that scroll the page, and so take over from the followed user
+const SCROLL_KEYS = ['PageUp', 'PageDown', 'Home', 'End'];
+
+// The element the editor scrolls in (the layout's main area, or the page itself)
+const scrollParent = (element: HTMLElement): HTMLElement => {
+    for (let parent = element.parentElement; parent; parent = parent.parentElement) {
+        const { overflowY } = window.getComputedStyle(parent);
+        if (overflowY === 'auto' || overflowY === 'scroll') return parent;
+    }
+    return (window.document.scrollingElement as HTMLElement | null) || window.document.documentElement;
+};
+
+const isPage = (container: HTMLElement) => container === window.document.scrollingElement;
+
+const viewTop = (container: HTMLElement) => (isPage(container) ? 0 : container.getBoundingClientRect().top);
+
+const blockElement = (holder: HTMLElement, blockId: string) =>
+    holder.querySelector<HTMLElement>(`.ce-block[data-id="${CSS.escape(blockId)}"]`);
+
+const readViewport = (holder: HTMLElement, container: HTMLElement): Viewport => {
+    const top = viewTop(container);
+    const first = Array.from(holder.querySelectorAll<HTMLElement>('.ce-block'))
+        .find((block) => block.getBoundingClientRect().bottom > top);
+
+    const selection = window.getSelection();
+    const focus = selection?.focusNode && holder.contains(selection.focusNode) ? selection.focusNode : null;
+    const active = (focus instanceof Element ? focus : focus?.parentElement)?.closest<HTMLElement>('.ce-block');
+
+    const viewport: Viewport = { blockId: null, ratio: 0, activeBlockId: active?.dataset.id || null };
+    if (!first) return viewport;
+
+    const rect = first.getBoundingClientRect();
+    // Above the first block (the title, tags) counts as the top of the document
+    if (rect.top > top && first === holder.querySelector('.ce-block')) return viewport;
+    return { ...viewport, blockId: first.dataset.id || null, ratio: rect.height > 0 ? Math.min(1, Math.max(0, (top - rect.top) / rect.height)) : 0 };
+};
+
+const scrollBy = (container: HTMLElement, delta: number) => {
+    if (isPage(container)) window.scrollBy({ top: delta });
+    else container.scrollTop += delta;
+};
+
+const scrollToViewport = (holder: HTMLElement, container: HTMLElement, viewport: Viewport) => {
+    const block = viewport.blockId ? blockElement(holder, viewport.blockId) : null;
+    if (block) {
+        const rect = block.getBoundingClientRect();
+        scrollBy(container, rect.top + viewport.ratio * rect.height - viewTop(container));
+    } else if (!viewport.blockId) {
+        if (isPage(container)) window.scrollTo({ top: 0 });
+        else container.scrollTop = 0;
+    }
+
+    // Views differ in height - make sure the block they are working in is in this one
+    const active = viewport.activeBlockId ? blockElement(holder, viewport.activeBlockId) : null;
+    active?.scrollIntoView({ block: 'nearest' });
+};
+
+// The followed user's editor to track; with several open, the one they are typing in
+const followedCursor = (cursors: Map<number, RemoteCursor>, userId: string): RemoteCursor | null => {
+    const candidates = Array.from(cursors.values()).filter((cursor) => cursor.user.id === userId);
+    return candidates.find((cursor) => cursor.viewport?.activeBlockId) || candidates.find((cursor) => cursor.viewport) || candidates[0] || null;
+};
+
+/**
+ * Follow mode: shares the local viewport, and while following a collaborator (started from
+ * their avatar in UserPresence) keeps the editor scrolled to wherever they are working, with
+ * the block they are in outlined in their colour. Scrolling yourself or pressing Esc stops it.
+ */
+export default function FollowMode({ holderId = 'editorjs', onViewportChange, onFollowingChange }: FollowModeProps) {
+    const { cursors, following, setFollowing } = useRealtimeStore();
+    const [holder, setHolder] = useState<HTMLElement | null>(null);
+    const lastAppliedRef = useRef<Viewport | null>(null);
+    const onViewportChangeRef = useRef(onViewportChange);
+    onViewportChangeRef.current = onViewportChange;
+    const onFollowingChangeRef = useRef(onFollowingChange);
+    onFollowingChangeRef.current = onFollowingChange;
+
+    const followed = following ? followedCursor(cursors, following) : null;
+
+    useEffect(() => {
+        setHolder(window.document.getElementById(holderId));
+    }, [holderId]);
+
+    useEffect(() => {
+        onFollowingChangeRef.current?.(following);
+        lastAppliedRef.current = null;
+    }, [following]);
+
+    // Share the local viewport as it scrolls and the caret moves between blocks
+    useEffect(() => {
+        if (!holder) return;
+        const container = scrollParent(holder);
+        const scrollTarget: HTMLElement | Window = isPage(container) ? window : container;
+
+        let timer: ReturnType<typeof setTimeout> | null = null;
+        const broadcast = () => {
+            if (timer) return;
+            timer = setTimeout(() => {
+                timer = null;
+                onViewportChangeRef.current?.(readViewport(holder, container));
+            }, BROADCAST_INTERVAL);
+        };
+        broadcast();
+
+        scrollTarget.addEventListener('scroll', broadcast, { passive: true });
+        window.document.addEventListener('selectionchange', broadcast);
+        window.addEventListener('resize', broadcast);
+
+        return () => {
+            if (timer) clearTimeout(timer);
+            scrollTarget.removeEventListener('scroll', broadcast);
+            window.document.removeEventListener('selectionchange', broadcast);
+            window.removeEventListener('resize', broadcast);
+        };
+    }, [holder]);
+
+    // Stop following when the user scrolls themselves or presses Esc
+    useEffect(() => {
+        if (!holder || !following) return;
+        const container = scrollParent(holder);
+        const scrollTarget: HTMLElement | Window = isPage(container) ? window : container;
+
+        const stop = () => setFollowing(null);
+        const handleKeyDown = (e: KeyboardEvent) => {
+            if (e.key === 'Escape' || SCROLL_KEYS.includes(e.key)) stop();
+        };
+
+        scrollTarget.addEventListener('wheel', stop, { passive: true });
+        scrollTarget.addEventListener('touchmove', stop, { passive: true });
+        window.addEventListener('keydown', handleKeyDown);
+
+        return () => {
+            scrollTarget.removeEventListener('wheel', stop);
+            scrollTarget.removeEventListener('touchmove', stop);
+            window.removeEventListener('keydown', handleKeyDown);
+        };
+    }, [holder, following, setFollowing]);
+
+    // The followed user left the document
+    useEffect(() => {
+        if (!following || followed) return;
+        // Give their awareness state a moment to arrive when following starts
+        const timer = setTimeout(() => {
+            toast.info('The person you were following is no longer in this document');
+            setFollowing(null);
+        }, 3000);
+        return () => clearTimeout(timer);
+    }, [following, followed, setFollowing]);
+
+    // Track the followed user's viewport
+    const viewport = followed?.viewport || null;
+    useEffect(() => {
+        if (!holder || !viewport || sameViewport(lastAppliedRef.current, viewport)) return;
+        lastAppliedRef.current = viewport;
+        scrollToViewport(holder, scrollParent(holder), viewport);
+    }, [holder, viewport]);
+
+    // Outline the block they are working in
+    const activeBlockId = viewport?.activeBlockId || null;
+    const color = followed?.user.color;
+    useEffect(() => {
+        if (!holder || !activeBlockId || !color) return;
+        const block = blockElement(holder, activeBlockId);
+        if (!block) return;
+
+        block.classList.add('ce-block--followed');
+        block.style.setProperty('--follow-color', color);
+        return () => {
+            block.classList.remove('ce-block--followed');
+            block.style.removeProperty('--follow-color');
+        };
+    }, [holder, activeBlockId, color]);
+
+    if (!following || !followed) return null;
+
+    return (
+        <div className="follow-banner" style={{ borderColor: followed.user.color }} role="status">
+            <Eye className="w-4 h-4" style={{ color: followed.user.color }} />
+            <span>Following {followed.user.name}</span>
+            <span className="follow-banner__hint">Esc to stop</span>
+            <button type="button" className="follow-banner__stop" onClick={() => setFollowing(null)} aria-label="Stop following">
+                <X className="w-3 h-3" />
+            </button>
+        </div>
+    );
+}
@@ -0,0 +1,209 @@
+import { useState, useEffect, useRef, useCallback } from 'react';
+import type EditorJS from '@editorjs/editorjs';
+import { AtSign, Loader2 } from 'lucide-react';
+import {
+    Command,
+    CommandEmpty,
+    CommandGroup,
+    CommandInput,
+    CommandItem,
+    CommandList,
+} from '../ui/command';
+import {
+    MENTION_BLOCK_TOOLS,
+    MENTION_REQUEST_EVENT,
+    MentionCandidate,
+    getMentionCandidates,
+    mentionHtml,
+    mentionName,
+} from '../../lib/mentions';
+import type { MentionRequestDetail } from './MentionTool';
+
+interface MentionPickerProps {
+    editor: EditorJS;
+    documentId?: string;
+    onChange?: () => void;
+}
+
+const PICKER_WIDTH = 280;
+const PICKER_HEIGHT = 300;
+
+/**
+ * Text before the caret inside the editable element it is in, or null when the caret is outside the editor
+ */
+const getTextBeforeCaret = (holder: HTMLElement): string | null => {
+    const selection = window.getSelection();
+    if (!selection || selection.rangeCount === 0 || !selection.isCollapsed) return null;
+
+    const range = selection.getRangeAt(0);
+    const container = range.startContainer instanceof HTMLElement ? range.startContainer : range.startContainer.parentElement;
+    const editable = container?.closest('[contenteditable="true"]');
+    if (!editable || !holder.contains(editable)) return null;
+
+    const before = window.document.createRange();
+    before.selectNodeContents(editable);
+    before.setEnd(range.startContainer, range.startOffset);
+    return before.toString();
+};
+
+export default function MentionPicker({ editor, documentId, onChange }: MentionPickerProps) {
+    const [isOpen, setIsOpen] = useState(false);
+    const [search, setSearch] = useState('');
+    const [position, setPosition] = useState({ top: 0, left: 0 });
+    const [people, setPeople] = useState<MentionCandidate[] | null>(null);
+    const pickerRef = useRef<HTMLDivElement>(null);
+    const savedRangeRef = useRef<Range | null>(null);
+
+    const restoreSelection = () => {
+        const selection = window.getSelection();
+        if (savedRangeRef.current && selection) {
+            selection.removeAllRanges();
+            selection.addRange(savedRangeRef.current);
+        }
+    };
+
+    const open = useCallback((range: Range) => {
+        savedRangeRef.current = range;
+
+        // Collapsed ranges in empty blocks have no size - fall back to the containing element
+        let rect = range.getBoundingClientRect();
+        if (rect.top === 0 && rect.left === 0) {
+            const element = range.startContainer instanceof HTMLElement ? range.startContainer : range.startContainer.parentElement;
+            rect = element?.getBoundingClientRect() || rect;
+        }
+        const fitsBelow = rect.bottom + PICKER_HEIGHT < window.innerHeight;
+        setPosition({
+            top: fitsBelow ? rect.bottom + 6 : Math.max(8, rect.top - PICKER_HEIGHT - 6),
+            left: Math.min(rect.left, window.innerWidth - PICKER_WIDTH - 8),
+        });
+        setSearch('');
+        setIsOpen(true);
+    }, []);
+
+    const close = useCallback((insertAt: boolean) => {
+        setIsOpen(false);
+        setSearch('');
+        if (insertAt) {
+            restoreSelection();
+            window.document.execCommand('insertText', false, '@');
+        }
+    }, []);
+
+    // Open when "@" is typed at the start of a word in a block that keeps mention chips
+    useEffect(() => {
+        const holder = window.document.getElementById('editorjs');
+        if (!holder) return;
+
+        const handleKeyDown = (e: KeyboardEvent) => {
+            if (e.key !== '@' || e.ctrlKey || e.metaKey) return;
+
+            const textBefore = getTextBeforeCaret(holder);
+            if (textBefore === null || (textBefore !== '' && !/\s$/.test(textBefore))) return;
+
+            const block = editor.blocks.getBlockByIndex(editor.blocks.getCurrentBlockIndex());
+            if (!block || !MENTION_BLOCK_TOOLS.includes(block.name)) return;
+
+            e.preventDefault();
+            open(window.getSelection()!.getRangeAt(0).cloneRange());
+        };
+
+        holder.addEventListener('keydown', handleKeyDown);
+        return () => holder.removeEventListener('keydown', handleKeyDown);
+    }, [editor, open]);
+
+    // Open from the inline toolbar button
+    useEffect(() => {
+        const handleRequest = (e: Event) => {
+            open((e as CustomEvent<MentionRequestDetail>).detail.range);
+        };
+
+        window.addEventListener(MENTION_REQUEST_EVENT, handleRequest);
+        return () => window.removeEventListener(MENTION_REQUEST_EVENT, handleRequest);
+    }, [open]);
+
+    // Close when clicking outside the picker
+    useEffect(() => {
+        if (!isOpen) return;
+
+        const handleMouseDown = (e: MouseEvent) => {
+            if (pickerRef.current && !pickerRef.current.contains(e.target as Node)) {
+                close(false);
+            }
+        };
+
+        window.document.addEventListener('mousedown', handleMouseDown);
+        return () => window.document.removeEventListener('mousedown', handleMouseDown);
+    }, [isOpen, close]);
+
+    // Load people the first time the picker opens
+    useEffect(() => {
+        if (!isOpen || people !== null) return;
+        getMentionCandidates(documentId).then(setPeople);
+    }, [isOpen, people, documentId]);
+
+    const insertMention = (person: MentionCandidate) => {
+        close(false);
+        restoreSelection();
+        // Replaces the selected text when opened from the inline toolbar
+        window.document.execCommand('insertHTML', false, mentionHtml(person));
+        onChange?.();
+    };
+
+    const handleKeyDown = (e: React.KeyboardEvent) => {
+        if (e.key === 'Escape') {
+            e.preventDefault();
+            e.stopPropagation();
+            close(savedRangeRef.current?.collapsed ?? false);
+        } else if (e.key === 'Backspace' && search === '') {
+            e.preventDefault();
+            close(false);
+            restoreSelection();
+        }
+    };
+
+    if (!isOpen) return null;
+
+    return (
+        <div
+            ref={pickerRef}
+            className="fixed z-50 rounded-xl border border-border bg-popover shadow-lg"
+            style={{ top: position.top, left: position.left, width: PICKER_WIDTH }}
+        >
+            <Command loop onKeyDown={handleKeyDown}>
+                <CommandInput
+                    autoFocus
+                    value={search}
+                    onValueChange={setSearch}
+                    placeholder="Mention someone..."
+                />
+                <CommandList style={{ maxHeight: PICKER_HEIGHT - 48 }}>
+                    {people === null ? (
+                        <div className="flex items-center justify-center py-3 text-sm text-muted-foreground">
+                            <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                            Loading...
+                        </div>
+                    ) : (
+                        <CommandEmpty>No people found.</CommandEmpty>
+                    )}
+                    {people && (
+                        <CommandGroup heading="People">
+                            {people.map((person) => (
+                                <CommandItem
+                                    key={person._id}
+                                    value={`${mentionName(person)} ${person.email || ''} ${person._id}`}
+                                    onSelect={() => insertMention(person)}
+                                >
+                                    <AtSign className="w-4 h-4" />
+                                    <span className="truncate">{mentionName(person)}</span>
+                                    {person.email && (
+                                        <span className="ml-auto truncate text-xs text-muted-foreground">{person.email}</span>
+                                    )}
+                                </CommandItem>
+                            ))}
+                        </CommandGroup>
+                    )}
+                </CommandList>
+            </Command>
+        </div>
+    );
+}
@@ -0,0 +1,63 @@
+import type { API, InlineTool, SanitizerConfig } from '@editorjs/editorjs';
+import { MENTION_REQUEST_EVENT } from '../../lib/mentions';
+
+const AT_ICON = '<svg xmlns="http://www.w3.org/2000/svg" width="24" height="24" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2" stroke-linecap="round" stroke-linejoin="round"><circle cx="12" cy="12" r="4"/><path d="M16 8v5a3 3 0 0 0 6 0v-1a10 10 0 1 0-4 8"/></svg>';
+
+export interface MentionRequestDetail {
+    range: Range;
+}
+
+/**
+ * Editor.js inline tool for @mentions.
+ * The button asks MentionPicker (via a window event) to open the people picker for the
+ * current selection; clicking it inside an existing mention turns the chip back into text.
+ */
+export default class MentionTool implements InlineTool {
+    static isInline = true;
+    static title = 'Mention';
+
+    static get sanitize(): SanitizerConfig {
+        return {
+            span: {
+                class: true,
+                'data-user-id': true,
+                'data-author-id': true,
+                contenteditable: true,
+            },
+        } as SanitizerConfig;
+    }
+
+    private api: API;
+    private button: HTMLButtonElement | null = null;
+
+    constructor({ api }: { api: API }) {
+        this.api = api;
+    }
+
+    render(): HTMLElement {
+        this.button = document.createElement('button');
+        this.button.type = 'button';
+        this.button.classList.add(this.api.styles.inlineToolButton);
+        this.button.innerHTML = AT_ICON;
+        return this.button;
+    }
+
+    surround(range: Range): void {
+        const chip = this.api.selection.findParentTag('SPAN', 'mention');
+        if (chip) {
+            chip.replaceWith(document.createTextNode(chip.textContent || ''));
+            return;
+        }
+
+        window.dispatchEvent(new CustomEvent<MentionRequestDetail>(MENTION_REQUEST_EVENT, {
+            detail: { range: range.cloneRange() },
+        }));
+        this.api.inlineToolbar.close();
+    }
+
+    checkState(): boolean {
+        const isActive = !!this.api.selection.findParentTag('SPAN', 'mention');
+        this.button?.classList.toggle(this.api.styles.inlineToolButtonActive, isActive);
+        return isActive;
+    }
+}
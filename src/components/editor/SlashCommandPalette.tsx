@@ -0,0 +1,365 @@
+import { useState, useEffect, useRef, useCallback } from 'react';
+import type EditorJS from '@editorjs/editorjs';
+import type { EditorConfig, OutputBlockData } from '@editorjs/editorjs';
+import { AtSign, FileText, LayoutTemplate, Link2, Loader2 } from 'lucide-react';
+import {
+    Command,
+    CommandEmpty,
+    CommandGroup,
+    CommandInput,
+    CommandItem,
+    CommandList,
+    CommandSeparator,
+} from '../ui/command';
+import { documentsApi, Document } from '../../api/documents';
+import { documentLinkHtml } from '../../lib/documentLinks';
+import { SECTION_TEMPLATES } from '../../lib/templates';
+import { MentionCandidate, getMentionCandidates, mentionHtml, mentionName } from '../../lib/mentions';
+
+interface SlashCommandPaletteProps {
+    editor: EditorJS;
+    // The tools config the editor was created with
+    tools: NonNullable<EditorConfig['tools']>;
+    documentId?: string;
+    onChange?: () => void;
+}
+
+interface BlockCommand {
+    id: string;
+    title: string;
+    tool: string;
+    data?: Record<string, any>;
+    icon?: string;
+}
+
+type PalettePage = 'root' | 'sections' | 'people' | 'documents';
+
+const PALETTE_WIDTH = 320;
+const PALETTE_HEIGHT = 360;
+
+// Editor.js always registers the paragraph tool, so it is not in the tools config
+const PARAGRAPH_COMMAND: BlockCommand = { id: 'paragraph', title: 'Text', tool: 'paragraph' };
+
+const HEADER_LEVELS = [1, 2, 3, 4];
+
+/**
+ * Turn the toolbox entries of the configured block tools into commands (inline tools have no toolbox)
+ */
+const getBlockCommands = (tools: NonNullable<EditorConfig['tools']>): BlockCommand[] => {
+    const commands: BlockCommand[] = [PARAGRAPH_COMMAND];
+    Object.entries(tools).forEach(([name, settings]: [string, any]) => {
+        const toolClass = typeof settings === 'function' ? settings : settings?.class;
+        // A toolbox set in the config overrides the tool's own; false hides the tool
+        const toolbox = settings?.toolbox ?? toolClass?.toolbox;
+        if (!toolbox) return;
+
+        const entries: any[] = Array.isArray(toolbox) ? toolbox : [toolbox];
+        if (name === 'header') {
+            HEADER_LEVELS.forEach((level) => commands.push({
+                id: `header-${level}`,
+                title: `Heading ${level}`,
+                tool: 'header',
+                data: { level },
+                icon: entries[0]?.icon,
+            }));
+            return;
+        }
+        entries.forEach((entry, index) => commands.push({
+            id: `${name}-${index}`,
+            title: entry.title || name,
+            tool: name,
+            data: entry.data,
+            icon: entry.icon,
+        }));
+    });
+    return commands;
+};
+
+/**
+ * Text before the caret inside the current paragraph, or null when the caret is not in a paragraph
+ */
+const getTextBeforeCaret = (): string | null => {
+    const selection = window.getSelection();
+    if (!selection || selection.rangeCount === 0 || !selection.isCollapsed) return null;
+
+    const range = selection.getRangeAt(0);
+    const container = range.startContainer instanceof HTMLElement ? range.startContainer : range.startContainer.parentElement;
+    const paragraph = container?.closest('.ce-paragraph');
+    if (!paragraph) return null;
+
+    const before = window.document.createRange();
+    before.selectNodeContents(paragraph);
+    before.setEnd(range.startContainer, range.startOffset);
+    return before.toString();
+};
+
+export default function SlashCommandPalette({ editor, tools, documentId, onChange }: SlashCommandPaletteProps) {
+    const [isOpen, setIsOpen] = useState(false);
+    const [page, setPage] = useState<PalettePage>('root');
+    const [search, setSearch] = useState('');
+    const [position, setPosition] = useState({ top: 0, left: 0 });
+    const [blockCommands, setBlockCommands] = useState<BlockCommand[]>([]);
+    const [people, setPeople] = useState<MentionCandidate[]>([]);
+    const [documents, setDocuments] = useState<Document[]>([]);
+    const [loadingList, setLoadingList] = useState(false);
+    const paletteRef = useRef<HTMLDivElement>(null);
+    const savedRangeRef = useRef<Range | null>(null);
+    const blockIndexRef = useRef(0);
+
+    const restoreSelection = () => {
+        const selection = window.getSelection();
+        if (savedRangeRef.current && selection) {
+            selection.removeAllRanges();
+            selection.addRange(savedRangeRef.current);
+        }
+    };
+
+    const close = useCallback((insertSlash: boolean) => {
+        setIsOpen(false);
+        setPage('root');
+        setSearch('');
+        if (insertSlash) {
+            restoreSelection();
+            window.document.execCommand('insertText', false, '/');
+        }
+    }, []);
+
+    // Open the palette when "/" is typed at the start of a paragraph or after a space.
+    // Listens in the capture phase: Editor.js handles "/" in empty blocks itself (opening its toolbox)
+    useEffect(() => {
+        const holder = window.document.getElementById('editorjs');
+        if (!holder) return;
+
+        const handleKeyDown = (e: KeyboardEvent) => {
+            if (e.key !== '/' || e.ctrlKey || e.metaKey || e.altKey) return;
+
+            const textBefore = getTextBeforeCaret();
+            if (textBefore === null || (textBefore !== '' && !/\s$/.test(textBefore))) return;
+
+            e.preventDefault();
+            e.stopPropagation();
+            const selection = window.getSelection()!;
+            const range = selection.getRangeAt(0);
+            savedRangeRef.current = range.cloneRange();
+            blockIndexRef.current = editor.blocks.getCurrentBlockIndex();
+
+            // Collapsed ranges in empty blocks have no size - fall back to the block element
+            let rect = range.getBoundingClientRect();
+            if (rect.top === 0 && rect.left === 0) {
+                const element = (range.startContainer instanceof HTMLElement ? range.startContainer : range.startContainer.parentElement);
+                rect = element?.getBoundingClientRect() || rect;
+            }
+            const fitsBelow = rect.bottom + PALETTE_HEIGHT < window.innerHeight;
+            setPosition({
+                top: fitsBelow ? rect.bottom + 6 : Math.max(8, rect.top - PALETTE_HEIGHT - 6),
+                left: Math.min(rect.left, window.innerWidth - PALETTE_WIDTH - 8),
+            });
+
+            setBlockCommands(getBlockCommands(tools));
+            setPage('root');
+            setSearch('');
+            setIsOpen(true);
+        };
+
+        holder.addEventListener('keydown', handleKeyDown, true);
+        return () => holder.removeEventListener('keydown', handleKeyDown, true);
+    }, [editor, tools]);
+
+    // Close when clicking outside the palette
+    useEffect(() => {
+        if (!isOpen) return;
+
+        const handleMouseDown = (e: MouseEvent) => {
+            if (paletteRef.current && !paletteRef.current.contains(e.target as Node)) {
+                close(false);
+            }
+        };
+
+        window.document.addEventListener('mousedown', handleMouseDown);
+        return () => window.document.removeEventListener('mousedown', handleMouseDown);
+    }, [isOpen, close]);
+
+    // Load people / documents when their sub-page opens
+    useEffect(() => {
+        if (!isOpen) return;
+
+        const loadPeople = async () => {
+            setPeople(await getMentionCandidates(documentId));
+        };
+
+        const loadDocuments = async () => {
+            const docs = await documentsApi.getAll().catch(() => []);
+            setDocuments(docs.filter((doc) => doc._id !== documentId && !doc.archived));
+        };
+
+        if (page === 'people' && people.length === 0) {
+            setLoadingList(true);
+            loadPeople().finally(() => setLoadingList(false));
+        } else if (page === 'documents' && documents.length === 0) {
+            setLoadingList(true);
+            loadDocuments().finally(() => setLoadingList(false));
+        }
+    }, [isOpen, page, documentId, people.length, documents.length]);
+
+    const insertBlocks = (blocks: OutputBlockData[]) => {
+        const index = blockIndexRef.current;
+        const current = editor.blocks.getBlockByIndex(index);
+        const replaceCurrent = !!current?.isEmpty;
+        const startIndex = replaceCurrent ? index : index + 1;
+
+        close(false);
+
+        blocks.forEach((block, offset) => {
+            editor.blocks.insert(
+                block.type,
+                block.data,
+                undefined,
+                startIndex + offset,
+                offset === 0,
+                replaceCurrent && offset === 0,
+            );
+        });
+        editor.caret.setToBlock(startIndex, 'start');
+        onChange?.();
+    };
+
+    const insertInlineHtml = (html: string) => {
+        close(false);
+        restoreSelection();
+        window.document.execCommand('insertHTML', false, html);
+        onChange?.();
+    };
+
+    const handleKeyDown = (e: React.KeyboardEvent) => {
+        if (e.key === 'Escape') {
+            e.preventDefault();
+            e.stopPropagation();
+            if (page !== 'root') {
+                setPage('root');
+                setSearch('');
+            } else {
+                close(true);
+            }
+        } else if (e.key === 'Backspace' && search === '' && page !== 'root') {
+            e.preventDefault();
+            setPage('root');
+        }
+    };
+
+    if (!isOpen) return null;
+
+    return (
+        <div
+            ref={paletteRef}
+            className="fixed z-50 rounded-xl border border-border bg-popover shadow-lg"
+            style={{ top: position.top, left: position.left, width: PALETTE_WIDTH }}
+        >
+            <Command loop onKeyDown={handleKeyDown}>
+                <CommandInput
+                    autoFocus
+                    value={search}
+                    onValueChange={setSearch}
+                    placeholder={
+                        page === 'people' ? 'Search people...'
+                            : page === 'documents' ? 'Search documents...'
+                                : page === 'sections' ? 'Search sections...'
+                                    : 'Type a command or search...'
+                    }
+                />
+                <CommandList style={{ maxHeight: PALETTE_HEIGHT - 48 }}>
+                    {loadingList ? (
+                        <div className="flex items-center justify-center py-3 text-sm text-muted-foreground">
+                            <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                            Loading...
+                        </div>
+                    ) : (
+                        <CommandEmpty>No results found.</CommandEmpty>
+                    )}
+
+                    {page === 'root' && (
+                        <>
+                            <CommandGroup heading="Blocks">
+                                {blockCommands.map((command) => (
+                                    <CommandItem
+                                        key={command.id}
+                                        value={`${command.title} ${command.tool}`}
+                                        onSelect={() => insertBlocks([{ type: command.tool, data: command.data || {} }])}
+                                    >
+                                        {command.icon ? (
+                                            <span
+                                                className="slash-command-icon"
+                                                dangerouslySetInnerHTML={{ __html: command.icon }}
+                                            />
+                                        ) : (
+                                            <FileText className="w-4 h-4" />
+                                        )}
+                                        {command.title}
+                                    </CommandItem>
+                                ))}
+                            </CommandGroup>
+                            <CommandSeparator />
+                            <CommandGroup heading="Actions">
+                                <CommandItem value="insert template section" onSelect={() => { setPage('sections'); setSearch(''); }}>
+                                    <LayoutTemplate className="w-4 h-4" />
+                                    Insert template section
+                                </CommandItem>
+                                <CommandItem value="mention a person" onSelect={() => { setPage('people'); setSearch(''); }}>
+                                    <AtSign className="w-4 h-4" />
+                                    Mention a person
+                                </CommandItem>
+                                <CommandItem value="insert link to document" onSelect={() => { setPage('documents'); setSearch(''); }}>
+                                    <Link2 className="w-4 h-4" />
+                                    Insert link to document
+                                </CommandItem>
+                            </CommandGroup>
+                        </>
+                    )}
+
+                    {page === 'sections' && (
+                        <CommandGroup heading="Template sections">
+                            {SECTION_TEMPLATES.map((section) => (
+                                <CommandItem key={section.id} value={section.title} onSelect={() => insertBlocks(section.blocks)}>
+                                    <LayoutTemplate className="w-4 h-4" />
+                                    {section.title}
+                                </CommandItem>
+                            ))}
+                        </CommandGroup>
+                    )}
+
+                    {page === 'people' && !loadingList && (
+                        <CommandGroup heading="People">
+                            {people.map((person) => (
+                                <CommandItem
+                                    key={person._id}
+                                    value={`${mentionName(person)} ${person.email || ''} ${person._id}`}
+                                    onSelect={() => insertInlineHtml(mentionHtml(person))}
+                                >
+                                    <AtSign className="w-4 h-4" />
+                                    <span className="truncate">{mentionName(person)}</span>
+                                    {person.email && (
+                                        <span className="ml-auto truncate text-xs text-muted-foreground">{person.email}</span>
+                                    )}
+                                </CommandItem>
+                            ))}
+                        </CommandGroup>
+                    )}
+
+                    {page === 'documents' && !loadingList && (
+                        <CommandGroup heading="Documents">
+                            {documents.map((doc) => (
+                                <CommandItem
+                                    key={doc._id}
+                                    value={`${doc.Title} ${doc._id}`}
+                                    onSelect={() => insertInlineHtml(documentLinkHtml(doc))}
+                                >
+                                    <FileText className="w-4 h-4" />
+                                    <span className="truncate">{doc.Title || 'Untitled Document'}</span>
+                                </CommandItem>
+                            ))}
+                        </CommandGroup>
+                    )}
+                </CommandList>
+            </Command>
+        </div>
+    );
+}
@@ -0,0 +1,51 @@
+import type { API, InlineTool, SanitizerConfig } from '@editorjs/editorjs';
+import { SUGGEST_DELETION_REQUEST_EVENT, SUGGESTION_MARK_ATTRIBUTES } from '../../lib/suggestions';
+
+const STRIKE_ICON = '<svg xmlns="http://www.w3.org/2000/svg" width="24" height="24" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2" stroke-linecap="round" stroke-linejoin="round"><path d="M16 4H9a3 3 0 0 0-2.83 4"/><path d="M14 12a4 4 0 0 1 0 8H6"/><line x1="4" x2="20" y1="12" y2="12"/></svg>';
+
+export interface SuggestDeletionRequestDetail {
+    range: Range;
+}
+
+/**
+ * Editor.js inline tool for suggestions (track changes).
+ * Its sanitize rules keep the <ins>/<del> suggestion marks when blocks are saved. The button
+ * asks SuggestionTracker (via a window event) to mark the selection as a suggested deletion.
+ */
+export default class SuggestionTool implements InlineTool {
+    static isInline = true;
+    static title = 'Suggest deletion';
+
+    static get sanitize(): SanitizerConfig {
+        return {
+            ins: SUGGESTION_MARK_ATTRIBUTES,
+            del: SUGGESTION_MARK_ATTRIBUTES,
+        } as SanitizerConfig;
+    }
+
+    private api: API;
+    private button: HTMLButtonElement | null = null;
+
+    constructor({ api }: { api: API }) {
+        this.api = api;
+    }
+
+    render(): HTMLElement {
+        this.button = document.createElement('button');
+        this.button.type = 'button';
+        this.button.classList.add(this.api.styles.inlineToolButton);
+        this.button.innerHTML = STRIKE_ICON;
+        return this.button;
+    }
+
+    surround(range: Range): void {
+        window.dispatchEvent(new CustomEvent<SuggestDeletionRequestDetail>(SUGGEST_DELETION_REQUEST_EVENT, {
+            detail: { range: range.cloneRange() },
+        }));
+        this.api.inlineToolbar.close();
+    }
+
+    checkState(): boolean {
+        return false;
+    }
+}
@@ -0,0 +1,296 @@
+import { useEffect, useRef } from 'react';
+import type EditorJS from '@editorjs/editorjs';
+import { toast } from 'sonner';
+import { getCurrentUserId } from '../../lib/auth';
+import { getCurrentUser } from '../../lib/services/userService';
+import { mentionName } from '../../lib/mentions';
+import {
+    SUGGEST_DELETION_REQUEST_EVENT,
+    SUGGEST_REPLACEMENT_REQUEST_EVENT,
+    SUGGESTION_BLOCK_TOOLS,
+    SuggestReplacementRequestDetail,
+    SuggestionAuthor,
+    suggestDeletion,
+    suggestReplacement,
+} from '../../lib/suggestions';
+import type { SuggestDeletionRequestDetail } from './SuggestionTool';
+
+interface SuggestionTrackerProps {
+    editor: EditorJS;
+    // Suggesting mode: typing and deleting create suggestions instead of changing the text
+    enabled: boolean;
+    onChange?: () => void;
+}
+
+// inputType -> [backward, Selection.modify granularity] for deletions
+const DELETIONS: Record<string, [boolean, string]> = {
+    deleteContentBackward: [true, 'character'],
+    deleteContentForward: [false, 'character'],
+    deleteWordBackward: [true, 'word'],
+    deleteWordForward: [false, 'word'],
+    deleteSoftLineBackward: [true, 'lineboundary'],
+    deleteSoftLineForward: [false, 'lineboundary'],
+    deleteHardLineBackward: [true, 'lineboundary'],
+    deleteHardLineForward: [false, 'lineboundary'],
+};
+
+const UNSUPPORTED_WARNING_INTERVAL = 3000;
+
+const UNSUPPORTED_BLOCK_WARNING = "This block can't hold suggestions - switch to Editing to change it";
+const STRUCTURE_WARNING = "Adding, splitting or removing blocks can't be suggested - switch to Editing to do it";
+
+// Set on the editor holder in suggesting mode; hides the block toolbar and "Convert to" (see globals.css)
+const SUGGESTING_CLASS = 'editor--suggesting';
+
+const editableOf = (node: Node) => {
+    const element = node instanceof HTMLElement ? node : node.parentElement;
+    return element?.closest<HTMLElement>('[contenteditable="true"]') || null;
+};
+
+const setCaret = (caret: Range) => {
+    const selection = window.getSelection();
+    selection?.removeAllRanges();
+    selection?.addRange(caret);
+};
+
+/**
+ * Turns edits into suggestions while suggesting mode is on: typed text becomes an insertion
+ * mark and deleted text a strike-through mark, both carrying the author and time.
+ * Changes to the blocks themselves can't be tracked, so they are blocked: splitting blocks with Enter,
+ * merging them with Backspace/Delete, removing selected blocks, drag & drop, and the toolbox and block
+ * tunes. So is editing blocks whose markup can't hold the marks (headings, code).
+ * Find & replace hands its replacements over as suggestions. IME composition isn't tracked.
+ */
+export default function SuggestionTracker({ editor, enabled, onChange }: SuggestionTrackerProps) {
+    const authorRef = useRef<SuggestionAuthor>({ id: getCurrentUserId() || 'anonymous', name: 'Unknown' });
+    const lastWarningRef = useRef(0);
+    const onChangeRef = useRef(onChange);
+    onChangeRef.current = onChange;
+
+    useEffect(() => {
+        getCurrentUser()
+            .then((user) => {
+                if (user) authorRef.current = { id: user._id || authorRef.current.id, name: mentionName(user) };
+            })
+            .catch(() => {
+                // Suggestions are still attributed to the user id
+            });
+    }, []);
+
+    // Whether the block around a node keeps suggestion marks when saved
+    const supportsSuggestions = (node: Node) => {
+        const element = node instanceof HTMLElement ? node : node.parentElement;
+        const blockId = element?.closest<HTMLElement>('.ce-block')?.dataset.id;
+        const block = blockId ? editor.blocks.getById(blockId) : null;
+        return !!block && SUGGESTION_BLOCK_TOOLS.includes(block.name);
+    };
+
+    const warnUnsupported = (message = UNSUPPORTED_BLOCK_WARNING) => {
+        if (Date.now() - lastWarningRef.current < UNSUPPORTED_WARNING_INTERVAL) return;
+        lastWarningRef.current = Date.now();
+        toast.info(message);
+    };
+
+    // Suggest deleting the selection from the inline toolbar button
+    useEffect(() => {
+        const handleRequest = (e: Event) => {
+            const { range } = (e as CustomEvent<SuggestDeletionRequestDetail>).detail;
+            if (range.collapsed) return;
+            if (!supportsSuggestions(range.startContainer) || editableOf(range.startContainer) !== editableOf(range.endContainer)) {
+                warnUnsupported();
+                return;
+            }
+
+            setCaret(suggestDeletion(range, authorRef.current, false));
+            onChangeRef.current?.();
+        };
+
+        // Find & replace in suggesting mode; last match first, so earlier ranges stay in place
+        const handleReplacementRequest = (e: Event) => {
+            const { replacements } = (e as CustomEvent<SuggestReplacementRequestDetail>).detail;
+            const applicable = replacements.filter(({ range }) =>
+                supportsSuggestions(range.startContainer) && editableOf(range.startContainer) === editableOf(range.endContainer));
+            if (applicable.length === 0) return;
+
+            [...applicable].reverse().forEach(({ range, text }) => suggestReplacement(range, text, authorRef.current));
+            onChangeRef.current?.();
+        };
+
+        window.addEventListener(SUGGEST_DELETION_REQUEST_EVENT, handleRequest);
+        window.addEventListener(SUGGEST_REPLACEMENT_REQUEST_EVENT, handleReplacementRequest);
+        return () => {
+            window.removeEventListener(SUGGEST_DELETION_REQUEST_EVENT, handleRequest);
+            window.removeEventListener(SUGGEST_REPLACEMENT_REQUEST_EVENT, handleReplacementRequest);
+        };
+    }, [editor]);
+
+    useEffect(() => {
+        const holder = window.document.getElementById('editorjs');
+        if (!holder || !enabled) return;
+
+        const typeText = (range: Range, text: string) => {
+            setCaret(suggestReplacement(range, text, authorRef.current));
+            onChangeRef.current?.();
+        };
+
+        // The range an input event applies to - the browser's own when it reports one
+        const targetRange = (e: InputEvent) => {
+            const [target] = e.getTargetRanges();
+            if (target) {
+                const range = window.document.createRange();
+                range.setStart(target.startContainer, target.startOffset);
+                range.setEnd(target.endContainer, target.endOffset);
+                return range;
+            }
+            const selection = window.getSelection();
+            return selection && selection.rangeCount > 0 ? selection.getRangeAt(0).cloneRange() : null;
+        };
+
+        const handleBeforeInput = (e: InputEvent) => {
+            const target = e.target as HTMLElement;
+            if (!holder.contains(target) || !target.closest('.ce-block')) return;
+
+            if (!supportsSuggestions(target)) {
+                e.preventDefault();
+                warnUnsupported();
+                return;
+            }
+
+            if (e.inputType === 'insertText' || e.inputType === 'insertReplacementText') {
+                const text = e.data ?? e.dataTransfer?.getData('text/plain') ?? '';
+                const range = targetRange(e);
+                if (!text || !range) return;
+                e.preventDefault();
+                typeText(range, text);
+            } else if (e.inputType in DELETIONS || e.inputType === 'deleteByCut') {
+                e.preventDefault();
+                const [backward, granularity] = DELETIONS[e.inputType] || [false, 'character'];
+
+                let range = targetRange(e);
+                if (range?.collapsed) {
+                    const selection = window.getSelection()!;
+                    selection.modify('extend', backward ? 'backward' : 'forward', granularity);
+                    range = selection.getRangeAt(0).cloneRange();
+                }
+                if (!range || range.collapsed || editableOf(range.startContainer) !== editableOf(range.endContainer)) return;
+
+                setCaret(suggestDeletion(range, authorRef.current, backward));
+                onChangeRef.current?.();
+            } else if (e.inputType === 'insertParagraph' || e.inputType === 'insertLineBreak') {
+                e.preventDefault();
+                warnUnsupported(STRUCTURE_WARNING);
+            } else if (e.inputType === 'insertFromDrop' || e.inputType === 'deleteByDrag') {
+                e.preventDefault();
+            }
+        };
+
+        const handleKeyDown = (e: KeyboardEvent) => {
+            const target = e.target as HTMLElement;
+            if (!target.closest('.ce-block')) return;
+
+            // Enter splits the block (or adds a list item / line break)
+            if (e.key === 'Enter' && !e.isComposing) {
+                e.preventDefault();
+                e.stopPropagation();
+                warnUnsupported(STRUCTURE_WARNING);
+                return;
+            }
+
+            // Keep Editor.js from opening the toolbox ("/" in an empty block) or the block tunes (Ctrl/Cmd+/).
+            // A plain "/" is still typed, as a suggestion
+            if (e.code === 'Slash' || e.key === '/') {
+                if (e.ctrlKey || e.metaKey) e.preventDefault();
+                e.stopPropagation();
+                return;
+            }
+
+            // Backspace at the start / Delete at the end of a block would merge blocks
+            if (e.key !== 'Backspace' && e.key !== 'Delete') return;
+
+            const selection = window.getSelection();
+            if (!selection || selection.rangeCount === 0 || !selection.isCollapsed) return;
+
+            const range = selection.getRangeAt(0);
+            const editable = editableOf(range.startContainer);
+            if (!editable || !holder.contains(editable)) return;
+
+            const rest = window.document.createRange();
+            rest.selectNodeContents(editable);
+            if (e.key === 'Backspace') rest.setEnd(range.startContainer, range.startOffset);
+            else rest.setStart(range.startContainer, range.startOffset);
+
+            if (rest.toString() === '') {
+                e.preventDefault();
+                e.stopPropagation();
+            }
+        };
+
+        // Editor.js handles pasting itself, so take over before it sees the event
+        const handlePaste = (e: ClipboardEvent) => {
+            const target = e.target as HTMLElement;
+            if (!target.closest('.ce-block')) return;
+
+            e.preventDefault();
+            e.stopImmediatePropagation();
+            if (!supportsSuggestions(target)) {
+                warnUnsupported();
+                return;
+            }
+
+            const text = (e.clipboardData?.getData('text/plain') || '').replace(/\s*\n\s*/g, ' ');
+            const selection = window.getSelection();
+            if (text && selection && selection.rangeCount > 0) {
+                typeText(selection.getRangeAt(0).cloneRange(), text);
+            }
+        };
+
+        const handleDrop = (e: DragEvent) => {
+            e.preventDefault();
+            e.stopImmediatePropagation();
+        };
+
+        // Editor.js listens on the document for keys pressed with whole blocks selected
+        // (removing them) and for Enter outside any block (adding one)
+        const blocksSelected = () => !!holder.querySelector('.ce-block--selected');
+
+        const handleDocumentKeyDown = (e: KeyboardEvent) => {
+            const removesBlocks = (e.key === 'Backspace' || e.key === 'Delete') && blocksSelected();
+            const addsBlock = e.key === 'Enter' && e.target === window.document.body;
+            if (!removesBlocks && !addsBlock) return;
+
+            e.preventDefault();
+            e.stopPropagation();
+            warnUnsupported(STRUCTURE_WARNING);
+        };
+
+        // Cutting selected blocks removes them, pasting over them replaces them
+        const handleDocumentClipboard = (e: ClipboardEvent) => {
+            if (!blocksSelected()) return;
+
+            e.preventDefault();
+            e.stopPropagation();
+            warnUnsupported(STRUCTURE_WARNING);
+        };
+
+        holder.classList.add(SUGGESTING_CLASS);
+        holder.addEventListener('beforeinput', handleBeforeInput, true);
+        holder.addEventListener('keydown', handleKeyDown, true);
+        holder.addEventListener('paste', handlePaste, true);
+        holder.addEventListener('drop', handleDrop, true);
+        window.document.addEventListener('keydown', handleDocumentKeyDown, true);
+        window.document.addEventListener('cut', handleDocumentClipboard, true);
+        window.document.addEventListener('paste', handleDocumentClipboard, true);
+        return () => {
+            holder.classList.remove(SUGGESTING_CLASS);
+            holder.removeEventListener('beforeinput', handleBeforeInput, true);
+            holder.removeEventListener('keydown', handleKeyDown, true);
+            holder.removeEventListener('paste', handlePaste, true);
+            holder.removeEventListener('drop', handleDrop, true);
+            window.document.removeEventListener('keydown', handleDocumentKeyDown, true);
+            window.document.removeEventListener('cut', handleDocumentClipboard, true);
+            window.document.removeEventListener('paste', handleDocumentClipboard, true);
+        };
+    }, [editor, enabled]);
+
+    return null;
+}
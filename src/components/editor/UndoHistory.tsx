@@ -0,0 +1,129 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { History, Redo2, Undo2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { Button } from '../ui/button';
+import { Popover, PopoverContent, PopoverTrigger } from '../ui/popover';
+import type { BlockBinding } from '../../lib/realtime/blockBinding';
+import type { CollaborativeUndoManager, UndoHistoryEntry } from '../../lib/realtime/collaborativeUndo';
+
+interface UndoHistoryProps {
+    binding: BlockBinding;
+    manager: CollaborativeUndoManager;
+    onChange?: () => void;
+}
+
+const timeAgo = (time: number) => {
+    const seconds = Math.floor((Date.now() - time) / 1000);
+    if (seconds < 60) return 'Just now';
+    if (seconds < 3600) return `${Math.floor(seconds / 60)}m ago`;
+    return new Date(time).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+};
+
+/**
+ * Undo / redo buttons and a history popover for the user's own changes.
+ * Ctrl/Cmd+Z, Ctrl/Cmd+Shift+Z and Ctrl/Cmd+Y inside the editor go through the collaborative
+ * undo manager instead of the browser's, which would also revert collaborators' synced edits.
+ */
+export default function UndoHistory({ binding, manager, onChange }: UndoHistoryProps) {
+    const [history, setHistory] = useState(() => manager.getHistory());
+    const onChangeRef = useRef(onChange);
+    onChangeRef.current = onChange;
+
+    useEffect(() => {
+        setHistory(manager.getHistory());
+        return manager.subscribe(() => setHistory(manager.getHistory()));
+    }, [manager]);
+
+    const step = useCallback(async (direction: 'undo' | 'redo', steps = 1) => {
+        try {
+            if (await binding.applyUndo(direction, steps)) {
+                onChangeRef.current?.();
+            }
+        } catch (error) {
+            console.error(`Failed to ${direction}:`, error);
+            toast.error(`Failed to ${direction}`);
+        }
+    }, [binding]);
+
+    useEffect(() => {
+        const handleKeyDown = (e: KeyboardEvent) => {
+            if (!(e.ctrlKey || e.metaKey) || e.altKey) return;
+
+            const key = e.key.toLowerCase();
+            const isUndo = key === 'z' && !e.shiftKey;
+            const isRedo = (key === 'z' && e.shiftKey) || (key === 'y' && !e.shiftKey);
+            if (!isUndo && !isRedo) return;
+
+            // Inputs outside the editor (title, search) keep their native undo
+            const holder = window.document.getElementById('editorjs');
+            if (!holder || !holder.contains(e.target as Node)) return;
+
+            e.preventDefault();
+            e.stopPropagation();
+            step(isUndo ? 'undo' : 'redo');
+        };
+
+        window.addEventListener('keydown', handleKeyDown, true);
+        return () => window.removeEventListener('keydown', handleKeyDown, true);
+    }, [step]);
+
+    const renderEntry = (entry: UndoHistoryEntry, undone: boolean, onClick: () => void, key: string) => (
+        <li key={key}>
+            <button
+                type="button"
+                className={`undo-history__item ${undone ? 'undo-history__item--undone' : ''}`}
+                title={undone ? 'Redo to here' : 'Undo to here'}
+                onClick={onClick}
+            >
+                <span className="truncate">{entry.label}</span>
+                <span className="text-xs text-muted-foreground whitespace-nowrap">{entry.time ? timeAgo(entry.time) : ''}</span>
+            </button>
+        </li>
+    );
+
+    return (
+        <div className="flex items-center">
+            <Button
+                variant="ghost"
+                size="icon"
+                className="rounded-lg"
+                title="Undo (Ctrl+Z)"
+                disabled={history.undo.length === 0}
+                onClick={() => step('undo')}
+            >
+                <Undo2 className="w-4 h-4" />
+            </Button>
+            <Button
+                variant="ghost"
+                size="icon"
+                className="rounded-lg"
+                title="Redo (Ctrl+Shift+Z)"
+                disabled={history.redo.length === 0}
+                onClick={() => step('redo')}
+            >
+                <Redo2 className="w-4 h-4" />
+            </Button>
+            <Popover>
+                <PopoverTrigger asChild>
+                    <Button variant="ghost" size="icon" className="rounded-lg" title="Undo history">
+                        <History className="w-4 h-4" />
+                    </Button>
+                </PopoverTrigger>
+                <PopoverContent align="end" className="w-64 p-2 rounded-xl">
+                    <p className="px-2 py-1 text-xs font-medium text-muted-foreground">Your recent changes</p>
+                    {history.undo.length === 0 && history.redo.length === 0 ? (
+                        <p className="px-2 py-1 text-sm text-muted-foreground">Nothing to undo yet</p>
+                    ) : (
+                        <ul className="undo-history">
+                            {/* Undone changes above the current state, furthest first */}
+                            {history.redo
+                                .map((entry, index) => renderEntry(entry, true, () => step('redo', index + 1), `redo-${index}`))
+                                .reverse()}
+                            {history.undo.map((entry, index) => renderEntry(entry, false, () => step('undo', index + 1), `undo-${index}`))}
+                        </ul>
+                    )}
+                </PopoverContent>
+            </Popover>
+        </div>
+    );
+}
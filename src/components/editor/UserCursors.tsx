@@ -1,76 +1,185 @@
-import { useEffect, useState } from 'react';
+import { Fragment, useEffect, useRef, useState } from 'react';
 import { useRealtimeStore } from '../../lib/realtime/realtimeStore';
+import { CursorSelection, RemoteCursor, samePosition } from '../../lib/realtime/awareness';
+import { TextPosition, domPointOf, fieldElement, textPositionOf } from '../../lib/realtime/textPosition';
 
-export default function UserCursors() {
+interface Box {
+    left: number;
+    top: number;
+    width: number;
+    height: number;
+}
+
+interface CursorLayout {
+    clientId: number;
+    name: string;
+    color: string;
+    caret: Box;
+    selection: Box[];
+}
+
+interface UserCursorsProps {
+    // Id of the Editor.js holder; render this next to it inside a positioned container
+    holderId?: string;
+    // Called with the local caret / selection whenever it moves (null when it leaves the editor)
+    onCursorChange?: (cursor: CursorSelection | null) => void;
+}
+
+const relativeTo = (origin: DOMRect, rect: DOMRect): Box => ({
+    left: rect.left - origin.left,
+    top: rect.top - origin.top,
+    width: rect.width,
+    height: rect.height,
+});
+
+// Where a caret at the position is drawn; empty fields have no text to measure, so use the field itself
+const caretBox = (position: TextPosition, origin: DOMRect): Box | null => {
+    const point = domPointOf(position);
+    if (!point) return null;
+
+    const range = window.document.createRange();
+    range.setStart(point.node, point.offset);
+    range.collapse(true);
+    const rect = range.getClientRects()[0];
+    if (rect && rect.height > 0) return { ...relativeTo(origin, rect), width: 0 };
+
+    const field = fieldElement(position);
+    if (!field) return null;
+    const fieldRect = field.getBoundingClientRect();
+    const lineHeight = parseFloat(window.getComputedStyle(field).lineHeight) || fieldRect.height;
+    return { ...relativeTo(origin, fieldRect), width: 0, height: Math.min(lineHeight, fieldRect.height || lineHeight) };
+};
+
+const selectionBoxes = (cursor: CursorSelection, origin: DOMRect): Box[] => {
+    if (samePosition(cursor.anchor, cursor.head)) return [];
+
+    const anchor = domPointOf(cursor.anchor);
+    const head = domPointOf(cursor.head);
+    if (!anchor || !head) return [];
+
+    const range = window.document.createRange();
+    range.setStart(anchor.node, anchor.offset);
+    range.collapse(true);
+    if (range.comparePoint(head.node, head.offset) >= 0) {
+        range.setEnd(head.node, head.offset);
+    } else {
+        range.setStart(head.node, head.offset);
+    }
+
+    return Array.from(range.getClientRects())
+        .filter((rect) => rect.width > 0 && rect.height > 0)
+        .map((rect) => relativeTo(origin, rect));
+};
+
+const layoutCursors = (overlay: HTMLElement, cursors: RemoteCursor[]): CursorLayout[] => {
+    const origin = overlay.getBoundingClientRect();
+    const layouts: CursorLayout[] = [];
+
+    cursors.forEach(({ clientId, user, cursor }) => {
+        if (!cursor) return;
+        const caret = caretBox(cursor.head, origin);
+        if (!caret) return;
+        layouts.push({ clientId, name: user.name, color: user.color, caret, selection: selectionBoxes(cursor, origin) });
+    });
+
+    return layouts;
+};
+
+/**
+ * Collaborators' carets, selections and name labels, drawn over the editor at the text
+ * positions they share. Positions are laid out again whenever the content or the editor's
+ * size changes, so they follow the text in this viewer's layout. Also reports the local
+ * caret so it can be shared.
+ */
+export default function UserCursors({ holderId = 'editorjs', onCursorChange }: UserCursorsProps) {
     const { cursors } = useRealtimeStore();
-    const [visibleCursors, setVisibleCursors] = useState<Array<{
-        userId: string;
-        x: number;
-        y: number;
-        userName: string;
-        userColor: string;
-    }>>([]);
+    const [holder, setHolder] = useState<HTMLElement | null>(null);
+    const [layouts, setLayouts] = useState<CursorLayout[]>([]);
+    const overlayRef = useRef<HTMLDivElement>(null);
+    const onCursorChangeRef = useRef(onCursorChange);
+    onCursorChangeRef.current = onCursorChange;
+
+    useEffect(() => {
+        setHolder(window.document.getElementById(holderId));
+    }, [holderId]);
 
+    // Lay out remote carets, again after edits and resizes
     useEffect(() => {
-        const cursorArray: Array<{
-            userId: string;
-            x: number;
-            y: number;
-            userName: string;
-            userColor: string;
-        }> = [];
-
-        cursors.forEach((cursor, userId) => {
-            cursorArray.push({
-                userId,
-                x: cursor.x,
-                y: cursor.y,
-                userName: cursor.user.name,
-                userColor: cursor.user.color,
+        if (!holder) return;
+
+        const remote = Array.from(cursors.values());
+        let frame = 0;
+        const schedule = () => {
+            if (frame) return;
+            frame = requestAnimationFrame(() => {
+                frame = 0;
+                if (overlayRef.current) setLayouts(layoutCursors(overlayRef.current, remote));
             });
-        });
+        };
+        schedule();
+        if (remote.length === 0) return () => cancelAnimationFrame(frame);
+
+        const mutations = new MutationObserver(schedule);
+        mutations.observe(holder, { childList: true, subtree: true, characterData: true });
+        const resize = new ResizeObserver(schedule);
+        resize.observe(holder);
+
+        return () => {
+            cancelAnimationFrame(frame);
+            mutations.disconnect();
+            resize.disconnect();
+        };
+    }, [holder, cursors]);
 
-        setVisibleCursors(cursorArray);
-    }, [cursors]);
+    // Report the local caret as text positions
+    useEffect(() => {
+        if (!holder) return;
+
+        let frame = 0;
+        const report = () => {
+            frame = 0;
+            const selection = window.getSelection();
+            if (!selection || selection.rangeCount === 0 || !holder.contains(selection.focusNode)) {
+                onCursorChangeRef.current?.(null);
+                return;
+            }
+
+            const anchor = textPositionOf(selection.anchorNode, selection.anchorOffset);
+            const head = textPositionOf(selection.focusNode, selection.focusOffset);
+            onCursorChangeRef.current?.(anchor && head ? { anchor, head } : null);
+        };
+        const handleSelectionChange = () => {
+            if (!frame) frame = requestAnimationFrame(report);
+        };
+
+        window.document.addEventListener('selectionchange', handleSelectionChange);
+        return () => {
+            cancelAnimationFrame(frame);
+            window.document.removeEventListener('selectionchange', handleSelectionChange);
+        };
+    }, [holder]);
 
     return (
-        <>
-            {visibleCursors.map((cursor) => (
-                <div
-                    key={cursor.userId}
-                    className="fixed pointer-events-none z-50 transition-all duration-100"
-                    style={{
-                        left: `${cursor.x}px`,
-                        top: `${cursor.y}px`,
-                    }}
-                >
-                    {/* Cursor pointer */}
-                    <svg
-                        width="24"
-                        height="24"
-                        viewBox="0 0 24 24"
-                        fill="none"
-                        xmlns="http://www.w3.org/2000/svg"
-                        style={{ filter: 'drop-shadow(0 1px 2px rgba(0,0,0,0.3))' }}
-                    >
-                        <path
-                            d="M5.65376 12.3673L5.46026 12.4196L5.49926 12.6093L7.27187 21.8423C7.29343 21.9556 7.37645 22.0469 7.4869 22.0735C7.5973 22.1001 7.71333 22.0574 7.78488 21.9669L12 17L14.2927 19.2927C14.6833 19.6833 15.3166 19.6833 15.7071 19.2927L19.2927 15.7071C19.6833 15.3166 19.6833 14.6833 19.2927 14.2927L17 12L21.9669 7.78488C22.0574 7.71333 22.1001 7.5973 22.0735 7.4869C22.0469 7.37645 21.9556 7.29343 21.8423 7.27187L12.6093 5.49926L12.4196 5.46026L12.3673 5.65376L5.65376 12.3673Z"
-                            fill={cursor.userColor}
-                            stroke="white"
-                            strokeWidth="1.5"
+        <div ref={overlayRef} className="remote-cursors" aria-hidden="true">
+            {layouts.map((layout) => (
+                <Fragment key={layout.clientId}>
+                    {layout.selection.map((box, index) => (
+                        <div
+                            key={index}
+                            className="remote-cursors__selection"
+                            style={{ left: box.left, top: box.top, width: box.width, height: box.height, backgroundColor: layout.color }}
                         />
-                    </svg>
-
-                    {/* User name label */}
+                    ))}
                     <div
-                        className="mt-1 px-2 py-1 rounded text-white text-xs font-medium whitespace-nowrap"
-                        style={{ backgroundColor: cursor.userColor }}
+                        className="remote-cursors__caret"
+                        style={{ left: layout.caret.left, top: layout.caret.top, height: layout.caret.height, backgroundColor: layout.color }}
                     >
-                        {cursor.userName}
+                        <span className="remote-cursors__label" style={{ backgroundColor: layout.color }}>
+                            {layout.name}
+                        </span>
                     </div>
-                </div>
+                </Fragment>
             ))}
-        </>
+        </div>
     );
 }
-
@@ -1,10 +1,27 @@
-import { useRealtimeStore } from '../../lib/realtime/realtimeStore';
+import { selectFollowerCount, useRealtimeStore } from '../../lib/realtime/realtimeStore';
 import { Avatar, AvatarImage, AvatarFallback } from '../ui/avatar';
 import { getInitials } from '../../lib/utils';
+import { getCurrentUserId } from '../../lib/auth';
 import { API_URL } from '../../lib/config';
 
+function FollowerBadge({ userId }: { userId: string }) {
+    const count = useRealtimeStore(selectFollowerCount(userId));
+    if (count === 0) return null;
+
+    return (
+        <span className="presence-avatar__followers">
+            {count} {count === 1 ? 'follower' : 'followers'}
+        </span>
+    );
+}
+
+/**
+ * Avatars of the collaborators in the document. Clicking someone else's avatar follows their
+ * viewport (see FollowMode); clicking it again stops.
+ */
 export default function UserPresence() {
-    const { connectedUsers, isConnected } = useRealtimeStore();
+    const { connectedUsers, isConnected, following, setFollowing } = useRealtimeStore();
+    const currentUserId = getCurrentUserId();
 
     if (!isConnected || connectedUsers.length === 0) {
         return null;
@@ -36,25 +53,36 @@ export default function UserPresence() {
                     const avatarUrl = getAvatarUrl(user.avatar);
                     const initials = getInitials(firstName, lastName);
 
+                    const isSelf = user.id === currentUserId;
+                    const isFollowed = following === user.id;
+
                     return (
-                        <Avatar
+                        <button
                             key={user.id}
-                            className="w-8 h-8 border-2 border-white dark:border-background"
-                            title={user.name}
+                            type="button"
+                            className={`presence-avatar${isFollowed ? ' presence-avatar--following' : ''}`}
+                            style={{ '--presence-color': user.color } as React.CSSProperties}
+                            title={isSelf ? user.name : isFollowed ? `Stop following ${user.name}` : `Follow ${user.name}`}
+                            aria-pressed={isSelf ? undefined : isFollowed}
+                            disabled={isSelf}
+                            onClick={() => setFollowing(isFollowed ? null : user.id)}
                         >
-                            {avatarUrl && (
-                                <AvatarImage
-                                    src={avatarUrl}
-                                    alt={user.name}
-                                />
-                            )}
-                            <AvatarFallback
-                                className="text-white text-[12px] font-medium"
-                                style={{ backgroundColor: user.color }}
-                            >
-                                {initials || user.name.substring(0, 2).toUpperCase()}
-                            </AvatarFallback>
-                        </Avatar>
+                            <Avatar className="w-8 h-8 border-2 border-white dark:border-background">
+                                {avatarUrl && (
+                                    <AvatarImage
+                                        src={avatarUrl}
+                                        alt={user.name}
+                                    />
+                                )}
+                                <AvatarFallback
+                                    className="text-white text-[12px] font-medium"
+                                    style={{ backgroundColor: user.color }}
+                                >
+                                    {initials || user.name.substring(0, 2).toUpperCase()}
+                                </AvatarFallback>
+                            </Avatar>
+                            <FollowerBadge userId={user.id} />
+                        </button>
                     );
                 })}
             </div>
@@ -3,6 +3,8 @@ import { Outlet } from 'react-router-dom';
 import Sidebar from './Sidebar';
 import TopBar from './TopBar';
 import PomodoroTimer from '../widgets/PomodoroTimer';
+import SaveConflictDialog from '../modals/SaveConflictDialog';
+import { start as startSaveOutbox } from '../../lib/offline/outbox';
 
 interface MainLayoutProps {
   children?: ReactNode;
@@ -17,6 +19,11 @@ export default function MainLayout({ children, onLogout }: MainLayoutProps) {
     return saved === 'true';
   });
 
+  // Replay document saves queued while offline
+  useEffect(() => {
+    startSaveOutbox();
+  }, []);
+
   useEffect(() => {
     // Save preference to localStorage
     localStorage.setItem('pomodoro_timer_visible', showPomodoro.toString());
@@ -60,6 +67,8 @@ export default function MainLayout({ children, onLogout }: MainLayoutProps) {
           </div>
         )}
       </div>
+
+      <SaveConflictDialog />
     </div>
   );
 }
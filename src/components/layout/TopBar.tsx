@@ -1,6 +1,6 @@
 import { useState, useEffect, useRef } from 'react';
 import { Link, useNavigate } from 'react-router-dom';
-import { Search, Bell, User, LogOut, Settings, Mic, Loader2, Moon, Sun, Home, FileText, Folder, Calendar, MessageSquare, Sparkles, Video, BarChart3 } from 'lucide-react';
+import { Search, Bell, User, LogOut, Settings, Mic, Loader2, Moon, Sun, Home, FileText, Folder, Calendar, MessageSquare, Sparkles, Video, BarChart3, WifiOff } from 'lucide-react';
 import { Input } from '../ui/input';
 import { Button } from '../ui/button';
 import { toast } from 'sonner';
@@ -19,6 +19,8 @@ import { getUserById } from '../../lib/services/userService';
 import { getInitials } from '../../lib/utils';
 import { useTheme } from '../../lib/contexts/ThemeContext';
 import { API_URL } from '../../lib/config';
+import { useConnectionStore } from '../../lib/realtime/connectionStore';
+import { connectionManager } from '../../lib/realtime/connection';
 
 interface TopBarProps {
   onLogout: () => void;
@@ -56,6 +58,7 @@ export default function TopBar({ onLogout, onShowPomodoro }: TopBarProps) {
   const [unreadCount, setUnreadCount] = useState(0);
   const [user, setUser] = useState<UserData | null>(null);
   const [userLoading, setUserLoading] = useState(true);
+  const connectionStatus = useConnectionStore((state) => state.status);
 
   useEffect(() => {
     const handleClickOutside = (event: MouseEvent) => {
@@ -246,6 +249,25 @@ export default function TopBar({ onLogout, onShowPomodoro }: TopBarProps) {
 
       {/* Right section */}
       <div className="flex items-center space-x-3 ml-4">
+        {/* Realtime connection */}
+        {(connectionStatus === 'reconnecting' || connectionStatus === 'offline') && (
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => connectionManager.reconnectNow()}
+            className={`rounded-xl gap-1.5 ${connectionStatus === 'offline' ? 'text-red-600 dark:text-red-400' : 'text-muted-foreground'}`}
+            title="Live updates are paused. Click to reconnect now."
+            aria-live="polite"
+          >
+            {connectionStatus === 'offline' ? (
+              <WifiOff className="w-4 h-4" />
+            ) : (
+              <Loader2 className="w-4 h-4 animate-spin" />
+            )}
+            {connectionStatus === 'offline' ? 'Offline' : 'Reconnecting…'}
+          </Button>
+        )}
+
         {/* Theme Toggle */}
         <Button
           variant="ghost"
@@ -296,6 +318,11 @@ export default function TopBar({ onLogout, onShowPomodoro }: TopBarProps) {
                           title: notif.metadata.meetingTitle || notif.title,
                         });
                         navigate(`/meet?${params.toString()}`);
+                      } else if (notif.type === 'mention' && notif.documentId && notif.metadata?.blockId) {
+                        // Deep-link to the block the user was mentioned in
+                        navigate(`/documents/${notif.documentId}#block-${encodeURIComponent(notif.metadata.blockId)}`);
+                      } else if (notif.type === 'milestone' && notif.documentId) {
+                        navigate(`/documents/${notif.documentId}/history`);
                       } else if (notif.documentId) {
                         navigate(`/documents/${notif.documentId}`);
                       } else if (notif.folderId) {
@@ -1,27 +1,35 @@
 /**
  * CommentsPanel.tsx
- * 
+ *
  * Document Comments Sidebar
- * 
- * A sidebar panel for displaying and managing comments on a document.
+ *
+ * A sidebar panel for displaying and managing comment threads on a document.
  * Users with shared access to the document can view and add comments.
- * 
+ *
  * Features:
- * - Display all comments for a document in chronological order
- * - Add new comments
+ * - Display comment threads for a document in chronological order
+ * - Add new comments, either on the whole document or anchored to selected text
+ * - Reply to a thread, resolve it and reopen it
+ * - Emoji reactions on comments and replies
+ * - Open / Resolved filter so finished discussions stay out of the way
+ * - Jump between a thread and its highlighted text in the editor
+ * - Flag anchored comments whose text was deleted as orphaned
  * - Real-time updates via WebSocket (future enhancement)
  * - User avatars and names
  * - Timestamps for each comment
  * - Delete own comments
  */
 
-import { useState, useEffect, useRef } from 'react';
-import { MessageSquare, Send, Trash2, X } from 'lucide-react';
+import { useState, useEffect, useRef, useMemo } from 'react';
+import { Check, CornerDownRight, MessageSquare, RotateCcw, Send, SmilePlus, Trash2, X, Unlink } from 'lucide-react';
 import { Button } from '../ui/button';
 import { Card } from '../ui/card';
 import { Input } from '../ui/input';
 import { Avatar, AvatarFallback } from '../ui/avatar';
+import { Popover, PopoverContent, PopoverTrigger } from '../ui/popover';
 import { commentsApi, Comment } from '../../api/comments';
+import { useCommentsStore } from '../../lib/comments/commentsStore';
+import { resolveAnchor } from '../../lib/comments/anchors';
 import { toast } from 'sonner';
 import { getUserById } from '../../lib/services/userService';
 import { getInitials } from '../../lib/utils';
@@ -39,13 +47,72 @@ interface CommentsPanelProps {
     onClose: () => void;
 }
 
+interface CommentThread {
+    comment: Comment;
+    replies: Comment[];
+}
+
+type ThreadFilter = 'open' | 'resolved';
+
+const REACTION_EMOJIS = ['👍', '❤️', '😄', '🎉', '👀', '✅'];
+
+const byCreatedAt = (a: Comment, b: Comment) => new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime();
+
+// resolvedBy is populated by the API, but older responses only carry the user id
+const resolverName = (comment: Comment) => {
+    const resolvedBy = comment.resolvedBy;
+    if (resolvedBy && typeof resolvedBy === 'object') {
+        return `${resolvedBy.firstName} ${resolvedBy.lastName}`.trim();
+    }
+    return 'a collaborator';
+};
+
 export default function CommentsPanel({ documentId, isOpen, onClose }: CommentsPanelProps) {
-    const [comments, setComments] = useState<Comment[]>([]);
+    const {
+        comments,
+        loading,
+        activeCommentId,
+        orphanedIds,
+        pendingAnchor,
+        loadComments: loadDocumentComments,
+        addComment,
+        updateComment,
+        removeComment,
+        setActiveComment,
+        setPendingAnchor,
+    } = useCommentsStore();
     const [newComment, setNewComment] = useState('');
-    const [loading, setLoading] = useState(false);
     const [currentUser, setCurrentUser] = useState<CurrentUser | null>(null);
     const [submitting, setSubmitting] = useState(false);
+    const [filter, setFilter] = useState<ThreadFilter>('open');
+    const [replyingTo, setReplyingTo] = useState<string | null>(null);
+    const [replyText, setReplyText] = useState('');
     const commentsEndRef = useRef<HTMLDivElement>(null);
+    const threadRefs = useRef<Map<string, HTMLDivElement>>(new Map());
+    const inputContainerRef = useRef<HTMLDivElement>(null);
+    // The active thread last brought into view, so comment updates don't do it again
+    const shownActiveIdRef = useRef<string | null>(null);
+
+    // Group replies under their top-level comment
+    const threads = useMemo<CommentThread[]>(() => {
+        const repliesByParent = new Map<string, Comment[]>();
+        comments.forEach((comment) => {
+            if (!comment.parentId) return;
+            repliesByParent.set(comment.parentId, [...(repliesByParent.get(comment.parentId) || []), comment]);
+        });
+
+        return comments
+            .filter((comment) => !comment.parentId)
+            .sort(byCreatedAt)
+            .map((comment) => ({
+                comment,
+                replies: (repliesByParent.get(comment._id) || []).sort(byCreatedAt),
+            }));
+    }, [comments]);
+
+    const openThreads = threads.filter((thread) => !thread.comment.resolved);
+    const resolvedThreads = threads.filter((thread) => thread.comment.resolved);
+    const visibleThreads = filter === 'open' ? openThreads : resolvedThreads;
 
     // Load current user
     useEffect(() => {
@@ -82,17 +149,53 @@ export default function CommentsPanel({ documentId, isOpen, onClose }: CommentsP
 
     const loadComments = async () => {
         try {
-            setLoading(true);
-            const data = await commentsApi.getByDocument(documentId);
-            setComments(data);
+            await loadDocumentComments(documentId);
         } catch (error: any) {
             console.error('Failed to load comments:', error);
             toast.error('Failed to load comments');
-        } finally {
-            setLoading(false);
         }
     };
 
+    // Focus the input when the user starts a comment on a selection
+    useEffect(() => {
+        if (isOpen && pendingAnchor) {
+            setFilter('open');
+            inputContainerRef.current?.querySelector('input')?.focus();
+        }
+    }, [isOpen, pendingAnchor]);
+
+    // Bring the active thread into view (e.g. after its highlight was clicked),
+    // switching to the filter that contains it first. Once per activation: replies,
+    // reactions and remote syncs must not override the filter the user picked since
+    useEffect(() => {
+        if (!isOpen || !activeCommentId) {
+            shownActiveIdRef.current = null;
+            return;
+        }
+        if (shownActiveIdRef.current === activeCommentId) return;
+
+        const active = comments.find((comment) => comment._id === activeCommentId);
+        // Wait for the comments to load
+        if (!active) return;
+        shownActiveIdRef.current = activeCommentId;
+
+        if (!active.parentId) {
+            setFilter(active.resolved ? 'resolved' : 'open');
+        }
+        requestAnimationFrame(() => {
+            threadRefs.current.get(activeCommentId)?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+        });
+    }, [isOpen, activeCommentId, comments]);
+
+    // Scroll the editor to the text a comment is anchored to
+    const showAnchoredText = (comment: Comment) => {
+        setActiveComment(comment._id);
+
+        const holder = window.document.getElementById('editorjs');
+        const range = comment.anchor && holder ? resolveAnchor(comment.anchor, holder) : null;
+        range?.startContainer.parentElement?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+    };
+
     const handleSubmitComment = async () => {
         if (!newComment.trim()) {
             toast.error('Please enter a comment');
@@ -109,10 +212,16 @@ export default function CommentsPanel({ documentId, isOpen, onClose }: CommentsP
             const comment = await commentsApi.create({
                 content: newComment.trim(),
                 document: documentId,
+                anchor: pendingAnchor || undefined,
             });
 
-            setComments([comment, ...comments]);
+            addComment(comment);
             setNewComment('');
+            setPendingAnchor(null);
+            setFilter('open');
+            if (comment.anchor) {
+                setActiveComment(comment._id);
+            }
             toast.success('Comment added');
         } catch (error: any) {
             console.error('Failed to create comment:', error);
@@ -122,12 +231,70 @@ export default function CommentsPanel({ documentId, isOpen, onClose }: CommentsP
         }
     };
 
+    const handleSubmitReply = async (parentId: string) => {
+        if (!replyText.trim()) return;
+
+        if (!currentUser) {
+            toast.error('You must be logged in to reply');
+            return;
+        }
+
+        try {
+            setSubmitting(true);
+            const reply = await commentsApi.reply(parentId, {
+                content: replyText.trim(),
+                document: documentId,
+            });
+
+            addComment({ ...reply, parentId });
+            setReplyText('');
+            setReplyingTo(null);
+        } catch (error: any) {
+            console.error('Failed to add reply:', error);
+            toast.error(error?.response?.data?.message || 'Failed to add reply');
+        } finally {
+            setSubmitting(false);
+        }
+    };
+
+    const handleToggleResolved = async (comment: Comment) => {
+        try {
+            const updated = comment.resolved
+                ? await commentsApi.reopen(comment._id)
+                : await commentsApi.resolve(comment._id);
+
+            updateComment(updated);
+            if (activeCommentId === comment._id) {
+                setActiveComment(null);
+            }
+            toast.success(comment.resolved ? 'Thread reopened' : 'Thread resolved');
+        } catch (error: any) {
+            console.error('Failed to update thread:', error);
+            toast.error(error?.response?.data?.message || 'Failed to update thread');
+        }
+    };
+
+    const handleToggleReaction = async (comment: Comment, emoji: string) => {
+        if (!currentUser) return;
+
+        const reacted = comment.reactions?.some((r) => r.emoji === emoji && r.users.includes(currentUser._id));
+        try {
+            const updated = reacted
+                ? await commentsApi.removeReaction(comment._id, emoji)
+                : await commentsApi.addReaction(comment._id, emoji);
+            updateComment(updated);
+        } catch (error: any) {
+            console.error('Failed to update reaction:', error);
+            toast.error('Failed to update reaction');
+        }
+    };
+
     const handleDeleteComment = async (commentId: string) => {
         if (!confirm('Are you sure you want to delete this comment?')) return;
 
         try {
             await commentsApi.delete(commentId);
-            setComments(comments.filter(c => c._id !== commentId));
+            removeComment(commentId);
             toast.success('Comment deleted');
         } catch (error: any) {
             console.error('Failed to delete comment:', error);
@@ -135,12 +302,12 @@ export default function CommentsPanel({ documentId, isOpen, onClose }: CommentsP
         }
     };
 
-    // Auto-scroll to bottom when new comments are added
+    // Auto-scroll to bottom when new threads are added
     useEffect(() => {
-        if (commentsEndRef.current) {
+        if (commentsEndRef.current && !activeCommentId && filter === 'open') {
             commentsEndRef.current.scrollIntoView({ behavior: 'smooth' });
         }
-    }, [comments]);
+    }, [threads.length]);
 
     const formatTime = (dateString: string) => {
         const date = new Date(dateString);
@@ -163,6 +330,107 @@ export default function CommentsPanel({ documentId, isOpen, onClose }: CommentsP
         }
     };
 
+    const renderReactions = (comment: Comment) => (
+        <div className="flex flex-wrap items-center gap-1 mt-2">
+            {(comment.reactions || []).filter((reaction) => reaction.users.length > 0).map((reaction) => (
+                <button
+                    key={reaction.emoji}
+                    type="button"
+                    className={`comment-reaction ${currentUser && reaction.users.includes(currentUser._id) ? 'comment-reaction--mine' : ''}`}
+                    onClick={() => handleToggleReaction(comment, reaction.emoji)}
+                >
+                    {reaction.emoji} {reaction.users.length}
+                </button>
+            ))}
+            <Popover>
+                <PopoverTrigger asChild>
+                    <Button variant="ghost" size="icon" className="h-6 w-6" title="Add reaction">
+                        <SmilePlus className="w-3 h-3" />
+                    </Button>
+                </PopoverTrigger>
+                <PopoverContent align="start" className="w-fit p-1 rounded-xl">
+                    <div className="flex gap-1">
+                        {REACTION_EMOJIS.map((emoji) => (
+                            <button
+                                key={emoji}
+                                type="button"
+                                className="comment-reaction-option"
+                                onClick={() => handleToggleReaction(comment, emoji)}
+                            >
+                                {emoji}
+                            </button>
+                        ))}
+                    </div>
+                </PopoverContent>
+            </Popover>
+        </div>
+    );
+
+    const renderComment = (comment: Comment, isReply: boolean) => (
+        <div className="flex items-start gap-3">
+            <Avatar className={isReply ? 'w-6 h-6' : 'w-8 h-8'}>
+                <AvatarFallback className="bg-gradient-to-br from-primary to-primary/80 text-primary-foreground text-xs">
+                    {getInitials(comment.user.firstName, comment.user.lastName)}
+                </AvatarFallback>
+            </Avatar>
+            <div className="flex-1 min-w-0">
+                <div className="flex items-center justify-between mb-1">
+                    <div>
+                        <p className="text-sm font-medium text-foreground">
+                            {comment.user.firstName} {comment.user.lastName}
+                        </p>
+                        <p className="text-xs text-muted-foreground">
+                            {formatTime(comment.createdAt)}
+                        </p>
+                    </div>
+                    <div className="flex items-center gap-1">
+                        {!isReply && (
+                            <Button
+                                variant="ghost"
+                                size="icon"
+                                className="h-6 w-6"
+                                title={comment.resolved ? 'Reopen thread' : 'Resolve thread'}
+                                onClick={() => handleToggleResolved(comment)}
+                            >
+                                {comment.resolved ? <RotateCcw className="w-3 h-3" /> : <Check className="w-3 h-3" />}
+                            </Button>
+                        )}
+                        {currentUser && comment.user._id === currentUser._id && (
+                            <Button
+                                variant="ghost"
+                                size="icon"
+                                className="h-6 w-6 text-destructive hover:text-destructive hover:bg-destructive/10"
+                                onClick={() => handleDeleteComment(comment._id)}
+                            >
+                                <Trash2 className="w-3 h-3" />
+                            </Button>
+                        )}
+                    </div>
+                </div>
+                {!isReply && comment.anchor && (
+                    orphanedIds.has(comment._id) ? (
+                        <div className="comment-quote comment-quote--orphaned" title="The commented text was deleted">
+                            <Unlink className="w-3 h-3 mr-1 inline" />
+                            Orphaned · <span className="line-through">{comment.anchor.quote}</span>
+                        </div>
+                    ) : (
+                        <button
+                            type="button"
+                            className="comment-quote"
+                            onClick={() => showAnchoredText(comment)}
+                        >
+                            {comment.anchor.quote}
+                        </button>
+                    )
+                )}
+                <p className="text-sm text-foreground whitespace-pre-wrap break-words">
+                    {comment.content}
+                </p>
+                {renderReactions(comment)}
+            </div>
+        </div>
+    );
+
     if (!isOpen) return null;
 
     return (
@@ -172,8 +440,8 @@ export default function CommentsPanel({ documentId, isOpen, onClose }: CommentsP
                 <div className="flex items-center gap-2">
                     <MessageSquare className="w-5 h-5 text-primary" />
                     <h2 className="text-lg font-semibold text-foreground">Comments</h2>
-                    {comments.length > 0 && (
-                        <span className="text-sm text-muted-foreground">({comments.length})</span>
+                    {openThreads.length > 0 && (
+                        <span className="text-sm text-muted-foreground">({openThreads.length})</span>
                     )}
                 </div>
                 <Button variant="ghost" size="icon" onClick={onClose} className="rounded-lg">
@@ -181,68 +449,144 @@ export default function CommentsPanel({ documentId, isOpen, onClose }: CommentsP
                 </Button>
             </div>
 
-            {/* Comments List */}
+            {/* Open / Resolved filter */}
+            <div className="px-4 mt-3 flex gap-2 bg-card">
+                <Button
+                    size="sm"
+                    variant={filter === 'open' ? 'default' : 'outline'}
+                    className="rounded-xl"
+                    onClick={() => setFilter('open')}
+                >
+                    Open ({openThreads.length})
+                </Button>
+                <Button
+                    size="sm"
+                    variant={filter === 'resolved' ? 'default' : 'outline'}
+                    className="rounded-xl"
+                    onClick={() => setFilter('resolved')}
+                >
+                    <Check className="w-3 h-3 mr-1" />
+                    Resolved ({resolvedThreads.length})
+                </Button>
+            </div>
+
+            {/* Comment Threads */}
             <div className="flex-1 overflow-y-auto p-4 space-y-4 bg-card">
                 {loading && (
                     <div className="text-center text-muted-foreground py-8">Loading comments...</div>
                 )}
 
-                {!loading && comments.length === 0 && (
+                {!loading && visibleThreads.length === 0 && (
                     <div className="text-center py-12">
                         <MessageSquare className="w-12 h-12 mx-auto mb-4 text-muted-foreground opacity-50" />
-                        <p className="text-muted-foreground">No comments yet</p>
-                        <p className="text-sm text-muted-foreground mt-1">
-                            Start the conversation
+                        <p className="text-muted-foreground">
+                            {filter === 'open' ? 'No open comments' : 'No resolved comments'}
                         </p>
+                        {filter === 'open' && (
+                            <p className="text-sm text-muted-foreground mt-1">
+                                Start the conversation
+                            </p>
+                        )}
                     </div>
                 )}
 
-                {comments.map((comment) => (
-                    <Card key={comment._id} className="p-3 rounded-xl bg-card border-border">
-                        <div className="flex items-start gap-3">
-                            <Avatar className="w-8 h-8">
-                                <AvatarFallback className="bg-gradient-to-br from-primary to-primary/80 text-primary-foreground text-xs">
-                                    {getInitials(comment.user.firstName, comment.user.lastName)}
-                                </AvatarFallback>
-                            </Avatar>
-                            <div className="flex-1 min-w-0">
-                                <div className="flex items-center justify-between mb-1">
-                                    <div>
-                                        <p className="text-sm font-medium text-foreground">
-                                            {comment.user.firstName} {comment.user.lastName}
-                                        </p>
-                                        <p className="text-xs text-muted-foreground">
-                                            {formatTime(comment.createdAt)}
-                                        </p>
-                                    </div>
-                                    {currentUser && comment.user._id === currentUser._id && (
-                                        <Button
-                                            variant="ghost"
-                                            size="icon"
-                                            className="h-6 w-6 text-destructive hover:text-destructive hover:bg-destructive/10"
-                                            onClick={() => handleDeleteComment(comment._id)}
-                                        >
-                                            <Trash2 className="w-3 h-3" />
-                                        </Button>
-                                    )}
-                                </div>
-                                <p className="text-sm text-foreground whitespace-pre-wrap break-words">
-                                    {comment.content}
+                {visibleThreads.map(({ comment, replies }) => (
+                    <div
+                        key={comment._id}
+                        ref={(element) => {
+                            if (element) threadRefs.current.set(comment._id, element);
+                            else threadRefs.current.delete(comment._id);
+                        }}
+                    >
+                        <Card className={`p-3 rounded-xl bg-card border-border ${activeCommentId === comment._id ? 'comment-thread--active' : ''}`}>
+                            {comment.resolved && (
+                                <p className="text-xs text-muted-foreground mb-2">
+                                    <Check className="w-3 h-3 mr-1 inline" />
+                                    Resolved by {resolverName(comment)}
+                                    {comment.resolvedAt && ` · ${formatTime(comment.resolvedAt)}`}
                                 </p>
-                            </div>
-                        </div>
-                    </Card>
+                            )}
+
+                            {renderComment(comment, false)}
+
+                            {replies.length > 0 && (
+                                <div className="comment-replies">
+                                    {replies.map((reply) => (
+                                        <div key={reply._id}>{renderComment(reply, true)}</div>
+                                    ))}
+                                </div>
+                            )}
+
+                            {replyingTo === comment._id ? (
+                                <div className="flex gap-2 mt-3">
+                                    <Input
+                                        autoFocus
+                                        value={replyText}
+                                        onChange={(e) => setReplyText(e.target.value)}
+                                        placeholder="Reply..."
+                                        className="rounded-xl bg-background border-border text-foreground placeholder:text-muted-foreground"
+                                        onKeyDown={(e) => {
+                                            if (e.key === 'Enter' && !e.shiftKey) {
+                                                e.preventDefault();
+                                                handleSubmitReply(comment._id);
+                                            } else if (e.key === 'Escape') {
+                                                setReplyingTo(null);
+                                                setReplyText('');
+                                            }
+                                        }}
+                                        disabled={submitting}
+                                    />
+                                    <Button
+                                        onClick={() => handleSubmitReply(comment._id)}
+                                        disabled={submitting || !replyText.trim()}
+                                        className="rounded-xl"
+                                    >
+                                        <Send className="w-4 h-4" />
+                                    </Button>
+                                </div>
+                            ) : (
+                                !comment.resolved && (
+                                    <Button
+                                        variant="ghost"
+                                        size="sm"
+                                        className="mt-2 rounded-lg text-muted-foreground"
+                                        onClick={() => {
+                                            setReplyingTo(comment._id);
+                                            setReplyText('');
+                                        }}
+                                    >
+                                        <CornerDownRight className="w-3 h-3 mr-1" />
+                                        Reply
+                                    </Button>
+                                )
+                            )}
+                        </Card>
+                    </div>
                 ))}
                 <div ref={commentsEndRef} />
             </div>
 
             {/* Comment Input */}
             <div className="p-4 border-t border-border bg-card">
-                <div className="flex gap-2">
+                {pendingAnchor && (
+                    <div className="flex items-center gap-2 mb-2">
+                        <div className="comment-quote flex-1 min-w-0">{pendingAnchor.quote}</div>
+                        <Button
+                            variant="ghost"
+                            size="icon"
+                            className="h-6 w-6"
+                            title="Comment on the whole document instead"
+                            onClick={() => setPendingAnchor(null)}
+                        >
+                            <X className="w-3 h-3" />
+                        </Button>
+                    </div>
+                )}
+                <div ref={inputContainerRef} className="flex gap-2">
                     <Input
                         value={newComment}
                         onChange={(e) => setNewComment(e.target.value)}
-                        placeholder="Add a comment..."
+                        placeholder={pendingAnchor ? 'Comment on the selected text...' : 'Add a comment...'}
                         className="rounded-xl bg-background border-border text-foreground placeholder:text-muted-foreground"
                         onKeyPress={(e) => {
                             if (e.key === 'Enter' && !e.shiftKey) {
@@ -0,0 +1,158 @@
+import { useEffect, useMemo, useState } from 'react';
+import { toast } from 'sonner';
+import { Button } from '../ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '../ui/dialog';
+import { EditorBlock } from '../../lib/export/blocks';
+import { blockToMarkdown } from '../../lib/export/markdown';
+import { blockKey } from '../../lib/offline/merge';
+import { OutboxEntry, Resolution, resolve, subscribe } from '../../lib/offline/outbox';
+import { useOutboxStore } from '../../lib/offline/outboxStore';
+
+interface ConflictBlock {
+  key: string;
+  text: string;
+  // Not in the other copy
+  changed: boolean;
+}
+
+interface ConflictSide {
+  title?: string;
+  tags?: string[];
+  blocks: ConflictBlock[];
+}
+
+const parseBlocks = (content: string | null): EditorBlock[] => {
+  try {
+    return (content && JSON.parse(content)?.blocks) || [];
+  } catch {
+    return [];
+  }
+};
+
+const compareBlocks = (blocks: EditorBlock[], other: EditorBlock[]): ConflictBlock[] => {
+  const otherKeys = new Set(other.map(blockKey));
+  return blocks.map((block, index) => ({
+    key: block.id || String(index),
+    text: blockToMarkdown(block) ?? '',
+    changed: !otherKeys.has(blockKey(block)),
+  }));
+};
+
+const compareEntry = (entry: OutboxEntry): [ConflictSide, ConflictSide] => {
+  if (entry.kind === 'content') {
+    const mine = parseBlocks(entry.content);
+    const theirs = parseBlocks(entry.conflict?.server ?? null);
+    return [{ blocks: compareBlocks(mine, theirs) }, { blocks: compareBlocks(theirs, mine) }];
+  }
+
+  const server = entry.conflict?.server;
+  return [
+    { title: entry.metadata.Title, tags: entry.metadata.contentType, blocks: [] },
+    { title: server?.Title, tags: server?.contentType, blocks: [] },
+  ];
+};
+
+/**
+ * Asks what to do with a queued save whose document was changed on the server while it
+ * waited, showing both copies side by side. Shown for one conflict at a time; "Decide later"
+ * keeps the save queued until the dialog is reopened (the showSaveConflicts event).
+ */
+export default function SaveConflictDialog() {
+  const { entries } = useOutboxStore();
+  const [dismissed, setDismissed] = useState<number[]>([]);
+  const [resolving, setResolving] = useState(false);
+
+  const entry = entries.find((pending) => pending.conflict && !dismissed.includes(pending.seq));
+  const sides = useMemo(() => (entry ? compareEntry(entry) : null), [entry]);
+
+  useEffect(() => {
+    const handleShowConflicts = () => setDismissed([]);
+    window.addEventListener('showSaveConflicts', handleShowConflicts);
+
+    const unsubscribe = subscribe((event) => {
+      if (event.type === 'failed') {
+        toast.error(
+          event.entry.kind === 'content'
+            ? 'A queued change to a document could not be saved'
+            : 'A queued document name or tag change could not be saved',
+        );
+      }
+    });
+
+    return () => {
+      window.removeEventListener('showSaveConflicts', handleShowConflicts);
+      unsubscribe();
+    };
+  }, []);
+
+  const handleResolve = async (resolution: Resolution) => {
+    if (!entry) return;
+    setResolving(true);
+    try {
+      await resolve(entry.seq, resolution);
+    } catch (error) {
+      console.error('Failed to resolve save conflict:', error);
+      toast.error('Failed to resolve the conflict');
+    } finally {
+      setResolving(false);
+    }
+  };
+
+  const renderSide = (label: string, side: ConflictSide) => (
+    <div className="space-y-2">
+      <p className="text-sm font-medium">{label}</p>
+      <div className="save-conflict__copy rounded-lg border p-3 space-y-1 text-sm">
+        {side.title !== undefined && <p className="font-medium break-words">{side.title || 'Untitled Document'}</p>}
+        {side.tags && <p className="text-xs text-muted-foreground">{side.tags.length > 0 ? side.tags.join(', ') : 'No tags'}</p>}
+        {side.blocks.map((block) => (
+          <p key={block.key} className={`save-conflict__block break-words${block.changed ? ' save-conflict__block--changed' : ''}`}>
+            {block.text || ' '}
+          </p>
+        ))}
+        {entry?.kind === 'content' && side.blocks.length === 0 && <p className="text-muted-foreground">Empty</p>}
+      </div>
+    </div>
+  );
+
+  return (
+    <Dialog open={!!entry} onOpenChange={(open) => !open && entry && setDismissed([...dismissed, entry.seq])}>
+      <DialogContent className="save-conflict rounded-2xl">
+        <DialogHeader>
+          <DialogTitle>{entry?.kind === 'metadata' ? 'Document details changed' : 'Document changed while you were offline'}</DialogTitle>
+          <DialogDescription>
+            Someone else saved this document before your changes could sync. Choose which version to keep, or merge them - blocks you both changed are kept twice.
+          </DialogDescription>
+        </DialogHeader>
+
+        {sides && (
+          <div className="grid grid-cols-2 gap-4">
+            {renderSide('Your version', sides[0])}
+            {renderSide('Server version', sides[1])}
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="ghost" onClick={() => entry && setDismissed([...dismissed, entry.seq])} disabled={resolving} className="rounded-xl">
+            Decide later
+          </Button>
+          <Button variant="outline" onClick={() => handleResolve('theirs')} disabled={resolving} className="rounded-xl">
+            Keep theirs
+          </Button>
+          <Button variant="outline" onClick={() => handleResolve('merge')} disabled={resolving} className="rounded-xl">
+            Merge
+          </Button>
+          <Button onClick={() => handleResolve('mine')} disabled={resolving} className="rounded-xl">
+            Keep mine
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,126 @@
+import { useState, useEffect } from 'react';
+import { toast } from 'sonner';
+import { Button } from '../ui/button';
+import { Input } from '../ui/input';
+import { Label } from '../ui/label';
+import { Textarea } from '../ui/textarea';
+import { RadioGroup, RadioGroupItem } from '../ui/radio-group';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '../ui/dialog';
+import { templatesApi, TemplateScope } from '../../api/templates';
+import { EditorData } from '../../lib/export/blocks';
+
+interface SaveTemplateModalProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  documentTitle: string;
+  folderId?: string;
+  getContent: () => Promise<EditorData>;
+}
+
+export default function SaveTemplateModal({ open, onOpenChange, documentTitle, folderId, getContent }: SaveTemplateModalProps) {
+  const [name, setName] = useState('');
+  const [description, setDescription] = useState('');
+  const [scope, setScope] = useState<TemplateScope>('user');
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (open) {
+      setName(documentTitle ? `${documentTitle} template` : '');
+      setDescription('');
+      setScope('user');
+    }
+  }, [open, documentTitle]);
+
+  const handleSave = async () => {
+    if (!name.trim()) {
+      toast.error('Please enter a template name');
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const content = await getContent();
+      await templatesApi.create({
+        name: name.trim(),
+        description: description.trim() || undefined,
+        content: JSON.stringify(content),
+        scope,
+        folderId: scope === 'folder' ? folderId : undefined,
+      });
+      toast.success('Template saved');
+      onOpenChange(false);
+    } catch (error: any) {
+      console.error('Failed to save template:', error);
+      toast.error(error?.response?.data?.message || 'Failed to save template');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="rounded-2xl">
+        <DialogHeader>
+          <DialogTitle>Save as template</DialogTitle>
+          <DialogDescription>
+            New documents can start from this document's content. Use {'{{date}}'}, {'{{author}}'} and {'{{title}}'} as placeholders.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="templateName">Template name</Label>
+            <Input
+              id="templateName"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="e.g., Sprint planning"
+              className="rounded-xl"
+              autoFocus
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="templateDescription">Description</Label>
+            <Textarea
+              id="templateDescription"
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+              placeholder="What is this template for?"
+              className="rounded-xl"
+              rows={2}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label>Available to</Label>
+            <RadioGroup value={scope} onValueChange={(value) => setScope(value as TemplateScope)}>
+              <div className="flex items-center gap-2">
+                <RadioGroupItem value="user" id="templateScopeUser" />
+                <Label htmlFor="templateScopeUser" className="font-normal">Only me</Label>
+              </div>
+              <div className="flex items-center gap-2">
+                <RadioGroupItem value="folder" id="templateScopeFolder" disabled={!folderId} />
+                <Label htmlFor="templateScopeFolder" className="font-normal">Everyone in this folder</Label>
+              </div>
+            </RadioGroup>
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} className="rounded-xl">
+            Cancel
+          </Button>
+          <Button onClick={handleSave} disabled={saving || !name.trim()} className="rounded-xl">
+            {saving ? 'Saving...' : 'Save template'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,112 @@
+import { useState, useEffect } from 'react';
+import { toast } from 'sonner';
+import { Button } from '../ui/button';
+import { Input } from '../ui/input';
+import { Label } from '../ui/label';
+import { Textarea } from '../ui/textarea';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '../ui/dialog';
+import { EditorData } from '../../lib/export/blocks';
+import { saveMilestone } from '../../lib/milestones';
+
+interface SaveVersionModalProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  documentId: string;
+  documentTitle: string;
+  getContent: () => Promise<EditorData>;
+}
+
+/**
+ * Saves the editor's current content as a named milestone version, e.g. "Sent to client v2".
+ * Milestones are listed separately in the history and kept when automatic versions are pruned.
+ */
+export default function SaveVersionModal({ open, onOpenChange, documentId, documentTitle, getContent }: SaveVersionModalProps) {
+  const [name, setName] = useState('');
+  const [description, setDescription] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (open) {
+      setName('');
+      setDescription('');
+    }
+  }, [open]);
+
+  const handleSave = async () => {
+    if (!name.trim()) {
+      toast.error('Please enter a version name');
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const content = await getContent();
+      const milestone = { name: name.trim(), description: description.trim() || undefined };
+      await saveMilestone(documentId, documentTitle, content, milestone);
+      toast.success(`Saved version "${milestone.name}"`);
+      onOpenChange(false);
+    } catch (error: any) {
+      console.error('Failed to save version:', error);
+      toast.error(error?.response?.data?.message || 'Failed to save version');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="rounded-2xl">
+        <DialogHeader>
+          <DialogTitle>Save version</DialogTitle>
+          <DialogDescription>
+            Keep the document as it is now as a named milestone. Collaborators are notified, and milestones are never pruned from the history.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="versionName">Version name</Label>
+            <Input
+              id="versionName"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter' && !saving) handleSave();
+              }}
+              placeholder="e.g., Sent to client v2"
+              className="rounded-xl"
+              autoFocus
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="versionDescription">Description</Label>
+            <Textarea
+              id="versionDescription"
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+              placeholder="What changed, or who this version is for"
+              className="rounded-xl"
+              rows={2}
+            />
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} className="rounded-xl">
+            Cancel
+          </Button>
+          <Button onClick={handleSave} disabled={saving || !name.trim()} className="rounded-xl">
+            {saving ? 'Saving...' : 'Save version'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,200 @@
+/**
+ * SuggestionsPanel.tsx
+ *
+ * Document Suggestions Sidebar
+ *
+ * Lists the suggested insertions and deletions in the document (made in suggesting mode)
+ * and lets people with edit access accept or reject them, one by one or all at once.
+ * Suggestions live in the editor content, so the list is read from the editor and
+ * refreshes whenever the content changes, including remote edits.
+ */
+
+import { useState, useEffect, useCallback } from 'react';
+import { Check, CheckCheck, FilePen, X } from 'lucide-react';
+import { Button } from '../ui/button';
+import { Card } from '../ui/card';
+import { Avatar, AvatarFallback } from '../ui/avatar';
+import { toast } from 'sonner';
+import { Suggestion, findSuggestionMark, readSuggestions, resolveSuggestion } from '../../lib/suggestions';
+
+interface SuggestionsPanelProps {
+    isOpen: boolean;
+    // Viewers can see suggestions but not accept or reject them
+    canReview: boolean;
+    onClose: () => void;
+    onChange?: () => void;
+}
+
+const initialsOf = (name: string) => name
+    .split(/\s+/)
+    .filter(Boolean)
+    .slice(0, 2)
+    .map((part) => part[0].toUpperCase())
+    .join('') || '?';
+
+const formatTime = (dateString: string) => {
+    if (!dateString) return '';
+    const date = new Date(dateString);
+    const diffInSeconds = Math.floor((Date.now() - date.getTime()) / 1000);
+
+    if (diffInSeconds < 60) return 'Just now';
+    if (diffInSeconds < 3600) return `${Math.floor(diffInSeconds / 60)}m ago`;
+    if (diffInSeconds < 86400) return `${Math.floor(diffInSeconds / 3600)}h ago`;
+    if (diffInSeconds < 604800) return `${Math.floor(diffInSeconds / 86400)}d ago`;
+    return date.toLocaleDateString();
+};
+
+export default function SuggestionsPanel({ isOpen, canReview, onClose, onChange }: SuggestionsPanelProps) {
+    const [suggestions, setSuggestions] = useState<Suggestion[]>([]);
+
+    const refresh = useCallback(() => {
+        const holder = window.document.getElementById('editorjs');
+        setSuggestions(holder ? readSuggestions(holder) : []);
+    }, []);
+
+    // Re-read after every content change (local or remote)
+    useEffect(() => {
+        if (!isOpen) return;
+        refresh();
+
+        const holder = window.document.getElementById('editorjs');
+        if (!holder) return;
+
+        let timer: NodeJS.Timeout | null = null;
+        const observer = new MutationObserver(() => {
+            if (timer) clearTimeout(timer);
+            timer = setTimeout(refresh, 200);
+        });
+        observer.observe(holder, { childList: true, subtree: true, characterData: true });
+
+        return () => {
+            observer.disconnect();
+            if (timer) clearTimeout(timer);
+        };
+    }, [isOpen, refresh]);
+
+    const resolve = (ids: string[], accept: boolean) => {
+        const holder = window.document.getElementById('editorjs');
+        if (!holder) return;
+
+        const resolved = ids.filter((id) => resolveSuggestion(holder, id, accept)).length;
+        if (resolved < ids.length) {
+            toast.error('Some suggestions were already resolved by someone else');
+        }
+        if (resolved > 0) onChange?.();
+        refresh();
+    };
+
+    const showSuggestion = (suggestion: Suggestion) => {
+        const holder = window.document.getElementById('editorjs');
+        const mark = holder && findSuggestionMark(holder, suggestion.id);
+        if (!mark) {
+            toast.error('This suggestion is no longer in the document');
+            return;
+        }
+        mark.scrollIntoView({ behavior: 'smooth', block: 'center' });
+    };
+
+    if (!isOpen) return null;
+
+    const allIds = suggestions.map((suggestion) => suggestion.id);
+
+    return (
+        <div className="fixed inset-y-0 right-0 w-96 bg-card border-l border-border shadow-xl z-50 flex flex-col">
+            {/* Header */}
+            <div className="p-4 border-b border-border flex items-center justify-between bg-card">
+                <div className="flex items-center gap-2">
+                    <FilePen className="w-5 h-5 text-primary" />
+                    <h2 className="text-lg font-semibold text-foreground">Suggestions</h2>
+                    {suggestions.length > 0 && (
+                        <span className="text-sm text-muted-foreground">({suggestions.length})</span>
+                    )}
+                </div>
+                <Button variant="ghost" size="icon" onClick={onClose} className="rounded-lg">
+                    <X className="w-5 h-5" />
+                </Button>
+            </div>
+
+            {/* Accept / Reject all */}
+            {canReview && suggestions.length > 0 && (
+                <div className="px-4 mt-3 flex gap-2 bg-card">
+                    <Button size="sm" className="rounded-xl" onClick={() => resolve(allIds, true)}>
+                        <CheckCheck className="w-3 h-3 mr-1" />
+                        Accept all
+                    </Button>
+                    <Button size="sm" variant="outline" className="rounded-xl" onClick={() => resolve(allIds, false)}>
+                        <X className="w-3 h-3 mr-1" />
+                        Reject all
+                    </Button>
+                </div>
+            )}
+
+            {/* Suggestion list */}
+            <div className="flex-1 overflow-y-auto p-4 space-y-4 bg-card">
+                {suggestions.length === 0 && (
+                    <div className="text-center py-12">
+                        <FilePen className="w-12 h-12 mx-auto mb-4 text-muted-foreground opacity-50" />
+                        <p className="text-muted-foreground">No suggestions</p>
+                        <p className="text-sm text-muted-foreground mt-1">
+                            Switch to Suggesting mode to propose changes
+                        </p>
+                    </div>
+                )}
+
+                {suggestions.map((suggestion) => (
+                    <Card key={suggestion.id} className="p-3 rounded-xl bg-card border-border">
+                        <div className="flex items-start gap-3">
+                            <Avatar className="w-8 h-8">
+                                <AvatarFallback className="bg-gradient-to-br from-primary to-primary/80 text-primary-foreground text-xs">
+                                    {initialsOf(suggestion.authorName)}
+                                </AvatarFallback>
+                            </Avatar>
+                            <div className="flex-1 min-w-0">
+                                <div className="flex items-center justify-between mb-1">
+                                    <div>
+                                        <p className="text-sm font-medium text-foreground">{suggestion.authorName}</p>
+                                        <p className="text-xs text-muted-foreground">
+                                            {suggestion.type === 'insert' ? 'Inserted' : 'Deleted'}
+                                            {suggestion.createdAt && ` · ${formatTime(suggestion.createdAt)}`}
+                                        </p>
+                                    </div>
+                                    {canReview && (
+                                        <div className="flex items-center gap-1">
+                                            <Button
+                                                variant="ghost"
+                                                size="icon"
+                                                className="h-6 w-6"
+                                                title="Accept"
+                                                onClick={() => resolve([suggestion.id], true)}
+                                            >
+                                                <Check className="w-3 h-3" />
+                                            </Button>
+                                            <Button
+                                                variant="ghost"
+                                                size="icon"
+                                                className="h-6 w-6 text-destructive hover:text-destructive hover:bg-destructive/10"
+                                                title="Reject"
+                                                onClick={() => resolve([suggestion.id], false)}
+                                            >
+                                                <X className="w-3 h-3" />
+                                            </Button>
+                                        </div>
+                                    )}
+                                </div>
+                                <button
+                                    type="button"
+                                    className="suggestion-preview"
+                                    onClick={() => showSuggestion(suggestion)}
+                                >
+                                    <span className={`suggestion suggestion--${suggestion.type}`}>
+                                        {suggestion.text}
+                                    </span>
+                                </button>
+                            </div>
+                        </div>
+                    </Card>
+                ))}
+            </div>
+        </div>
+    );
+}
@@ -0,0 +1,115 @@
+import { useState, useEffect } from 'react';
+import { FileText, Folder, Loader2, Trash2, User } from 'lucide-react';
+import { toast } from 'sonner';
+import { Badge } from '../ui/badge';
+import { templatesApi } from '../../api/templates';
+import { BUILT_IN_TEMPLATES, TemplateOption, fromSavedTemplate } from '../../lib/templates';
+
+interface TemplatePickerProps {
+  folderId?: string;
+  selectedId: string;
+  onSelect: (template: TemplateOption) => void;
+}
+
+export default function TemplatePicker({ folderId, selectedId, onSelect }: TemplatePickerProps) {
+  const [savedTemplates, setSavedTemplates] = useState<TemplateOption[]>([]);
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const loadTemplates = async () => {
+      setLoading(true);
+      try {
+        const templates = await templatesApi.getAll(folderId || undefined);
+        if (!cancelled) setSavedTemplates(templates.map(fromSavedTemplate));
+      } catch (error) {
+        // Built-in templates still work without the templates endpoint
+        console.warn('Failed to load saved templates:', error);
+        if (!cancelled) setSavedTemplates([]);
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    };
+
+    loadTemplates();
+    return () => {
+      cancelled = true;
+    };
+  }, [folderId]);
+
+  const handleDelete = async (template: TemplateOption) => {
+    if (!confirm(`Delete the template "${template.name}"?`)) return;
+
+    try {
+      await templatesApi.delete(template.id);
+      setSavedTemplates((prev) => prev.filter((t) => t.id !== template.id));
+      if (selectedId === template.id) onSelect(BUILT_IN_TEMPLATES[0]);
+      toast.success('Template deleted');
+    } catch (error: any) {
+      toast.error(error?.response?.data?.message || 'Failed to delete template');
+    }
+  };
+
+  const renderCard = (template: TemplateOption) => (
+    <button
+      key={template.id}
+      type="button"
+      onClick={() => onSelect(template)}
+      className={`group relative text-left p-3 rounded-xl border transition-colors ${selectedId === template.id
+        ? 'border-blue-500 bg-blue-50 dark:bg-blue-900/20'
+        : 'border-border hover:bg-gray-50 dark:hover:bg-gray-800'
+        }`}
+    >
+      <div className="flex items-center gap-2 mb-1">
+        <FileText className="w-4 h-4 text-muted-foreground shrink-0" />
+        <span className="text-sm font-medium truncate">{template.name}</span>
+      </div>
+      {template.description && (
+        <p className="text-[12px] text-muted-foreground line-clamp-2">{template.description}</p>
+      )}
+      {template.scope && (
+        <Badge variant="secondary" className="mt-2 text-[10px] rounded-lg">
+          {template.scope === 'folder' ? <Folder className="w-3 h-3 mr-1" /> : <User className="w-3 h-3 mr-1" />}
+          {template.scope === 'folder' ? 'Folder' : 'Personal'}
+        </Badge>
+      )}
+      {!template.builtIn && (
+        <span
+          role="button"
+          tabIndex={0}
+          title="Delete template"
+          onClick={(e) => {
+            e.stopPropagation();
+            handleDelete(template);
+          }}
+          className="absolute top-2 right-2 p-1 rounded-md opacity-0 group-hover:opacity-100 hover:bg-gray-50 dark:hover:bg-gray-800 text-red-600"
+        >
+          <Trash2 className="w-3 h-3" />
+        </span>
+      )}
+    </button>
+  );
+
+  return (
+    <div className="space-y-3 overflow-y-auto pr-2" style={{ maxHeight: 288 }}>
+      <div className="grid grid-cols-2 gap-2">
+        {BUILT_IN_TEMPLATES.map(renderCard)}
+      </div>
+
+      {loading ? (
+        <div className="flex items-center text-sm text-muted-foreground">
+          <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+          Loading saved templates...
+        </div>
+      ) : savedTemplates.length > 0 && (
+        <>
+          <p className="text-[12px] font-medium text-muted-foreground">Saved templates</p>
+          <div className="grid grid-cols-2 gap-2">
+            {savedTemplates.map(renderCard)}
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
@@ -1,513 +1,506 @@
-import { Input } from "@/components/ui/input";
-import { ScrollArea } from "@/components/ui/scroll-area";
-import { GitCommitHorizontal, History, MousePointerClick, Calendar, User, Clock, ArrowLeft, Download, RotateCcw, X, ChevronDown, ChevronRight, Eye } from "lucide-react";
-import { Button } from "@/components/ui/button";
+import { useEffect, useMemo, useRef, useState } from "react";
 import { Link, useParams, useNavigate } from "react-router-dom";
-import { getDocumentVersions } from "@/services/versionService";
-import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
-import { useEffect, useState } from "react";
-import { jwtDecode } from "jwt-decode";
-import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
-import { Separator } from "@/components/ui/separator";
-import { useToast } from "@/components/ui/use-toast";
+import { toast } from "sonner";
+import { Archive, Download, Flag, GitCommitHorizontal, GitCompare, History, Calendar, User, Clock, ArrowLeft, RotateCcw, X, Trash2 } from "lucide-react";
+import { Input } from "../../ui/input";
+import { Button } from "../../ui/button";
+import { Card } from "../../ui/card";
+import { Separator } from "../../ui/separator";
+import { Tabs, TabsList, TabsTrigger } from "../../ui/tabs";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "../../ui/select";
+import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from "../../ui/dropdown-menu";
+import { documentsApi } from "../../../api/documents";
+import { versionsApi, DocumentVersion } from "../../../api/versions";
+import { downloadBlob, toFileName } from "../../../lib/export/download";
+import { VersionFormat, versionFileName, versionToBlob, versionsToZip } from "../../../lib/export/versions";
+import VersionPreview from "./VersionPreview";
+import VersionDiff from "./VersionDiff";
+
+// Compare option for the document's content as it is now
+const CURRENT = "current";
+
+const DOWNLOAD_FORMATS: { format: VersionFormat; label: string }[] = [
+  { format: 'json', label: 'Editor.js JSON' },
+  { format: 'md', label: 'Markdown' },
+  { format: 'html', label: 'HTML' },
+  { format: 'pdf', label: 'PDF' },
+];
+
+const formatDate = (dateString: string) => {
+  const date = new Date(dateString);
+  return {
+    date: date.toLocaleDateString('en-US', {
+      year: 'numeric',
+      month: 'long',
+      day: 'numeric'
+    }),
+    time: date.toLocaleTimeString('en-US', {
+      hour: '2-digit',
+      minute: '2-digit'
+    }),
+    fullDate: date.toLocaleString('en-US', {
+      year: 'numeric',
+      month: 'short',
+      day: 'numeric',
+      hour: '2-digit',
+      minute: '2-digit'
+    })
+  };
+};
+
+// Local calendar day of a timestamp, in the date input's YYYY-MM-DD format
+const dayKey = (dateString: string) => new Date(dateString).toLocaleDateString('en-CA');
+
+const authorName = (version: DocumentVersion) =>
+  [version.createdBy?.firstName, version.createdBy?.lastName].filter(Boolean).join(' ') || version.createdBy?.email || 'Unknown';
+
+const versionTitle = (version: DocumentVersion) => version.name || version.description || `Version ${version.version}`;
+
+const versionLabel = (version: DocumentVersion) =>
+  `v${version.version} · ${version.name || version.description || formatDate(version.createdAt).fullDate}`;
 
 export default function HistoricalChangesPage() {
-  interface DocumentVersion {
-    _id: string;
-    version: number;
-    content: any;
-    createdBy: {
-    firstName: string;
-    lastName: string;
-      email: string;
-    };
-    description?: string;
-    createdAt: string;
-  }
-  
   const { id } = useParams();
   const navigate = useNavigate();
-  const { toast } = useToast();
-  const queryClient = useQueryClient();
-  const [userId, setUserId] = useState("");
+  const [title, setTitle] = useState("");
+  const [versions, setVersions] = useState<DocumentVersion[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState(false);
   const [selectedDate, setSelectedDate] = useState("");
-  const [selectedVersion, setSelectedVersion] = useState<DocumentVersion | null>(null);
-  const [expandedVersions, setExpandedVersions] = useState<Set<string>>(new Set());
+  // All versions, or only the named milestones saved from the editor
+  const [milestonesOnly, setMilestonesOnly] = useState(false);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
   const [isRestoring, setIsRestoring] = useState(false);
+  const [isArchiving, setIsArchiving] = useState(false);
+  const [mode, setMode] = useState<"preview" | "compare">("preview");
+  const [compareTo, setCompareTo] = useState(CURRENT);
+  // Undefined until loaded; null when the document has no content yet
+  const [currentContent, setCurrentContent] = useState<string | null | undefined>(undefined);
+  const loadingContentRef = useRef(new Set<string>());
 
-  useEffect(() => {
-    const token = localStorage.getItem("token");
-    if (token) {
-      const decodedToken = jwtDecode<{ id: string }>(token);
-      setUserId(decodedToken.id);
+  const loadVersions = async () => {
+    if (!id) return;
+
+    try {
+      setLoading(true);
+      setError(false);
+      const [document, versionsData] = await Promise.all([
+        documentsApi.getById(id),
+        versionsApi.getAll(id),
+      ]);
+      setTitle(document.Title);
+      setVersions(versionsData);
+    } catch (error) {
+      console.error('Failed to load document versions:', error);
+      setError(true);
+    } finally {
+      setLoading(false);
     }
-  }, [userId]);
+  };
+
+  useEffect(() => {
+    setSelectedId(null);
+    setCurrentContent(undefined);
+    loadVersions();
+  }, [id]);
 
-  // Fetch all document versions
-  const { data: versions, isLoading: versionsLoading, error: versionsError } = useQuery({
-    queryKey: ['documentVersions', id],
-    queryFn: () => getDocumentVersions(id || ""),
-    enabled: !!id,
-  });
+  const filteredVersions = useMemo(
+    () => versions.filter((version) =>
+      (!selectedDate || dayKey(version.createdAt) === selectedDate) && (!milestonesOnly || version.milestone)),
+    [versions, selectedDate, milestonesOnly],
+  );
 
+  const selectedVersion = filteredVersions.find((version) => version._id === selectedId) || null;
+  const compareVersion = compareTo === CURRENT ? null : versions.find((version) => version._id === compareTo) || null;
 
-  // Set first version as selected by default
+  // Select the newest version shown by default
   useEffect(() => {
-    if (versions && versions.length > 0 && !selectedVersion) {
-      setSelectedVersion(versions[0]);
-    }
-  }, [versions, selectedVersion]);
-
-  const formatDate = (dateString: string) => {
-    const date = new Date(dateString);
-    return {
-      date: date.toLocaleDateString('en-US', { 
-        year: 'numeric', 
-        month: 'long', 
-        day: 'numeric' 
-      }),
-      time: date.toLocaleTimeString('en-US', { 
-        hour: '2-digit', 
-        minute: '2-digit' 
-      }),
-      fullDate: date.toLocaleString('en-US', {
-        year: 'numeric',
-        month: 'short',
-        day: 'numeric',
-        hour: '2-digit',
-        minute: '2-digit'
+    if (!selectedVersion && filteredVersions.length > 0) setSelectedId(filteredVersions[0]._id);
+  }, [filteredVersions, selectedVersion]);
+
+  // The list may come without content - fetch it for the versions being shown
+  useEffect(() => {
+    if (!id) return;
+
+    [selectedVersion, mode === "compare" ? compareVersion : null].forEach((version) => {
+      if (!version || version.content !== undefined || loadingContentRef.current.has(version._id)) return;
+      loadingContentRef.current.add(version._id);
+
+      versionsApi.getById(id, version._id)
+        .then((loaded) => {
+          setVersions((current) => current.map((item) => (item._id === loaded._id ? { ...item, ...loaded } : item)));
+        })
+        .catch((error) => {
+          console.error('Failed to load version:', error);
+          toast.error('Failed to load this version');
+        })
+        .finally(() => loadingContentRef.current.delete(version._id));
+    });
+  }, [id, mode, selectedVersion, compareVersion]);
+
+  // Current content, to compare against
+  useEffect(() => {
+    if (!id || mode !== "compare" || compareTo !== CURRENT || currentContent !== undefined) return;
+    let cancelled = false;
+
+    documentsApi.getLatestContent(id)
+      .then((content) => {
+        if (!cancelled) setCurrentContent(content?.content ?? null);
       })
+      .catch((error) => {
+        console.error('Failed to load current content:', error);
+        if (!cancelled) {
+          toast.error('Failed to load the current content');
+          setMode("preview");
+        }
+      });
+
+    return () => {
+      cancelled = true;
     };
-  };
+  }, [id, mode, compareTo, currentContent]);
 
-  const toggleVersionExpansion = (versionId: string) => {
-    const newExpanded = new Set(expandedVersions);
-    if (newExpanded.has(versionId)) {
-      newExpanded.delete(versionId);
-    } else {
-      newExpanded.add(versionId);
+  // The two sides of the comparison, older first
+  const comparison = useMemo(() => {
+    if (!selectedVersion) return null;
+    if (compareTo === CURRENT) {
+      return currentContent === undefined || selectedVersion.content === undefined
+        ? null
+        : { before: selectedVersion.content, after: currentContent, from: `v${selectedVersion.version}`, to: 'the current content' };
     }
-    setExpandedVersions(newExpanded);
-  };
+    if (!compareVersion || compareVersion.content === undefined || selectedVersion.content === undefined) return null;
 
-  // Restore version mutation
-  const restoreVersionMutation = useMutation({
-    mutationFn: async (versionId: string) => {
-      const token = localStorage.getItem("token");
-      const response = await fetch(`http://localhost:3000/documents/${id}/versions/${versionId}/restore`, {
-        method: 'POST',
-        headers: {
-          'Authorization': `Bearer ${token}`,
-          'Content-Type': 'application/json',
-        },
-      });
-      
-      if (!response.ok) {
-        const errorData = await response.json();
-        throw new Error(errorData.message || 'Failed to restore version');
-      }
-      
-      return response.json();
-    },
-    onSuccess: () => {
-      toast({
-        title: "Version Restored",
-        description: `Successfully restored version ${selectedVersion?.version}. Redirecting to editor...`,
-        duration: 3000,
-      });
-      
-      // Invalidate queries to refresh data
-      queryClient.invalidateQueries({ queryKey: ['documentVersions', id] });
-      queryClient.invalidateQueries({ queryKey: ['editor', id] });
-      
-      // Navigate back to the editor after a short delay
-      setTimeout(() => {
-        navigate(`/editor/${id}`);
-      }, 1500);
-    },
-    onError: (error) => {
-      console.error('Error restoring version:', error);
-      toast({
-        title: "Restore Failed",
-        description: error.message || "Failed to restore version. Please try again.",
-        variant: "destructive",
-      });
-    },
-    onSettled: () => {
-      setIsRestoring(false);
-    },
-  });
+    const [older, newer] = new Date(compareVersion.createdAt) < new Date(selectedVersion.createdAt)
+      ? [compareVersion, selectedVersion]
+      : [selectedVersion, compareVersion];
+    return { before: older.content, after: newer.content, from: `v${older.version}`, to: `v${newer.version}` };
+  }, [selectedVersion, compareVersion, compareTo, currentContent]);
 
   const handleRestore = async (version: DocumentVersion) => {
-    if (!version || !version._id) {
-      toast({
-        title: "Invalid Version",
-        description: "Cannot restore this version. Version data is missing.",
-        variant: "destructive",
-      });
-      return;
-    }
+    if (!id) return;
 
-    // Confirm restoration
     const confirmed = window.confirm(
       `Are you sure you want to restore version ${version.version}?\n\n` +
-      `This will create a backup of the current version and restore the selected version.\n` +
+      `The current content is kept as a new version before the selected one is restored.\n` +
+      `Name: ${versionTitle(version)}\n` +
       `Description: ${version.description || 'No description'}\n` +
       `Created: ${formatDate(version.createdAt).fullDate}`
     );
-
-    if (!confirmed) {
-      return;
-    }
+    if (!confirmed) return;
 
     setIsRestoring(true);
-    setSelectedVersion(version);
-    
+    setSelectedId(version._id);
+
     try {
-      await restoreVersionMutation.mutateAsync(version._id);
+      await versionsApi.restore(id, version._id);
+      toast.success(`Restored version ${version.version}`);
+      navigate(`/documents/${id}`);
     } catch (error) {
-      console.error('Restore failed:', error);
+      console.error('Failed to restore version:', error);
+      toast.error('Failed to restore version');
+    } finally {
+      setIsRestoring(false);
+    }
+  };
+
+  // The list may come without content - fetch it before exporting
+  const withContent = async (version: DocumentVersion): Promise<DocumentVersion> =>
+    !id || version.content !== undefined ? version : { ...version, ...(await versionsApi.getById(id, version._id)) };
+
+  const handleDownload = async (version: DocumentVersion, format: VersionFormat) => {
+    const options = { title: title || 'Untitled Document' };
+
+    try {
+      const loaded = await withContent(version);
+      downloadBlob(await versionToBlob(loaded, format, options), versionFileName(loaded, format, options));
+      toast.success(`Downloaded version ${version.version}`);
+    } catch (error: any) {
+      console.error('Failed to download version:', error);
+      toast.error(error?.message || 'Failed to download version');
     }
   };
 
-  const handleDownload = (version: DocumentVersion) => {
-    // TODO: Implement download functionality
-    console.log("Download functionality to be implemented for version:", version.version);
+  // Every version (whatever the filters show) as JSON, Markdown and HTML, with a manifest for audits
+  const handleDownloadAll = async () => {
+    if (versions.length === 0) return;
+    const options = { title: title || 'Untitled Document' };
+    const toastId = toast.loading(`Preparing ${versions.length} versions...`);
+
+    setIsArchiving(true);
+    try {
+      const loaded: DocumentVersion[] = [];
+      for (const version of versions) {
+        loaded.push(await withContent(version));
+        toast.loading(`Loading versions (${loaded.length}/${versions.length})...`, { id: toastId });
+      }
+      setVersions((current) => current.map((item) => loaded.find((version) => version._id === item._id) || item));
+
+      downloadBlob(await versionsToZip(loaded, options), toFileName(`${options.title} versions`, 'zip'));
+      toast.success(`Downloaded ${loaded.length} ${loaded.length === 1 ? 'version' : 'versions'}`, { id: toastId });
+    } catch (error: any) {
+      console.error('Failed to download versions:', error);
+      toast.error(error?.message || 'Failed to download versions', { id: toastId });
+    } finally {
+      setIsArchiving(false);
+    }
   };
 
-  const handleViewVersion = (version: DocumentVersion) => {
-    setSelectedVersion(version);
+  const handleDelete = async (version: DocumentVersion) => {
+    const message = version.milestone
+      ? `"${versionTitle(version)}" is a named milestone. Delete it anyway? This cannot be undone.`
+      : `Delete version ${version.version}? This cannot be undone.`;
+    if (!id || !window.confirm(message)) return;
+
+    try {
+      await versionsApi.delete(id, version._id);
+      setVersions((current) => current.filter((item) => item._id !== version._id));
+      if (compareTo === version._id) setCompareTo(CURRENT);
+      toast.success('Version deleted');
+    } catch (error) {
+      console.error('Failed to delete version:', error);
+      toast.error('Failed to delete version');
+    }
   };
 
   return (
-    <div className="min-h-screen bg-gradient-to-br from-gray-50 to-gray-100">
-      <div className="flex">
-      <SideBar />
-        
-        <div className="flex-1 flex flex-col min-h-screen">
-          {/* Header */}
-          <header className="bg-white shadow-sm border-b border-gray-200 px-6 py-4">
-            <div className="flex items-center justify-between">
-              <div className="flex items-center gap-4">
-          <Link
-                  to={`/editor/${id}`}
-                  className="flex items-center gap-3 text-gray-600 hover:text-gray-900 transition-colors"
+    <div className="max-w-7xl mx-auto space-y-6">
+      {/* Header */}
+      <div className="flex flex-wrap items-center justify-between gap-4">
+        <div className="flex items-center gap-4">
+          <Button variant="ghost" size="icon" className="rounded-xl" asChild>
+            <Link to={`/documents/${id}`} aria-label="Back to editor">
+              <ArrowLeft className="w-5 h-5" />
+            </Link>
+          </Button>
+          <div>
+            <h1 className="text-[24px] font-semibold">Version history</h1>
+            <p className="text-muted-foreground">
+              {title || 'Untitled Document'}
+              {!loading && !error && ` · ${versions.length} ${versions.length === 1 ? 'version' : 'versions'}`}
+            </p>
+          </div>
+        </div>
+
+        <div className="flex flex-wrap items-center gap-3">
+          <Tabs value={milestonesOnly ? "milestones" : "all"} onValueChange={(value) => setMilestonesOnly(value === "milestones")}>
+            <TabsList className="rounded-xl">
+              <TabsTrigger value="all" className="rounded-lg">All versions</TabsTrigger>
+              <TabsTrigger value="milestones" className="rounded-lg">Milestones</TabsTrigger>
+            </TabsList>
+          </Tabs>
+          <Tabs value={mode} onValueChange={(value) => setMode(value as "preview" | "compare")}>
+            <TabsList className="rounded-xl">
+              <TabsTrigger value="preview" className="rounded-lg">Preview</TabsTrigger>
+              <TabsTrigger value="compare" className="rounded-lg">Compare</TabsTrigger>
+            </TabsList>
+          </Tabs>
+          <div className="relative">
+            <Calendar className="absolute left-3 top-1/2 transform -translate-y-1/2 w-4 h-4 text-muted-foreground" />
+            <Input
+              type="date"
+              aria-label="Filter by date"
+              value={selectedDate}
+              onChange={(e) => setSelectedDate(e.target.value)}
+              className="pl-10 w-48 rounded-xl"
+            />
+          </div>
+          {selectedDate && (
+            <Button variant="ghost" size="icon" className="rounded-xl" onClick={() => setSelectedDate("")} aria-label="Clear date filter">
+              <X className="w-4 h-4" />
+            </Button>
+          )}
+          <Button
+            variant="outline"
+            className="rounded-xl"
+            onClick={handleDownloadAll}
+            disabled={loading || error || versions.length === 0 || isArchiving}
+          >
+            <Archive className="w-4 h-4 mr-2" />
+            {isArchiving ? 'Preparing...' : 'Download all as zip'}
+          </Button>
+        </div>
+      </div>
+
+      {loading && (
+        <div className="flex items-center justify-center py-12">
+          <div className="text-muted-foreground">Loading versions...</div>
+        </div>
+      )}
+
+      {!loading && error && (
+        <div className="bg-white dark:bg-card rounded-xl p-12 text-center">
+          <X className="w-16 h-16 mx-auto mb-4 text-muted-foreground" />
+          <h3 className="font-semibold mb-2">Failed to load versions</h3>
+          <p className="text-muted-foreground mb-4">The version history of this document could not be loaded.</p>
+          <Button className="rounded-xl" onClick={loadVersions}>
+            Try again
+          </Button>
+        </div>
+      )}
+
+      {!loading && !error && filteredVersions.length === 0 && (
+        <div className="bg-white dark:bg-card rounded-xl p-12 text-center">
+          <History className="w-16 h-16 mx-auto mb-4 text-muted-foreground" />
+          <h3 className="font-semibold mb-2">
+            {selectedDate ? 'No versions on this day' : milestonesOnly ? 'No milestones yet' : 'No history yet'}
+          </h3>
+          <p className="text-muted-foreground mb-4">
+            {selectedDate
+              ? 'Pick another date or clear the filter.'
+              : milestonesOnly
+                ? 'Name a version with Save version… in the editor\'s More menu to keep it as a milestone.'
+                : "This document doesn't have any saved versions yet."}
+          </p>
+          <Button variant="outline" className="rounded-xl" asChild>
+            <Link to={`/documents/${id}`}>
+              <ArrowLeft className="w-4 h-4 mr-2" />
+              Back to editor
+            </Link>
+          </Button>
+        </div>
+      )}
+
+      {!loading && !error && filteredVersions.length > 0 && (
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+          {/* Versions */}
+          <Card className="rounded-xl p-2 self-start">
+            <div className="space-y-1">
+              {filteredVersions.map((version) => (
+                <button
+                  key={version._id}
+                  type="button"
+                  onClick={() => setSelectedId(version._id)}
+                  className={`version-history__item w-full text-left rounded-lg p-3 transition-colors${
+                    selectedVersion?._id === version._id ? ' version-history__item--selected' : ''
+                  }`}
                 >
-                  <ArrowLeft className="h-5 w-5" />
-                  <span className="font-medium">Back to Editor</span>
-          </Link>
-                
-                <div className="flex items-center gap-3">
-                  <div className="w-10 h-10 bg-gradient-to-r from-blue-500 to-blue-600 rounded-lg flex items-center justify-center">
-                    <History className="h-5 w-5 text-white" />
+                  <div className="flex items-center gap-3">
+                    <div className={`version-history__badge shrink-0${version.milestone ? ' version-history__badge--milestone' : ''}`}>
+                      {version.milestone ? <Flag className="w-4 h-4" aria-label="Milestone" /> : `v${version.version}`}
+                    </div>
+                    <div className="min-w-0">
+                      <p className="font-medium truncate">{versionTitle(version)}</p>
+                      <p className="text-xs text-muted-foreground">
+                        {formatDate(version.createdAt).fullDate} · {authorName(version)}
+                      </p>
+                    </div>
+                  </div>
+                </button>
+              ))}
             </div>
-            <div>
-                    <h1 className="text-xl font-bold text-gray-900">Document History</h1>
-                    <p className="text-sm text-gray-500">
-                      {versions ? `${versions.length} versions available` : 'Loading versions...'}
-                    </p>
+          </Card>
+
+          {/* Selected version */}
+          {selectedVersion && mode === "preview" && (
+            <Card className="lg:col-span-2 rounded-xl p-6 space-y-4">
+              <div className="flex flex-wrap items-start justify-between gap-4">
+                <div className="flex items-center gap-3 min-w-0">
+                  <div className="w-10 h-10 rounded-xl bg-gradient-to-br from-blue-500 to-purple-600 flex items-center justify-center shrink-0">
+                    <GitCommitHorizontal className="w-5 h-5 text-white" />
+                  </div>
+                  <div className="min-w-0">
+                    <h2 className="font-semibold truncate">{versionTitle(selectedVersion)}</h2>
+                    {selectedVersion.name && selectedVersion.description && (
+                      <p className="text-sm text-muted-foreground">{selectedVersion.description}</p>
+                    )}
+                    <div className="flex flex-wrap items-center gap-3 text-xs text-muted-foreground mt-1">
+                      <span className="flex items-center gap-1">
+                        <Clock className="w-3 h-3" />
+                        {formatDate(selectedVersion.createdAt).date} at {formatDate(selectedVersion.createdAt).time}
+                      </span>
+                      <span className="flex items-center gap-1">
+                        <User className="w-3 h-3" />
+                        {authorName(selectedVersion)}
+                      </span>
+                      {selectedVersion.milestone && (
+                        <span className="flex items-center gap-1">
+                          <Flag className="w-3 h-3" />
+                          Milestone v{selectedVersion.version}
+                        </span>
+                      )}
+                    </div>
                   </div>
                 </div>
-              </div>
-              
-              <div className="flex items-center gap-3">
-                <div className="relative">
-                  <Calendar className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-gray-400" />
-                  <Input 
-                    type="date" 
-                    placeholder="Filter by date"
-                    value={selectedDate}
-                    onChange={(e) => setSelectedDate(e.target.value)}
-                    className="pl-10 w-48"
-                  />
+
+                <div className="flex items-center gap-2">
+                  <DropdownMenu>
+                    <DropdownMenuTrigger asChild>
+                      <Button variant="outline" size="sm" className="rounded-xl">
+                        <Download className="w-4 h-4 mr-2" />
+                        Download
+                      </Button>
+                    </DropdownMenuTrigger>
+                    <DropdownMenuContent align="end" className="rounded-xl">
+                      {DOWNLOAD_FORMATS.map(({ format, label }) => (
+                        <DropdownMenuItem key={format} onClick={() => handleDownload(selectedVersion, format)}>
+                          {label}
+                        </DropdownMenuItem>
+                      ))}
+                    </DropdownMenuContent>
+                  </DropdownMenu>
+                  <Button variant="outline" size="sm" className="rounded-xl" onClick={() => handleDelete(selectedVersion)} disabled={isRestoring}>
+                    <Trash2 className="w-4 h-4 mr-2" />
+                    Delete
+                  </Button>
+                  <Button size="sm" className="rounded-xl" onClick={() => handleRestore(selectedVersion)} disabled={isRestoring}>
+                    <RotateCcw className="w-4 h-4 mr-2" />
+                    {isRestoring ? 'Restoring...' : 'Restore this version'}
+                  </Button>
                 </div>
-                
-                {selectedVersion && (
-                  <Button 
-                    onClick={() => handleDownload(selectedVersion)}
-                    variant="outline" 
-                    className="flex items-center gap-2"
-                  >
-                    <Download className="h-4 w-4" />
-                    Download
-                </Button>
-                )}
-                
-                {selectedVersion && (
-                  <Button 
-                    onClick={() => handleRestore(selectedVersion)}
-                    className="flex items-center gap-2 bg-green-600 hover:bg-green-700"
-                  >
-                    <RotateCcw className="h-4 w-4" />
-                    Restore Version
-                </Button>
-                )}
               </div>
-            </div>
-        </header>
-
-          {/* Main Content */}
-          <main className="flex-1 p-6">
-            <div className="max-w-7xl mx-auto">
-              {versionsLoading ? (
-                <div className="flex items-center justify-center h-64">
-                  <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
-                  <span className="ml-3 text-gray-600">Loading versions...</span>
-                </div>
-              ) : versionsError ? (
-                <Card className="shadow-lg border-0 bg-white">
-                  <CardContent className="p-12 text-center">
-                    <div className="w-16 h-16 bg-red-100 rounded-full mx-auto mb-4 flex items-center justify-center">
-                      <X className="h-8 w-8 text-red-500" />
-                    </div>
-                    <h3 className="text-lg font-semibold text-gray-900 mb-2">Error Loading Versions</h3>
-                    <p className="text-gray-500 mb-6">
-                      Failed to load document versions. Please try again.
-                    </p>
-                    <Button onClick={() => window.location.reload()}>
-                      Try Again
-                    </Button>
-                  </CardContent>
-                </Card>
-              ) : versions && versions.length > 0 ? (
-                <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
-                  {/* Versions List */}
-                  <div className="lg:col-span-1">
-                    <Card className="shadow-lg border-0 bg-white">
-                      <CardHeader className="bg-gradient-to-r from-blue-50 to-indigo-50 border-b border-gray-200">
-                        <CardTitle className="text-lg font-bold text-gray-900 flex items-center gap-2">
-                          <GitCommitHorizontal className="h-5 w-5" />
-                          Version History
-                        </CardTitle>
-                      </CardHeader>
-                      <CardContent className="p-0">
-                        <ScrollArea className="h-96">
-                          <div className="space-y-1">
-                            {versions.map((version: DocumentVersion, index: number) => (
-                              <div
-                                key={version._id}
-                                className={`p-4 border-b border-gray-100 cursor-pointer transition-colors ${
-                                  selectedVersion?._id === version._id 
-                                    ? 'bg-blue-50 border-l-4 border-l-blue-500' 
-                                    : 'hover:bg-gray-50'
-                                }`}
-                                onClick={() => handleViewVersion(version)}
-                              >
-                                <div className="flex items-center justify-between">
-                                  <div className="flex items-center gap-3">
-                                    <div className={`w-8 h-8 rounded-full flex items-center justify-center text-xs font-bold ${
-                                      index === 0 ? 'bg-green-100 text-green-700' : 'bg-gray-100 text-gray-600'
-                                    }`}>
-                                      v{version.version}
-                                    </div>
-                                    <div>
-                                      <p className="font-medium text-gray-900">
-                                        {version.description || `Version ${version.version}`}
-                                      </p>
-                                      <p className="text-xs text-gray-500">
-                                        {formatDate(version.createdAt).fullDate}
-                                      </p>
-                                    </div>
-                                  </div>
-                                  <div className="flex items-center gap-2">
-                                    <Button
-                                      variant="ghost"
-                                      size="sm"
-                                      onClick={(e) => {
-                                        e.stopPropagation();
-                                        toggleVersionExpansion(version._id);
-                                      }}
-                                    >
-                                      {expandedVersions.has(version._id) ? 
-                                        <ChevronDown className="h-4 w-4" /> : 
-                                        <ChevronRight className="h-4 w-4" />
-                                      }
-                                    </Button>
-                                  </div>
-                                </div>
-                                
-                                {expandedVersions.has(version._id) && (
-                                  <div className="mt-3 pt-3 border-t border-gray-200">
-                                    <div className="flex items-center gap-2 text-sm text-gray-600 mb-2">
-                                      <User className="h-4 w-4" />
-                                      <span>{version.createdBy.firstName} {version.createdBy.lastName}</span>
-                                    </div>
-                                    <div className="flex gap-2">
-                                      <Button
-                                        variant="outline"
-                                        size="sm"
-                                        onClick={(e) => {
-                                          e.stopPropagation();
-                                          handleViewVersion(version);
-                                        }}
-                                        className="flex items-center gap-1"
-                                      >
-                                        <Eye className="h-3 w-3" />
-                                        View
-                                      </Button>
-                                      <Button
-                                        variant="outline"
-                                        size="sm"
-                                        onClick={(e) => {
-                                          e.stopPropagation();
-                                          handleRestore(version);
-                                        }}
-                                        disabled={isRestoring}
-                                        className="flex items-center gap-1"
-                                      >
-                                        {isRestoring && selectedVersion?._id === version._id ? (
-                                          <>
-                                            <div className="animate-spin rounded-full h-3 w-3 border-b-2 border-gray-900"></div>
-                                            Restoring...
-                                          </>
-                                        ) : (
-                                          <>
-                                            <RotateCcw className="h-3 w-3" />
-                                            Restore
-                                          </>
-                                        )}
-                                      </Button>
-                                    </div>
-                                  </div>
-                                )}
-                              </div>
-                            ))}
-                          </div>
-                        </ScrollArea>
-                      </CardContent>
-                    </Card>
-                  </div>
 
-                  {/* Selected Version Preview */}
-                  <div className="lg:col-span-2">
-                    {selectedVersion ? (
-                      <Card className="shadow-lg border-0 bg-white">
-                        <CardHeader className="bg-gradient-to-r from-blue-50 to-indigo-50 border-b border-gray-200">
-                          <div className="flex items-center justify-between">
-                            <div className="flex items-center gap-4">
-                              <div className="w-12 h-12 bg-gradient-to-r from-blue-500 to-blue-600 rounded-xl flex items-center justify-center">
-                                <GitCommitHorizontal className="h-6 w-6 text-white" />
-                              </div>
-                              <div>
-                                <CardTitle className="text-xl font-bold text-gray-900">
-                                  {selectedVersion.description || `Version ${selectedVersion.version}`}
-                                </CardTitle>
-                                <div className="flex items-center gap-4 mt-2">
-                                  <div className="inline-flex items-center gap-1 px-2.5 py-0.5 text-xs font-semibold rounded-full bg-gray-100 text-gray-700">
-                                    <Clock className="h-3 w-3" />
-                                    {formatDate(selectedVersion.createdAt).time}
-                                  </div>
-                                  <div className="inline-flex items-center gap-1 px-2.5 py-0.5 text-xs font-semibold rounded-full border border-gray-300 text-gray-700">
-                                    <Calendar className="h-3 w-3" />
-                                    {formatDate(selectedVersion.createdAt).date}
-                                  </div>
-                                </div>
-                              </div>
-                            </div>
-                            
-                            <div className="flex items-center gap-3">
-                              <div className="w-10 h-10 bg-gradient-to-r from-purple-500 to-purple-600 rounded-full flex items-center justify-center">
-                                <User className="h-5 w-5 text-white" />
-                              </div>
-                              <div className="text-right">
-                                <p className="font-semibold text-gray-900">
-                                  {selectedVersion.createdBy.firstName} {selectedVersion.createdBy.lastName}
-                                </p>
-                                <p className="text-sm text-gray-500">Created by</p>
-                              </div>
-                            </div>
-                          </div>
-                        </CardHeader>
-                        
-                        <CardContent className="p-6">
-                          <div className="space-y-4">
-                            <div className="flex items-center gap-2 text-sm text-gray-600">
-                              <MousePointerClick className="h-4 w-4" />
-                              <span>Content preview</span>
-                            </div>
-                            
-                            <Separator />
-                            
-                            <ScrollArea className="h-96 w-full rounded-lg border border-gray-200 bg-gray-50">
-                              <div className="p-6">
-                                <div 
-                                  className="prose prose-sm max-w-none text-gray-800 leading-relaxed"
-                                  dangerouslySetInnerHTML={{ 
-                                    __html: selectedVersion.content?.htmlContent || 
-                                    (typeof selectedVersion.content === 'string' ? 
-                                      selectedVersion.content.replace(/\n/g, '<br>') : 
-                                      'No content available')
-                                  }}
-                                />
-                              </div>
-                            </ScrollArea>
-                            
-                            <div className="flex items-center justify-between pt-4">
-                              <div className="text-sm text-gray-500">
-                                Created: {formatDate(selectedVersion.createdAt).date} at {formatDate(selectedVersion.createdAt).time}
-                              </div>
-                              
-                              <div className="flex gap-3">
-                                <Button 
-                                  variant="outline" 
-                                  size="sm"
-                                  onClick={() => window.history.back()}
-                                  className="flex items-center gap-2"
-                                >
-                                  <X className="h-4 w-4" />
-                                  Cancel
-                                </Button>
-                                <Button 
-                                  size="sm"
-                                  onClick={() => handleRestore(selectedVersion)}
-                                  className="flex items-center gap-2 bg-green-600 hover:bg-green-700"
-                                >
-                                  <RotateCcw className="h-4 w-4" />
-                                  Restore This Version
-                                </Button>
-                              </div>
-                            </div>
-                          </div>
-                        </CardContent>
-                      </Card>
-                    ) : (
-                      <Card className="shadow-lg border-0 bg-white">
-                        <CardContent className="p-12 text-center">
-                          <div className="w-16 h-16 bg-gray-100 rounded-full mx-auto mb-4 flex items-center justify-center">
-                            <Eye className="h-8 w-8 text-gray-400" />
-                          </div>
-                          <h3 className="text-lg font-semibold text-gray-900 mb-2">Select a Version</h3>
-                          <p className="text-gray-500 mb-6">
-                            Choose a version from the list to view its content.
-                          </p>
-                        </CardContent>
-                      </Card>
-                      )}
-                    </div>
+              <Separator />
+
+              <div className="version-history__preview">
+                {selectedVersion.content === undefined
+                  ? <p className="text-sm text-muted-foreground">Loading content...</p>
+                  : <VersionPreview content={selectedVersion.content} />}
+              </div>
+            </Card>
+          )}
+
+          {/* Comparison */}
+          {selectedVersion && mode === "compare" && (
+            <Card className="lg:col-span-2 rounded-xl p-6 space-y-4">
+              <div className="flex flex-wrap items-center gap-3">
+                <div className="w-10 h-10 rounded-xl bg-gradient-to-br from-blue-500 to-purple-600 flex items-center justify-center shrink-0">
+                  <GitCompare className="w-5 h-5 text-white" />
                 </div>
-              ) : (
-                <Card className="shadow-lg border-0 bg-white">
-                  <CardContent className="p-12 text-center">
-                    <div className="w-16 h-16 bg-gray-100 rounded-full mx-auto mb-4 flex items-center justify-center">
-                      <History className="h-8 w-8 text-gray-400" />
+                <div className="min-w-0 flex-1">
+                  <h2 className="font-semibold truncate">{versionLabel(selectedVersion)}</h2>
+                  <p className="text-xs text-muted-foreground">Pick a version in the list, and what to compare it with</p>
+                </div>
+                <Select value={compareTo} onValueChange={setCompareTo}>
+                  <SelectTrigger className="w-64 rounded-xl">
+                    <SelectValue placeholder="Compare with" />
+                  </SelectTrigger>
+                  <SelectContent className="rounded-xl">
+                    <SelectItem value={CURRENT}>Current content</SelectItem>
+                    {versions.filter((version) => version._id !== selectedVersion._id).map((version) => (
+                      <SelectItem key={version._id} value={version._id}>{versionLabel(version)}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
               </div>
-                    <h3 className="text-lg font-semibold text-gray-900 mb-2">No History Found</h3>
-                    <p className="text-gray-500 mb-6">
-                      This document doesn't have any version history yet.
-                    </p>
-                    <Button asChild>
-                      <Link to={`/editor/${id}`}>
-                        <ArrowLeft className="h-4 w-4 mr-2" />
-                        Back to Editor
-                      </Link>
-                    </Button>
-                  </CardContent>
-                </Card>
+
+              <Separator />
+
+              {compareTo === selectedVersion._id ? (
+                <p className="text-sm text-muted-foreground">Pick another version to compare with.</p>
+              ) : comparison ? (
+                <>
+                  <p className="text-sm text-muted-foreground">Changes from {comparison.from} to {comparison.to}</p>
+                  <div className="version-history__preview">
+                    <VersionDiff before={comparison.before} after={comparison.after} />
+                  </div>
+                </>
+              ) : (
+                <p className="text-sm text-muted-foreground">Loading content...</p>
               )}
-            </div>
-          </main>
-          </div>
-      </div>
+            </Card>
+          )}
+        </div>
+      )}
     </div>
   );
 }
@@ -0,0 +1,153 @@
+import { useMemo, useState } from 'react';
+import { Button } from '../../ui/button';
+import { EditorBlock, normalizeList, parseEditorData } from '../../../lib/export/blocks';
+import { BlockDiff, diffBlocks, summarizeDiff, WordPart } from '../../../lib/versionDiff';
+import { renderBlock } from './VersionPreview';
+
+interface VersionDiffProps {
+  // Older and newer content as stored (Editor.js JSON string or object)
+  before: unknown;
+  after: unknown;
+}
+
+const LABELS: Record<Exclude<BlockDiff['change'], 'unchanged'>, string> = {
+  added: 'Added',
+  removed: 'Removed',
+  modified: 'Changed',
+  moved: 'Moved',
+};
+
+const renderParts = (parts: WordPart[]) => parts.map((part, index) => {
+  if (part.change === 'added') return <ins key={index} className="version-diff__added">{part.text}</ins>;
+  if (part.change === 'removed') return <del key={index} className="version-diff__removed">{part.text}</del>;
+  return <span key={index}>{part.text}</span>;
+});
+
+const hasWordChanges = (parts: WordPart[]) => parts.some((part) => part.change !== 'same');
+
+// A changed block with its word-level changes highlighted
+const renderChanges = (diff: BlockDiff) => {
+  const before = diff.before as EditorBlock;
+  const after = diff.after as EditorBlock;
+
+  if (diff.items) {
+    const list = normalizeList(after);
+    const items = diff.items.map((item, index) => (
+      <li
+        key={index}
+        className={`version-diff__item--${item.change}${item.checked ? ' version-preview__checked' : ''}`}
+        style={item.depth > 0 ? { marginLeft: `${item.depth * 1.5}rem` } : undefined}
+      >
+        {renderParts(item.parts)}
+      </li>
+    ));
+    return list.style === 'ordered'
+      ? <ol start={list.start}>{items}</ol>
+      : <ul className={list.style === 'checklist' ? 'version-preview__checklist' : undefined}>{items}</ul>;
+  }
+
+  if (diff.rows) {
+    return (
+      <table>
+        <tbody>
+          {diff.rows.map((row, rowIndex) => (
+            <tr key={rowIndex} className={`version-diff__row--${row.change}`}>
+              {row.cells.map((cell, cellIndex) => (after.data?.withHeadings && rowIndex === 0
+                ? <th key={cellIndex}>{renderParts(cell)}</th>
+                : <td key={cellIndex}>{renderParts(cell)}</td>
+              ))}
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    );
+  }
+
+  // Images (and formatting-only edits) have nothing to highlight word by word
+  if (after.type === 'image' || !diff.text || !hasWordChanges(diff.text)) {
+    return (
+      <>
+        {after.type === 'image' && <div className="version-diff__old">{renderBlock(before, 'before')}</div>}
+        {renderBlock(after, 'after')}
+      </>
+    );
+  }
+
+  switch (after.type) {
+    case 'header': {
+      const level = Math.min(Math.max(Number(after.data?.level) || 2, 1), 4);
+      const Heading = `h${level}` as 'h1' | 'h2' | 'h3' | 'h4';
+      return <Heading>{renderParts(diff.text)}</Heading>;
+    }
+    case 'quote':
+      return <blockquote>{renderParts(diff.text)}</blockquote>;
+    case 'code':
+      return <pre><code>{renderParts(diff.text)}</code></pre>;
+    default:
+      return <p>{renderParts(diff.text)}</p>;
+  }
+};
+
+const renderDiff = (diff: BlockDiff, index: number) => {
+  let content;
+  if (diff.change === 'removed') content = renderBlock(diff.before as EditorBlock, 'before');
+  else if (diff.change === 'modified' || (diff.change === 'moved' && diff.edited)) content = renderChanges(diff);
+  else content = renderBlock(diff.after as EditorBlock, 'after');
+
+  return (
+    <div key={index} className={`version-diff__block version-diff__block--${diff.change}`}>
+      {diff.change !== 'unchanged' && (
+        <span className="version-diff__label">
+          {diff.change === 'moved'
+            ? `Moved from position ${(diff.from ?? 0) + 1}${diff.edited ? ' and changed' : ''}`
+            : LABELS[diff.change]}
+        </span>
+      )}
+      {content}
+    </div>
+  );
+};
+
+/**
+ * Rendered block-level comparison of two versions: added, removed, changed and moved blocks
+ * are colour-coded, with word-level highlights inside changed text
+ */
+export default function VersionDiff({ before, after }: VersionDiffProps) {
+  const [changesOnly, setChangesOnly] = useState(false);
+  const diffs = useMemo(
+    () => diffBlocks(parseEditorData(before).blocks, parseEditorData(after).blocks),
+    [before, after],
+  );
+  const summary = useMemo(() => summarizeDiff(diffs), [diffs]);
+  const changed = summary.added + summary.removed + summary.modified + summary.moved > 0;
+  const shown = changesOnly ? diffs.filter((diff) => diff.change !== 'unchanged') : diffs;
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center gap-2 text-xs">
+        {changed ? (
+          (Object.keys(LABELS) as Array<keyof typeof LABELS>).map((change) => summary[change] > 0 && (
+            <span key={change} className={`version-diff__chip version-diff__chip--${change}`}>
+              {summary[change]} {LABELS[change].toLowerCase()}
+            </span>
+          ))
+        ) : (
+          <span className="text-muted-foreground">No changes between these versions</span>
+        )}
+        {changed && (
+          <Button variant="ghost" size="sm" className="rounded-xl ml-auto" onClick={() => setChangesOnly(!changesOnly)}>
+            {changesOnly ? 'Show whole document' : 'Show only changes'}
+          </Button>
+        )}
+      </div>
+
+      {shown.length > 0 ? (
+        <div className="version-preview version-diff">
+          {shown.map(renderDiff)}
+        </div>
+      ) : (
+        <p className="text-sm text-muted-foreground">Both versions are empty.</p>
+      )}
+    </div>
+  );
+}
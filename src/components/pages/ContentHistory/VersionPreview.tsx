@@ -0,0 +1,97 @@
+import { EditorBlock, NormalizedListItem, normalizeList, parseEditorData } from '../../../lib/export/blocks';
+import { inlineToSafeHtml } from '../../../lib/export/html';
+
+interface VersionPreviewProps {
+  // Version content as stored (Editor.js JSON string or object)
+  content: unknown;
+}
+
+// Stored block HTML can come from any collaborator, so only the inline formatting tags are kept
+const html = (value: string | undefined) => ({ __html: inlineToSafeHtml(value || '') });
+
+const renderItems = (items: NormalizedListItem[], checklist: boolean) => items.map((item, index) => (
+  <li key={index} className={checklist && item.checked ? 'version-preview__checked' : undefined}>
+    <span dangerouslySetInnerHTML={html(item.text)} />
+    {item.items.length > 0 && <ul>{renderItems(item.items, checklist)}</ul>}
+  </li>
+));
+
+export const renderBlock = (block: EditorBlock, key: number | string) => {
+  const data = block.data || {};
+
+  switch (block.type) {
+    case 'paragraph':
+      return <p key={key} dangerouslySetInnerHTML={html(data.text)} />;
+
+    case 'header': {
+      const level = Math.min(Math.max(Number(data.level) || 2, 1), 4);
+      const Heading = `h${level}` as 'h1' | 'h2' | 'h3' | 'h4';
+      return <Heading key={key} dangerouslySetInnerHTML={html(data.text)} />;
+    }
+
+    case 'list':
+    case 'checklist': {
+      const list = normalizeList(block);
+      const items = renderItems(list.items, list.style === 'checklist');
+      return list.style === 'ordered'
+        ? <ol key={key} start={list.start}>{items}</ol>
+        : <ul key={key} className={list.style === 'checklist' ? 'version-preview__checklist' : undefined}>{items}</ul>;
+    }
+
+    case 'quote':
+      return <blockquote key={key} dangerouslySetInnerHTML={html(data.text)} />;
+
+    case 'image': {
+      const url = data.file?.url || data.url;
+      if (!url) return null;
+      return (
+        <figure key={key}>
+          <img src={url} alt={data.caption ? data.caption.replace(/<[^>]*>/g, '') : ''} />
+          {data.caption && <figcaption dangerouslySetInnerHTML={html(data.caption)} />}
+        </figure>
+      );
+    }
+
+    case 'code':
+      return <pre key={key}><code>{data.code}</code></pre>;
+
+    case 'table':
+      return (
+        <table key={key}>
+          <tbody>
+            {(data.content || []).map((row: string[], rowIndex: number) => (
+              <tr key={rowIndex}>
+                {row.map((cell, cellIndex) => (data.withHeadings && rowIndex === 0
+                  ? <th key={cellIndex} dangerouslySetInnerHTML={html(cell)} />
+                  : <td key={cellIndex} dangerouslySetInnerHTML={html(cell)} />
+                ))}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      );
+
+    case 'delimiter':
+      return <hr key={key} />;
+
+    default:
+      return typeof data.text === 'string' ? <p key={key} dangerouslySetInnerHTML={html(data.text)} /> : null;
+  }
+};
+
+/**
+ * Read-only rendering of a stored version's blocks
+ */
+export default function VersionPreview({ content }: VersionPreviewProps) {
+  const { blocks } = parseEditorData(content);
+
+  if (blocks.length === 0) {
+    return <p className="text-sm text-muted-foreground">This version is empty.</p>;
+  }
+
+  return (
+    <div className="version-preview">
+      {blocks.map((block, index) => renderBlock(block, block.id || index))}
+    </div>
+  );
+}
@@ -1,6 +1,6 @@
 import { useState, useEffect, useRef, useCallback } from 'react';
 import { Link, useParams, useNavigate, useLocation } from 'react-router-dom';
-import { Share2, Star, MoreVertical, ChevronRight, Home, Timer, Wifi, WifiOff, Save, Check, FileDown, MessageSquare } from 'lucide-react';
+import { Share2, Star, MoreVertical, ChevronRight, Home, Timer, Wifi, WifiOff, Save, Check, FileDown, MessageSquare, FileText, FileType, Upload, LayoutTemplate, Eye, FilePen, PencilLine, Pencil, Presentation, History, Flag } from 'lucide-react';
 import { Button } from '../ui/button';
 import { Input } from '../ui/input';
 import { Badge } from '../ui/badge';
@@ -17,21 +17,63 @@ import {
   DropdownMenu,
   DropdownMenuContent,
   DropdownMenuItem,
+  DropdownMenuSeparator,
   DropdownMenuTrigger,
 } from '../ui/dropdown-menu';
 import ShareModal from '../modals/ShareModal';
 import CommentsPanel from '../modals/CommentsPanel';
+import SuggestionsPanel from '../modals/SuggestionsPanel';
+import SaveTemplateModal from '../modals/SaveTemplateModal';
+import SaveVersionModal from '../modals/SaveVersionModal';
 import VoiceToolbar from '../editor/AIToolbar';
 import UserPresence from '../editor/UserPresence';
 import UserCursors from '../editor/UserCursors';
+import FollowMode from '../editor/FollowMode';
 import HeadingSelector from '../editor/HeadingSelector';
+import DocumentOutline from '../editor/DocumentOutline';
+import FindReplaceBar from '../editor/FindReplaceBar';
+import SlashCommandPalette from '../editor/SlashCommandPalette';
+import MentionPicker from '../editor/MentionPicker';
+import MentionTool from '../editor/MentionTool';
+import CommentTool from '../editor/CommentTool';
+import CommentHighlights from '../editor/CommentHighlights';
+import DocumentLinkTool from '../editor/DocumentLinkTool';
+import SuggestionTool from '../editor/SuggestionTool';
+import SuggestionTracker from '../editor/SuggestionTracker';
+import UndoHistory from '../editor/UndoHistory';
+import PresentationMode from '../presentation/PresentationMode';
+import { buildSlides, Slide } from '../../lib/presentation';
+import DocumentLinkPicker from '../editor/DocumentLinkPicker';
+import DocumentLinkChips from '../editor/DocumentLinkChips';
+import BacklinksPanel from '../editor/BacklinksPanel';
 import { YjsClient } from '../../lib/realtime/yjsClient';
+import { BlockBinding } from '../../lib/realtime/blockBinding';
 import { useRealtimeStore } from '../../lib/realtime/realtimeStore';
+import { SocketEvents, socketManager } from '../../lib/realtime/socket';
+import { userColor } from '../../lib/realtime/awareness';
+import { getCurrentUserId } from '../../lib/auth';
 import { documentsApi } from '../../api/documents';
 import { foldersApi } from '../../api/folders';
 import { uploadsApi } from '../../api/uploads';
 import { ACCESS_TOKEN_KEY, API_URL } from '../../lib/config';
-import EditorJS from '@editorjs/editorjs';
+import { editorDataToMarkdown, markdownToEditorData } from '../../lib/export/markdown';
+import { stripHtml } from '../../lib/export/blocks';
+import { downloadBlob, toFileName } from '../../lib/export/download';
+import { editorDataToDocx } from '../../lib/export/docx';
+import { editorDataToPdf } from '../../lib/export/pdf';
+import { mentionName, notifyNewMentions } from '../../lib/mentions';
+import { notificationsApi } from '../../api/notifications';
+import { getCurrentUser } from '../../lib/services/userService';
+import { useCommentsStore } from '../../lib/comments/commentsStore';
+import {
+  DocumentMetadata,
+  getPending as getPendingSave,
+  saveContent as queueContentSave,
+  saveMetadata as queueMetadataSave,
+  subscribe as subscribeToOutbox,
+} from '../../lib/offline/outbox';
+import { selectPending, useOutboxStore } from '../../lib/offline/outboxStore';
+import EditorJS, { EditorConfig, OutputData } from '@editorjs/editorjs';
 // @ts-ignore
 import Header from '@editorjs/header';
 // @ts-ignore
@@ -49,78 +91,156 @@ import CodeTool from '@editorjs/code';
 // @ts-ignore
 import ImageTool from '@editorjs/image';
 
-const INITIAL_DATA = {
-  time: new Date().getTime(),
-  blocks: [
-    {
-      type: 'header',
-      data: {
-        text: 'Product Vision',
-        level: 1,
-      },
+// Block and inline tools; the slash palette builds its block commands from the same config
+const EDITOR_TOOLS: NonNullable<EditorConfig['tools']> = {
+  header: {
+    // @ts-ignore
+    class: Header,
+    config: {
+      placeholder: 'Enter a header',
+      levels: [1, 2, 3, 4],
+      defaultLevel: 2,
     },
-    {
-      type: 'paragraph',
-      data: {
-        text: 'Our goal is to become the leading collaborative workspace platform by the end of 2025.',
-      },
+  },
+  list: {
+    class: List,
+    inlineToolbar: true,
+    config: {
+      defaultStyle: 'unordered',
     },
-    {
-      type: 'header',
-      data: {
-        text: 'Key Objectives',
-        level: 2,
-      },
+  },
+  checklist: {
+    class: Checklist,
+    inlineToolbar: true,
+  },
+  quote: {
+    class: Quote,
+    inlineToolbar: true,
+    config: {
+      quotePlaceholder: 'Enter a quote',
+      captionPlaceholder: 'Quote author',
     },
-    {
-      type: 'list',
-      data: {
-        style: 'ordered',
-        items: [
-          '<b>User Growth</b>: Reach 1M active users',
-          '<b>Feature Expansion</b>: Launch AI-powered collaboration tools',
-          '<b>Enterprise Focus</b>: Onboard 500+ enterprise customers',
-        ],
-      },
+  },
+  delimiter: {
+    class: Delimiter,
+  },
+  mention: {
+    // @ts-ignore
+    class: MentionTool,
+  },
+  comment: {
+    // @ts-ignore
+    class: CommentTool,
+  },
+  documentLink: {
+    // @ts-ignore
+    class: DocumentLinkTool,
+  },
+  suggestion: {
+    // @ts-ignore
+    class: SuggestionTool,
+  },
+  table: {
+    // @ts-ignore
+    class: Table,
+    inlineToolbar: true,
+    config: {
+      rows: 2,
+      cols: 3,
     },
-    {
-      type: 'header',
-      data: {
-        text: 'Q4 Priorities',
-        level: 2,
-      },
+  },
+  code: {
+    class: CodeTool,
+    config: {
+      placeholder: 'Enter code',
     },
-    {
-      type: 'list',
-      data: {
-        style: 'unordered',
-        items: [
-          'Complete design system overhaul',
-          'Launch mobile applications',
-          'Integrate with major productivity tools',
-          'Improve real-time collaboration features',
-        ],
-      },
-    },
-    {
-      type: 'header',
-      data: {
-        text: 'Success Metrics',
-        level: 2,
-      },
-    },
-    {
-      type: 'list',
-      data: {
-        style: 'unordered',
-        items: [
-          '40% increase in user engagement',
-          '25% reduction in churn rate',
-          '95%+ customer satisfaction score',
-        ],
-      },
+  },
+  image: {
+    class: ImageTool,
+    config: {
+      uploader: (() => {
+        const uploadByFile = async (file: File) => {
+          try {
+            const response = await uploadsApi.uploadImage(file);
+
+            if (response.success === 1 && response.file?.url) {
+              // Construct full URL - backend serves images at /uploads/images/
+              const baseUrl = API_URL.replace('/api', '');
+              const imageUrl = response.file.url.startsWith('http')
+                ? response.file.url
+                : `${baseUrl}${response.file.url}`;
+
+              return {
+                success: 1,
+                file: {
+                  url: imageUrl,
+                },
+              };
+            } else {
+              throw new Error(response.message || 'Upload failed');
+            }
+          } catch (error: any) {
+            console.error('Image upload error:', error);
+            toast.error(error.message || 'Failed to upload image');
+            return {
+              success: 0,
+            };
+          }
+        };
+
+        return {
+          uploadByFile,
+          async uploadByUrl(url: string) {
+            // For URL-based uploads, we can fetch and re-upload the image
+            // or just return the URL if it's already accessible
+            try {
+              // First try to use the URL directly if it's from our server
+              if (url.startsWith(API_URL.replace('/api', '')) || url.startsWith('/uploads/')) {
+                const baseUrl = API_URL.replace('/api', '');
+                const imageUrl = url.startsWith('http')
+                  ? url
+                  : `${baseUrl}${url}`;
+                return {
+                  success: 1,
+                  file: {
+                    url: imageUrl,
+                  },
+                };
+              }
+
+              // Otherwise, fetch and re-upload
+              const response = await fetch(url);
+              if (!response.ok) {
+                throw new Error('Failed to fetch image from URL');
+              }
+
+              const blob = await response.blob();
+              const file = new File([blob], 'image.jpg', { type: blob.type });
+
+              return await uploadByFile(file);
+            } catch (error: any) {
+              console.error('URL upload error:', error);
+              toast.error('Failed to upload image from URL');
+              return {
+                success: 0,
+              };
+            }
+          },
+        };
+      })(),
+      captionPlaceholder: 'Enter image caption',
+      buttonContent: 'Select an Image',
+      field: 'file',
+      types: 'image/*',
     },
-  ],
+  },
+};
+
+// Documents without saved content start blank - starting content comes from
+// the template picked when the document is created (see lib/templates)
+const INITIAL_DATA = {
+  time: new Date().getTime(),
+  blocks: [],
 };
 
 export default function DocumentEditor() {
@@ -130,23 +250,44 @@ export default function DocumentEditor() {
   const previousLocationRef = useRef(location.pathname);
   const editorRef = useRef<EditorJS | null>(null);
   const yjsClientRef = useRef<YjsClient | null>(null);
+  const blockBindingRef = useRef<BlockBinding | null>(null);
   const [title, setTitle] = useState('Product Roadmap 2025');
   const [tags, setTags] = useState(['strategy', 'product', 'roadmap']);
   const [showShareModal, setShowShareModal] = useState(false);
   const [showCommentsPanel, setShowCommentsPanel] = useState(false);
+  const [showSuggestionsPanel, setShowSuggestionsPanel] = useState(false);
+  // Suggesting mode: edits are recorded as suggestions instead of being applied
+  const [isSuggesting, setIsSuggesting] = useState(false);
+  const [presentationSlides, setPresentationSlides] = useState<Slide[] | null>(null);
+  const [showSaveTemplateModal, setShowSaveTemplateModal] = useState(false);
+  const [showSaveVersionModal, setShowSaveVersionModal] = useState(false);
   const [isStarred, setIsStarred] = useState(true);
   const [editorReady, setEditorReady] = useState(false);
+  // Set once the editor is bound to the shared block model (also kept in blockBindingRef for callbacks)
+  const [blockBinding, setBlockBinding] = useState<BlockBinding | null>(null);
   const [selectedText, setSelectedText] = useState('');
   const [document, setDocument] = useState<any>(null);
   const [loading, setLoading] = useState(true);
   const [syncing, setSyncing] = useState(false);
-  const debounceTimerRef = useRef<NodeJS.Timeout | null>(null);
   const autoSaveTimerRef = useRef<NodeJS.Timeout | null>(null);
   const isApplyingRemoteUpdateRef = useRef(false);
   const lastSavedContentRef = useRef<string | null>(null);
+  // While live-synced, the editor already holds collaborators' edits that lastSavedContentRef doesn't
+  const isLiveSynced = () => !!yjsClientRef.current?.isReady();
+  // Title and tags as last loaded from or saved to the server - the base of queued metadata saves
+  const lastSavedMetadataRef = useRef<DocumentMetadata | null>(null);
   const isInitialLoadRef = useRef(true);
   const hasRenderedContentRef = useRef(false); // Track if content has been rendered
-  const apiContentLoadedRef = useRef(false); // Track if API content has been loaded
+  const markdownInputRef = useRef<HTMLInputElement | null>(null);
+  const notifiedMentionsRef = useRef<Set<string>>(new Set());
+  const titleRef = useRef(title);
+  titleRef.current = title;
+  // Access level from documentsApi.getAccessLevel - "view" makes the editor read-only
+  const [accessLevel, setAccessLevel] = useState<string | null>(null);
+  const [editAccessRequested, setEditAccessRequested] = useState(false);
+  const isViewOnly = accessLevel === 'view';
+  const isViewOnlyRef = useRef(isViewOnly);
+  isViewOnlyRef.current = isViewOnly;
 
   const {
     isConnected,
@@ -155,7 +296,7 @@ export default function DocumentEditor() {
     setCurrentDocument,
     setConnectedUsers,
     removeUser,
-    updateUserCursor,
+    setCursors,
     isSaving,
     setSaving,
     setLastSaved,
@@ -164,6 +305,134 @@ export default function DocumentEditor() {
     reset,
   } = useRealtimeStore();
 
+  const pendingCommentAnchor = useCommentsStore((state) => state.pendingAnchor);
+  // Saves of this document waiting in the outbox for the connection or a conflict resolution
+  const pendingSaves = useOutboxStore(selectPending(id));
+  const hasSaveConflict = useOutboxStore((state) => state.entries.some((entry) => entry.documentId === id && !!entry.conflict));
+
+  // Load comments up front so inline comment highlights show even while the panel is closed
+  useEffect(() => {
+    if (!id) return;
+
+    useCommentsStore.getState().loadComments(id)
+      .catch((error) => console.warn('⚠️ Failed to load comments:', error));
+
+    return () => useCommentsStore.getState().reset();
+  }, [id]);
+
+  // Open the comments panel when text is selected for a new inline comment
+  useEffect(() => {
+    if (pendingCommentAnchor) {
+      setShowCommentsPanel(true);
+      setShowSuggestionsPanel(false);
+    }
+  }, [pendingCommentAnchor]);
+
+  const openCommentThread = useCallback(() => {
+    setShowCommentsPanel(true);
+    setShowSuggestionsPanel(false);
+  }, []);
+
+  // Notify people newly @mentioned since the previous save (runs in the background)
+  const notifyMentions = (previousContent: string | null, savedData: OutputData) => {
+    if (!id) return;
+    notifyNewMentions(id, titleRef.current, previousContent, savedData, notifiedMentionsRef.current)
+      .catch((error) => console.warn('⚠️ Failed to notify mentions:', error));
+  };
+
+  // Tell collaborators about milestone versions saved while they are in the document
+  useEffect(() => {
+    if (!id) return;
+    socketManager.open();
+
+    const handleSnapshotSaved: SocketEvents['snapshot_saved'] = (data) => {
+      if (data.documentId !== id || !data.versionId || !data.userId || data.userId === getCurrentUserId()) return;
+      toast.info(`${data.userName || 'A collaborator'} saved version "${data.name || 'Untitled'}"`, {
+        action: { label: 'View', onClick: () => navigate(`/documents/${id}/history`) },
+      });
+    };
+    socketManager.on('snapshot_saved', handleSnapshotSaved);
+
+    return () => {
+      socketManager.off('snapshot_saved', handleSnapshotSaved);
+      socketManager.disconnect();
+    };
+  }, [id]);
+
+  // Saves go through the outbox and may reach the server long after they were made
+  useEffect(() => {
+    if (!id) return;
+
+    return subscribeToOutbox(async (event) => {
+      if (event.type === 'failed' || event.entry.documentId !== id) return;
+      const { entry } = event;
+
+      if (entry.kind === 'metadata') {
+        if (event.type === 'saved') {
+          lastSavedMetadataRef.current = entry.metadata;
+        } else {
+          // Kept the server's title and tags, or merged them with ours
+          lastSavedMetadataRef.current = entry.base;
+          setTitle(entry.metadata.Title || 'Untitled Document');
+          setTags(entry.metadata.contentType || []);
+        }
+        return;
+      }
+
+      if (event.type === 'saved') {
+        try {
+          notifyMentions(lastSavedContentRef.current, JSON.parse(entry.content));
+        } catch (error) {
+          console.warn('⚠️ Failed to read saved content for mentions:', error);
+        }
+        lastSavedContentRef.current = entry.content;
+        setLastSaved(new Date());
+        return;
+      }
+
+      // Kept the server's content, or merged it with ours - show the result
+      if (!editorRef.current) return;
+      try {
+        isApplyingRemoteUpdateRef.current = true;
+        await editorRef.current.render(JSON.parse(entry.content));
+        lastSavedContentRef.current = JSON.stringify(await editorRef.current.save());
+        await blockBindingRef.current?.sync();
+      } catch (error) {
+        console.error('❌ Failed to apply resolved content:', error);
+      } finally {
+        setTimeout(() => {
+          isApplyingRemoteUpdateRef.current = false;
+        }, 500);
+      }
+    });
+  }, [id, setLastSaved]);
+
+  // Scroll to the block in the URL hash (#block-<id>), e.g. when opened from a mention notification
+  useEffect(() => {
+    const match = location.hash.match(/^#block-(.+)$/);
+    if (!editorReady || !match) return;
+
+    let attempts = 0;
+    let highlightTimer: NodeJS.Timeout | null = null;
+    // Content is rendered asynchronously after the editor is ready - retry for a few seconds
+    const interval = setInterval(() => {
+      const element = window.document.querySelector(`.ce-block[data-id="${CSS.escape(decodeURIComponent(match[1]))}"]`);
+      if (element) {
+        clearInterval(interval);
+        element.scrollIntoView({ behavior: 'smooth', block: 'center' });
+        element.classList.add('ce-block--highlighted');
+        highlightTimer = setTimeout(() => element.classList.remove('ce-block--highlighted'), 2500);
+      } else if (++attempts >= 20) {
+        clearInterval(interval);
+      }
+    }, 250);
+
+    return () => {
+      clearInterval(interval);
+      if (highlightTimer) clearTimeout(highlightTimer);
+    };
+  }, [editorReady, location.hash]);
+
   // Load document from backend
   useEffect(() => {
     if (!id) {
@@ -242,6 +511,7 @@ export default function DocumentEditor() {
 
           setTitle(doc.Title || 'Untitled Document');
           setTags(doc.contentType || []);
+          lastSavedMetadataRef.current = { Title: doc.Title, contentType: doc.contentType || [] };
 
         } catch (docError: any) {
           console.error('Failed to load document metadata:', docError);
@@ -263,6 +533,14 @@ export default function DocumentEditor() {
           setTags([]);
         }
 
+        // Title and tags changed while offline haven't reached the server yet - show them
+        const pendingMetadata = await getPendingSave(id, 'metadata');
+        if (pendingMetadata) {
+          console.log('📥 Using title/tags waiting in the save outbox');
+          setTitle(pendingMetadata.metadata.Title || 'Untitled Document');
+          setTags(pendingMetadata.metadata.contentType || []);
+        }
+
         // Try to load document content separately (this can fail without breaking the editor)
         try {
           content = await Promise.race([
@@ -270,6 +548,13 @@ export default function DocumentEditor() {
             new Promise((_, reject) => setTimeout(() => reject(new Error('Content timeout')), 10000))
           ]) as any;
 
+          // Likewise content saved while offline is newer than the server's
+          const pendingContent = await getPendingSave(id, 'content');
+          if (pendingContent) {
+            console.log('📥 Using content waiting in the save outbox');
+            content = { documentId: id, ...content, content: pendingContent.content };
+          }
+
           console.log('📝 Content loaded:', content);
           console.log('📝 Content type:', typeof content);
           console.log('📝 Content.content exists:', !!content?.content);
@@ -302,7 +587,6 @@ export default function DocumentEditor() {
                 // because Editor.js generates new block IDs. Setting it here causes comparison failures.
                 // We'll set it in onReady after the content is rendered.
                 console.log('📝 Content loaded, will set lastSavedContentRef after Editor.js renders');
-                apiContentLoadedRef.current = true; // Mark API content as loaded
               } else {
                 console.warn('⚠️ Content loaded but has no valid blocks, using initial data');
                 setDocument((prev: any) => ({
@@ -332,7 +616,6 @@ export default function DocumentEditor() {
               content: INITIAL_DATA
             }));
             lastSavedContentRef.current = JSON.stringify(INITIAL_DATA);
-            apiContentLoadedRef.current = true; // Mark API content loading as complete (no content found)
           }
         } catch (contentError) {
           console.warn('⚠️ Content loading failed, using initial data:', contentError);
@@ -342,12 +625,17 @@ export default function DocumentEditor() {
             content: INITIAL_DATA
           }));
           lastSavedContentRef.current = JSON.stringify(INITIAL_DATA);
-          apiContentLoadedRef.current = true; // Mark API content loading as complete (failed)
         }
 
+        // Must be known before the editor is created, since readOnly is set at construction
+        const access = await documentsApi.getAccessLevel(id).catch((accessError) => {
+          console.warn('⚠️ Failed to load access level:', accessError);
+          return null;
+        });
+        setAccessLevel(access);
+
         isInitialLoadRef.current = false;
         hasRenderedContentRef.current = false; // Reset render flag when loading new document
-        apiContentLoadedRef.current = false; // Reset API content loaded flag when loading new document
         setLoading(false);
       } catch (error: any) {
         console.error('Unexpected error loading document:', error);
@@ -364,7 +652,6 @@ export default function DocumentEditor() {
         setTags([]);
         lastSavedContentRef.current = JSON.stringify(INITIAL_DATA);
         isInitialLoadRef.current = false;
-        apiContentLoadedRef.current = true; // Mark as loaded (even if failed, to allow editor to initialize)
       }
     };
 
@@ -402,136 +689,26 @@ export default function DocumentEditor() {
         setSyncing(true);
 
         // Create Yjs client for real-time collaboration
+        const userId = getCurrentUserId() || 'anonymous';
         yjsClient = new YjsClient({
           documentId: id,
-          token,
-          userId: 'user-' + Date.now(), // Replace with actual user ID
+          userId,
+          readOnly: isViewOnlyRef.current,
           onSync: () => {
             console.log('✅ Document synced');
             setSyncing(false);
             setConnected(true);
             setCurrentDocument(id);
-          },
-          onUpdate: async (remoteContent?: any) => {
-            // IMPORTANT: Don't apply Yjs updates during initial load - wait for API content to load first
-            if (!apiContentLoadedRef.current) {
-              console.log('⏸️ Skipping Yjs update - waiting for API content to load first');
-              return;
-            }
-
-            console.log('📝 Document updated by remote user - applying changes...');
-
-            // Set flag to prevent onChange from triggering during remote update
-            isApplyingRemoteUpdateRef.current = true;
-
-            try {
-              setHasUnsavedChanges(true);
-
-              // Apply remote changes to editor
-              if (editorRef.current && yjsClient) {
-                try {
-                  let contentToRender = remoteContent;
-
-                  // If remote content is provided, use it
-                  if (!contentToRender) {
-                    // Get content from Yjs map
-                    const yjsDoc = yjsClient.getDocument();
-                    const contentMap = yjsDoc.getMap('content');
-                    const remoteContentStr = contentMap.get('data');
-
-                    if (remoteContentStr && typeof remoteContentStr === 'string') {
-                      contentToRender = JSON.parse(remoteContentStr);
-                    }
-                  }
-
-                  if (contentToRender && contentToRender.blocks) {
-                    console.log('🔄 Applying remote changes to editor');
-
-                    // Save current state first
-                    const currentData = await editorRef.current.save();
-
-                    // Normalize blocks for comparison (remove IDs and timestamps that can differ)
-                    const normalizeBlocks = (blocks: any[]) => {
-                      return blocks.map(block => {
-                        const normalized: any = {
-                          type: block.type,
-                          data: { ...block.data }
-                        };
-                        // Remove fields that might differ between instances
-                        delete normalized.data.id;
-                        delete normalized.data.time;
-                        return normalized;
-                      });
-                    };
-
-                    const normalizedCurrent = normalizeBlocks(currentData.blocks || []);
-                    const normalizedRemote = normalizeBlocks(contentToRender.blocks || []);
-
-                    // Compare normalized content
-                    const currentStr = JSON.stringify(normalizedCurrent);
-                    const remoteStr = JSON.stringify(normalizedRemote);
-
-                    if (currentStr !== remoteStr) {
-                      console.log('📊 Content differs, rendering remote changes');
-                      console.log('Current blocks:', normalizedCurrent.length, 'Remote blocks:', normalizedRemote.length);
-
-                      // Ensure content has proper structure
-                      const contentToSet = {
-                        time: contentToRender.time || Date.now(),
-                        version: contentToRender.version || '2.28.0',
-                        blocks: contentToRender.blocks || []
-                      };
-
-                      // Render remote changes - Editor.js render() replaces content, not appends
-                      try {
-                        // Mark as applying remote update to prevent onChange from triggering
-                        isApplyingRemoteUpdateRef.current = true;
-                        await editorRef.current.render(contentToSet);
-                        console.log('✅ Successfully applied remote changes');
-
-                        // After rendering, get the actual content from Editor.js (with its generated IDs)
-                        // and use that as the baseline for future comparisons
-                        const renderedData = await editorRef.current.save();
-                        const renderedContentStr = JSON.stringify(renderedData);
-                        lastSavedContentRef.current = renderedContentStr;
-                        console.log('📝 Updated lastSavedContentRef to rendered remote content:', {
-                          renderedLength: renderedContentStr.length,
-                          renderedBlocks: renderedData.blocks?.length || 0
-                        });
-                      } catch (renderError) {
-                        console.error('❌ Render error applying remote changes:', renderError);
-                        // Don't try to clear and re-render as that can cause duplicates
-                        // Just log the error and continue
-                      }
-                    } else {
-                      console.log('✅ Content is identical, skipping render');
-                    }
-                  }
-                } catch (error) {
-                  console.error('Failed to apply remote changes:', error);
-                }
-              }
-            } finally {
-              // Clear any pending debounce timers to prevent sending updates during remote sync
-              if (debounceTimerRef.current) {
-                clearTimeout(debounceTimerRef.current);
-                debounceTimerRef.current = null;
-              }
-
-              // Reset flag after a delay to ensure render completes
-              setTimeout(() => {
-                isApplyingRemoteUpdateRef.current = false;
-                console.log('✅ Remote update applied, onChange enabled again');
-              }, 1500); // Increased delay to ensure render completes
-            }
+            // Blocks the server already has win over the content loaded from the API
+            blockBindingRef.current?.reconcile();
           },
           onError: (error: any) => {
             console.warn('⚠️ Real-time collaboration unavailable:', error);
             // Don't show error toast, just log it - allow offline editing
             setSyncing(false);
           },
-          onCursorUpdate: (userId, cursor) => {
-            updateUserCursor(userId, cursor);
+          onCursorsChange: (cursors) => {
+            setCursors(cursors);
           },
           onPresenceUpdate: (users) => {
             setConnectedUsers(users.map(u => ({
@@ -547,6 +724,16 @@ export default function DocumentEditor() {
 
         yjsClientRef.current = yjsClient;
 
+        // Collaborators see the user's name next to their caret once the profile loaded
+        const client = yjsClient;
+        getCurrentUser()
+          .then((user) => {
+            if (user) client.setUser({ id: userId, name: mentionName(user), color: userColor(userId) });
+          })
+          .catch(() => {
+            // The caret is still shared, labelled Anonymous
+          });
+
         // Wait for DOM element to be ready - check if it exists
         // Use window.document to avoid shadowing from the 'document' state variable
         const waitForElement = (selector: string, maxAttempts = 20, delay = 100): Promise<HTMLElement> => {
@@ -582,134 +769,8 @@ export default function DocumentEditor() {
           const editor = new EditorJS({
             holder: 'editorjs',
             placeholder: 'Start writing your document...',
-            readOnly: false,
-            tools: {
-              header: {
-                // @ts-ignore
-                class: Header,
-                config: {
-                  placeholder: 'Enter a header',
-                  levels: [1, 2, 3, 4],
-                  defaultLevel: 2,
-                },
-              },
-              list: {
-                class: List,
-                inlineToolbar: true,
-                config: {
-                  defaultStyle: 'unordered',
-                },
-              },
-              checklist: {
-                class: Checklist,
-                inlineToolbar: true,
-              },
-              quote: {
-                class: Quote,
-                inlineToolbar: true,
-                config: {
-                  quotePlaceholder: 'Enter a quote',
-                  captionPlaceholder: 'Quote author',
-                },
-              },
-              delimiter: {
-                class: Delimiter,
-              },
-              table: {
-                // @ts-ignore
-                class: Table,
-                inlineToolbar: true,
-                config: {
-                  rows: 2,
-                  cols: 3,
-                },
-              },
-              code: {
-                class: CodeTool,
-                config: {
-                  placeholder: 'Enter code',
-                },
-              },
-              image: {
-                class: ImageTool,
-                config: {
-                  uploader: (() => {
-                    const uploadByFile = async (file: File) => {
-                      try {
-                        const response = await uploadsApi.uploadImage(file);
-
-                        if (response.success === 1 && response.file?.url) {
-                          // Construct full URL - backend serves images at /uploads/images/
-                          const baseUrl = API_URL.replace('/api', '');
-                          const imageUrl = response.file.url.startsWith('http')
-                            ? response.file.url
-                            : `${baseUrl}${response.file.url}`;
-
-                          return {
-                            success: 1,
-                            file: {
-                              url: imageUrl,
-                            },
-                          };
-                        } else {
-                          throw new Error(response.message || 'Upload failed');
-                        }
-                      } catch (error: any) {
-                        console.error('Image upload error:', error);
-                        toast.error(error.message || 'Failed to upload image');
-                        return {
-                          success: 0,
-                        };
-                      }
-                    };
-
-                    return {
-                      uploadByFile,
-                      async uploadByUrl(url: string) {
-                        // For URL-based uploads, we can fetch and re-upload the image
-                        // or just return the URL if it's already accessible
-                        try {
-                          // First try to use the URL directly if it's from our server
-                          if (url.startsWith(API_URL.replace('/api', '')) || url.startsWith('/uploads/')) {
-                            const baseUrl = API_URL.replace('/api', '');
-                            const imageUrl = url.startsWith('http')
-                              ? url
-                              : `${baseUrl}${url}`;
-                            return {
-                              success: 1,
-                              file: {
-                                url: imageUrl,
-                              },
-                            };
-                          }
-
-                          // Otherwise, fetch and re-upload
-                          const response = await fetch(url);
-                          if (!response.ok) {
-                            throw new Error('Failed to fetch image from URL');
-                          }
-
-                          const blob = await response.blob();
-                          const file = new File([blob], 'image.jpg', { type: blob.type });
-
-                          return await uploadByFile(file);
-                        } catch (error: any) {
-                          console.error('URL upload error:', error);
-                          toast.error('Failed to upload image from URL');
-                          return {
-                            success: 0,
-                          };
-                        }
-                      },
-                    };
-                  })(),
-                  captionPlaceholder: 'Enter image caption',
-                  buttonContent: 'Select an Image',
-                  field: 'file',
-                  types: 'image/*',
-                },
-              },
-            },
+            readOnly: isViewOnlyRef.current,
+            tools: EDITOR_TOOLS,
             data: document.content || INITIAL_DATA,
             onReady: async () => {
               editorRef.current = editor;
@@ -776,54 +837,29 @@ export default function DocumentEditor() {
                   console.log('ℹ️ No valid content to render at editor ready');
                 }
               }
+
+              // Bind the editor to the shared block model now that the loaded content is in place
+              if (yjsClient) {
+                blockBindingRef.current?.destroy();
+                blockBindingRef.current = new BlockBinding(editor, yjsClient, isViewOnlyRef.current);
+                blockBindingRef.current.reconcile();
+                setBlockBinding(blockBindingRef.current);
+              }
             },
-            onChange: async () => {
+            onChange: async (_api, event) => {
+              // Viewers never save or broadcast changes
+              if (isViewOnlyRef.current) return;
+
               // Skip if we're currently applying a remote update to prevent loops
               if (isApplyingRemoteUpdateRef.current) {
                 console.log('⏸️ Skipping onChange - applying remote update');
                 return;
               }
 
-              setHasUnsavedChanges(true);
-
-              // Debounce sync to avoid too frequent updates
-              if (debounceTimerRef.current) {
-                clearTimeout(debounceTimerRef.current);
-              }
+              // Send the changed blocks to collaborators; echoes of their patched-in changes stop here
+              if (blockBindingRef.current && !(await blockBindingRef.current.handleChange(event))) return;
 
-              debounceTimerRef.current = setTimeout(async () => {
-                // Double-check flag before sending update
-                if (isApplyingRemoteUpdateRef.current) {
-                  console.log('⏸️ Skipping onChange sync - still applying remote update');
-                  return;
-                }
-
-                if (editorRef.current && yjsClient && yjsClient.isReady()) {
-                  try {
-                    const savedData = await editorRef.current.save();
-
-                    // Validate that we have valid blocks
-                    if (!savedData || !savedData.blocks || !Array.isArray(savedData.blocks)) {
-                      console.warn('⚠️ Invalid editor data, skipping sync');
-                      return;
-                    }
-
-                    console.log('📤 Syncing document changes to other users', savedData.blocks.length, 'blocks');
-
-                    // Send update directly via Socket.IO for immediate sync
-                    // This works better than Yjs for Editor.js content synchronization
-                    if (yjsClient.getSocket()) {
-                      yjsClient.getSocket()?.emit('content_update', {
-                        documentId: id,
-                        content: savedData,
-                        operation: 'update'
-                      });
-                    }
-                  } catch (error) {
-                    console.error('Failed to sync content:', error);
-                  }
-                }
-              }, 500); // Debounce for 500ms
+              setHasUnsavedChanges(true);
 
               // Auto-save to backend (debounced separately to avoid too many API calls)
               if (autoSaveTimerRef.current) {
@@ -856,34 +892,12 @@ export default function DocumentEditor() {
                         lastSavedPreview: lastSavedStr.substring(0, 200) + '...'
                       });
 
-                      // Update document metadata (title, tags)
-                      await documentsApi.update(id, {
-                        Title: title,
-                        contentType: tags,
-                      });
-
-                      // Save document content
-                      console.log('💾 Saving content to backend...', {
-                        documentId: id,
-                        contentLength: contentString.length,
-                        blocksCount: savedData.blocks.length,
-                        contentPreview: contentString.substring(0, 200) + '...'
-                      });
-
-                      const savedContent = await documentsApi.saveContent({
-                        documentId: id,
-                        content: contentString,
-                      });
-
-                      console.log('✅ Document auto-saved successfully:', {
-                        contentId: savedContent?._id || 'no id',
-                        documentId: savedContent?.documentId || 'no documentId',
-                        savedAt: new Date().toISOString()
-                      });
+                      // Save document content through the outbox; title and tags are saved on their own
+                      // lastSavedContentRef is updated once the save reaches the server (see the outbox subscription)
+                      const result = await queueContentSave(id, contentString, lastSavedContentRef.current, isLiveSynced());
+                      console.log(result === 'saved' ? '✅ Document auto-saved successfully' : `📥 Auto-save ${result}, will sync later`);
 
-                      // IMPORTANT: Only update lastSavedContentRef AFTER successful save
-                      lastSavedContentRef.current = contentString;
-                      setLastSaved(new Date());
+                      // Queued saves survive reloads, so they count as saved here
                       setHasUnsavedChanges(false);
                     } else {
                       console.log('⏭️ Content unchanged, skipping auto-save');
@@ -922,16 +936,14 @@ export default function DocumentEditor() {
       if (autoSaveTimerRef.current) {
         clearTimeout(autoSaveTimerRef.current);
       }
-      if (debounceTimerRef.current) {
-        clearTimeout(debounceTimerRef.current);
-      }
 
       // CRITICAL: Final save before cleanup
-      // Note: React doesn't wait for async cleanup, so we use fetch with keepalive
-      if (editorRef.current && id && !isApplyingRemoteUpdateRef.current) {
+      // Note: React doesn't wait for async cleanup; the save goes to the outbox, which sends it from there
+      if (editorRef.current && id && !isApplyingRemoteUpdateRef.current && !isViewOnlyRef.current) {
         console.log('🔄 Component unmounting - performing final save...');
 
         // Get editor data synchronously
+        const liveSynced = isLiveSynced();
         editorRef.current.save().then((savedData) => {
           try {
             const contentString = JSON.stringify(savedData);
@@ -944,40 +956,14 @@ export default function DocumentEditor() {
             });
 
             if (lastSavedContentRef.current !== contentString) {
-              console.log('💾 Saving changes before unmount using keepalive fetch...');
-
-              // Use fetch with keepalive to ensure save completes even after unmount
-              const token = localStorage.getItem(ACCESS_TOKEN_KEY);
+              console.log('💾 Queueing changes before unmount...');
 
-              // Save content with keepalive
-              fetch(`${API_URL}/content`, {
-                method: 'POST',
-                headers: {
-                  'Content-Type': 'application/json',
-                  'Authorization': `Bearer ${token}`
-                },
-                body: JSON.stringify({
-                  documentId: id,
-                  content: contentString,
-                }),
-                keepalive: true // Critical: ensures request completes even after page unloads
-              }).catch(err => console.error('Failed to save content on unmount:', err));
+              queueContentSave(id, contentString, lastSavedContentRef.current, liveSynced)
+                .catch(err => console.error('Failed to save content on unmount:', err));
+              queueMetadataSave(id, { Title: title.trim() || 'Untitled Document', contentType: tags }, lastSavedMetadataRef.current)
+                .catch(err => console.error('Failed to save metadata on unmount:', err));
 
-              // Save metadata with keepalive
-              fetch(`${API_URL}/Document/${id}`, {
-                method: 'PUT',
-                headers: {
-                  'Content-Type': 'application/json',
-                  'Authorization': `Bearer ${token}`
-                },
-                body: JSON.stringify({
-                  Title: title,
-                  contentType: tags,
-                }),
-                keepalive: true
-              }).catch(err => console.error('Failed to save metadata on unmount:', err));
-
-              console.log('✅ Final save initiated (keepalive)');
+              console.log('✅ Final save queued');
             } else {
               console.log('⏭️ No changes to save on unmount');
             }
@@ -989,6 +975,9 @@ export default function DocumentEditor() {
         });
       }
 
+      blockBindingRef.current?.destroy();
+      blockBindingRef.current = null;
+      setBlockBinding(null);
       if (yjsClient) {
         yjsClient.disconnect();
       }
@@ -998,9 +987,14 @@ export default function DocumentEditor() {
       }
       reset();
     };
-  }, [id, document, navigate, setConnected, setCurrentDocument, setHasUnsavedChanges, setConnectedUsers, removeUser, updateUserCursor, reset, title, tags, loading]);
+  }, [id, document, navigate, setConnected, setCurrentDocument, setHasUnsavedChanges, setConnectedUsers, removeUser, setCursors, reset, title, tags, loading]);
 
   const handleSave = useCallback(async () => {
+    if (isViewOnlyRef.current) {
+      toast.info('You have view-only access to this document');
+      return;
+    }
+
     if (!editorRef.current || !id) {
       console.error('❌ Cannot save: editor or id is missing', {
         hasEditor: !!editorRef.current,
@@ -1044,38 +1038,27 @@ export default function DocumentEditor() {
         lastSavedPreview: lastSavedStr.substring(0, 200) + '...'
       });
 
-      // Update document metadata (title, tags)
-      console.log('📄 Updating document metadata...');
-      await documentsApi.update(id, {
-        Title: title,
-        contentType: tags,
-      });
-      console.log('✅ Document metadata updated');
-
-      // Save document content
-      console.log('💾 Saving document content...', {
+      // Update document metadata (title, tags) and content through the outbox
+      console.log('💾 Saving document...', {
         documentId: id,
         contentLength: contentString.length,
         blocksCount: outputData.blocks.length,
-        contentPreview: contentString.substring(0, 200) + '...'
-      });
-
-      const savedContent = await documentsApi.saveContent({
-        documentId: id,
-        content: contentString,
       });
 
-      console.log('✅ Document content saved:', {
-        contentId: savedContent?._id || 'no id',
-        documentId: savedContent?.documentId || 'no documentId',
-        savedAt: new Date().toISOString()
-      });
+      const results = await Promise.all([
+        queueMetadataSave(id, { Title: title.trim() || 'Untitled Document', contentType: tags }, lastSavedMetadataRef.current),
+        queueContentSave(id, contentString, lastSavedContentRef.current, isLiveSynced()),
+      ]);
 
-      lastSavedContentRef.current = contentString;
-      setLastSaved(new Date());
       setHasUnsavedChanges(false);
-      toast.success('Document saved successfully');
-      console.log('✅ Save completed successfully');
+      if (results.includes('conflict')) {
+        toast.warning('Someone else changed this document - choose which version to keep');
+      } else if (results.includes('queued')) {
+        toast.info("You're offline - changes will sync when the connection is back");
+      } else {
+        toast.success('Document saved successfully');
+      }
+      console.log('✅ Save completed:', results);
     } catch (error: any) {
       console.error('❌ Saving failed:', error);
       console.error('Error details:', {
@@ -1089,6 +1072,31 @@ export default function DocumentEditor() {
     }
   }, [id, title, tags, setSaving, setLastSaved, setHasUnsavedChanges]);
 
+  // Ask the document owner for edit access
+  const handleRequestEditAccess = async () => {
+    const ownerId = typeof document?.createdBy === 'object' ? document.createdBy?._id : document?.createdBy;
+    if (!id || !ownerId) {
+      toast.error('Could not find the owner of this document');
+      return;
+    }
+
+    try {
+      const user = await getCurrentUser().catch(() => null);
+      await notificationsApi.create({
+        recipient: ownerId,
+        title: 'Edit access requested',
+        message: `${user ? mentionName(user) : 'Someone'} asked for edit access to "${title || 'Untitled Document'}"`,
+        type: 'access_request',
+        documentId: id,
+      });
+      setEditAccessRequested(true);
+      toast.success('Edit access requested');
+    } catch (error) {
+      console.error('Failed to request edit access:', error);
+      toast.error('Failed to request edit access');
+    }
+  };
+
   const handleVoiceText = async (text: string) => {
     if (!editorRef.current) return;
 
@@ -1113,6 +1121,7 @@ export default function DocumentEditor() {
         ...currentData,
         blocks: newBlocks,
       });
+      await blockBindingRef.current?.sync();
 
       toast.success('Voice text inserted');
     } catch (error) {
@@ -1122,7 +1131,21 @@ export default function DocumentEditor() {
   };
 
 
-  const handleExportPDF = async () => {
+  // Render the PDF in the browser from the current editor content
+  const renderPdfLocally = async (): Promise<Blob> => {
+    if (!editorRef.current) {
+      throw new Error('Editor is not ready');
+    }
+
+    const outputData = await editorRef.current.save();
+    const author = document?.createdBy?.firstName
+      ? `${document.createdBy.firstName} ${document.createdBy.lastName || ''}`.trim()
+      : undefined;
+
+    return editorDataToPdf(outputData, { title, tags, author });
+  };
+
+  const handleExportPDF = async (mode: 'server' | 'browser' = 'server') => {
     if (!id || !title) {
       toast.error('Please wait for the document to load');
       return;
@@ -1132,18 +1155,23 @@ export default function DocumentEditor() {
     toast.loading('Generating PDF...', { id: toastId });
 
     try {
-      // Call backend API to generate PDF
-      const pdfBlob = await documentsApi.exportPDF(id);
-
-      // Create download link
-      const url = window.URL.createObjectURL(pdfBlob);
-      const link = window.document.createElement('a');
-      link.href = url;
-      link.download = `${(title || 'document').replace(/[^a-z0-9]/gi, '_').toLowerCase()}.pdf`;
-      window.document.body.appendChild(link);
-      link.click();
-      window.document.body.removeChild(link);
-      window.URL.revokeObjectURL(url);
+      let pdfBlob: Blob;
+
+      if (mode === 'browser') {
+        pdfBlob = await renderPdfLocally();
+      } else {
+        try {
+          // Call backend API to generate PDF
+          pdfBlob = await documentsApi.exportPDF(id);
+        } catch (serverError) {
+          // Backend export unavailable - fall back to in-browser rendering
+          console.warn('⚠️ Server PDF export failed, rendering in browser:', serverError);
+          pdfBlob = await renderPdfLocally();
+          toast.info('Server export unavailable, PDF generated in the browser');
+        }
+      }
+
+      downloadBlob(pdfBlob, toFileName(title, 'pdf'));
 
       toast.success('PDF downloaded', { id: toastId });
     } catch (error: any) {
@@ -1155,6 +1183,103 @@ export default function DocumentEditor() {
     }
   };
 
+  const handleExportWord = async () => {
+    if (!editorRef.current) {
+      toast.error('Please wait for the document to load');
+      return;
+    }
+
+    const toastId = 'docx-export';
+    toast.loading('Generating Word document...', { id: toastId });
+
+    try {
+      const outputData = await editorRef.current.save();
+      const author = document?.createdBy?.firstName
+        ? `${document.createdBy.firstName} ${document.createdBy.lastName || ''}`.trim()
+        : undefined;
+      const docxBlob = await editorDataToDocx(outputData, { title, author });
+
+      downloadBlob(docxBlob, toFileName(title, 'docx'));
+      toast.success('Word document downloaded', { id: toastId });
+    } catch (error: any) {
+      console.error('Failed to export Word document:', error);
+      toast.error(error?.message || 'Failed to export Word document', { id: toastId, duration: 5000 });
+    }
+  };
+
+  const handlePresent = async () => {
+    if (!editorRef.current) {
+      toast.error('Please wait for the document to load');
+      return;
+    }
+
+    try {
+      const outputData = await editorRef.current.save();
+      setPresentationSlides(buildSlides(outputData, title));
+    } catch (error) {
+      console.error('Failed to start presentation:', error);
+      toast.error('Failed to start presentation');
+    }
+  };
+
+  const handleExportMarkdown = async () => {
+    if (!editorRef.current) {
+      toast.error('Please wait for the document to load');
+      return;
+    }
+
+    try {
+      const outputData = await editorRef.current.save();
+      const markdown = editorDataToMarkdown(outputData, { title });
+      downloadBlob(new Blob([markdown], { type: 'text/markdown;charset=utf-8' }), toFileName(title, 'md'));
+      toast.success('Markdown downloaded');
+    } catch (error: any) {
+      console.error('Failed to export Markdown:', error);
+      toast.error(error?.message || 'Failed to export Markdown');
+    }
+  };
+
+  const handleImportMarkdown = async (file: File) => {
+    if (!editorRef.current) {
+      toast.error('Please wait for the document to load');
+      return;
+    }
+
+    try {
+      const markdown = await file.text();
+      const importedData = markdownToEditorData(markdown);
+
+      // A leading H1 is the document title (this is how "Export as Markdown" writes it);
+      // it is only applied once the import is confirmed
+      const [firstBlock, ...otherBlocks] = importedData.blocks;
+      const importedTitle = firstBlock?.type === 'header' && firstBlock.data.level === 1
+        ? stripHtml(firstBlock.data.text).trim()
+        : '';
+      if (importedTitle) {
+        importedData.blocks = otherBlocks;
+      }
+
+      if (importedData.blocks.length === 0) {
+        toast.error('The Markdown file is empty');
+        return;
+      }
+
+      const confirmed = window.confirm(
+        `Replace the current content with "${file.name}"?\n\nThe imported Markdown will overwrite this document.`
+      );
+      if (!confirmed) return;
+
+      await editorRef.current.render(importedData);
+      await blockBindingRef.current?.sync();
+      if (importedTitle) setTitle(importedTitle);
+      setHasUnsavedChanges(true);
+      toast.success(`Imported ${importedData.blocks.length} blocks from Markdown`);
+    } catch (error: any) {
+      console.error('Failed to import Markdown:', error);
+      toast.error(error?.message || 'Failed to import Markdown');
+    }
+  };
+
   // Render loaded content when it becomes available (if editor is already ready)
   // This only runs if content loads AFTER editor is ready (not in onReady)
   useEffect(() => {
@@ -1218,6 +1343,7 @@ export default function DocumentEditor() {
           const renderedData = await editorRef.current!.save();
           const renderedContentStr = JSON.stringify(renderedData);
           lastSavedContentRef.current = renderedContentStr;
+          blockBindingRef.current?.reconcile();
           console.log('📝 Updated lastSavedContentRef to rendered content in useEffect:', {
             renderedLength: renderedContentStr.length,
             renderedBlocks: renderedData.blocks?.length || 0
@@ -1245,7 +1371,7 @@ export default function DocumentEditor() {
   useEffect(() => {
     const handleBeforeUnload = (e: BeforeUnloadEvent) => {
       // Always try to save, even if hasUnsavedChanges is false (it might be stale)
-      if (editorRef.current && id && !isApplyingRemoteUpdateRef.current) {
+      if (editorRef.current && id && !isApplyingRemoteUpdateRef.current && !isViewOnlyRef.current) {
         console.log('🔄 Page unloading - saving changes...');
 
         // Get editor data and save immediately
@@ -1312,24 +1438,17 @@ export default function DocumentEditor() {
     // Check if location changed (user navigated away)
     if (previousLocationRef.current !== location.pathname && previousLocationRef.current.includes('/documents/')) {
       // User navigated away from a document - save if needed
-      if (editorRef.current && id && !isApplyingRemoteUpdateRef.current && hasUnsavedChanges) {
+      if (editorRef.current && id && !isApplyingRemoteUpdateRef.current && !isViewOnlyRef.current && hasUnsavedChanges) {
         console.log('🔄 Navigation detected - saving before leaving document...');
         editorRef.current.save().then(async (savedData) => {
           try {
             const contentString = JSON.stringify(savedData);
             if (lastSavedContentRef.current !== contentString) {
               await Promise.all([
-                documentsApi.update(id, {
-                  Title: title,
-                  contentType: tags,
-                }),
-                documentsApi.saveContent({
-                  documentId: id,
-                  content: contentString,
-                })
+                queueMetadataSave(id, { Title: title.trim() || 'Untitled Document', contentType: tags }, lastSavedMetadataRef.current),
+                queueContentSave(id, contentString, lastSavedContentRef.current, isLiveSynced()),
               ]);
               console.log('✅ Saved before navigation');
-              lastSavedContentRef.current = contentString;
             }
           } catch (error) {
             console.error('❌ Failed to save before navigation:', error);
@@ -1342,30 +1461,25 @@ export default function DocumentEditor() {
 
   // Auto-save when title or tags change
   useEffect(() => {
-    if (!id || loading || !editorReady || isInitialLoadRef.current) return;
+    if (!id || loading || !editorReady || isInitialLoadRef.current || isViewOnlyRef.current) return;
 
     // Debounce title/tags auto-save
     const titleTagsTimer = setTimeout(async () => {
       try {
-        const updatedDoc = await documentsApi.update(id, {
-          Title: title.trim() || 'Untitled Document',
-          contentType: tags,
-        });
+        const metadata = { Title: title.trim() || 'Untitled Document', contentType: tags };
+        const result = await queueMetadataSave(id, metadata, lastSavedMetadataRef.current);
 
         // Update document state with new title
         setDocument((prev: any) => ({
           ...prev,
-          Title: updatedDoc.Title || title.trim() || 'Untitled Document',
-          updatedDate: updatedDoc.updatedDate || new Date().toISOString(),
+          Title: metadata.Title,
+          updatedDate: new Date().toISOString(),
         }));
 
-        console.log('💾 Title/tags auto-saved:', updatedDoc.Title);
+        console.log(`💾 Title/tags auto-save ${result}:`, metadata.Title);
       } catch (error: any) {
+        // Rejected saves are reported by the conflict dialog; don't toast here to avoid spam
         console.error('Failed to auto-save title/tags:', error);
-        // Don't show error toast for auto-save to avoid spam, but log it
-        if (error?.response?.status === 404) {
-          toast.error('Document not found. Please refresh the page.');
-        }
       }
     }, 2000);
 
@@ -1421,9 +1535,6 @@ export default function DocumentEditor() {
 
   return (
     <div className="max-w-5xl mx-auto space-y-6">
-      {/* User Cursors Overlay */}
-      <UserCursors />
-
       {/* Breadcrumb */}
       <Breadcrumb>
         <BreadcrumbList>
@@ -1495,65 +1606,197 @@ export default function DocumentEditor() {
         </div>
 
         <div className="flex gap-2">
-
+          {/* Undo / redo of the user's own changes */}
+          {editorReady && blockBinding && yjsClientRef.current && !isViewOnly && (
+            <UndoHistory
+              binding={blockBinding}
+              manager={yjsClientRef.current.getUndoManager()}
+              onChange={() => {
+                setHasUnsavedChanges(true);
+              }}
+            />
+          )}
 
           <Button
             variant="outline"
             className="rounded-xl"
-            onClick={handleExportPDF}
+            onClick={handlePresent}
+            disabled={!editorReady}
           >
-            <FileDown className="w-4 h-4 mr-2" />
-            Export PDF
+            <Presentation className="w-4 h-4 mr-2" />
+            Present
           </Button>
 
+          <DropdownMenu>
+            <DropdownMenuTrigger asChild>
+              <Button variant="outline" className="rounded-xl">
+                <FileDown className="w-4 h-4 mr-2" />
+                Export PDF
+              </Button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent align="end" className="rounded-xl w-56">
+              <DropdownMenuItem onClick={() => handleExportPDF('server')}>
+                Server rendering
+              </DropdownMenuItem>
+              <DropdownMenuItem onClick={() => handleExportPDF('browser')} disabled={!editorReady}>
+                In-browser rendering (offline)
+              </DropdownMenuItem>
+            </DropdownMenuContent>
+          </DropdownMenu>
+
           <Button
             variant="outline"
             className="rounded-xl"
+            onClick={handleExportWord}
+            disabled={!editorReady}
+          >
+            <FileType className="w-4 h-4 mr-2" />
+            Download as Word
+          </Button>
+
+          {!isViewOnly && (
+            <Button
+              variant="outline"
+              className="rounded-xl"
+              onClick={() => {
+                console.log('🔘 Save button clicked');
+                handleSave();
+              }}
+              disabled={isSaving || syncing}
+            >
+              {isSaving ? (
+                <>
+                  <Save className="w-4 h-4 mr-2 animate-spin" />
+                  Saving...
+                </>
+              ) : syncing ? (
+                <>
+                  <Save className="w-4 h-4 mr-2 animate-pulse" />
+                  Syncing...
+                </>
+              ) : (
+                <>
+                  <Check className="w-4 h-4 mr-2" />
+                  Save
+                </>
+              )}
+            </Button>
+          )}
+
+
+          {!isViewOnly && (
+            <DropdownMenu>
+              <DropdownMenuTrigger asChild>
+                <Button variant={isSuggesting ? "default" : "outline"} className="rounded-xl">
+                  {isSuggesting ? <PencilLine className="w-4 h-4 mr-2" /> : <Pencil className="w-4 h-4 mr-2" />}
+                  {isSuggesting ? 'Suggesting' : 'Editing'}
+                </Button>
+              </DropdownMenuTrigger>
+              <DropdownMenuContent align="end" className="rounded-xl w-64">
+                <DropdownMenuItem onClick={() => setIsSuggesting(false)}>
+                  <Pencil className="w-4 h-4 mr-2" />
+                  <div>
+                    <p>Editing</p>
+                    <p className="text-xs text-muted-foreground">Edit the document directly</p>
+                  </div>
+                </DropdownMenuItem>
+                <DropdownMenuItem
+                  onClick={() => {
+                    setIsSuggesting(true);
+                    setShowSuggestionsPanel(true);
+                    setShowCommentsPanel(false);
+                  }}
+                >
+                  <PencilLine className="w-4 h-4 mr-2" />
+                  <div>
+                    <p>Suggesting</p>
+                    <p className="text-xs text-muted-foreground">Edits become suggestions for review</p>
+                  </div>
+                </DropdownMenuItem>
+              </DropdownMenuContent>
+            </DropdownMenu>
+          )}
+
+          <Button
+            variant={showSuggestionsPanel ? "default" : "outline"}
+            className="rounded-xl"
             onClick={() => {
-              console.log('🔘 Save button clicked');
-              handleSave();
+              setShowSuggestionsPanel(!showSuggestionsPanel);
+              setShowCommentsPanel(false);
             }}
-            disabled={isSaving || syncing}
           >
-            {isSaving ? (
-              <>
-                <Save className="w-4 h-4 mr-2 animate-spin" />
-                Saving...
-              </>
-            ) : syncing ? (
-              <>
-                <Save className="w-4 h-4 mr-2 animate-pulse" />
-                Syncing...
-              </>
-            ) : (
-              <>
-                <Check className="w-4 h-4 mr-2" />
-                Save
-              </>
-            )}
+            <FilePen className="w-4 h-4 mr-2" />
+            Suggestions
           </Button>
 
-
           <Button
             variant={showCommentsPanel ? "default" : "outline"}
             className="rounded-xl"
-            onClick={() => setShowCommentsPanel(!showCommentsPanel)}
+            onClick={() => {
+              setShowCommentsPanel(!showCommentsPanel);
+              setShowSuggestionsPanel(false);
+            }}
           >
             <MessageSquare className="w-4 h-4 mr-2" />
             Comments
           </Button>
 
+          <DropdownMenu>
+            <DropdownMenuTrigger asChild>
+              <Button variant="outline" size="icon" className="rounded-xl">
+                <MoreVertical className="w-4 h-4" />
+              </Button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent align="end" className="rounded-xl w-56">
+              <DropdownMenuItem onClick={handleExportMarkdown} disabled={!editorReady}>
+                <FileText className="w-4 h-4 mr-2" />
+                Export as Markdown
+              </DropdownMenuItem>
+              <DropdownMenuItem onClick={() => markdownInputRef.current?.click()} disabled={!editorReady || isViewOnly}>
+                <Upload className="w-4 h-4 mr-2" />
+                Import Markdown
+              </DropdownMenuItem>
+              <DropdownMenuSeparator />
+              <DropdownMenuItem onClick={() => setShowSaveTemplateModal(true)} disabled={!editorReady}>
+                <LayoutTemplate className="w-4 h-4 mr-2" />
+                Save as template
+              </DropdownMenuItem>
+              <DropdownMenuSeparator />
+              <DropdownMenuItem onClick={() => setShowSaveVersionModal(true)} disabled={!editorReady || isViewOnly}>
+                <Flag className="w-4 h-4 mr-2" />
+                Save version…
+              </DropdownMenuItem>
+              <DropdownMenuItem onClick={() => navigate(`/documents/${id}/history`)}>
+                <History className="w-4 h-4 mr-2" />
+                Version history
+              </DropdownMenuItem>
+            </DropdownMenuContent>
+          </DropdownMenu>
+
+          <input
+            ref={markdownInputRef}
+            type="file"
+            accept=".md,.markdown,text/markdown,text/plain"
+            className="hidden"
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              if (file) handleImportMarkdown(file);
+              e.target.value = '';
+            }}
+          />
         </div>
       </div>
 
       {/* Voice Toolbar */}
-      <VoiceToolbar
-        selectedText={selectedText}
-        onVoiceText={handleVoiceText}
-      />
+      {!isViewOnly && (
+        <VoiceToolbar
+          selectedText={selectedText}
+          onVoiceText={handleVoiceText}
+        />
+      )}
 
-      {/* Heading Selector */}
-      {editorReady && editorRef.current && (
+      {/* Heading Selector (converting blocks can't be suggested) */}
+      {editorReady && editorRef.current && !isViewOnly && !isSuggesting && (
         <HeadingSelector
           editor={editorRef.current}
           onHeadingChange={() => {
@@ -1562,58 +1805,164 @@ export default function DocumentEditor() {
         />
       )}
 
-      {/* Document Editor */}
-      <div className="bg-white dark:bg-card rounded-xl shadow-sm p-8 space-y-6">
-        {/* Title */}
-        <Input
-          type="text"
-          value={title}
-          onChange={(e) => {
-            setTitle(e.target.value);
+      {/* Mention Picker */}
+      {editorReady && editorRef.current && !isViewOnly && (
+        <MentionPicker
+          editor={editorRef.current}
+          documentId={id}
+          onChange={() => {
             setHasUnsavedChanges(true);
           }}
-          onBlur={async () => {
-            // Save title immediately when user leaves the input
-            if (id && title.trim() && !loading) {
-              try {
-                const updatedDoc = await documentsApi.update(id, {
-                  Title: title.trim() || 'Untitled Document',
-                  contentType: tags,
-                });
+        />
+      )}
 
-                setDocument((prev: any) => ({
-                  ...prev,
-                  Title: updatedDoc.Title || title.trim() || 'Untitled Document',
-                  updatedDate: updatedDoc.updatedDate || new Date().toISOString(),
-                }));
+      {/* Inline Comment Highlights */}
+      {editorReady && <CommentHighlights onOpenThread={openCommentThread} />}
 
-                setHasUnsavedChanges(false);
-              } catch (error) {
-                console.error('Failed to save title:', error);
-                toast.error('Failed to save document name');
-              }
-            }
+      {/* Document Link Picker ([[) and live link chips */}
+      {editorReady && editorRef.current && !isViewOnly && (
+        <DocumentLinkPicker
+          editor={editorRef.current}
+          documentId={id}
+          onChange={() => {
+            setHasUnsavedChanges(true);
+          }}
+        />
+      )}
+      {editorReady && <DocumentLinkChips />}
+
+      {/* Suggesting mode (track changes) */}
+      {editorReady && editorRef.current && !isViewOnly && (
+        <SuggestionTracker
+          editor={editorRef.current}
+          enabled={isSuggesting}
+          onChange={() => {
+            setHasUnsavedChanges(true);
+          }}
+        />
+      )}
+
+      {/* Find & Replace (Ctrl/Cmd+F, Ctrl/Cmd+H) */}
+      {editorReady && editorRef.current && (
+        <FindReplaceBar
+          editor={editorRef.current}
+          readOnly={isViewOnly}
+          suggesting={isSuggesting}
+          onChange={() => {
+            setHasUnsavedChanges(true);
+          }}
+        />
+      )}
+
+      {/* Slash Command Palette (inserting blocks can't be suggested) */}
+      {editorReady && editorRef.current && !isViewOnly && !isSuggesting && (
+        <SlashCommandPalette
+          editor={editorRef.current}
+          tools={EDITOR_TOOLS}
+          documentId={id}
+          onChange={() => {
+            setHasUnsavedChanges(true);
           }}
-          className="border-0 p-0 text-[32px] focus-visible:ring-0 font-semibold"
-          placeholder="Untitled Document"
         />
+      )}
 
-        {/* Tags */}
-        <div className="flex flex-wrap gap-2">
-          {tags.map((tag) => (
-            <Badge key={tag} variant="secondary" className="text-[14px] rounded-lg">
-              {tag}
-            </Badge>
-          ))}
-          <Button variant="ghost" size="sm" className="rounded-lg h-7 text-[14px]">
-            + Add tag
+      {/* View-only banner */}
+      {isViewOnly && (
+        <div className="view-only-banner flex items-center justify-between gap-4 rounded-xl px-4 py-3">
+          <div className="flex items-center gap-2 text-sm">
+            <Eye className="w-4 h-4" />
+            <span>View only — request edit access to make changes</span>
+          </div>
+          <Button
+            variant="outline"
+            size="sm"
+            className="rounded-lg"
+            onClick={handleRequestEditAccess}
+            disabled={editAccessRequested}
+          >
+            {editAccessRequested ? 'Access requested' : 'Request edit access'}
           </Button>
         </div>
+      )}
+
+      <div className="flex gap-6 items-start">
+        {/* Document Outline */}
+        {editorReady && editorRef.current && (
+          <aside className="document-outline-pane hidden lg:block shrink-0">
+            <DocumentOutline
+              editor={editorRef.current}
+              readOnly={isViewOnly || isSuggesting}
+              onChange={() => {
+                setHasUnsavedChanges(true);
+              }}
+            />
+          </aside>
+        )}
+
+        {/* Document Editor */}
+        <div className="flex-1 min-w-0 bg-white dark:bg-card rounded-xl shadow-sm p-8 space-y-6">
+          {/* Title */}
+          <Input
+            type="text"
+            value={title}
+            readOnly={isViewOnly}
+            onChange={(e) => {
+              setTitle(e.target.value);
+              setHasUnsavedChanges(true);
+            }}
+            onBlur={async () => {
+              // Save title immediately when user leaves the input
+              if (id && title.trim() && !loading && !isViewOnly) {
+                try {
+                  const metadata = { Title: title.trim() || 'Untitled Document', contentType: tags };
+                  await queueMetadataSave(id, metadata, lastSavedMetadataRef.current);
+
+                  setDocument((prev: any) => ({
+                    ...prev,
+                    Title: metadata.Title,
+                    updatedDate: new Date().toISOString(),
+                  }));
 
-        {/* Editor.js Container */}
-        <div id="editorjs" className="prose prose-slate dark:prose-invert max-w-none" />
+                  setHasUnsavedChanges(false);
+                } catch (error) {
+                  console.error('Failed to save title:', error);
+                  toast.error('Failed to save document name');
+                }
+              }
+            }}
+            className="border-0 p-0 text-[32px] focus-visible:ring-0 font-semibold"
+            placeholder="Untitled Document"
+          />
+
+          {/* Tags */}
+          <div className="flex flex-wrap gap-2">
+            {tags.map((tag) => (
+              <Badge key={tag} variant="secondary" className="text-[14px] rounded-lg">
+                {tag}
+              </Badge>
+            ))}
+            {!isViewOnly && (
+              <Button variant="ghost" size="sm" className="rounded-lg h-7 text-[14px]">
+                + Add tag
+              </Button>
+            )}
+          </div>
+
+          {/* Editor.js Container, with collaborators' carets drawn over it and follow mode tracking them */}
+          <div className="relative">
+            <div id="editorjs" className="prose prose-slate dark:prose-invert max-w-none" />
+            <UserCursors onCursorChange={(cursor) => yjsClientRef.current?.updateCursor(cursor)} />
+            <FollowMode
+              onViewportChange={(viewport) => yjsClientRef.current?.updateViewport(viewport)}
+              onFollowingChange={(userId) => yjsClientRef.current?.setFollowing(userId)}
+            />
+          </div>
+        </div>
       </div>
 
+      {/* Backlinks */}
+      {id && <BacklinksPanel documentId={id} />}
+
       {/* Footer Info */}
       <div className="flex items-center justify-between text-[14px] text-muted-foreground">
         <p>
@@ -1622,10 +1971,22 @@ export default function DocumentEditor() {
         <div className="flex items-center gap-4">
           {isSaving && <span className="text-blue-500">Saving...</span>}
           {syncing && !isSaving && <span className="text-blue-500">Syncing...</span>}
-          {!isSaving && !syncing && isConnected && !hasUnsavedChanges && (
+          {hasSaveConflict && (
+            <button
+              type="button"
+              className="text-amber-500 hover:underline"
+              onClick={() => window.dispatchEvent(new Event('showSaveConflicts'))}
+            >
+              Sync conflict - resolve
+            </button>
+          )}
+          {!isSaving && !syncing && !hasSaveConflict && pendingSaves > 0 && (
+            <span className="text-amber-500">Waiting to sync</span>
+          )}
+          {!isSaving && !syncing && isConnected && !hasUnsavedChanges && pendingSaves === 0 && (
             <span className="text-green-500">All changes saved</span>
           )}
-          {!isSaving && !syncing && hasUnsavedChanges && (
+          {!isSaving && !syncing && hasUnsavedChanges && pendingSaves === 0 && (
             <span className="text-amber-500">Unsaved changes</span>
           )}
           <p>{editorReady ? 'Editor ready' : 'Loading editor...'}</p>
@@ -1641,6 +2002,39 @@ export default function DocumentEditor() {
         />
       )}
 
+      <SaveTemplateModal
+        open={showSaveTemplateModal}
+        onOpenChange={setShowSaveTemplateModal}
+        documentTitle={title}
+        folderId={document?.folderId}
+        getContent={async () => {
+          if (!editorRef.current) throw new Error('Editor not ready');
+          return editorRef.current.save();
+        }}
+      />
+
+      {id && (
+        <SaveVersionModal
+          open={showSaveVersionModal}
+          onOpenChange={setShowSaveVersionModal}
+          documentId={id}
+          documentTitle={title}
+          getContent={async () => {
+            if (!editorRef.current) throw new Error('Editor not ready');
+            return editorRef.current.save();
+          }}
+        />
+      )}
+
+      <SuggestionsPanel
+        isOpen={showSuggestionsPanel}
+        canReview={!isViewOnly}
+        onClose={() => setShowSuggestionsPanel(false)}
+        onChange={() => {
+          setHasUnsavedChanges(true);
+        }}
+      />
+
       {id && (
         <CommentsPanel
           documentId={id}
@@ -1648,6 +2042,15 @@ export default function DocumentEditor() {
           onClose={() => setShowCommentsPanel(false)}
         />
       )}
+
+      {id && presentationSlides && (
+        <PresentationMode
+          documentId={id}
+          title={title}
+          slides={presentationSlides}
+          onClose={() => setPresentationSlides(null)}
+        />
+      )}
     </div>
   );
 }
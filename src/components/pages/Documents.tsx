@@ -11,7 +11,7 @@
  * - Filter by document type (all, Word, Excel, PDF, etc.)
  * - Sort by modification date, name, or other criteria
  * - Group documents by folder with expandable sections
- * - Create new documents with folder assignment
+ * - Create new documents with folder assignment, starting from a template
  * - Navigate to document editor for editing
  * - Display document metadata (last modified, folder location)
  * 
@@ -53,6 +53,8 @@ import {
 } from '../ui/select';
 import { documentsApi, Document } from '../../api/documents';
 import { foldersApi } from '../../api/folders';
+import { BUILT_IN_TEMPLATES, TemplateOption, createDocumentFromTemplate } from '../../lib/templates';
+import TemplatePicker from '../modals/TemplatePicker';
 
 interface DocumentWithFolder extends Document {
   folderName?: string;
@@ -80,6 +82,7 @@ export default function Documents() {
   const [showCreateModal, setShowCreateModal] = useState(false);
   const [newDocName, setNewDocName] = useState('');
   const [selectedFolderId, setSelectedFolderId] = useState<string>('');
+  const [selectedTemplate, setSelectedTemplate] = useState<TemplateOption>(BUILT_IN_TEMPLATES[0]);
   const [creatingDoc, setCreatingDoc] = useState(false);
   const [availableFolders, setAvailableFolders] = useState<Array<{ _id: string; Name: string }>>([]);
   const [currentUserId, setCurrentUserId] = useState<string | null>(null);
@@ -434,12 +437,10 @@ export default function Documents() {
     }
     setCreatingDoc(true);
     try {
-      const newDoc = await documentsApi.create({
-        Title: newDocName,
-        folderId: selectedFolderId
-      });
+      const newDoc = await createDocumentFromTemplate(newDocName, selectedFolderId, selectedTemplate);
       setShowCreateModal(false);
       setNewDocName('');
+      setSelectedTemplate(BUILT_IN_TEMPLATES[0]);
       setSelectedFolderId(availableFolders.length > 0 ? availableFolders[0]._id : '');
       setCreatingDoc(false);
       navigate(`/documents/${newDoc._id}`);
@@ -848,7 +849,7 @@ export default function Documents() {
           <div className="bg-white dark:bg-card rounded-2xl shadow-2xl max-w-md w-full">
             <div className="p-6 border-b border-border flex items-center justify-between">
               <h2 className="text-[20px] font-semibold">Create New Document</h2>
-              <Button variant="ghost" size="icon" onClick={() => { setShowCreateModal(false); setNewDocName(''); setSelectedFolderId(availableFolders.length > 0 ? availableFolders[0]._id : ''); }} className="rounded-lg">
+              <Button variant="ghost" size="icon" onClick={() => { setShowCreateModal(false); setNewDocName(''); setSelectedFolderId(availableFolders.length > 0 ? availableFolders[0]._id : ''); setSelectedTemplate(BUILT_IN_TEMPLATES[0]); }} className="rounded-lg">
                 <svg xmlns="http://www.w3.org/2000/svg" width="20" height="20" fill="none" viewBox="0 0 24 24" stroke="currentColor" className="w-5 h-5">
                   <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
                 </svg>
@@ -864,7 +865,7 @@ export default function Documents() {
                   placeholder="e.g., Q4 Planning"
                   className="rounded-xl"
                   autoFocus
-                  onKeyPress={(e) => e.key === 'Enter' && handleCreate()}
+                  onKeyDown={(e) => e.key === 'Enter' && !creatingDoc && handleCreate()}
                 />
               </div>
               <div>
@@ -894,9 +895,17 @@ export default function Documents() {
                   All documents must belong to a folder
                 </p>
               </div>
+              <div>
+                <label className="text-sm font-medium mb-2 block">Template</label>
+                <TemplatePicker
+                  folderId={selectedFolderId}
+                  selectedId={selectedTemplate.id}
+                  onSelect={setSelectedTemplate}
+                />
+              </div>
             </div>
             <div className="p-6 border-t border-border flex justify-end space-x-3">
-              <Button variant="outline" onClick={() => { setShowCreateModal(false); setNewDocName(''); setSelectedFolderId(availableFolders.length > 0 ? availableFolders[0]._id : ''); }} className="rounded-xl">
+              <Button variant="outline" onClick={() => { setShowCreateModal(false); setNewDocName(''); setSelectedFolderId(availableFolders.length > 0 ? availableFolders[0]._id : ''); setSelectedTemplate(BUILT_IN_TEMPLATES[0]); }} className="rounded-xl">
                 Cancel
               </Button>
               <Button onClick={handleCreate} className="rounded-xl" disabled={creatingDoc || !newDocName.trim() || !selectedFolderId}>
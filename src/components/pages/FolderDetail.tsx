@@ -4,6 +4,7 @@ import { FileText, Plus, ChevronRight, Home, Loader2 } from 'lucide-react';
 import { Button } from '../ui/button';
 import { Card } from '../ui/card';
 import { Badge } from '../ui/badge';
+import { Input } from '../ui/input';
 import {
   Breadcrumb,
   BreadcrumbItem,
@@ -19,11 +20,14 @@ import { Avatar, AvatarFallback, AvatarImage } from '../ui/avatar';
 import {
   Dialog,
   DialogContent,
+  DialogFooter,
   DialogHeader,
   DialogTitle,
 } from '../ui/dialog';
 import { getInitials } from '../../lib/utils';
 import { API_URL } from '../../lib/config';
+import { BUILT_IN_TEMPLATES, TemplateOption, createDocumentFromTemplate } from '../../lib/templates';
+import TemplatePicker from '../modals/TemplatePicker';
 
 export default function FolderDetail() {
   const { id } = useParams();
@@ -32,6 +36,10 @@ export default function FolderDetail() {
   const [documents, setDocuments] = useState<Document[]>([]);
   const [loading, setLoading] = useState(true);
   const [showCollaboratorsDialog, setShowCollaboratorsDialog] = useState(false);
+  const [showCreateDialog, setShowCreateDialog] = useState(false);
+  const [newDocName, setNewDocName] = useState('');
+  const [selectedTemplate, setSelectedTemplate] = useState<TemplateOption>(BUILT_IN_TEMPLATES[0]);
+  const [creatingDoc, setCreatingDoc] = useState(false);
 
   const loadFolderAndDocuments = async () => {
     if (!id) return;
@@ -62,20 +70,27 @@ export default function FolderDetail() {
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [id]);
 
+  const openCreateDialog = () => {
+    setNewDocName('');
+    setSelectedTemplate(BUILT_IN_TEMPLATES[0]);
+    setShowCreateDialog(true);
+  };
+
   const handleCreateDocument = async () => {
     if (!id) return;
 
+    setCreatingDoc(true);
     try {
       // Create document directly in this folder
-      const newDoc = await documentsApi.create({
-        Title: 'Untitled Document',
-        folderId: id,
-      });
+      const newDoc = await createDocumentFromTemplate(newDocName.trim() || 'Untitled Document', id, selectedTemplate);
       toast.success('Document created successfully');
+      setShowCreateDialog(false);
       navigate(`/documents/${newDoc._id}`);
     } catch (error) {
       console.error('Failed to create document:', error);
       toast.error('Failed to create document');
+    } finally {
+      setCreatingDoc(false);
     }
   };
 
@@ -224,7 +239,7 @@ export default function FolderDetail() {
             </>
           )}
 
-          <Button className="rounded-xl" onClick={handleCreateDocument}>
+          <Button className="rounded-xl" onClick={openCreateDialog}>
             <Plus className="w-4 h-4 mr-2" />
             New Document
           </Button>
@@ -237,7 +252,7 @@ export default function FolderDetail() {
           <FileText className="w-16 h-16 mx-auto mb-4 text-muted-foreground" />
           <h3 className="text-lg font-semibold mb-2">No documents yet</h3>
           <p className="text-muted-foreground mb-4">Create your first document to get started</p>
-          <Button onClick={handleCreateDocument} className="rounded-xl">
+          <Button onClick={openCreateDialog} className="rounded-xl">
             <Plus className="w-4 h-4 mr-2" />
             Create Document
           </Button>
@@ -274,6 +289,44 @@ export default function FolderDetail() {
         </div>
       )}
 
+      {/* Create Document Dialog */}
+      <Dialog open={showCreateDialog} onOpenChange={setShowCreateDialog}>
+        <DialogContent className="rounded-2xl">
+          <DialogHeader>
+            <DialogTitle>New document in {folder.Name}</DialogTitle>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div>
+              <label className="text-sm font-medium mb-2 block">Document Name</label>
+              <Input
+                type="text"
+                value={newDocName}
+                onChange={(e) => setNewDocName(e.target.value)}
+                placeholder="Untitled Document"
+                className="rounded-xl"
+                autoFocus
+                onKeyDown={(e) => e.key === 'Enter' && !creatingDoc && handleCreateDocument()}
+              />
+            </div>
+            <div>
+              <label className="text-sm font-medium mb-2 block">Template</label>
+              <TemplatePicker
+                folderId={id}
+                selectedId={selectedTemplate.id}
+                onSelect={setSelectedTemplate}
+              />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setShowCreateDialog(false)} className="rounded-xl">
+              Cancel
+            </Button>
+            <Button onClick={handleCreateDocument} disabled={creatingDoc} className="rounded-xl">
+              {creatingDoc ? 'Creating...' : 'Create Document'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
     </div>
   );
 }
@@ -0,0 +1,198 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { useParams } from 'react-router-dom';
+import { ChevronLeft, ChevronRight, Square } from 'lucide-react';
+import { Button } from '../ui/button';
+import SlideView from '../presentation/SlideView';
+import {
+    PresentationMessage,
+    PresentationState,
+    Slide,
+    presentationChannelName,
+    visibleItems,
+} from '../../lib/presentation';
+
+interface PresentationSnapshot {
+    title: string;
+    slides: Slide[];
+    state: PresentationState;
+    startedAt: number;
+}
+
+const formatElapsed = (milliseconds: number) => {
+    const total = Math.max(0, Math.floor(milliseconds / 1000));
+    const hours = Math.floor(total / 3600);
+    const minutes = Math.floor((total % 3600) / 60).toString().padStart(2, '0');
+    const seconds = (total % 60).toString().padStart(2, '0');
+    return hours > 0 ? `${hours}:${minutes}:${seconds}` : `${minutes}:${seconds}`;
+};
+
+/**
+ * Presenter view, opened in a second window from presentation mode.
+ * Shows the current and next slide, speaker notes and a timer, and drives the audience window.
+ */
+export default function PresenterView() {
+    const { id } = useParams<{ id: string }>();
+    const [presentation, setPresentation] = useState<PresentationSnapshot | null>(null);
+    const [ended, setEnded] = useState(false);
+    const [now, setNow] = useState(Date.now());
+    const channelRef = useRef<BroadcastChannel | null>(null);
+
+    const send = useCallback((message: PresentationMessage) => {
+        channelRef.current?.postMessage(message);
+    }, []);
+
+    useEffect(() => {
+        if (!id || typeof BroadcastChannel === 'undefined') return;
+
+        const channel = new BroadcastChannel(presentationChannelName(id));
+        channelRef.current = channel;
+
+        channel.onmessage = (e: MessageEvent<PresentationMessage>) => {
+            const message = e.data;
+            if (message.type === 'state') {
+                setPresentation({
+                    title: message.title,
+                    slides: message.slides,
+                    state: message.state,
+                    startedAt: message.startedAt,
+                });
+                setEnded(false);
+            } else if (message.type === 'end') {
+                setEnded(true);
+            }
+        };
+
+        // The presentation may already be running
+        channel.postMessage({ type: 'request-state' } satisfies PresentationMessage);
+
+        return () => {
+            channel.close();
+            channelRef.current = null;
+        };
+    }, [id]);
+
+    useEffect(() => {
+        if (presentation?.title) window.document.title = `Presenter view · ${presentation.title.replace(/<[^>]*>/g, '')}`;
+    }, [presentation?.title]);
+
+    useEffect(() => {
+        const interval = setInterval(() => setNow(Date.now()), 1000);
+        return () => clearInterval(interval);
+    }, []);
+
+    useEffect(() => {
+        const handleKeyDown = (e: KeyboardEvent) => {
+            if (e.ctrlKey || e.metaKey || e.altKey) return;
+
+            switch (e.key) {
+                case 'ArrowRight':
+                case 'ArrowDown':
+                case 'PageDown':
+                case ' ':
+                case 'Enter':
+                    send({ type: 'navigate', direction: 'next' });
+                    break;
+                case 'ArrowLeft':
+                case 'ArrowUp':
+                case 'PageUp':
+                case 'Backspace':
+                    send({ type: 'navigate', direction: 'previous' });
+                    break;
+                case 'Home':
+                    send({ type: 'goto', index: 0 });
+                    break;
+                case 'End':
+                    if (presentation) send({ type: 'goto', index: presentation.slides.length - 1 });
+                    break;
+                default:
+                    return;
+            }
+            e.preventDefault();
+        };
+
+        window.addEventListener('keydown', handleKeyDown);
+        return () => window.removeEventListener('keydown', handleKeyDown);
+    }, [send, presentation]);
+
+    if (typeof BroadcastChannel === 'undefined') {
+        return (
+            <div className="presenter-view presenter-view--empty">
+                <p className="text-muted-foreground">Presenter view is not supported in this browser.</p>
+            </div>
+        );
+    }
+
+    if (ended || !presentation) {
+        return (
+            <div className="presenter-view presenter-view--empty">
+                <p className="text-muted-foreground">
+                    {ended
+                        ? 'The presentation has ended. You can close this window.'
+                        : 'Waiting for the presentation… Start presenting the document in the other window.'}
+                </p>
+            </div>
+        );
+    }
+
+    const { slides, state, startedAt } = presentation;
+    const slide = slides[state.index];
+    const nextSlide = slides[state.index + 1];
+    const stepsLeft = state.reveal ? slide.steps - state.step : 0;
+
+    return (
+        <div className="presenter-view">
+            <header className="presenter-view__header">
+                <span className="presenter-view__timer">{formatElapsed(now - startedAt)}</span>
+                <span className="text-sm text-muted-foreground">
+                    Slide {state.index + 1} of {slides.length}
+                    {stepsLeft > 0 && ` · ${stepsLeft} more item${stepsLeft === 1 ? '' : 's'} to reveal`}
+                </span>
+                <div className="flex items-center gap-2">
+                    <Button variant="outline" size="icon" title="Previous (←)" onClick={() => send({ type: 'navigate', direction: 'previous' })}>
+                        <ChevronLeft className="w-4 h-4" />
+                    </Button>
+                    <Button variant="outline" size="icon" title="Next (→)" onClick={() => send({ type: 'navigate', direction: 'next' })}>
+                        <ChevronRight className="w-4 h-4" />
+                    </Button>
+                    <Button variant="destructive" size="sm" onClick={() => send({ type: 'end' })}>
+                        <Square className="w-4 h-4 mr-1" />
+                        End
+                    </Button>
+                </div>
+            </header>
+
+            <div className="presenter-view__main">
+                <section className="presenter-view__current">
+                    <SlideView slide={slide} visibleItems={visibleItems(state)} />
+                </section>
+
+                <aside className="presenter-view__side">
+                    <div>
+                        <p className="text-xs font-medium text-muted-foreground mb-2">Next</p>
+                        {nextSlide ? (
+                            <button
+                                type="button"
+                                className="presenter-view__next"
+                                title="Go to the next slide"
+                                onClick={() => send({ type: 'goto', index: state.index + 1 })}
+                            >
+                                <SlideView slide={nextSlide} />
+                            </button>
+                        ) : (
+                            <p className="text-sm text-muted-foreground">End of presentation</p>
+                        )}
+                    </div>
+
+                    <div className="presenter-view__notes">
+                        <p className="text-xs font-medium text-muted-foreground mb-2">Speaker notes</p>
+                        {slide.notes.length > 0 ? (
+                            slide.notes.map((note, index) => <p key={index}>{note}</p>)
+                        ) : (
+                            <p className="text-sm text-muted-foreground">No notes for this slide. Quote blocks in the document become speaker notes.</p>
+                        )}
+                    </div>
+                </aside>
+            </div>
+        </div>
+    );
+}
@@ -7,14 +7,15 @@
  * Emplacement: src/components/documents/VersionList/VersionList.tsx
  */
 
-import React, { useState } from 'react';
-import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import React, { useEffect, useState } from 'react';
+import { toast } from 'sonner';
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { ScrollArea } from '@/components/ui/scroll-area';
 import { Clock, RotateCcw, Eye, Trash2 } from 'lucide-react';
-import { useAuth } from '../../../hooks/useAuth';
+import { versionsApi, DocumentVersion } from '../../api/versions';
+import VersionPreview from './ContentHistory/VersionPreview';
 
 interface VersionListProps {
   documentId: string;
@@ -23,94 +24,83 @@ interface VersionListProps {
   onVersionRestore?: (versionId: string) => void;
 }
 
-interface DocumentVersion {
-  _id: string;
-  version: number;
-  content: any;
-  createdBy: {
-    firstName: string;
-    lastName: string;
-    email: string;
-  };
-  description?: string;
-  createdAt: string;
-}
-
 const VersionList: React.FC<VersionListProps> = ({
   documentId,
   isOpen,
   onClose,
   onVersionRestore,
 }) => {
-  const { token } = useAuth();
-  const queryClient = useQueryClient();
+  const [versions, setVersions] = useState<DocumentVersion[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isRestoring, setIsRestoring] = useState(false);
+  const [isDeleting, setIsDeleting] = useState(false);
   const [selectedVersion, setSelectedVersion] = useState<DocumentVersion | null>(null);
   const [isPreviewOpen, setIsPreviewOpen] = useState(false);
 
   // Récupérer les versions du document
-  const { data: versions = [], isLoading } = useQuery({
-    queryKey: ['document-versions', documentId],
-    queryFn: async () => {
-      const response = await fetch(`/api/documents/${documentId}/versions`, {
-        headers: {
-          'Authorization': `Bearer ${token}`,
-        },
+  useEffect(() => {
+    if (!isOpen || !documentId) return;
+    let cancelled = false;
+
+    setIsLoading(true);
+    versionsApi.getAll(documentId)
+      .then((data) => {
+        if (!cancelled) setVersions(data);
+      })
+      .catch((error) => {
+        console.error('Failed to fetch versions:', error);
+        if (!cancelled) toast.error('Failed to load versions');
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
       });
-      if (!response.ok) throw new Error('Failed to fetch versions');
-      return response.json();
-    },
-    enabled: isOpen && !!documentId,
-  });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [isOpen, documentId]);
 
   // Restaurer une version
-  const restoreVersionMutation = useMutation({
-    mutationFn: async (versionId: string) => {
-      const response = await fetch(`/api/documents/${documentId}/versions/${versionId}/restore`, {
-        method: 'POST',
-        headers: {
-          'Authorization': `Bearer ${token}`,
-        },
-      });
-      if (!response.ok) throw new Error('Failed to restore version');
-      return response.json();
-    },
-    onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ['document', documentId] });
-      queryClient.invalidateQueries({ queryKey: ['document-versions', documentId] });
-      onVersionRestore?.(selectedVersion?._id || '');
+  const restoreVersion = async (version: DocumentVersion) => {
+    setIsRestoring(true);
+    try {
+      await versionsApi.restore(documentId, version._id);
+      onVersionRestore?.(version._id);
       onClose();
-    },
-  });
+    } catch (error) {
+      console.error('Failed to restore version:', error);
+      toast.error('Failed to restore version');
+    } finally {
+      setIsRestoring(false);
+    }
+  };
 
   // Supprimer une version
-  const deleteVersionMutation = useMutation({
-    mutationFn: async (versionId: string) => {
-      const response = await fetch(`/api/documents/${documentId}/versions/${versionId}/delete`, {
-        method: 'POST',
-        headers: {
-          'Authorization': `Bearer ${token}`,
-        },
-      });
-      if (!response.ok) throw new Error('Failed to delete version');
-      return response.json();
-    },
-    onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ['document-versions', documentId] });
-    },
-  });
+  const deleteVersion = async (versionId: string) => {
+    setIsDeleting(true);
+    try {
+      await versionsApi.delete(documentId, versionId);
+      setVersions((current) => current.filter((version) => version._id !== versionId));
+    } catch (error) {
+      console.error('Failed to delete version:', error);
+      toast.error('Failed to delete version');
+    } finally {
+      setIsDeleting(false);
+    }
+  };
 
   // Gérer la restauration d'une version
   const handleRestoreVersion = (version: DocumentVersion) => {
     if (confirm(`Are you sure you want to restore version ${version.version}? This will create a new version with the current content.`)) {
       setSelectedVersion(version);
-      restoreVersionMutation.mutate(version._id);
+      restoreVersion(version);
     }
   };
 
   // Gérer la suppression d'une version
   const handleDeleteVersion = (versionId: string) => {
     if (confirm('Are you sure you want to delete this version?')) {
-      deleteVersionMutation.mutate(versionId);
+      deleteVersion(versionId);
     }
   };
 
@@ -128,6 +118,9 @@ const VersionList: React.FC<VersionListProps> = ({
 
   // Obtenir la couleur du badge selon le type de version
   const getVersionBadgeColor = (version: DocumentVersion) => {
+    if (version.milestone) {
+      return 'bg-purple-100 text-purple-800';
+    }
     if (version.description?.includes('Auto-saved')) {
       return 'bg-gray-100 text-gray-800';
     }
@@ -172,13 +165,13 @@ const VersionList: React.FC<VersionListProps> = ({
                             <Clock className="w-4 h-4 text-gray-500" />
                             <span className="font-medium">Version {version.version}</span>
                             <Badge className={getVersionBadgeColor(version)}>
-                              {version.description || 'Manual save'}
+                              {version.name || version.description || 'Manual save'}
                             </Badge>
                           </div>
                         </div>
 
                         <div className="mt-1 text-sm text-gray-500">
-                          Created by {version.createdBy.firstName} {version.createdBy.lastName} • {formatDate(version.createdAt)}
+                          Created by {version.createdBy?.firstName} {version.createdBy?.lastName} • {formatDate(version.createdAt)}
                         </div>
                       </div>
 
@@ -195,7 +188,7 @@ const VersionList: React.FC<VersionListProps> = ({
                           variant="outline"
                           size="sm"
                           onClick={() => handleRestoreVersion(version)}
-                          disabled={restoreVersionMutation.isPending}
+                          disabled={isRestoring}
                         >
                           <RotateCcw className="w-4 h-4" />
                         </Button>
@@ -204,7 +197,7 @@ const VersionList: React.FC<VersionListProps> = ({
                           variant="outline"
                           size="sm"
                           onClick={() => handleDeleteVersion(version._id)}
-                          disabled={deleteVersionMutation.isPending}
+                          disabled={isDeleting}
                           className="text-red-600 hover:text-red-700"
                         >
                           <Trash2 className="w-4 h-4" />
@@ -237,34 +230,11 @@ const VersionList: React.FC<VersionListProps> = ({
           {selectedVersion && (
             <div className="space-y-4">
               <div className="text-sm text-gray-500">
-                Created by {selectedVersion.createdBy.firstName} {selectedVersion.createdBy.lastName} • {formatDate(selectedVersion.createdAt)}
+                Created by {selectedVersion.createdBy?.firstName} {selectedVersion.createdBy?.lastName} • {formatDate(selectedVersion.createdAt)}
               </div>
 
               <div className="border rounded-lg p-4 max-h-96 overflow-y-auto">
-                <div className="prose max-w-none">
-                  {selectedVersion.content?.blocks?.map((block: any, index: number) => (
-                    <div key={index} className="mb-4">
-                      {block.type === 'header' && (
-                        <h1 className="text-2xl font-bold">{block.data.text}</h1>
-                      )}
-                      {block.type === 'paragraph' && (
-                        <p>{block.data.text}</p>
-                      )}
-                      {block.type === 'list' && (
-                        <ul className="list-disc pl-6">
-                          {block.data.items.map((item: string, itemIndex: number) => (
-                            <li key={itemIndex}>{item}</li>
-                          ))}
-                        </ul>
-                      )}
-                      {block.type === 'code' && (
-                        <pre className="bg-gray-100 p-4 rounded">
-                          <code>{block.data.code}</code>
-                        </pre>
-                      )}
-                    </div>
-                  ))}
-                </div>
+                <VersionPreview content={selectedVersion.content} />
               </div>
 
               <div className="flex justify-end space-x-2">
@@ -276,7 +246,7 @@ const VersionList: React.FC<VersionListProps> = ({
                     handleRestoreVersion(selectedVersion);
                     setIsPreviewOpen(false);
                   }}
-                  disabled={restoreVersionMutation.isPending}
+                  disabled={isRestoring}
                 >
                   <RotateCcw className="w-4 h-4 mr-2" />
                   Restore This Version
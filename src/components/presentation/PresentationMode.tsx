@@ -0,0 +1,215 @@
+import { useState, useEffect, useRef, useCallback } from 'react';
+import { ChevronLeft, ChevronRight, FileDown, ListOrdered, MonitorSpeaker, X } from 'lucide-react';
+import { toast } from 'sonner';
+import { Button } from '../ui/button';
+import SlideView from './SlideView';
+import {
+    PresentationMessage,
+    PresentationState,
+    Slide,
+    nextState,
+    presentationChannelName,
+    previousState,
+    visibleItems,
+} from '../../lib/presentation';
+import { slidesToPdf } from '../../lib/export/slidesPdf';
+import { downloadBlob, toFileName } from '../../lib/export/download';
+
+interface PresentationModeProps {
+    documentId: string;
+    title: string;
+    slides: Slide[];
+    onClose: () => void;
+}
+
+/**
+ * Fullscreen slide show of a document.
+ * Keys: →, Space, PageDown, Enter next · ←, PageUp, Backspace previous · Home / End · S presenter view · Esc exit.
+ */
+export default function PresentationMode({ documentId, title, slides, onClose }: PresentationModeProps) {
+    const [state, setState] = useState<PresentationState>({ index: 0, step: 0, reveal: true });
+    const [exporting, setExporting] = useState(false);
+    const containerRef = useRef<HTMLDivElement>(null);
+    const channelRef = useRef<BroadcastChannel | null>(null);
+    const startedAtRef = useRef(Date.now());
+    const stateRef = useRef(state);
+    stateRef.current = state;
+    const onCloseRef = useRef(onClose);
+    onCloseRef.current = onClose;
+
+    const next = useCallback(() => setState((current) => nextState(slides, current)), [slides]);
+    const previous = useCallback(() => setState((current) => previousState(slides, current)), [slides]);
+    const goTo = useCallback((index: number) => {
+        setState((current) => ({ ...current, index: Math.min(Math.max(index, 0), slides.length - 1), step: 0 }));
+    }, [slides]);
+
+    const postState = useCallback(() => {
+        channelRef.current?.postMessage({
+            type: 'state',
+            title,
+            slides,
+            state: stateRef.current,
+            startedAt: startedAtRef.current,
+        } satisfies PresentationMessage);
+    }, [title, slides]);
+
+    // Go fullscreen, and end the presentation when the user leaves fullscreen
+    useEffect(() => {
+        const container = containerRef.current;
+        let entered = false;
+
+        container?.requestFullscreen?.()
+            .then(() => {
+                entered = true;
+            })
+            .catch(() => {
+                // Fullscreen can be refused (e.g. inside an iframe) - the overlay still covers the page
+            });
+
+        const handleFullscreenChange = () => {
+            if (entered && !window.document.fullscreenElement) onCloseRef.current();
+        };
+        window.document.addEventListener('fullscreenchange', handleFullscreenChange);
+
+        return () => {
+            window.document.removeEventListener('fullscreenchange', handleFullscreenChange);
+            if (window.document.fullscreenElement) {
+                window.document.exitFullscreen().catch(() => {});
+            }
+        };
+    }, []);
+
+    // Presenter view: send every change and follow its navigation
+    useEffect(() => {
+        if (typeof BroadcastChannel === 'undefined') return;
+
+        const channel = new BroadcastChannel(presentationChannelName(documentId));
+        channelRef.current = channel;
+
+        channel.onmessage = (e: MessageEvent<PresentationMessage>) => {
+            const message = e.data;
+            if (message.type === 'request-state') postState();
+            else if (message.type === 'navigate') (message.direction === 'next' ? next : previous)();
+            else if (message.type === 'goto') goTo(message.index);
+            else if (message.type === 'end') onCloseRef.current();
+        };
+
+        return () => {
+            channel.postMessage({ type: 'end' } satisfies PresentationMessage);
+            channel.close();
+            channelRef.current = null;
+        };
+    }, [documentId, next, previous, goTo, postState]);
+
+    useEffect(() => {
+        postState();
+    }, [state, postState]);
+
+    const openPresenterView = useCallback(() => {
+        if (typeof BroadcastChannel === 'undefined') {
+            toast.error('Presenter view is not supported in this browser');
+            return;
+        }
+        window.open(`/documents/${documentId}/presenter`, `xplanb-presenter-${documentId}`, 'width=1200,height=760');
+    }, [documentId]);
+
+    useEffect(() => {
+        const handleKeyDown = (e: KeyboardEvent) => {
+            if (e.ctrlKey || e.metaKey || e.altKey) return;
+
+            switch (e.key) {
+                case 'ArrowRight':
+                case 'ArrowDown':
+                case 'PageDown':
+                case ' ':
+                case 'Enter':
+                    next();
+                    break;
+                case 'ArrowLeft':
+                case 'ArrowUp':
+                case 'PageUp':
+                case 'Backspace':
+                    previous();
+                    break;
+                case 'Home':
+                    goTo(0);
+                    break;
+                case 'End':
+                    goTo(slides.length - 1);
+                    break;
+                case 's':
+                case 'S':
+                    openPresenterView();
+                    break;
+                case 'Escape':
+                    onCloseRef.current();
+                    break;
+                default:
+                    return;
+            }
+
+            e.preventDefault();
+            e.stopPropagation();
+        };
+
+        window.addEventListener('keydown', handleKeyDown, true);
+        return () => window.removeEventListener('keydown', handleKeyDown, true);
+    }, [next, previous, goTo, openPresenterView, slides.length]);
+
+    const handleExportPdf = async () => {
+        setExporting(true);
+        try {
+            const blob = await slidesToPdf(slides, title);
+            downloadBlob(blob, toFileName(`${title || 'document'} slides`, 'pdf'));
+            toast.success('Slides exported');
+        } catch (error) {
+            console.error('Failed to export slides:', error);
+            toast.error('Failed to export slides');
+        } finally {
+            setExporting(false);
+        }
+    };
+
+    const slide = slides[state.index];
+
+    return (
+        <div ref={containerRef} className="presentation-mode">
+            <div className="presentation-mode__stage" onClick={next}>
+                <SlideView slide={slide} visibleItems={visibleItems(state)} />
+            </div>
+
+            <div className="presentation-mode__controls">
+                <Button variant="ghost" size="icon" title="Previous (←)" onClick={previous}>
+                    <ChevronLeft className="w-4 h-4" />
+                </Button>
+                <span className="text-sm whitespace-nowrap">
+                    {state.index + 1} / {slides.length}
+                </span>
+                <Button variant="ghost" size="icon" title="Next (→)" onClick={next}>
+                    <ChevronRight className="w-4 h-4" />
+                </Button>
+                <Button
+                    variant={state.reveal ? 'secondary' : 'ghost'}
+                    size="icon"
+                    title={state.reveal ? 'Show whole slides' : 'Reveal list items one at a time'}
+                    onClick={() => setState((current) => ({
+                        ...current,
+                        reveal: !current.reveal,
+                        step: slides[current.index].steps,
+                    }))}
+                >
+                    <ListOrdered className="w-4 h-4" />
+                </Button>
+                <Button variant="ghost" size="icon" title="Presenter view (S)" onClick={openPresenterView}>
+                    <MonitorSpeaker className="w-4 h-4" />
+                </Button>
+                <Button variant="ghost" size="icon" title="Export slides to PDF" onClick={handleExportPdf} disabled={exporting}>
+                    <FileDown className={`w-4 h-4 ${exporting ? 'animate-pulse' : ''}`} />
+                </Button>
+                <Button variant="ghost" size="icon" title="Exit (Esc)" onClick={onClose}>
+                    <X className="w-4 h-4" />
+                </Button>
+            </div>
+        </div>
+    );
+}
@@ -0,0 +1,108 @@
+import { EditorBlock, NormalizedListItem, normalizeList } from '../../lib/export/blocks';
+import { inlineToSafeHtml } from '../../lib/export/html';
+import type { Slide } from '../../lib/presentation';
+
+interface SlideViewProps {
+    slide: Slide;
+    // Top-level list items to show; the rest keep their space but stay hidden
+    visibleItems?: number;
+}
+
+// Slide HTML comes from the document (or the presenter window), so only the inline formatting tags are kept
+const html = (value: string | undefined) => ({ __html: inlineToSafeHtml(value || '') });
+
+const renderItems = (items: NormalizedListItem[], checklist: boolean) => items.map((item, index) => (
+    <li key={index} className={checklist ? `presentation-check ${item.checked ? 'presentation-check--done' : ''}` : ''}>
+        <span dangerouslySetInnerHTML={html(item.text)} />
+        {item.items.length > 0 && <ul>{renderItems(item.items, checklist)}</ul>}
+    </li>
+));
+
+/**
+ * One slide, laid out in a 16:9 box whose text scales with its width
+ */
+export default function SlideView({ slide, visibleItems = Infinity }: SlideViewProps) {
+    // Index of each list's first item among all top-level list items on the slide
+    let itemOffset = 0;
+
+    const renderBlock = (block: EditorBlock, key: number) => {
+        const data = block.data || {};
+
+        switch (block.type) {
+            case 'paragraph':
+                return <p key={key} dangerouslySetInnerHTML={html(data.text)} />;
+
+            case 'header':
+                return <h3 key={key} dangerouslySetInnerHTML={html(data.text)} />;
+
+            case 'list':
+            case 'checklist': {
+                const list = normalizeList(block);
+                const offset = itemOffset;
+                itemOffset += list.items.length;
+                const checklist = list.style === 'checklist';
+                const items = list.items.map((item, index) => (
+                    <li
+                        key={index}
+                        className={[
+                            checklist ? 'presentation-check' : '',
+                            checklist && item.checked ? 'presentation-check--done' : '',
+                            offset + index >= visibleItems ? 'presentation-slide__hidden' : '',
+                        ].join(' ')}
+                    >
+                        <span dangerouslySetInnerHTML={html(item.text)} />
+                        {item.items.length > 0 && <ul>{renderItems(item.items, checklist)}</ul>}
+                    </li>
+                ));
+                return list.style === 'ordered'
+                    ? <ol key={key} start={list.start}>{items}</ol>
+                    : <ul key={key} className={checklist ? 'presentation-checklist' : ''}>{items}</ul>;
+            }
+
+            case 'image': {
+                const url = data.file?.url || data.url;
+                if (!url) return null;
+                return (
+                    <figure key={key} className="presentation-slide__image">
+                        <img src={url} alt={data.caption ? data.caption.replace(/<[^>]*>/g, '') : ''} />
+                        {data.caption && <figcaption dangerouslySetInnerHTML={html(data.caption)} />}
+                    </figure>
+                );
+            }
+
+            case 'code':
+                return <pre key={key}><code>{data.code}</code></pre>;
+
+            case 'table':
+                return (
+                    <table key={key}>
+                        <tbody>
+                            {(data.content || []).map((row: string[], rowIndex: number) => (
+                                <tr key={rowIndex}>
+                                    {row.map((cell, cellIndex) => (data.withHeadings && rowIndex === 0
+                                        ? <th key={cellIndex} dangerouslySetInnerHTML={html(cell)} />
+                                        : <td key={cellIndex} dangerouslySetInnerHTML={html(cell)} />
+                                    ))}
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                );
+
+            case 'delimiter':
+                return <hr key={key} />;
+
+            default:
+                return typeof data.text === 'string' ? <p key={key} dangerouslySetInnerHTML={html(data.text)} /> : null;
+        }
+    };
+
+    return (
+        <div className={`presentation-slide ${slide.isTitleSlide ? 'presentation-slide--title' : ''}`}>
+            <h1 className="presentation-slide__title" dangerouslySetInnerHTML={html(slide.title)} />
+            <div className="presentation-slide__body">
+                {slide.blocks.map(renderBlock)}
+            </div>
+        </div>
+    );
+}
@@ -1,5 +1,6 @@
 import { api } from "./api";
 import { ACCESS_TOKEN_KEY } from "./config";
+import { connectionManager } from "./realtime/connection";
 
 const storage = {
     get: (k: string) => localStorage.getItem(k),
@@ -16,6 +17,8 @@ export async function login(payload: { email: string; password: string }) {
     // Store the actual token string
     if (tokenString) {
         storage.set(ACCESS_TOKEN_KEY, tokenString);
+        // Open realtime connections authenticate as the new user
+        connectionManager.reauthenticate();
     }
 
     return data;
@@ -23,12 +26,35 @@ export async function login(payload: { email: string; password: string }) {
 
 export function logout() {
     storage.del(ACCESS_TOKEN_KEY);
+    connectionManager.close();
 }
 
 export function isAuthed() {
     return !!storage.get(ACCESS_TOKEN_KEY);
 }
 
+/**
+ * Read the current user's id from the stored JWT (null when logged out or the token is malformed)
+ */
+export function getCurrentUserId(): string | null {
+    const token = storage.get(ACCESS_TOKEN_KEY);
+    if (!token) return null;
+
+    try {
+        const base64 = token.split(".")[1].replace(/-/g, "+").replace(/_/g, "/");
+        const jsonPayload = decodeURIComponent(
+            atob(base64)
+                .split("")
+                .map((c) => "%" + ("00" + c.charCodeAt(0).toString(16)).slice(-2))
+                .join("")
+        );
+        const decoded = JSON.parse(jsonPayload);
+        return decoded.id || decoded._id || decoded.userId || null;
+    } catch {
+        return null;
+    }
+}
+
 export async function forgotPassword(email: string) {
     const { data } = await api.post("/auth/forgetPassword", { email });
     return data;
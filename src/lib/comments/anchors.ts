@@ -0,0 +1,138 @@
+/**
+ * Comment Anchors
+ *
+ * Converts between DOM ranges in the editor and CommentAnchor (block id + character
+ * offsets into the block's text). Offsets alone break as soon as someone edits the
+ * block, so an anchor also keeps the quoted text and a little context around it.
+ * Resolving first tries the stored offsets, then searches for the quote - in the
+ * original block first, then in every other block (the block may have been split
+ * or the text moved). If the quote can't be found the comment is orphaned.
+ */
+
+import type { CommentAnchor } from '../../api/comments';
+
+const CONTEXT_LENGTH = 32;
+
+const textNodes = (root: Node): Text[] => {
+    const nodes: Text[] = [];
+    const walker = window.document.createTreeWalker(root, NodeFilter.SHOW_TEXT);
+    while (walker.nextNode()) {
+        nodes.push(walker.currentNode as Text);
+    }
+    return nodes;
+};
+
+const blockText = (block: HTMLElement) => textNodes(block).map((node) => node.data).join('');
+
+const offsetWithin = (root: Node, node: Node, offset: number): number => {
+    const range = window.document.createRange();
+    range.selectNodeContents(root);
+    range.setEnd(node, offset);
+    return range.toString().length;
+};
+
+/**
+ * The Editor.js block element (.ce-block) that contains a node
+ */
+export function getBlockElement(node: Node | null): HTMLElement | null {
+    const element = node instanceof HTMLElement ? node : node?.parentElement;
+    return element?.closest<HTMLElement>('.ce-block') || null;
+}
+
+/**
+ * Build an anchor from a selection range. Returns null for empty selections
+ * and selections that span more than one block.
+ */
+export function rangeToAnchor(range: Range): CommentAnchor | null {
+    if (range.collapsed) return null;
+
+    const block = getBlockElement(range.startContainer);
+    if (!block || block !== getBlockElement(range.endContainer) || !block.dataset.id) return null;
+
+    const text = blockText(block);
+    const start = offsetWithin(block, range.startContainer, range.startOffset);
+    const end = offsetWithin(block, range.endContainer, range.endOffset);
+    const quote = text.slice(start, end);
+    if (!quote.trim()) return null;
+
+    return {
+        blockId: block.dataset.id,
+        start,
+        end,
+        quote,
+        prefix: text.slice(Math.max(0, start - CONTEXT_LENGTH), start),
+        suffix: text.slice(end, end + CONTEXT_LENGTH),
+    };
+}
+
+const offsetsToRange = (block: HTMLElement, start: number, end: number): Range | null => {
+    const range = window.document.createRange();
+    let position = 0;
+    let startSet = false;
+
+    for (const node of textNodes(block)) {
+        const length = node.data.length;
+        if (!startSet && start <= position + length) {
+            range.setStart(node, start - position);
+            startSet = true;
+        }
+        if (startSet && end <= position + length) {
+            range.setEnd(node, end - position);
+            return range;
+        }
+        position += length;
+    }
+    return null;
+};
+
+// Number of characters of the stored prefix/suffix that still surround the match
+const contextScore = (text: string, index: number, anchor: CommentAnchor) => {
+    let score = 0;
+    const prefix = anchor.prefix || '';
+    for (let i = 1; i <= prefix.length && text[index - i] === prefix[prefix.length - i]; i++) score++;
+
+    const suffix = anchor.suffix || '';
+    const after = index + anchor.quote.length;
+    for (let i = 0; i < suffix.length && text[after + i] === suffix[i]; i++) score++;
+
+    return score;
+};
+
+/**
+ * Find the current DOM range of an anchor, or null if its text no longer exists (orphaned)
+ */
+export function resolveAnchor(anchor: CommentAnchor, holder: HTMLElement): Range | null {
+    const blocks = Array.from(holder.querySelectorAll<HTMLElement>('.ce-block'));
+    const ownBlock = blocks.find((block) => block.dataset.id === anchor.blockId);
+
+    if (ownBlock && blockText(ownBlock).slice(anchor.start, anchor.end) === anchor.quote) {
+        return offsetsToRange(ownBlock, anchor.start, anchor.end);
+    }
+
+    let best: { block: HTMLElement; index: number; score: number } | null = null;
+    for (const block of blocks) {
+        const text = blockText(block);
+        for (let index = text.indexOf(anchor.quote); index !== -1; index = text.indexOf(anchor.quote, index + 1)) {
+            // Prefer the original block, then surrounding context, then the closest position
+            const score = (block === ownBlock ? 1000 : 0)
+                + contextScore(text, index, anchor) * 10
+                - Math.min(Math.abs(index - anchor.start), 9);
+            if (!best || score > best.score) {
+                best = { block, index, score };
+            }
+        }
+    }
+
+    if (!best) return null;
+    const { block, index } = best;
+    return offsetsToRange(block, index, index + anchor.quote.length);
+}
+
+/**
+ * Whether a viewport point falls on the text of a range
+ */
+export function rangeContainsPoint(range: Range, x: number, y: number): boolean {
+    return Array.from(range.getClientRects()).some((rect) =>
+        x >= rect.left && x <= rect.right && y >= rect.top && y <= rect.bottom
+    );
+}
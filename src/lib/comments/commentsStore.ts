@@ -0,0 +1,93 @@
+/**
+ * Comments Store (Zustand)
+ *
+ * Shared between the editor (inline highlights, "Comment" inline tool)
+ * and CommentsPanel, so both work from the same list of comments.
+ */
+
+import { create } from 'zustand';
+import { commentsApi, Comment, CommentAnchor } from '../../api/comments';
+
+interface CommentsState {
+    documentId: string | null;
+    comments: Comment[];
+    loading: boolean;
+
+    // Thread highlighted in the panel (e.g. after clicking its highlight in the editor)
+    activeCommentId: string | null;
+
+    // Anchored comments whose text could not be found in the document
+    orphanedIds: Set<string>;
+
+    // Selection the user is about to comment on
+    pendingAnchor: CommentAnchor | null;
+
+    // Actions
+    loadComments: (documentId: string) => Promise<void>;
+    addComment: (comment: Comment) => void;
+    updateComment: (comment: Comment) => void;
+    removeComment: (commentId: string) => void;
+    setActiveComment: (commentId: string | null) => void;
+    setOrphanedIds: (ids: Set<string>) => void;
+    setPendingAnchor: (anchor: CommentAnchor | null) => void;
+    reset: () => void;
+}
+
+const sameIds = (a: Set<string>, b: Set<string>) => a.size === b.size && Array.from(a).every((id) => b.has(id));
+
+export const useCommentsStore = create<CommentsState>((set, get) => ({
+    documentId: null,
+    comments: [],
+    loading: false,
+    activeCommentId: null,
+    orphanedIds: new Set(),
+    pendingAnchor: null,
+
+    loadComments: async (documentId) => {
+        if (get().documentId !== documentId) {
+            set({ documentId, comments: [], activeCommentId: null, orphanedIds: new Set(), pendingAnchor: null });
+        }
+
+        set({ loading: true });
+        try {
+            const comments = await commentsApi.getByDocument(documentId);
+            // Ignore responses for a document we've since navigated away from
+            if (get().documentId === documentId) {
+                set({ comments });
+            }
+        } finally {
+            set({ loading: false });
+        }
+    },
+
+    addComment: (comment) => set((state) => ({ comments: [comment, ...state.comments] })),
+
+    updateComment: (comment) => set((state) => ({
+        comments: state.comments.map((c) => (c._id === comment._id ? { ...c, ...comment } : c)),
+    })),
+
+    // Removing a thread's top-level comment removes its replies too
+    removeComment: (commentId) => set((state) => ({
+        comments: state.comments.filter((c) => c._id !== commentId && c.parentId !== commentId),
+        activeCommentId: state.activeCommentId === commentId ? null : state.activeCommentId,
+    })),
+
+    setActiveComment: (commentId) => set({ activeCommentId: commentId }),
+
+    setOrphanedIds: (ids) => {
+        if (!sameIds(ids, get().orphanedIds)) {
+            set({ orphanedIds: ids });
+        }
+    },
+
+    setPendingAnchor: (anchor) => set({ pendingAnchor: anchor }),
+
+    reset: () => set({
+        documentId: null,
+        comments: [],
+        loading: false,
+        activeCommentId: null,
+        orphanedIds: new Set(),
+        pendingAnchor: null,
+    }),
+}));
@@ -0,0 +1,78 @@
+/**
+ * Document Links
+ *
+ * Wiki-style links between documents are inline anchors stored in Editor.js block HTML:
+ *   <a class="doc-link" href="/documents/ID" data-document-id="ID" contenteditable="false">Title</a>
+ * The stored title is only a fallback - DocumentLinkChips replaces it with the target's
+ * current title and marks links to deleted or archived documents as broken.
+ */
+
+import { documentsApi, Document } from '../api/documents';
+import { escapeHtml } from './export/blocks';
+
+export interface DocumentLinkStatus {
+    title: string;
+    broken: boolean;
+    reason?: 'deleted' | 'archived';
+}
+
+// Fired by the inline toolbar button to open the document picker for the selection
+export const DOCUMENT_LINK_REQUEST_EVENT = 'xplanb:document-link-request';
+
+export const DOCUMENT_LINK_SELECTOR = 'a.doc-link[data-document-id]';
+
+// How long a resolved title is trusted before it is fetched again
+const STATUS_TTL = 60 * 1000;
+
+const statusCache = new Map<string, { status: Promise<DocumentLinkStatus>; fetchedAt: number }>();
+
+/**
+ * Inline HTML for a document link chip, followed by a space so typing can continue after it
+ */
+export function documentLinkHtml(document: Pick<Document, '_id' | 'Title'>): string {
+    const id = escapeHtml(document._id);
+    const title = escapeHtml(document.Title || 'Untitled Document');
+    return `<a class="doc-link" href="/documents/${id}" data-document-id="${id}" contenteditable="false">${title}</a>&nbsp;`;
+}
+
+const fetchStatus = async (documentId: string): Promise<DocumentLinkStatus> => {
+    try {
+        const document = await documentsApi.getById(documentId);
+        if (!document) {
+            return { title: 'Deleted document', broken: true, reason: 'deleted' };
+        }
+        return {
+            title: document.Title || 'Untitled Document',
+            broken: !!document.archived,
+            reason: document.archived ? 'archived' : undefined,
+        };
+    } catch (error: any) {
+        if (error?.response?.status === 404) {
+            return { title: 'Deleted document', broken: true, reason: 'deleted' };
+        }
+        // Network / permission errors aren't proof the target is gone - drop the entry so it is retried
+        statusCache.delete(documentId);
+        throw error;
+    }
+};
+
+/**
+ * Current title and broken state of a linked document (cached for a short while)
+ */
+export function getDocumentLinkStatus(documentId: string): Promise<DocumentLinkStatus> {
+    const cached = statusCache.get(documentId);
+    if (cached && Date.now() - cached.fetchedAt < STATUS_TTL) {
+        return cached.status;
+    }
+
+    const status = fetchStatus(documentId);
+    statusCache.set(documentId, { status, fetchedAt: Date.now() });
+    return status;
+}
+
+/**
+ * Forget a document's cached status, e.g. after it was renamed or archived in this tab
+ */
+export function invalidateDocumentLinkStatus(documentId: string): void {
+    statusCache.delete(documentId);
+}
@@ -0,0 +1,193 @@
+/**
+ * Editor.js Block Helpers
+ *
+ * Shared helpers for reading the OutputData that DocumentEditor saves.
+ * The list tool has changed its data shape between versions (flat string
+ * items, nested items, separate checklist tool), so exporters go through
+ * these helpers instead of reading block data directly.
+ */
+
+import type { OutputData, OutputBlockData } from '@editorjs/editorjs';
+
+export type EditorData = OutputData;
+export type EditorBlock = OutputBlockData;
+
+export type ListStyle = 'ordered' | 'unordered' | 'checklist';
+
+export interface NormalizedListItem {
+    text: string;
+    checked?: boolean;
+    items: NormalizedListItem[];
+}
+
+export interface NormalizedList {
+    style: ListStyle;
+    start?: number;
+    items: NormalizedListItem[];
+}
+
+const normalizeListItem = (item: any, style: ListStyle): NormalizedListItem => {
+    // Legacy list: plain HTML strings
+    if (typeof item === 'string') {
+        return { text: item, items: [] };
+    }
+
+    // Legacy checklist: { text, checked }
+    if (item && typeof item.text === 'string' && !('content' in item)) {
+        return { text: item.text, checked: !!item.checked, items: [] };
+    }
+
+    return {
+        text: item?.content ?? '',
+        checked: style === 'checklist' ? !!item?.meta?.checked : undefined,
+        items: Array.isArray(item?.items) ? item.items.map((child: any) => normalizeListItem(child, style)) : [],
+    };
+};
+
+/**
+ * Normalize a `list` or `checklist` block into a single nested shape
+ */
+export function normalizeList(block: EditorBlock): NormalizedList {
+    const data = block.data || {};
+
+    if (block.type === 'checklist') {
+        return {
+            style: 'checklist',
+            items: (data.items || []).map((item: any) => normalizeListItem(item, 'checklist')),
+        };
+    }
+
+    const style: ListStyle = data.style === 'ordered' || data.style === 'checklist' ? data.style : 'unordered';
+    return {
+        style,
+        start: data.meta?.start,
+        items: (data.items || []).map((item: any) => normalizeListItem(item, style)),
+    };
+}
+
+/**
+ * Decode the HTML entities Editor.js writes into inline text
+ */
+export function decodeEntities(text: string): string {
+    return text
+        .replace(/&nbsp;/g, ' ')
+        .replace(/&lt;/g, '<')
+        .replace(/&gt;/g, '>')
+        .replace(/&quot;/g, '"')
+        .replace(/&#39;/g, "'")
+        .replace(/&amp;/g, '&');
+}
+
+// Link and image URL schemes that are safe to follow; anything else (javascript:, data:...) is dropped
+const SAFE_URL_SCHEMES = ['http', 'https', 'mailto'];
+
+/**
+ * Whether a link or image URL is http(s), mailto or relative. Entities are decoded first,
+ * as the browser does before following the link.
+ */
+export function isSafeUrl(url: string): boolean {
+    const decoded = decodeEntities(url)
+        .replace(/&#x([0-9a-f]+);?/gi, (_, hex) => String.fromCharCode(parseInt(hex, 16)))
+        .replace(/&#(\d+);?/g, (_, code) => String.fromCharCode(Number(code)))
+        .replace(/[\u0000-\u0020\u007f]/g, '');
+
+    // Relative URLs have no scheme; an entity left undecoded may still hide the colon
+    const head = decoded.split(/[/?#]/)[0];
+    if (!/[:&]/.test(head)) return true;
+
+    const scheme = /^([a-z][a-z0-9+.-]*):/i.exec(head)?.[1];
+    return !!scheme && SAFE_URL_SCHEMES.includes(scheme.toLowerCase());
+}
+
+/**
+ * Escape plain text so it can be used as Editor.js inline HTML
+ */
+export function escapeHtml(text: string): string {
+    return text
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;');
+}
+
+/**
+ * Convert Editor.js inline HTML to plain text
+ */
+export function stripHtml(html: string): string {
+    return decodeEntities((html || '').replace(/<br\s*\/?>/gi, '\n').replace(/<[^>]*>/g, ''));
+}
+
+/**
+ * Parse stored document content (string or object) into OutputData
+ */
+export function parseEditorData(content: unknown): EditorData {
+    let parsed: any = content;
+
+    if (typeof content === 'string') {
+        try {
+            parsed = JSON.parse(content);
+        } catch {
+            // Plain text content from older versions - keep it as paragraphs
+            return {
+                time: Date.now(),
+                blocks: content
+                    .split(/\n{2,}/)
+                    .filter((text) => text.trim())
+                    .map((text) => ({ type: 'paragraph', data: { text: escapeHtml(text.trim()) } })),
+            };
+        }
+    }
+
+    return {
+        time: parsed?.time || Date.now(),
+        version: parsed?.version,
+        blocks: Array.isArray(parsed?.blocks) ? parsed.blocks : [],
+    };
+}
+
+export interface InlineRun {
+    text: string;
+    bold?: boolean;
+    italic?: boolean;
+    strike?: boolean;
+    code?: boolean;
+    link?: string;
+}
+
+/**
+ * Split Editor.js inline HTML into styled text runs.
+ * Line breaks (<br>) become runs whose text is "\n".
+ */
+export function parseInline(html: string): InlineRun[] {
+    const runs: InlineRun[] = [];
+    const root = new DOMParser().parseFromString(`<body>${html || ''}</body>`, 'text/html').body;
+
+    const walk = (node: Node, style: Omit<InlineRun, 'text'>) => {
+        if (node.nodeType === Node.TEXT_NODE) {
+            if (node.textContent) {
+                runs.push({ ...style, text: node.textContent.replace(/\u00a0/g, ' ') });
+            }
+            return;
+        }
+        if (node.nodeType !== Node.ELEMENT_NODE) return;
+
+        const element = node as HTMLElement;
+        const tag = element.tagName.toLowerCase();
+        if (tag === 'br') {
+            runs.push({ ...style, text: '\n' });
+            return;
+        }
+
+        const next = { ...style };
+        if (tag === 'b' || tag === 'strong') next.bold = true;
+        if (tag === 'i' || tag === 'em') next.italic = true;
+        if (tag === 's' || tag === 'del' || tag === 'strike') next.strike = true;
+        if (tag === 'code') next.code = true;
+        if (tag === 'a' && element.getAttribute('href')) next.link = element.getAttribute('href')!;
+
+        element.childNodes.forEach((child) => walk(child, next));
+    };
+
+    root.childNodes.forEach((child) => walk(child, {}));
+    return runs;
+}
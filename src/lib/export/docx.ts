@@ -0,0 +1,288 @@
+/**
+ * DOCX Exporter
+ *
+ * Builds a Word document in the browser from Editor.js OutputData.
+ * Keeps heading levels, ordered/unordered/checklist lists, tables,
+ * code blocks, quotes and embedded images.
+ */
+
+import {
+    AlignmentType,
+    BorderStyle,
+    Document,
+    ExternalHyperlink,
+    HeadingLevel,
+    ImageRun,
+    LevelFormat,
+    Packer,
+    Paragraph,
+    ShadingType,
+    Table,
+    TableCell,
+    TableRow,
+    TextRun,
+    WidthType,
+} from 'docx';
+import type { ParagraphChild } from 'docx';
+import { EditorBlock, EditorData, InlineRun, NormalizedListItem, normalizeList, parseInline, stripHtml } from './blocks';
+import { fitImage, loadImage } from './images';
+
+export interface DocxExportOptions {
+    title?: string;
+    author?: string;
+}
+
+// Usable page width (A4/Letter with default margins) in pixels at 96 DPI
+const MAX_IMAGE_WIDTH = 600;
+const CODE_FONT = 'Courier New';
+const BULLET_REFERENCE = 'xplanb-bullets';
+const NUMBER_REFERENCE = 'xplanb-numbers';
+const LIST_LEVELS = 9;
+
+const HEADINGS = [
+    HeadingLevel.HEADING_1,
+    HeadingLevel.HEADING_2,
+    HeadingLevel.HEADING_3,
+    HeadingLevel.HEADING_4,
+    HeadingLevel.HEADING_5,
+    HeadingLevel.HEADING_6,
+];
+
+const toTextRun = (run: InlineRun, extra: { bold?: boolean; italics?: boolean; font?: string } = {}) =>
+    run.text === '\n'
+        ? new TextRun({ break: 1 })
+        : new TextRun({
+            text: run.text,
+            bold: run.bold || extra.bold,
+            italics: run.italic || extra.italics,
+            strike: run.strike,
+            font: run.code ? CODE_FONT : extra.font,
+            style: run.link ? 'Hyperlink' : undefined,
+        });
+
+/**
+ * Convert Editor.js inline HTML into docx paragraph children
+ */
+const inlineChildren = (html: string, extra: { bold?: boolean; italics?: boolean; font?: string } = {}): ParagraphChild[] => {
+    const children: ParagraphChild[] = [];
+    let linkRuns: TextRun[] = [];
+    let linkHref: string | undefined;
+
+    const flushLink = () => {
+        if (linkHref && linkRuns.length > 0) {
+            children.push(new ExternalHyperlink({ link: linkHref, children: linkRuns }));
+        }
+        linkRuns = [];
+        linkHref = undefined;
+    };
+
+    parseInline(html).forEach((run) => {
+        if (run.link) {
+            if (run.link !== linkHref) flushLink();
+            linkHref = run.link;
+            linkRuns.push(toTextRun(run, extra));
+        } else {
+            flushLink();
+            children.push(toTextRun(run, extra));
+        }
+    });
+    flushLink();
+
+    return children;
+};
+
+const listParagraphs = (
+    items: NormalizedListItem[],
+    style: 'ordered' | 'unordered' | 'checklist',
+    level: number,
+    instance: number,
+): Paragraph[] =>
+    items.flatMap((item) => {
+        const paragraph = style === 'checklist'
+            ? new Paragraph({
+                indent: { left: 360 * (level + 1), hanging: 360 },
+                children: [new TextRun({ text: item.checked ? '☒ ' : '☐ ' }), ...inlineChildren(item.text)],
+            })
+            : new Paragraph({
+                numbering: {
+                    reference: style === 'ordered' ? NUMBER_REFERENCE : BULLET_REFERENCE,
+                    level: Math.min(level, LIST_LEVELS - 1),
+                    instance,
+                },
+                children: inlineChildren(item.text),
+            });
+
+        return [paragraph, ...listParagraphs(item.items, style, level + 1, instance)];
+    });
+
+const codeParagraphs = (code: string): Paragraph[] =>
+    code.split('\n').map((line) =>
+        new Paragraph({
+            shading: { type: ShadingType.CLEAR, color: 'auto', fill: 'F3F4F6' },
+            spacing: { before: 0, after: 0 },
+            children: [new TextRun({ text: line || ' ', font: CODE_FONT, size: 20 })],
+        })
+    );
+
+const tableBlock = (data: any): Table | null => {
+    const rows: string[][] = data.content || [];
+    if (rows.length === 0) return null;
+
+    const columns = Math.max(...rows.map((row) => row.length));
+
+    return new Table({
+        width: { size: 100, type: WidthType.PERCENTAGE },
+        rows: rows.map((row, rowIndex) => {
+            const isHeader = !!data.withHeadings && rowIndex === 0;
+            return new TableRow({
+                tableHeader: isHeader,
+                children: Array.from({ length: columns }, (_, columnIndex) =>
+                    new TableCell({
+                        width: { size: Math.floor(100 / columns), type: WidthType.PERCENTAGE },
+                        shading: isHeader ? { type: ShadingType.CLEAR, color: 'auto', fill: 'F3F4F6' } : undefined,
+                        children: [new Paragraph({ children: inlineChildren(row[columnIndex] || '', { bold: isHeader }) })],
+                    })
+                ),
+            });
+        }),
+    });
+};
+
+const imageParagraphs = async (data: any): Promise<Paragraph[]> => {
+    const url = data.file?.url || data.url;
+    if (!url) return [];
+
+    const caption = stripHtml(data.caption || '').trim();
+    const image = await loadImage(url);
+
+    const paragraphs: Paragraph[] = [];
+    if (image) {
+        paragraphs.push(new Paragraph({
+            alignment: AlignmentType.CENTER,
+            children: [
+                new ImageRun({
+                    type: image.type,
+                    data: image.data,
+                    transformation: fitImage(image, MAX_IMAGE_WIDTH),
+                    altText: caption ? { name: caption, description: caption, title: caption } : undefined,
+                }),
+            ],
+        }));
+    } else {
+        // Keep a link to the image if it could not be embedded
+        paragraphs.push(new Paragraph({
+            children: [new ExternalHyperlink({ link: url, children: [new TextRun({ text: url, style: 'Hyperlink' })] })],
+        }));
+    }
+
+    if (caption) {
+        paragraphs.push(new Paragraph({
+            alignment: AlignmentType.CENTER,
+            children: [new TextRun({ text: caption, italics: true, size: 20, color: '6B7280' })],
+        }));
+    }
+
+    return paragraphs;
+};
+
+/**
+ * Convert a single Editor.js block into docx paragraphs/tables
+ */
+const blockToDocx = async (block: EditorBlock, listInstance: number): Promise<Array<Paragraph | Table>> => {
+    const data = block.data || {};
+
+    switch (block.type) {
+        case 'header': {
+            const level = Math.min(Math.max(Number(data.level) || 2, 1), 6);
+            return [new Paragraph({ heading: HEADINGS[level - 1], children: inlineChildren(data.text) })];
+        }
+
+        case 'paragraph':
+            return [new Paragraph({ children: inlineChildren(data.text) })];
+
+        case 'list':
+        case 'checklist': {
+            const list = normalizeList(block);
+            return listParagraphs(list.items, list.style, 0, listInstance);
+        }
+
+        case 'quote': {
+            const paragraphs = [
+                new Paragraph({
+                    indent: { left: 720 },
+                    border: { left: { style: BorderStyle.SINGLE, size: 12, color: 'D1D5DB', space: 12 } },
+                    children: inlineChildren(data.text, { italics: true }),
+                }),
+            ];
+            const caption = stripHtml(data.caption || '').trim();
+            if (caption) {
+                paragraphs.push(new Paragraph({
+                    indent: { left: 720 },
+                    children: [new TextRun({ text: `— ${caption}`, color: '6B7280' })],
+                }));
+            }
+            return paragraphs;
+        }
+
+        case 'delimiter':
+            return [new Paragraph({ alignment: AlignmentType.CENTER, children: [new TextRun({ text: '* * *' })] })];
+
+        case 'table': {
+            const table = tableBlock(data);
+            // Empty paragraph after the table so consecutive tables don't merge
+            return table ? [table, new Paragraph({})] : [];
+        }
+
+        case 'code':
+            return codeParagraphs(data.code || '');
+
+        case 'image':
+            return imageParagraphs(data);
+
+        default:
+            return typeof data.text === 'string' ? [new Paragraph({ children: inlineChildren(data.text) })] : [];
+    }
+};
+
+const listLevels = (format: 'bullet' | 'decimal') =>
+    Array.from({ length: LIST_LEVELS }, (_, level) => ({
+        level,
+        format: format === 'bullet' ? LevelFormat.BULLET : LevelFormat.DECIMAL,
+        text: format === 'bullet' ? ['•', '◦', '▪'][level % 3] : `%${level + 1}.`,
+        alignment: AlignmentType.LEFT,
+        style: { paragraph: { indent: { left: 360 * (level + 1), hanging: 360 } } },
+    }));
+
+/**
+ * Build a .docx Blob from Editor.js OutputData
+ */
+export async function editorDataToDocx(data: EditorData, options: DocxExportOptions = {}): Promise<Blob> {
+    const children: Array<Paragraph | Table> = [];
+
+    if (options.title) {
+        children.push(new Paragraph({ heading: HeadingLevel.TITLE, children: [new TextRun({ text: options.title })] }));
+    }
+
+    // Each list block gets its own numbering instance so ordered lists restart at 1
+    let listInstance = 0;
+    for (const block of data.blocks || []) {
+        if (block.type === 'list' || block.type === 'checklist') {
+            listInstance++;
+        }
+        children.push(...await blockToDocx(block, listInstance));
+    }
+
+    const doc = new Document({
+        title: options.title,
+        creator: options.author || 'XPlanB',
+        numbering: {
+            config: [
+                { reference: BULLET_REFERENCE, levels: listLevels('bullet') },
+                { reference: NUMBER_REFERENCE, levels: listLevels('decimal') },
+            ],
+        },
+        sections: [{ children }],
+    });
+
+    return Packer.toBlob(doc);
+}
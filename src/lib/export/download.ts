@@ -0,0 +1,26 @@
+/**
+ * Download Helpers
+ *
+ * Trigger browser downloads for files generated on the client
+ */
+
+/**
+ * Build a safe file name from a document title
+ */
+export function toFileName(title: string, extension: string): string {
+    return `${(title || 'document').replace(/[^a-z0-9]/gi, '_').toLowerCase()}.${extension}`;
+}
+
+/**
+ * Download a Blob under the given file name
+ */
+export function downloadBlob(blob: Blob, fileName: string): void {
+    const url = window.URL.createObjectURL(blob);
+    const link = window.document.createElement('a');
+    link.href = url;
+    link.download = fileName;
+    window.document.body.appendChild(link);
+    link.click();
+    window.document.body.removeChild(link);
+    window.URL.revokeObjectURL(url);
+}
@@ -0,0 +1,170 @@
+/**
+ * HTML Exporter
+ *
+ * Renders Editor.js OutputData to a standalone HTML page with a small built-in
+ * stylesheet, so the file reads the same when opened from disk or archived.
+ * Inline markup is limited to the formatting tools the editor offers.
+ */
+
+import {
+    EditorBlock,
+    EditorData,
+    NormalizedListItem,
+    escapeHtml,
+    isSafeUrl,
+    normalizeList,
+} from './blocks';
+
+// DocumentEditor configures the header tool with levels 1-4
+const MAX_HEADER_LEVEL = 4;
+
+export interface HtmlExportOptions {
+    title?: string;
+    /** Shown under the title, e.g. the version and its author */
+    subtitle?: string;
+}
+
+// Inline tags kept from Editor.js HTML; everything else is dropped (its text is kept)
+const INLINE_TAGS = new Set(['a', 'b', 'strong', 'i', 'em', 'u', 's', 'del', 'strike', 'code', 'mark', 'br', 'span']);
+
+const STYLES = `
+body { max-width: 48rem; margin: 2.5rem auto; padding: 0 1.25rem; color: #1f2937;
+    font: 16px/1.6 -apple-system, BlinkMacSystemFont, "Segoe UI", Roboto, Helvetica, Arial, sans-serif; }
+header { margin-bottom: 2rem; padding-bottom: 1rem; border-bottom: 1px solid #e5e7eb; }
+header h1 { margin: 0; }
+header p { margin: 0.25rem 0 0; color: #6b7280; font-size: 0.875rem; }
+blockquote { margin: 1rem 0; padding-left: 1rem; border-left: 3px solid #d1d5db; color: #4b5563; }
+pre { padding: 0.75rem 1rem; border-radius: 6px; background: #f3f4f6; overflow-x: auto; }
+code { font-family: SFMono-Regular, Menlo, Consolas, monospace; font-size: 0.875em; }
+table { border-collapse: collapse; margin: 1rem 0; }
+th, td { padding: 0.375rem 0.75rem; border: 1px solid #d1d5db; text-align: left; vertical-align: top; }
+img { max-width: 100%; }
+figcaption { color: #6b7280; font-size: 0.875rem; }
+ul.checklist { list-style: none; padding-left: 0; }
+hr { margin: 2rem 0; border: 0; border-top: 1px solid #e5e7eb; }
+`;
+
+const sanitizeNode = (node: Node): string => {
+    if (node.nodeType === Node.TEXT_NODE) return escapeHtml(node.textContent || '');
+    if (node.nodeType !== Node.ELEMENT_NODE) return '';
+
+    const element = node as Element;
+    const tag = element.tagName.toLowerCase();
+    if (tag === 'br') return '<br>';
+
+    const children = Array.from(element.childNodes).map(sanitizeNode).join('');
+    if (!INLINE_TAGS.has(tag)) return children;
+    if (tag === 'a') {
+        const href = element.getAttribute('href') || '';
+        return href && isSafeUrl(href) ? `<a href="${escapeHtml(href)}">${children}</a>` : `<a>${children}</a>`;
+    }
+    return `<${tag}>${children}</${tag}>`;
+};
+
+/**
+ * Keep the editor's inline formatting from Editor.js HTML, dropping any other tags and attributes.
+ * The HTML is parsed the way a browser would, so only text and allowlisted tags come out.
+ */
+export function inlineToSafeHtml(html: string): string {
+    if (!html) return '';
+    const body = new DOMParser().parseFromString(`<body>${html}</body>`, 'text/html').body;
+    return Array.from(body.childNodes).map(sanitizeNode).join('');
+}
+
+const listItemsToHtml = (items: NormalizedListItem[], ordered: boolean, checklist: boolean, start?: number): string => {
+    const tag = ordered ? 'ol' : 'ul';
+    const attributes = `${checklist ? ' class="checklist"' : ''}${ordered && start && start !== 1 ? ` start="${start}"` : ''}`;
+    const rendered = items.map((item) => {
+        const box = checklist ? `<input type="checkbox" disabled${item.checked ? ' checked' : ''}> ` : '';
+        const children = item.items.length > 0 ? listItemsToHtml(item.items, ordered, checklist) : '';
+        return `<li>${box}${inlineToSafeHtml(item.text)}${children}</li>`;
+    });
+    return `<${tag}${attributes}>${rendered.join('')}</${tag}>`;
+};
+
+/**
+ * Convert a single Editor.js block to HTML (null for unsupported blocks)
+ */
+export function blockToHtml(block: EditorBlock): string | null {
+    const data = block.data || {};
+
+    switch (block.type) {
+        case 'header': {
+            const level = Math.min(Math.max(Number(data.level) || 2, 1), MAX_HEADER_LEVEL);
+            return `<h${level}>${inlineToSafeHtml(data.text)}</h${level}>`;
+        }
+
+        case 'paragraph':
+            return `<p>${inlineToSafeHtml(data.text)}</p>`;
+
+        case 'list':
+        case 'checklist': {
+            const list = normalizeList(block);
+            return listItemsToHtml(list.items, list.style === 'ordered', list.style === 'checklist', list.start);
+        }
+
+        case 'quote': {
+            const caption = data.caption ? `<footer>— ${inlineToSafeHtml(data.caption)}</footer>` : '';
+            return `<blockquote><p>${inlineToSafeHtml(data.text)}</p>${caption}</blockquote>`;
+        }
+
+        case 'delimiter':
+            return '<hr>';
+
+        case 'table': {
+            const rows: string[][] = [...(data.content || [])];
+            if (rows.length === 0) return null;
+
+            const cells = (row: string[], tag: 'th' | 'td') =>
+                `<tr>${row.map((cell) => `<${tag}>${inlineToSafeHtml(cell)}</${tag}>`).join('')}</tr>`;
+            const head = data.withHeadings ? `<thead>${cells(rows.shift()!, 'th')}</thead>` : '';
+            return `<table>${head}<tbody>${rows.map((row) => cells(row, 'td')).join('')}</tbody></table>`;
+        }
+
+        case 'code': {
+            const language = data.language ? ` class="language-${escapeHtml(data.language)}"` : '';
+            return `<pre><code${language}>${escapeHtml(data.code || '')}</code></pre>`;
+        }
+
+        case 'image': {
+            const url = data.file?.url || data.url;
+            if (!url || !isSafeUrl(url)) return null;
+            const caption = data.caption ? `<figcaption>${inlineToSafeHtml(data.caption)}</figcaption>` : '';
+            return `<figure><img src="${escapeHtml(url)}" alt="">${caption}</figure>`;
+        }
+
+        default:
+            // Unknown tools: keep their text if they have any
+            return typeof data.text === 'string' ? `<p>${inlineToSafeHtml(data.text)}</p>` : null;
+    }
+}
+
+/**
+ * Convert Editor.js OutputData to a standalone HTML page
+ */
+export function editorDataToHtml(data: EditorData, options: HtmlExportOptions = {}): string {
+    const title = escapeHtml(options.title || 'Untitled Document');
+    const header = options.title || options.subtitle
+        ? `<header>\n<h1>${title}</h1>${options.subtitle ? `\n<p>${escapeHtml(options.subtitle)}</p>` : ''}\n</header>\n`
+        : '';
+    const body = (data.blocks || [])
+        .map(blockToHtml)
+        .filter((html): html is string => html !== null)
+        .join('\n');
+
+    return [
+        '<!DOCTYPE html>',
+        '<html>',
+        '<head>',
+        '<meta charset="utf-8">',
+        '<meta name="viewport" content="width=device-width, initial-scale=1">',
+        `<title>${title}</title>`,
+        `<style>${STYLES}</style>`,
+        '</head>',
+        '<body>',
+        `${header}${body}`,
+        '</body>',
+        '</html>',
+        '',
+    ].join('\n');
+}
@@ -0,0 +1,96 @@
+/**
+ * Image Loader for Exports
+ *
+ * Fetches images referenced by Editor.js image blocks and converts them
+ * to a format that client-side exporters (DOCX, PDF) can embed.
+ */
+
+import { uploadsApi } from '../../api/uploads';
+import { API_URL } from '../config';
+
+export interface LoadedImage {
+    type: 'png' | 'jpg' | 'gif';
+    data: Uint8Array;
+    dataUrl: string;
+    width: number;
+    height: number;
+}
+
+const BACKEND_URL = API_URL.replace('/api', '');
+
+const isUploadUrl = (url: string) => url.startsWith(BACKEND_URL) || url.startsWith('/uploads/');
+
+const blobToDataUrl = (blob: Blob): Promise<string> =>
+    new Promise((resolve, reject) => {
+        const reader = new FileReader();
+        reader.onload = () => resolve(reader.result as string);
+        reader.onerror = () => reject(reader.error);
+        reader.readAsDataURL(blob);
+    });
+
+const fetchImageBlob = async (url: string): Promise<Blob> => {
+    // Uploaded images go through uploadsApi so the auth token is attached
+    if (isUploadUrl(url)) {
+        return uploadsApi.fetchImage(url);
+    }
+
+    const response = await fetch(url);
+    if (!response.ok) {
+        throw new Error(`Failed to fetch image (${response.status})`);
+    }
+    return response.blob();
+};
+
+/**
+ * Load an image and return its bytes, data URL and natural size.
+ * Formats the exporters cannot embed directly (webp, svg...) are converted to PNG.
+ * Returns null if the image cannot be loaded.
+ */
+export async function loadImage(url: string): Promise<LoadedImage | null> {
+    try {
+        let blob = await fetchImageBlob(url);
+        const bitmap = await createImageBitmap(blob);
+        const { width, height } = bitmap;
+
+        let type: LoadedImage['type'];
+        if (blob.type === 'image/png') {
+            type = 'png';
+        } else if (blob.type === 'image/jpeg' || blob.type === 'image/jpg') {
+            type = 'jpg';
+        } else if (blob.type === 'image/gif') {
+            type = 'gif';
+        } else {
+            const canvas = window.document.createElement('canvas');
+            canvas.width = width;
+            canvas.height = height;
+            canvas.getContext('2d')?.drawImage(bitmap, 0, 0);
+            blob = await new Promise<Blob>((resolve, reject) =>
+                canvas.toBlob((png) => (png ? resolve(png) : reject(new Error('Failed to convert image'))), 'image/png')
+            );
+            type = 'png';
+        }
+        bitmap.close();
+
+        return {
+            type,
+            data: new Uint8Array(await blob.arrayBuffer()),
+            dataUrl: await blobToDataUrl(blob),
+            width,
+            height,
+        };
+    } catch (error) {
+        console.warn('⚠️ Failed to load image for export:', url, error);
+        return null;
+    }
+}
+
+/**
+ * Scale image dimensions down to fit a maximum width
+ */
+export function fitImage(image: { width: number; height: number }, maxWidth: number, maxHeight = Infinity) {
+    const ratio = Math.min(1, maxWidth / image.width, maxHeight / image.height);
+    return {
+        width: Math.round(image.width * ratio),
+        height: Math.round(image.height * ratio),
+    };
+}
@@ -0,0 +1,460 @@
+/**
+ * Markdown Converter
+ *
+ * Two-way conversion between Editor.js OutputData and GitHub-flavored Markdown.
+ * Covers every tool configured in DocumentEditor: header, paragraph, list,
+ * checklist, quote, delimiter, table, code and image.
+ */
+
+import {
+    EditorBlock,
+    EditorData,
+    NormalizedListItem,
+    decodeEntities,
+    escapeHtml,
+    isSafeUrl,
+    normalizeList,
+    stripHtml,
+} from './blocks';
+
+// DocumentEditor configures the header tool with levels 1-4
+const MAX_HEADER_LEVEL = 4;
+
+/* ------------------------------------------------------------------ */
+/* Editor.js -> Markdown                                               */
+/* ------------------------------------------------------------------ */
+
+/**
+ * Convert Editor.js inline HTML (bold, italic, links, inline code) to Markdown
+ */
+export function inlineToMarkdown(html: string): string {
+    const converted = (html || '')
+        .replace(/<a\s+[^>]*href="([^"]*)"[^>]*>([\s\S]*?)<\/a>/gi, (_, href, text) => `[${text}](${href})`)
+        .replace(/<(b|strong)(\s[^>]*)?>([\s\S]*?)<\/\1>/gi, '**$3**')
+        .replace(/<(i|em)(\s[^>]*)?>([\s\S]*?)<\/\1>/gi, '_$3_')
+        .replace(/<(s|del|strike)(\s[^>]*)?>([\s\S]*?)<\/\1>/gi, '~~$3~~')
+        .replace(/<code(\s[^>]*)?>([\s\S]*?)<\/code>/gi, '`$2`')
+        .replace(/<br\s*\/?>/gi, '\n')
+        .replace(/<[^>]*>/g, '');
+
+    return decodeEntities(converted);
+}
+
+const longestRun = (text: string, char: string): number => {
+    let longest = 0;
+    let current = 0;
+    for (const c of text) {
+        current = c === char ? current + 1 : 0;
+        longest = Math.max(longest, current);
+    }
+    return longest;
+};
+
+const listItemsToMarkdown = (
+    items: NormalizedListItem[],
+    style: 'ordered' | 'unordered' | 'checklist',
+    indent: string,
+    start = 1,
+): string[] => {
+    const lines: string[] = [];
+
+    items.forEach((item, index) => {
+        const bullet = style === 'ordered' ? `${start + index}.` : '-';
+        const task = style === 'checklist' ? (item.checked ? '[x] ' : '[ ] ') : '';
+        const childIndent = indent + ' '.repeat(bullet.length + 1);
+        const [first, ...rest] = inlineToMarkdown(item.text).split('\n');
+
+        lines.push(`${indent}${bullet} ${task}${first}`);
+        rest.forEach((line) => lines.push(`${childIndent}${line}`));
+
+        if (item.items.length > 0) {
+            lines.push(...listItemsToMarkdown(item.items, style, childIndent));
+        }
+    });
+
+    return lines;
+};
+
+const tableCell = (html: string): string =>
+    inlineToMarkdown(html).replace(/\|/g, '\\|').replace(/\n/g, '<br>').trim();
+
+/**
+ * Convert a single Editor.js block to Markdown (null for unsupported blocks)
+ */
+export function blockToMarkdown(block: EditorBlock): string | null {
+    const data = block.data || {};
+
+    switch (block.type) {
+        case 'header': {
+            const level = Math.min(Math.max(Number(data.level) || 2, 1), 6);
+            return `${'#'.repeat(level)} ${inlineToMarkdown(data.text).replace(/\n/g, ' ')}`;
+        }
+
+        case 'paragraph':
+            return inlineToMarkdown(data.text).replace(/\n/g, '\\\n');
+
+        case 'list':
+        case 'checklist': {
+            const list = normalizeList(block);
+            return listItemsToMarkdown(list.items, list.style, '', list.start || 1).join('\n');
+        }
+
+        case 'quote': {
+            const lines = inlineToMarkdown(data.text).split('\n').map((line) => `> ${line}`.trimEnd());
+            const caption = stripHtml(data.caption || '').trim();
+            if (caption) {
+                lines.push('>', `> — ${caption}`);
+            }
+            return lines.join('\n');
+        }
+
+        case 'delimiter':
+            return '---';
+
+        case 'table': {
+            const rows: string[][] = (data.content || []).map((row: string[]) => row.map(tableCell));
+            if (rows.length === 0) return null;
+
+            const columns = Math.max(...rows.map((row) => row.length));
+            const pad = (row: string[]) => [...row, ...Array(columns - row.length).fill('')];
+            const header = data.withHeadings ? pad(rows.shift()!) : Array(columns).fill('');
+            const toLine = (row: string[]) => `| ${row.join(' | ')} |`;
+
+            return [
+                toLine(header),
+                toLine(Array(columns).fill('---')),
+                ...rows.map((row) => toLine(pad(row))),
+            ].join('\n');
+        }
+
+        case 'code': {
+            const code: string = data.code || '';
+            const fence = '`'.repeat(Math.max(3, longestRun(code, '`') + 1));
+            return `${fence}${data.language || ''}\n${code}\n${fence}`;
+        }
+
+        case 'image': {
+            const url = data.file?.url || data.url;
+            if (!url) return null;
+            const caption = stripHtml(data.caption || '').replace(/[[\]]/g, '\\$&').trim();
+            return `![${caption}](${url})`;
+        }
+
+        default:
+            // Unknown tools: keep their text if they have any
+            return typeof data.text === 'string' ? inlineToMarkdown(data.text) : null;
+    }
+}
+
+/**
+ * Convert Editor.js OutputData to a Markdown document
+ */
+export function editorDataToMarkdown(data: EditorData, options: { title?: string } = {}): string {
+    const parts: string[] = [];
+
+    if (options.title) {
+        parts.push(`# ${options.title}`);
+    }
+
+    (data.blocks || []).forEach((block) => {
+        const markdown = blockToMarkdown(block);
+        if (markdown !== null && markdown.trim() !== '') {
+            parts.push(markdown);
+        }
+    });
+
+    return parts.join('\n\n') + '\n';
+}
+
+/* ------------------------------------------------------------------ */
+/* Markdown -> Editor.js                                               */
+/* ------------------------------------------------------------------ */
+
+/**
+ * Convert Markdown inline syntax to the inline HTML Editor.js understands
+ */
+export function inlineToHtml(markdown: string): string {
+    const codeSpans: string[] = [];
+
+    const html = escapeHtml(markdown)
+        .replace(/`([^`]+)`/g, (_, code) => {
+            codeSpans.push(`<code class="inline-code">${code}</code>`);
+            return `\u0000${codeSpans.length - 1}\u0000`;
+        })
+        .replace(/\\([\\`*_[\]()#+\-.!|~])/g, (_, char) => `&#${char.charCodeAt(0)};`)
+        // Links to unsafe URLs keep only their text
+        .replace(/!?\[([^\]]*)\]\(([^)\s]+)(?:\s+&quot;[^&]*&quot;)?\)/g, (_, text, url) => (isSafeUrl(url) ? `<a href="${url}">${text}</a>` : text))
+        .replace(/(\*\*|__)(?=\S)([\s\S]*?\S)\1/g, '<b>$2</b>')
+        .replace(/\*(?=\S)([\s\S]*?\S)\*/g, '<i>$1</i>')
+        .replace(/(^|[^\w])_(?=\S)([\s\S]*?\S)_(?![\w])/g, '$1<i>$2</i>')
+        .replace(/~~(?=\S)([\s\S]*?\S)~~/g, '<s>$1</s>')
+        .replace(/\n/g, '<br>');
+
+    return html
+        .replace(/\u0000(\d+)\u0000/g, (_, index) => codeSpans[Number(index)])
+        .replace(/&#(\d+);/g, (_, code) => String.fromCharCode(Number(code)));
+}
+
+const FENCE = /^\s{0,3}(`{3,}|~{3,})\s*([\w+-]*)/;
+const HEADING = /^\s{0,3}(#{1,6})\s+(.*?)(?:\s+#+)?\s*$/;
+const DELIMITER = /^\s{0,3}([-*_])(\s*\1){2,}\s*$/;
+const IMAGE = /^\s*!\[((?:\\.|[^\]])*)\]\(([^)\s]+)(?:\s+"[^"]*")?\)\s*$/;
+const QUOTE = /^\s{0,3}>\s?(.*)$/;
+const LIST_ITEM = /^(\s*)([-*+]|\d+[.)])\s+(.*)$/;
+const TASK = /^\[([ xX])\]\s+(.*)$/;
+const TABLE_SEPARATOR = /^\s*\|?\s*:?-+:?\s*(\|\s*:?-+:?\s*)*\|?\s*$/;
+
+const isTableStart = (lines: string[], index: number): boolean =>
+    lines[index].includes('|') && index + 1 < lines.length && TABLE_SEPARATOR.test(lines[index + 1]) && lines[index + 1].includes('-');
+
+const startsBlock = (lines: string[], index: number): boolean => {
+    const line = lines[index];
+    return FENCE.test(line) || HEADING.test(line) || DELIMITER.test(line) || IMAGE.test(line)
+        || QUOTE.test(line) || LIST_ITEM.test(line) || isTableStart(lines, index);
+};
+
+const splitTableRow = (line: string): string[] =>
+    line
+        .trim()
+        .replace(/^\|/, '')
+        .replace(/(?<!\\)\|$/, '')
+        .split(/(?<!\\)\|/)
+        .map((cell) => cell.trim().replace(/\\\|/g, '|'));
+
+const tableCellToHtml = (cell: string): string =>
+    inlineToHtml(cell.replace(/<br\s*\/?>/gi, '\n'));
+
+const joinParagraphLines = (lines: string[]): string =>
+    lines.reduce((text, line, index) => {
+        if (index === 0) return line.trim();
+        const previous = lines[index - 1];
+        const hardBreak = /\\$/.test(previous) || / {2,}$/.test(previous);
+        return (hardBreak ? text.replace(/\\$/, '') + '\n' : text + ' ') + line.trim();
+    }, '');
+
+interface ParsedListEntry {
+    indent: number;
+    ordered: boolean;
+    number: number;
+    task: boolean;
+    checked: boolean;
+    text: string;
+}
+
+const sameListKind = (line: string, first: ParsedListEntry): boolean => {
+    const item = line.match(LIST_ITEM);
+    if (!item) return false;
+    return /\d/.test(item[2]) === first.ordered && TASK.test(item[3]) === first.task;
+};
+
+const buildListBlock = (entries: ParsedListEntry[]): EditorBlock => {
+    const root: NormalizedListItem[] = [];
+    const stack: Array<{ indent: number; items: NormalizedListItem[] }> = [{ indent: -1, items: root }];
+
+    entries.forEach((entry) => {
+        while (stack.length > 1 && entry.indent <= stack[stack.length - 1].indent) {
+            stack.pop();
+        }
+        const item: NormalizedListItem = {
+            text: inlineToHtml(entry.text),
+            checked: entry.task ? entry.checked : undefined,
+            items: [],
+        };
+        stack[stack.length - 1].items.push(item);
+        stack.push({ indent: entry.indent, items: item.items });
+    });
+
+    const first = entries[0];
+    const style = first.task ? 'checklist' : first.ordered ? 'ordered' : 'unordered';
+
+    // Flat task lists map onto the dedicated checklist tool
+    if (style === 'checklist' && root.every((item) => item.items.length === 0)) {
+        return {
+            type: 'checklist',
+            data: { items: root.map((item) => ({ text: item.text, checked: !!item.checked })) },
+        };
+    }
+
+    const toListItems = (items: NormalizedListItem[]): any[] =>
+        items.map((item) => ({
+            content: item.text,
+            meta: style === 'checklist' ? { checked: !!item.checked } : {},
+            items: toListItems(item.items),
+        }));
+
+    return {
+        type: 'list',
+        data: {
+            style,
+            meta: style === 'ordered' && first.number !== 1 ? { start: first.number } : {},
+            items: toListItems(root),
+        },
+    };
+};
+
+/**
+ * Convert a Markdown document to Editor.js OutputData
+ */
+export function markdownToEditorData(markdown: string): EditorData {
+    const lines = markdown.replace(/\r\n?/g, '\n').split('\n');
+    const blocks: EditorBlock[] = [];
+    let i = 0;
+
+    while (i < lines.length) {
+        const line = lines[i];
+
+        if (!line.trim()) {
+            i++;
+            continue;
+        }
+
+        // Fenced code block
+        const fence = line.match(FENCE);
+        if (fence) {
+            const marker = fence[1];
+            const closing = new RegExp(`^\\s{0,3}${marker[0] === '`' ? '`' : '~'}{${marker.length},}\\s*$`);
+            const codeLines: string[] = [];
+            i++;
+            while (i < lines.length && !closing.test(lines[i])) {
+                codeLines.push(lines[i]);
+                i++;
+            }
+            i++; // Skip closing fence
+            blocks.push({ type: 'code', data: { code: codeLines.join('\n') } });
+            continue;
+        }
+
+        const heading = line.match(HEADING);
+        if (heading) {
+            blocks.push({
+                type: 'header',
+                data: {
+                    text: inlineToHtml(heading[2]),
+                    level: Math.min(heading[1].length, MAX_HEADER_LEVEL),
+                },
+            });
+            i++;
+            continue;
+        }
+
+        if (DELIMITER.test(line)) {
+            blocks.push({ type: 'delimiter', data: {} });
+            i++;
+            continue;
+        }
+
+        // Images with unsafe URLs fall through to a paragraph, where the link is dropped too
+        const image = line.match(IMAGE);
+        if (image && isSafeUrl(image[2])) {
+            blocks.push({
+                type: 'image',
+                data: {
+                    file: { url: image[2] },
+                    caption: escapeHtml(image[1].replace(/\\([[\]])/g, '$1')),
+                    withBorder: false,
+                    stretched: false,
+                    withBackground: false,
+                },
+            });
+            i++;
+            continue;
+        }
+
+        if (isTableStart(lines, i)) {
+            const header = splitTableRow(line);
+            const rows: string[][] = [];
+            i += 2;
+            while (i < lines.length && lines[i].trim() && lines[i].includes('|')) {
+                rows.push(splitTableRow(lines[i]));
+                i++;
+            }
+
+            const columns = header.length;
+            const pad = (row: string[]) => [...row, ...Array(Math.max(columns - row.length, 0)).fill('')].slice(0, columns);
+            const withHeadings = header.some((cell) => cell !== '');
+
+            blocks.push({
+                type: 'table',
+                data: {
+                    withHeadings,
+                    content: (withHeadings ? [header, ...rows] : rows).map((row) => pad(row).map(tableCellToHtml)),
+                },
+            });
+            continue;
+        }
+
+        if (QUOTE.test(line)) {
+            const quoteLines: string[] = [];
+            while (i < lines.length && QUOTE.test(lines[i])) {
+                quoteLines.push(lines[i].match(QUOTE)![1]);
+                i++;
+            }
+
+            let caption = '';
+            const last = quoteLines[quoteLines.length - 1]?.match(/^(?:—|--)\s*(.+)$/);
+            if (last && quoteLines.length > 1) {
+                caption = last[1];
+                quoteLines.pop();
+                while (quoteLines.length > 0 && !quoteLines[quoteLines.length - 1].trim()) {
+                    quoteLines.pop();
+                }
+            }
+
+            blocks.push({
+                type: 'quote',
+                data: {
+                    text: inlineToHtml(joinParagraphLines(quoteLines)),
+                    caption: escapeHtml(caption),
+                    alignment: 'left',
+                },
+            });
+            continue;
+        }
+
+        if (LIST_ITEM.test(line)) {
+            const entries: ParsedListEntry[] = [];
+            while (i < lines.length) {
+                const current = lines[i];
+                const item = current.match(LIST_ITEM);
+
+                if (item && !DELIMITER.test(current)) {
+                    const task = item[3].match(TASK);
+                    entries.push({
+                        indent: item[1].replace(/\t/g, '    ').length,
+                        ordered: /\d/.test(item[2]),
+                        number: parseInt(item[2], 10) || 1,
+                        task: !!task,
+                        checked: !!task && task[1].toLowerCase() === 'x',
+                        text: task ? task[2] : item[3],
+                    });
+                    i++;
+                } else if (current.trim() && /^\s+/.test(current) && entries.length > 0) {
+                    // Continuation line of the previous item
+                    entries[entries.length - 1].text += '\n' + current.trim();
+                    i++;
+                } else if (!current.trim() && i + 1 < lines.length && sameListKind(lines[i + 1], entries[0])) {
+                    // Loose list: blank line between items of the same list
+                    i++;
+                } else {
+                    break;
+                }
+            }
+            blocks.push(buildListBlock(entries));
+            continue;
+        }
+
+        // Paragraph: consecutive lines until a blank line or another block
+        const paragraphLines: string[] = [line];
+        i++;
+        while (i < lines.length && lines[i].trim() && !startsBlock(lines, i)) {
+            paragraphLines.push(lines[i]);
+            i++;
+        }
+        blocks.push({ type: 'paragraph', data: { text: inlineToHtml(joinParagraphLines(paragraphLines)) } });
+    }
+
+    return {
+        time: Date.now(),
+        blocks,
+    };
+}
@@ -0,0 +1,532 @@
+/**
+ * PDF Exporter (in-browser)
+ *
+ * Renders Editor.js OutputData to a PDF with jsPDF, without the backend.
+ * Produces a cover page (title, tags, author), a table of contents built
+ * from header blocks, page numbers and real (selectable) text.
+ */
+
+import { jsPDF } from 'jspdf';
+import { EditorBlock, EditorData, InlineRun, NormalizedListItem, normalizeList, parseInline, stripHtml } from './blocks';
+import { fitImage, loadImage } from './images';
+
+export interface PdfExportOptions {
+    title?: string;
+    tags?: string[];
+    author?: string;
+    date?: Date;
+    /** Skip the cover page and table of contents */
+    compact?: boolean;
+}
+
+interface TocEntry {
+    text: string;
+    level: number;
+    page: number;
+}
+
+interface TextOptions {
+    fontSize?: number;
+    lineHeight?: number;
+    indent?: number;
+    bold?: boolean;
+    italic?: boolean;
+    color?: [number, number, number];
+    align?: 'left' | 'center';
+    leftBar?: boolean;
+}
+
+interface LineItem {
+    text: string;
+    x: number;
+    width: number;
+    font: string;
+    style: string;
+    link?: string;
+    strike?: boolean;
+}
+
+const PAGE_MARGIN = 56;
+const FOOTER_HEIGHT = 32;
+const BODY_FONT = 'helvetica';
+const CODE_FONT = 'courier';
+const TEXT_COLOR: [number, number, number] = [17, 24, 39];
+const MUTED_COLOR: [number, number, number] = [107, 114, 128];
+const LINK_COLOR: [number, number, number] = [37, 99, 235];
+const HEADER_SIZES: Record<number, number> = { 1: 22, 2: 18, 3: 15, 4: 13, 5: 12, 6: 11 };
+const TOC_MAX_LEVEL = 3;
+const TOC_LINE_HEIGHT = 20;
+
+// Missing or invalid levels render as H2, both in the document and in the table of contents
+const headerLevel = (level: unknown) => Math.min(Math.max(Number(level) || 2, 1), 6);
+
+const fontStyle = (bold?: boolean, italic?: boolean) =>
+    bold && italic ? 'bolditalic' : bold ? 'bold' : italic ? 'italic' : 'normal';
+
+// jsPDF standard fonts only cover WinAnsi; replace common characters they can't draw
+const sanitize = (text: string) =>
+    text
+        .replace(/[‘’]/g, "'")
+        .replace(/[“”]/g, '"')
+        .replace(/…/g, '...')
+        .replace(/\u00a0/g, ' ');
+
+class PdfRenderer {
+    private doc: jsPDF;
+    private y = PAGE_MARGIN;
+    private toc: TocEntry[] = [];
+    private readonly pageWidth: number;
+    private readonly pageHeight: number;
+    private readonly contentWidth: number;
+
+    constructor() {
+        this.doc = new jsPDF({ unit: 'pt', format: 'a4' });
+        this.pageWidth = this.doc.internal.pageSize.getWidth();
+        this.pageHeight = this.doc.internal.pageSize.getHeight();
+        this.contentWidth = this.pageWidth - PAGE_MARGIN * 2;
+    }
+
+    get pdf(): jsPDF {
+        return this.doc;
+    }
+
+    get currentPage(): number {
+        return this.doc.getNumberOfPages();
+    }
+
+    private get bottom(): number {
+        return this.pageHeight - PAGE_MARGIN - FOOTER_HEIGHT;
+    }
+
+    addPage(): void {
+        this.doc.addPage();
+        this.y = PAGE_MARGIN;
+    }
+
+    space(height: number): void {
+        this.y += height;
+    }
+
+    private ensureSpace(height: number): void {
+        if (this.y + height > this.bottom) {
+            this.addPage();
+        }
+    }
+
+    private setFont(font: string, style: string, size: number): void {
+        this.doc.setFont(font, style);
+        this.doc.setFontSize(size);
+    }
+
+    /**
+     * Lay out styled runs with word wrapping, page breaks and links
+     */
+    writeRuns(runs: InlineRun[], options: TextOptions = {}): void {
+        const fontSize = options.fontSize ?? 11;
+        const lineHeight = options.lineHeight ?? fontSize * 1.45;
+        const left = PAGE_MARGIN + (options.indent ?? 0);
+        const right = PAGE_MARGIN + this.contentWidth;
+        const color = options.color ?? TEXT_COLOR;
+
+        let line: LineItem[] = [];
+        let x = left;
+
+        const flush = () => {
+            this.ensureSpace(lineHeight);
+            const lineWidth = line.length > 0 ? line[line.length - 1].x + line[line.length - 1].width - left : 0;
+            const offset = options.align === 'center' ? (right - left - lineWidth) / 2 : 0;
+
+            if (options.leftBar) {
+                this.doc.setFillColor(209, 213, 219);
+                this.doc.rect(left - 12, this.y, 3, lineHeight, 'F');
+            }
+
+            line.forEach((item) => {
+                this.setFont(item.font, item.style, fontSize);
+                this.doc.setTextColor(...(item.link ? LINK_COLOR : color));
+                this.doc.text(item.text, item.x + offset, this.y + (lineHeight - fontSize) / 2, { baseline: 'top' });
+
+                if (item.link) {
+                    this.doc.link(item.x + offset, this.y, item.width, lineHeight, { url: item.link });
+                }
+                if (item.strike) {
+                    this.doc.setDrawColor(...color);
+                    this.doc.line(item.x + offset, this.y + lineHeight / 2, item.x + offset + item.width, this.y + lineHeight / 2);
+                }
+            });
+
+            this.y += lineHeight;
+            line = [];
+            x = left;
+        };
+
+        runs.forEach((run) => {
+            if (run.text === '\n') {
+                flush();
+                return;
+            }
+
+            const font = run.code ? CODE_FONT : BODY_FONT;
+            const style = run.code ? 'normal' : fontStyle(run.bold || options.bold, run.italic || options.italic);
+            this.setFont(font, style, fontSize);
+
+            sanitize(run.text).split(/(\s+)/).forEach((token) => {
+                if (!token) return;
+                const isSpace = /^\s+$/.test(token);
+                if (isSpace && x === left) return;
+
+                let width = this.doc.getTextWidth(isSpace ? ' ' : token);
+                if (!isSpace && x + width > right && x > left) {
+                    flush();
+                    this.setFont(font, style, fontSize);
+                }
+
+                // Words longer than a full line are split by characters
+                let text = isSpace ? ' ' : token;
+                while (!isSpace && width > right - left) {
+                    const pieces: string[] = this.doc.splitTextToSize(text, right - left);
+                    line.push({ text: pieces[0], x, width: this.doc.getTextWidth(pieces[0]), font, style, link: run.link, strike: run.strike });
+                    flush();
+                    this.setFont(font, style, fontSize);
+                    text = pieces.slice(1).join('');
+                    width = this.doc.getTextWidth(text);
+                }
+
+                line.push({ text, x, width, font, style, link: run.link, strike: run.strike });
+                x += width;
+            });
+        });
+
+        if (line.length > 0) {
+            flush();
+        }
+    }
+
+    cover(options: PdfExportOptions): void {
+        const center = this.pageWidth / 2;
+        this.y = this.pageHeight / 3;
+
+        this.setFont(BODY_FONT, 'bold', 30);
+        this.doc.setTextColor(...TEXT_COLOR);
+        const titleLines: string[] = this.doc.splitTextToSize(sanitize(options.title || 'Untitled Document'), this.contentWidth);
+        this.doc.text(titleLines, center, this.y, { align: 'center', baseline: 'top', lineHeightFactor: 1.2 });
+        this.y += titleLines.length * 36 + 24;
+
+        if (options.tags && options.tags.length > 0) {
+            this.setFont(BODY_FONT, 'normal', 12);
+            this.doc.setTextColor(...MUTED_COLOR);
+            this.doc.text(sanitize(options.tags.map((tag) => `#${tag}`).join('   ')), center, this.y, { align: 'center', baseline: 'top' });
+            this.y += 28;
+        }
+
+        this.doc.setDrawColor(209, 213, 219);
+        this.doc.line(center - 60, this.y, center + 60, this.y);
+        this.y += 24;
+
+        this.setFont(BODY_FONT, 'normal', 12);
+        this.doc.setTextColor(...TEXT_COLOR);
+        if (options.author) {
+            this.doc.text(sanitize(`By ${options.author}`), center, this.y, { align: 'center', baseline: 'top' });
+            this.y += 20;
+        }
+        this.doc.setTextColor(...MUTED_COLOR);
+        this.doc.text((options.date || new Date()).toLocaleDateString(), center, this.y, { align: 'center', baseline: 'top' });
+    }
+
+    private header(data: any): void {
+        const level = headerLevel(data.level);
+        const fontSize = HEADER_SIZES[level];
+        this.space(level <= 2 ? 14 : 8);
+        // Keep the heading together with at least one following line
+        this.ensureSpace(fontSize * 1.3 + 16);
+
+        const text = stripHtml(data.text || '').trim();
+        if (text) {
+            this.toc.push({ text, level, page: this.currentPage });
+            this.doc.outline.add(null, sanitize(text), { pageNumber: this.currentPage });
+        }
+
+        this.writeRuns(parseInline(data.text), { fontSize, lineHeight: fontSize * 1.3, bold: true });
+        this.space(4);
+    }
+
+    private listItems(items: NormalizedListItem[], style: 'ordered' | 'unordered' | 'checklist', indent: number, start: number): void {
+        items.forEach((item, index) => {
+            this.ensureSpace(16);
+            const markerY = this.y;
+            const markerPage = this.currentPage;
+
+            this.writeRuns(parseInline(item.text), { indent: indent + 18 });
+
+            // Draw the marker on the page where the item started
+            const pageAfter = this.currentPage;
+            if (markerPage !== pageAfter) this.doc.setPage(markerPage);
+            const x = PAGE_MARGIN + indent;
+            this.doc.setTextColor(...TEXT_COLOR);
+            if (style === 'checklist') {
+                this.doc.setDrawColor(...MUTED_COLOR);
+                this.doc.rect(x, markerY + 4, 9, 9);
+                if (item.checked) {
+                    this.doc.line(x + 2, markerY + 8.5, x + 4, markerY + 11);
+                    this.doc.line(x + 4, markerY + 11, x + 8, markerY + 5);
+                }
+            } else {
+                this.setFont(BODY_FONT, 'normal', 11);
+                const marker = style === 'ordered' ? `${start + index}.` : '•';
+                this.doc.text(marker, x, markerY + 2.5, { baseline: 'top' });
+            }
+            if (markerPage !== pageAfter) this.doc.setPage(pageAfter);
+
+            this.listItems(item.items, style, indent + 18, 1);
+        });
+    }
+
+    private table(data: any): void {
+        const rows: string[][] = data.content || [];
+        if (rows.length === 0) return;
+
+        const columns = Math.max(...rows.map((row) => row.length));
+        const columnWidth = this.contentWidth / columns;
+        const padding = 5;
+        const fontSize = 10;
+        const lineHeight = 13;
+
+        rows.forEach((row, rowIndex) => {
+            const isHeader = !!data.withHeadings && rowIndex === 0;
+            this.setFont(BODY_FONT, isHeader ? 'bold' : 'normal', fontSize);
+
+            const cells: string[][] = Array.from({ length: columns }, (_, column) =>
+                this.doc.splitTextToSize(sanitize(stripHtml(row[column] || '')), columnWidth - padding * 2)
+            );
+            const rowHeight = Math.max(...cells.map((lines) => lines.length)) * lineHeight + padding * 2;
+            this.ensureSpace(rowHeight);
+
+            cells.forEach((lines, column) => {
+                const x = PAGE_MARGIN + column * columnWidth;
+                this.doc.setDrawColor(209, 213, 219);
+                if (isHeader) {
+                    this.doc.setFillColor(243, 244, 246);
+                    this.doc.rect(x, this.y, columnWidth, rowHeight, 'FD');
+                } else {
+                    this.doc.rect(x, this.y, columnWidth, rowHeight);
+                }
+                this.doc.setTextColor(...TEXT_COLOR);
+                this.doc.text(lines, x + padding, this.y + padding, { baseline: 'top', lineHeightFactor: lineHeight / fontSize });
+            });
+
+            this.y += rowHeight;
+        });
+        this.space(8);
+    }
+
+    private code(code: string): void {
+        const fontSize = 9.5;
+        const lineHeight = 13;
+        this.setFont(CODE_FONT, 'normal', fontSize);
+
+        const lines: string[] = code.split('\n').flatMap((line) =>
+            line ? this.doc.splitTextToSize(sanitize(line), this.contentWidth - 16) : [' ']
+        );
+
+        this.space(4);
+        lines.forEach((line) => {
+            this.ensureSpace(lineHeight);
+            this.doc.setFillColor(243, 244, 246);
+            this.doc.rect(PAGE_MARGIN, this.y, this.contentWidth, lineHeight, 'F');
+            this.setFont(CODE_FONT, 'normal', fontSize);
+            this.doc.setTextColor(...TEXT_COLOR);
+            this.doc.text(line, PAGE_MARGIN + 8, this.y + 2, { baseline: 'top' });
+            this.y += lineHeight;
+        });
+        this.space(8);
+    }
+
+    private async image(data: any): Promise<void> {
+        const url = data.file?.url || data.url;
+        if (!url) return;
+
+        const image = await loadImage(url);
+        if (image) {
+            const size = fitImage(image, this.contentWidth, this.bottom - PAGE_MARGIN);
+            this.ensureSpace(size.height);
+            const x = PAGE_MARGIN + (this.contentWidth - size.width) / 2;
+            this.doc.addImage(image.dataUrl, image.type === 'jpg' ? 'JPEG' : image.type.toUpperCase(), x, this.y, size.width, size.height);
+            this.y += size.height + 4;
+        } else {
+            this.writeRuns([{ text: url, link: url }], { fontSize: 10 });
+        }
+
+        const caption = stripHtml(data.caption || '').trim();
+        if (caption) {
+            this.writeRuns([{ text: caption }], { fontSize: 9, italic: true, color: MUTED_COLOR, align: 'center' });
+        }
+        this.space(6);
+    }
+
+    async block(block: EditorBlock): Promise<void> {
+        const data = block.data || {};
+
+        switch (block.type) {
+            case 'header':
+                this.header(data);
+                break;
+
+            case 'paragraph':
+                this.writeRuns(parseInline(data.text));
+                this.space(6);
+                break;
+
+            case 'list':
+            case 'checklist': {
+                const list = normalizeList(block);
+                this.listItems(list.items, list.style, 0, list.start || 1);
+                this.space(6);
+                break;
+            }
+
+            case 'quote': {
+                this.writeRuns(parseInline(data.text), { indent: 18, italic: true, leftBar: true });
+                const caption = stripHtml(data.caption || '').trim();
+                if (caption) {
+                    this.writeRuns([{ text: `— ${caption}` }], { indent: 18, fontSize: 10, color: MUTED_COLOR, leftBar: true });
+                }
+                this.space(8);
+                break;
+            }
+
+            case 'delimiter':
+                this.space(6);
+                this.writeRuns([{ text: '* * *' }], { align: 'center', color: MUTED_COLOR });
+                this.space(6);
+                break;
+
+            case 'table':
+                this.table(data);
+                break;
+
+            case 'code':
+                this.code(data.code || '');
+                break;
+
+            case 'image':
+                await this.image(data);
+                break;
+
+            default:
+                if (typeof data.text === 'string') {
+                    this.writeRuns(parseInline(data.text));
+                    this.space(6);
+                }
+        }
+    }
+
+    /**
+     * Draw the table of contents on the reserved pages
+     */
+    tableOfContents(firstPage: number, entriesPerPage: number): void {
+        const entries = this.toc.filter((entry) => entry.level <= TOC_MAX_LEVEL);
+        const right = PAGE_MARGIN + this.contentWidth;
+
+        entries.forEach((entry, index) => {
+            const pageIndex = Math.floor(index / entriesPerPage);
+            this.doc.setPage(firstPage + pageIndex);
+
+            if (index % entriesPerPage === 0) {
+                this.setFont(BODY_FONT, 'bold', 20);
+                this.doc.setTextColor(...TEXT_COLOR);
+                this.doc.text('Contents', PAGE_MARGIN, PAGE_MARGIN, { baseline: 'top' });
+            }
+
+            const y = PAGE_MARGIN + 44 + (index % entriesPerPage) * TOC_LINE_HEIGHT;
+            const x = PAGE_MARGIN + (entry.level - 1) * 16;
+            const pageLabel = String(entry.page);
+
+            this.setFont(BODY_FONT, entry.level === 1 ? 'bold' : 'normal', 11);
+            this.doc.setTextColor(...TEXT_COLOR);
+            const pageWidth = this.doc.getTextWidth(pageLabel);
+            const [text] = this.doc.splitTextToSize(sanitize(entry.text), right - x - pageWidth - 24);
+            this.doc.text(text, x, y, { baseline: 'top' });
+            this.doc.text(pageLabel, right, y, { baseline: 'top', align: 'right' });
+
+            // Dotted leader between the entry and its page number
+            const textEnd = x + this.doc.getTextWidth(text) + 6;
+            this.doc.setDrawColor(...MUTED_COLOR);
+            this.doc.setLineDashPattern([1, 2], 0);
+            this.doc.line(textEnd, y + 9, right - pageWidth - 6, y + 9);
+            this.doc.setLineDashPattern([], 0);
+
+            this.doc.link(x, y, right - x, TOC_LINE_HEIGHT, { pageNumber: entry.page });
+        });
+    }
+
+    /**
+     * Add "Page X of Y" footers, skipping the cover page when there is one
+     */
+    pageNumbers(title: string | undefined, skipFirst: boolean): void {
+        const total = this.doc.getNumberOfPages();
+        for (let page = skipFirst ? 2 : 1; page <= total; page++) {
+            this.doc.setPage(page);
+            this.setFont(BODY_FONT, 'normal', 9);
+            this.doc.setTextColor(...MUTED_COLOR);
+            const y = this.pageHeight - PAGE_MARGIN + 8;
+            if (title) {
+                const [shortTitle] = this.doc.splitTextToSize(sanitize(title), this.contentWidth / 2);
+                this.doc.text(shortTitle, PAGE_MARGIN, y, { baseline: 'top' });
+            }
+            this.doc.text(`Page ${page} of ${total}`, PAGE_MARGIN + this.contentWidth, y, { baseline: 'top', align: 'right' });
+        }
+    }
+}
+
+const countTocEntries = (blocks: EditorBlock[]) =>
+    blocks.filter((block) =>
+        block.type === 'header' && headerLevel(block.data?.level) <= TOC_MAX_LEVEL && stripHtml(block.data?.text || '').trim()
+    ).length;
+
+/**
+ * Render Editor.js OutputData to a PDF Blob in the browser
+ */
+export async function editorDataToPdf(data: EditorData, options: PdfExportOptions = {}): Promise<Blob> {
+    const renderer = new PdfRenderer();
+    const blocks = data.blocks || [];
+    const doc = renderer.pdf;
+
+    doc.setProperties({
+        title: options.title || 'Untitled Document',
+        author: options.author || '',
+        keywords: (options.tags || []).join(', '),
+        creator: 'XPlanB',
+    });
+
+    let tocFirstPage = 0;
+    let entriesPerPage = 0;
+
+    if (!options.compact) {
+        renderer.cover(options);
+
+        // Reserve pages for the table of contents; it is filled in once page numbers are known
+        const tocEntries = countTocEntries(blocks);
+        if (tocEntries > 0) {
+            entriesPerPage = Math.floor((doc.internal.pageSize.getHeight() - PAGE_MARGIN * 2 - FOOTER_HEIGHT - 44) / TOC_LINE_HEIGHT);
+            tocFirstPage = 2;
+            for (let i = 0; i < Math.ceil(tocEntries / entriesPerPage); i++) {
+                renderer.addPage();
+            }
+        }
+        renderer.addPage();
+    } else if (options.title) {
+        renderer.writeRuns([{ text: options.title }], { fontSize: 24, lineHeight: 30, bold: true });
+        renderer.space(10);
+    }
+
+    for (const block of blocks) {
+        await renderer.block(block);
+    }
+
+    if (tocFirstPage > 0) {
+        renderer.tableOfContents(tocFirstPage, entriesPerPage);
+    }
+    renderer.pageNumbers(options.title, !options.compact);
+
+    return doc.output('blob');
+}
@@ -0,0 +1,178 @@
+/**
+ * Slide Deck PDF Exporter (in-browser)
+ *
+ * Renders presentation slides to a landscape 16:9 PDF with jsPDF, one page per slide
+ * with every list item shown. Speaker notes stay out of the deck.
+ */
+
+import { jsPDF } from 'jspdf';
+import { EditorBlock, NormalizedListItem, normalizeList, stripHtml } from './blocks';
+import { fitImage, loadImage } from './images';
+import type { Slide } from '../presentation';
+
+const SLIDE_WIDTH = 960;
+const SLIDE_HEIGHT = 540;
+const MARGIN = 56;
+const FOOTER_HEIGHT = 24;
+const BODY_FONT = 'helvetica';
+const CODE_FONT = 'courier';
+const BODY_SIZE = 20;
+const TEXT_COLOR: [number, number, number] = [17, 24, 39];
+const MUTED_COLOR: [number, number, number] = [107, 114, 128];
+
+// jsPDF standard fonts only cover WinAnsi; replace common characters they can't draw
+const sanitize = (text: string) =>
+    text
+        .replace(/[‘’]/g, "'")
+        .replace(/[“”]/g, '"')
+        .replace(/…/g, '...')
+        .replace(/\u00a0/g, ' ');
+
+class SlideRenderer {
+    private y = MARGIN;
+    private readonly contentWidth = SLIDE_WIDTH - MARGIN * 2;
+    private readonly bottom = SLIDE_HEIGHT - MARGIN - FOOTER_HEIGHT;
+
+    constructor(private doc: jsPDF) {}
+
+    private get full(): boolean {
+        return this.y >= this.bottom;
+    }
+
+    // Write wrapped text, dropping whatever doesn't fit on the slide
+    private text(text: string, options: { size?: number; indent?: number; bold?: boolean; font?: string; marker?: string; color?: [number, number, number] } = {}): void {
+        const size = options.size ?? BODY_SIZE;
+        const lineHeight = size * 1.35;
+        const x = MARGIN + (options.indent ?? 0);
+
+        this.doc.setFont(options.font ?? BODY_FONT, options.bold ? 'bold' : 'normal');
+        this.doc.setFontSize(size);
+        this.doc.setTextColor(...(options.color ?? TEXT_COLOR));
+
+        const lines: string[] = this.doc.splitTextToSize(sanitize(text), this.contentWidth - (options.indent ?? 0) - (options.marker ? 24 : 0));
+        lines.forEach((line, index) => {
+            if (this.y + lineHeight > this.bottom) {
+                this.y = this.bottom;
+                return;
+            }
+            if (options.marker && index === 0) this.doc.text(options.marker, x, this.y, { baseline: 'top' });
+            this.doc.text(line, x + (options.marker ? 24 : 0), this.y, { baseline: 'top' });
+            this.y += lineHeight;
+        });
+    }
+
+    title(slide: Slide): void {
+        const text = sanitize(stripHtml(slide.title).trim());
+        this.doc.setFont(BODY_FONT, 'bold');
+        this.doc.setTextColor(...TEXT_COLOR);
+
+        if (slide.isTitleSlide) {
+            this.doc.setFontSize(40);
+            const lines: string[] = this.doc.splitTextToSize(text, this.contentWidth);
+            const height = lines.length * 48;
+            const top = slide.blocks.length > 0 ? SLIDE_HEIGHT / 4 : (SLIDE_HEIGHT - height) / 2;
+            this.doc.text(lines, SLIDE_WIDTH / 2, top, { align: 'center', baseline: 'top', lineHeightFactor: 1.2 });
+            this.y = top + height + 24;
+            return;
+        }
+
+        this.doc.setFontSize(30);
+        const [line] = this.doc.splitTextToSize(text, this.contentWidth);
+        this.doc.text(line || '', MARGIN, MARGIN, { baseline: 'top' });
+        this.y = MARGIN + 56;
+    }
+
+    private listItems(items: NormalizedListItem[], style: string, indent: number, start: number): void {
+        items.forEach((item, index) => {
+            const marker = style === 'ordered' ? `${start + index}.` : style === 'checklist' ? (item.checked ? '[x]' : '[ ]') : '•';
+            this.text(stripHtml(item.text), { indent, marker, size: indent > 0 ? BODY_SIZE - 2 : BODY_SIZE });
+            this.listItems(item.items, style, indent + 24, 1);
+        });
+    }
+
+    private async image(data: any): Promise<void> {
+        const url = data.file?.url || data.url;
+        const caption = stripHtml(data.caption || '').trim();
+        const captionHeight = caption ? 20 : 0;
+        if (!url || this.bottom - this.y - captionHeight < 60) return;
+
+        const image = await loadImage(url);
+        if (!image) return;
+
+        // Scale to fit the space left on the slide
+        const size = fitImage(image, this.contentWidth, this.bottom - this.y - captionHeight);
+        const x = MARGIN + (this.contentWidth - size.width) / 2;
+        this.doc.addImage(image.dataUrl, image.type === 'jpg' ? 'JPEG' : image.type.toUpperCase(), x, this.y, size.width, size.height);
+        this.y += size.height + 4;
+
+        if (caption) {
+            this.doc.setFont(BODY_FONT, 'italic');
+            this.doc.setFontSize(12);
+            this.doc.setTextColor(...MUTED_COLOR);
+            this.doc.text(sanitize(caption), SLIDE_WIDTH / 2, this.y, { align: 'center', baseline: 'top' });
+            this.y += captionHeight;
+        }
+    }
+
+    async block(block: EditorBlock): Promise<void> {
+        if (this.full) return;
+        const data = block.data || {};
+
+        switch (block.type) {
+            case 'list':
+            case 'checklist': {
+                const list = normalizeList(block);
+                this.listItems(list.items, list.style, 0, list.start || 1);
+                break;
+            }
+            case 'header':
+                this.text(stripHtml(data.text || ''), { size: 24, bold: true });
+                break;
+            case 'image':
+                await this.image(data);
+                break;
+            case 'code':
+                (data.code || '').split('\n').forEach((line: string) => this.text(line || ' ', { font: CODE_FONT, size: 14 }));
+                break;
+            case 'table':
+                (data.content || []).forEach((row: string[], rowIndex: number) => {
+                    this.text(row.map((cell) => stripHtml(cell)).join('   |   '), { size: 16, bold: !!data.withHeadings && rowIndex === 0 });
+                });
+                break;
+            case 'delimiter':
+                this.text('* * *', { color: MUTED_COLOR });
+                break;
+            default:
+                if (typeof data.text === 'string') this.text(stripHtml(data.text));
+        }
+        this.y += 8;
+    }
+
+    footer(index: number, total: number): void {
+        this.doc.setFont(BODY_FONT, 'normal');
+        this.doc.setFontSize(11);
+        this.doc.setTextColor(...MUTED_COLOR);
+        this.doc.text(`${index + 1} / ${total}`, SLIDE_WIDTH - MARGIN, SLIDE_HEIGHT - MARGIN / 2 - 4, { align: 'right', baseline: 'bottom' });
+    }
+}
+
+/**
+ * Render slides to a PDF Blob in the browser
+ */
+export async function slidesToPdf(slides: Slide[], title: string): Promise<Blob> {
+    const doc = new jsPDF({ unit: 'pt', format: [SLIDE_WIDTH, SLIDE_HEIGHT], orientation: 'landscape' });
+    doc.setProperties({ title: title || 'Untitled Document', creator: 'XPlanB' });
+
+    for (let index = 0; index < slides.length; index++) {
+        if (index > 0) doc.addPage([SLIDE_WIDTH, SLIDE_HEIGHT], 'landscape');
+
+        const renderer = new SlideRenderer(doc);
+        renderer.title(slides[index]);
+        for (const block of slides[index].blocks) {
+            await renderer.block(block);
+        }
+        renderer.footer(index, slides.length);
+    }
+
+    return doc.output('blob');
+}
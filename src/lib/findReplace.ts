@@ -0,0 +1,326 @@
+/**
+ * Find & Replace
+ *
+ * Searches the saved Editor.js data rather than the DOM, so every block type is covered
+ * (including text the DOM doesn't expose, like code in a textarea) and replacements can be
+ * written back through `editor.blocks.update`, which goes through the normal onChange sync.
+ *
+ * Inline HTML fields are searched by their text only: tags never match, and mention /
+ * document link chips act as a barrier that matches can't cross or change.
+ */
+
+import { EditorBlock, EditorData } from './export/blocks';
+
+export interface FindOptions {
+    caseSensitive: boolean;
+    wholeWord: boolean;
+    regex: boolean;
+}
+
+export interface FindMatch {
+    blockId: string;
+    blockIndex: number;
+    // Index into blockTextFields(block)
+    fieldIndex: number;
+    start: number;
+    end: number;
+}
+
+interface TextField {
+    path: Array<string | number>;
+    // false for fields holding plain text (code)
+    html: boolean;
+}
+
+interface TextSegment {
+    // null for a chip, which is represented by a single placeholder character
+    node: Text | null;
+    start: number;
+    length: number;
+}
+
+// Stands in for mention / document link chips in searchable text
+const CHIP_PLACEHOLDER = '\uFFFC';
+
+const CHIP_SELECTOR = '[contenteditable="false"]';
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * Build the search pattern. Throws a SyntaxError for an invalid regular expression.
+ */
+export function buildSearchPattern(query: string, options: FindOptions): RegExp {
+    let source = options.regex ? query : escapeRegExp(query);
+    let flags = options.caseSensitive ? 'g' : 'gi';
+
+    if (options.wholeWord) {
+        // \b only knows ASCII letters, so use Unicode letter / number classes instead
+        source = `(?<![\\p{L}\\p{N}_])(?:${source})(?![\\p{L}\\p{N}_])`;
+        flags += 'u';
+    }
+
+    return new RegExp(source, flags);
+}
+
+const listFields = (items: any[], path: Array<string | number>, fields: TextField[]) => {
+    items.forEach((item, index) => {
+        if (typeof item === 'string') {
+            fields.push({ path: [...path, index], html: true });
+        } else if (item && typeof item.content === 'string') {
+            fields.push({ path: [...path, index, 'content'], html: true });
+            if (Array.isArray(item.items)) listFields(item.items, [...path, index, 'items'], fields);
+        } else if (item && typeof item.text === 'string') {
+            fields.push({ path: [...path, index, 'text'], html: true });
+        }
+    });
+};
+
+/**
+ * Searchable text fields of a block, in reading order
+ */
+export function blockTextFields(block: EditorBlock): TextField[] {
+    const data = block.data || {};
+    const fields: TextField[] = [];
+
+    switch (block.type) {
+        case 'paragraph':
+        case 'header':
+            fields.push({ path: ['text'], html: true });
+            break;
+        case 'quote':
+            fields.push({ path: ['text'], html: true }, { path: ['caption'], html: true });
+            break;
+        case 'code':
+            fields.push({ path: ['code'], html: false });
+            break;
+        case 'list':
+        case 'checklist':
+            listFields(data.items || [], ['items'], fields);
+            break;
+        case 'table':
+            (data.content || []).forEach((row: string[], rowIndex: number) => {
+                row.forEach((_, cellIndex) => fields.push({ path: ['content', rowIndex, cellIndex], html: true }));
+            });
+            break;
+        case 'image':
+            fields.push({ path: ['caption'], html: true });
+            break;
+    }
+
+    return fields.filter((field) => typeof getPath(data, field.path) === 'string');
+}
+
+const getPath = (data: any, path: Array<string | number>): any =>
+    path.reduce((value, key) => (value == null ? undefined : value[key]), data);
+
+const setPath = (data: any, path: Array<string | number>, value: string) => {
+    const parent = getPath(data, path.slice(0, -1));
+    parent[path[path.length - 1]] = value;
+};
+
+// Walk an element's text, turning each chip into a single placeholder character
+const collectSegments = (root: Node, segments: TextSegment[], offset = 0): number => {
+    root.childNodes.forEach((child) => {
+        if (child instanceof Text) {
+            segments.push({ node: child, start: offset, length: child.data.length });
+            offset += child.data.length;
+        } else if (child instanceof Element && child.matches(CHIP_SELECTOR)) {
+            segments.push({ node: null, start: offset, length: 1 });
+            offset += 1;
+        } else {
+            offset = collectSegments(child, segments, offset);
+        }
+    });
+    return offset;
+};
+
+const segmentsText = (segments: TextSegment[]) => segments
+    .map((segment) => (segment.node ? segment.node.data : CHIP_PLACEHOLDER))
+    .join('')
+    // &nbsp; should match a normal space
+    .replace(/\u00A0/g, ' ');
+
+const parseHtml = (html: string) => new DOMParser().parseFromString(`<body>${html}</body>`, 'text/html').body;
+
+/**
+ * Non-empty matches of a pattern in some text, skipping matches that cross a chip
+ */
+export function findInText(text: string, pattern: RegExp): Array<{ start: number; end: number }> {
+    const matches: Array<{ start: number; end: number }> = [];
+    pattern.lastIndex = 0;
+
+    for (let match = pattern.exec(text); match; match = pattern.exec(text)) {
+        if (match[0].length === 0) {
+            // Avoid looping forever on empty matches like /^/ or /a*/
+            pattern.lastIndex++;
+            continue;
+        }
+        if (!match[0].includes(CHIP_PLACEHOLDER)) {
+            matches.push({ start: match.index, end: match.index + match[0].length });
+        }
+    }
+    return matches;
+}
+
+const fieldText = (value: string, field: TextField) => {
+    if (!field.html) return value;
+    const segments: TextSegment[] = [];
+    collectSegments(parseHtml(value), segments);
+    return segmentsText(segments);
+};
+
+/**
+ * Every match in the document, in block order
+ */
+export function findMatches(data: EditorData, pattern: RegExp): FindMatch[] {
+    const matches: FindMatch[] = [];
+
+    (data.blocks || []).forEach((block, blockIndex) => {
+        if (!block.id) return;
+        blockTextFields(block).forEach((field, fieldIndex) => {
+            const text = fieldText(getPath(block.data, field.path), field);
+            findInText(text, pattern).forEach(({ start, end }) => {
+                matches.push({ blockId: block.id!, blockIndex, fieldIndex, start, end });
+            });
+        });
+    });
+
+    return matches;
+}
+
+// What a match is replaced with - regex replacements can use $1, $<name>, etc.
+const replacementFor = (text: string, start: number, end: number, pattern: RegExp, replacement: string, regex: boolean) => {
+    if (!regex) return replacement;
+
+    const sticky = new RegExp(pattern.source, pattern.flags.replace('g', '') + 'y');
+    sticky.lastIndex = start;
+    const replaced = text.replace(sticky, replacement);
+    return replaced.slice(start, replaced.length - (text.length - end));
+};
+
+const replaceInSegments = (segments: TextSegment[], start: number, end: number, replacement: string) => {
+    let inserted = false;
+    segments.forEach((segment) => {
+        if (!segment.node) return;
+
+        const from = Math.max(start, segment.start) - segment.start;
+        const to = Math.min(end, segment.start + segment.length) - segment.start;
+        if (from > to || (from === to && inserted)) return;
+
+        const data = segment.node.data;
+        segment.node.data = data.slice(0, from) + (inserted ? '' : replacement) + data.slice(to);
+        inserted = true;
+    });
+};
+
+/**
+ * Apply replacements to one block's data. `matches` must all belong to this block.
+ * Returns new block data; the original is left untouched.
+ */
+export function replaceInBlock(
+    block: EditorBlock,
+    matches: FindMatch[],
+    pattern: RegExp,
+    replacement: string,
+    options: FindOptions,
+): Record<string, any> {
+    const data = JSON.parse(JSON.stringify(block.data || {}));
+    const fields = blockTextFields(block);
+
+    fields.forEach((field, fieldIndex) => {
+        // Right to left, so earlier offsets stay valid
+        const fieldMatches = matches
+            .filter((match) => match.fieldIndex === fieldIndex)
+            .sort((a, b) => b.start - a.start);
+        if (fieldMatches.length === 0) return;
+
+        const value: string = getPath(data, field.path);
+        if (!field.html) {
+            let result = value;
+            fieldMatches.forEach(({ start, end }) => {
+                const text = replacementFor(value, start, end, pattern, replacement, options.regex);
+                result = result.slice(0, start) + text + result.slice(end);
+            });
+            setPath(data, field.path, result);
+            return;
+        }
+
+        const body = parseHtml(value);
+        const segments: TextSegment[] = [];
+        collectSegments(body, segments);
+        const text = segmentsText(segments);
+
+        fieldMatches.forEach(({ start, end }) => {
+            replaceInSegments(segments, start, end, replacementFor(text, start, end, pattern, replacement, options.regex));
+        });
+        setPath(data, field.path, body.innerHTML);
+    });
+
+    return data;
+}
+
+interface RenderedMatch {
+    range: Range;
+    // Text of the editable element the match is in
+    text: string;
+    start: number;
+    end: number;
+}
+
+const findRenderedMatches = (blockElement: HTMLElement, pattern: RegExp): RenderedMatch[] => {
+    const found: RenderedMatch[] = [];
+
+    blockElement.querySelectorAll<HTMLElement>('[contenteditable="true"]').forEach((editable) => {
+        const segments: TextSegment[] = [];
+        collectSegments(editable, segments);
+        const text = segmentsText(segments);
+
+        findInText(text, pattern).forEach(({ start, end }) => {
+            const range = window.document.createRange();
+            let startSet = false;
+            for (const segment of segments) {
+                if (!segment.node) continue;
+                if (!startSet && start < segment.start + segment.length) {
+                    range.setStart(segment.node, Math.max(0, start - segment.start));
+                    startSet = true;
+                }
+                if (startSet && end <= segment.start + segment.length) {
+                    range.setEnd(segment.node, end - segment.start);
+                    found.push({ range, text, start, end });
+                    break;
+                }
+            }
+        });
+    });
+
+    return found;
+};
+
+/**
+ * DOM ranges of the matches inside a rendered block, in the same order as findMatches
+ * reports them (one editable element per text field). Used to paint highlights.
+ */
+export function findRangesInBlock(blockElement: HTMLElement, pattern: RegExp): Range[] {
+    return findRenderedMatches(blockElement, pattern).map((match) => match.range);
+}
+
+/**
+ * DOM ranges of some of a rendered block's matches, each with the text it would be replaced with.
+ * `positions` index the block's matches in findMatches order. Used to suggest replacements
+ * in the editor instead of writing them to the block data.
+ */
+export function replacementRangesInBlock(
+    blockElement: HTMLElement,
+    positions: number[],
+    pattern: RegExp,
+    replacement: string,
+    options: FindOptions,
+): Array<{ range: Range; text: string }> {
+    const found = findRenderedMatches(blockElement, pattern);
+    return positions
+        .filter((position) => found[position])
+        .map((position) => {
+            const { range, text, start, end } = found[position];
+            return { range, text: replacementFor(text, start, end, pattern, replacement, options.regex) };
+        });
+}
@@ -0,0 +1,158 @@
+/**
+ * Document Mentions
+ *
+ * Mention chips are inline spans stored in Editor.js block HTML:
+ *   <span class="mention" data-user-id="..." data-author-id="..." contenteditable="false">@Name</span>
+ * The author id lets only the client that added a mention send its notification,
+ * so collaborators saving the same content don't notify the person again.
+ */
+
+import { documentsApi } from '../api/documents';
+import { foldersApi } from '../api/folders';
+import { notificationsApi } from '../api/notifications';
+import { EditorData, escapeHtml } from './export/blocks';
+import { getCurrentUserId } from './auth';
+import { getCurrentUser } from './services/userService';
+
+export interface MentionCandidate {
+    _id: string;
+    firstName?: string;
+    lastName?: string;
+    email?: string;
+}
+
+export interface DocumentMention {
+    blockId: string;
+    userId: string;
+    authorId?: string;
+}
+
+export const MENTION_NOTIFICATION_TYPE = 'mention';
+
+// Fired by the inline toolbar button to open the people picker for the selection
+export const MENTION_REQUEST_EVENT = 'xplanb:mention-request';
+
+// Block tools whose sanitizer keeps mention chips (the ones with the inline toolbar enabled)
+export const MENTION_BLOCK_TOOLS = ['paragraph', 'list', 'checklist', 'quote', 'table'];
+
+export function mentionName(user: MentionCandidate): string {
+    return `${user.firstName || ''} ${user.lastName || ''}`.trim() || user.email || 'Unknown';
+}
+
+/**
+ * Inline HTML for a mention chip, followed by a space so typing can continue after it
+ */
+export function mentionHtml(user: MentionCandidate): string {
+    const authorId = getCurrentUserId() || '';
+    return `<span class="mention" data-user-id="${escapeHtml(user._id)}" data-author-id="${escapeHtml(authorId)}" contenteditable="false">@${escapeHtml(mentionName(user))}</span>&nbsp;`;
+}
+
+/**
+ * People who can be mentioned in a document: its shared users plus everyone the user shares folders with
+ */
+export async function getMentionCandidates(documentId?: string): Promise<MentionCandidate[]> {
+    const [documentUsers, folderUsers] = await Promise.all([
+        documentId ? documentsApi.getSharedUsers(documentId).catch(() => []) : Promise.resolve([]),
+        foldersApi.getSharedUsers().catch(() => []),
+    ]);
+
+    const byId = new Map<string, MentionCandidate>();
+    [...documentUsers, ...folderUsers].forEach((user: MentionCandidate) => {
+        if (user?._id && !byId.has(user._id)) byId.set(user._id, user);
+    });
+    return Array.from(byId.values());
+}
+
+const collectStrings = (value: any, out: string[]) => {
+    if (typeof value === 'string') {
+        out.push(value);
+    } else if (Array.isArray(value)) {
+        value.forEach((child) => collectStrings(child, out));
+    } else if (value && typeof value === 'object') {
+        Object.values(value).forEach((child) => collectStrings(child, out));
+    }
+};
+
+/**
+ * Find every mention chip in the document, with the id of the block it is in
+ */
+export function extractMentions(data: EditorData): DocumentMention[] {
+    const mentions: DocumentMention[] = [];
+    const parser = new DOMParser();
+
+    (data.blocks || []).forEach((block) => {
+        if (!block.id) return;
+
+        const strings: string[] = [];
+        collectStrings(block.data, strings);
+        strings
+            .filter((html) => html.includes('data-user-id'))
+            .forEach((html) => {
+                parser.parseFromString(html, 'text/html')
+                    .querySelectorAll<HTMLElement>('span.mention[data-user-id]')
+                    .forEach((chip) => mentions.push({
+                        blockId: block.id!,
+                        userId: chip.dataset.userId!,
+                        authorId: chip.dataset.authorId || undefined,
+                    }));
+            });
+    });
+
+    return mentions;
+}
+
+const mentionKey = (mention: DocumentMention) => `${mention.blockId}:${mention.userId}`;
+
+/**
+ * Send "mention" notifications for mentions the current user added since the previous save.
+ * `notified` remembers what was already sent in this session so re-adding a chip doesn't notify twice.
+ */
+export async function notifyNewMentions(
+    documentId: string,
+    documentTitle: string,
+    previousContent: string | null,
+    content: EditorData,
+    notified: Set<string>,
+): Promise<void> {
+    const currentUserId = getCurrentUserId();
+    if (!currentUserId) return;
+
+    let previousKeys = new Set<string>();
+    if (previousContent) {
+        try {
+            previousKeys = new Set(extractMentions(JSON.parse(previousContent)).map(mentionKey));
+        } catch {
+            // Unparseable previous content - treat every mention as new
+        }
+    }
+
+    const added = extractMentions(content).filter((mention) => {
+        const key = mentionKey(mention);
+        if (mention.authorId !== currentUserId || mention.userId === currentUserId) return false;
+        if (previousKeys.has(key) || notified.has(key)) return false;
+        notified.add(key);
+        return true;
+    });
+    if (added.length === 0) return;
+
+    const author = await getCurrentUser().catch(() => null);
+    const authorName = author ? mentionName(author) : 'Someone';
+    const title = documentTitle || 'Untitled Document';
+
+    const results = await Promise.allSettled(added.map((mention) =>
+        notificationsApi.create({
+            recipient: mention.userId,
+            type: MENTION_NOTIFICATION_TYPE,
+            title: 'You were mentioned',
+            message: `${authorName} mentioned you in "${title}"`,
+            documentId,
+            metadata: { blockId: mention.blockId, mentionedBy: currentUserId },
+        })
+    ));
+
+    results.forEach((result, index) => {
+        if (result.status === 'rejected') {
+            console.warn('⚠️ Failed to send mention notification to', added[index].userId, result.reason);
+        }
+    });
+}
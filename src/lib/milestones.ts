@@ -0,0 +1,91 @@
+/**
+ * Milestone Versions
+ *
+ * Named versions saved from the editor. They are saved through the versions API like any
+ * other snapshot; collaborators get a notification, and anyone with the document open
+ * is also told over the realtime connection.
+ */
+
+import { documentsApi } from '../api/documents';
+import { notificationsApi } from '../api/notifications';
+import { DocumentVersion, versionsApi } from '../api/versions';
+import { getCurrentUserId } from './auth';
+import { EditorData } from './export/blocks';
+import { mentionName } from './mentions';
+import { socketManager } from './realtime/socket';
+import { getCurrentUser } from './services/userService';
+
+export interface Milestone {
+    name: string;
+    description?: string;
+}
+
+export const MILESTONE_NOTIFICATION_TYPE = 'milestone';
+
+/**
+ * Save the content as a named milestone version and tell the document's collaborators.
+ * Notifications are sent in the background; only saving the version can fail.
+ */
+export async function saveMilestone(
+    documentId: string,
+    documentTitle: string,
+    content: EditorData,
+    milestone: Milestone,
+): Promise<DocumentVersion> {
+    const version = await versionsApi.createSnapshot(documentId, {
+        name: milestone.name,
+        description: milestone.description,
+        content: JSON.stringify(content),
+    });
+
+    socketManager.announceSnapshot(documentId, version);
+    notifyCollaborators(documentId, documentTitle, version)
+        .catch((error) => console.warn('⚠️ Failed to notify collaborators about the milestone:', error));
+
+    return version;
+}
+
+// The owner and everyone the document is shared with, except the current user
+const collaboratorIds = async (documentId: string, currentUserId: string): Promise<string[]> => {
+    const [document, sharedUsers] = await Promise.all([
+        documentsApi.getById(documentId).catch(() => null),
+        documentsApi.getSharedUsers(documentId).catch(() => []),
+    ]);
+
+    const ids = new Set<string>([
+        document?.createdBy,
+        ...(document?.sharedWith || []),
+        ...sharedUsers.map((user: { _id?: string }) => user?._id),
+    ].filter((id): id is string => !!id));
+    ids.delete(currentUserId);
+    return Array.from(ids);
+};
+
+async function notifyCollaborators(documentId: string, documentTitle: string, version: DocumentVersion): Promise<void> {
+    const currentUserId = getCurrentUserId();
+    if (!currentUserId) return;
+
+    const recipients = await collaboratorIds(documentId, currentUserId);
+    if (recipients.length === 0) return;
+
+    const author = await getCurrentUser().catch(() => null);
+    const authorName = author ? mentionName(author) : 'Someone';
+    const title = documentTitle || 'Untitled Document';
+
+    const results = await Promise.allSettled(recipients.map((recipient) =>
+        notificationsApi.create({
+            recipient,
+            type: MILESTONE_NOTIFICATION_TYPE,
+            title: 'New version saved',
+            message: `${authorName} saved version "${version.name || 'Untitled'}" of "${title}"`,
+            documentId,
+            metadata: { versionId: version._id, version: version.version, savedBy: currentUserId },
+        })
+    ));
+
+    results.forEach((result, index) => {
+        if (result.status === 'rejected') {
+            console.warn('⚠️ Failed to send milestone notification to', recipients[index], result.reason);
+        }
+    });
+}
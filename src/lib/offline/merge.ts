@@ -0,0 +1,96 @@
+/**
+ * Three-Way Merge of Document Saves
+ *
+ * Combines the user's copy of a document with a server copy that changed since the base both
+ * started from. Content is merged block by block: a block changed on one side only takes that
+ * change, and a block changed on both sides keeps both versions (the server's right after the
+ * user's), so resolving a conflict by merging never drops anyone's text.
+ */
+
+import { EditorBlock, EditorData } from '../export/blocks';
+
+export interface DocumentMetadata {
+    Title: string;
+    contentType: string[];
+}
+
+export const blockKey = (block: EditorBlock) => JSON.stringify([block.type, block.data ?? {}]);
+
+const sameBlock = (a: EditorBlock | undefined, b: EditorBlock | undefined) =>
+    !!a && !!b && blockKey(a) === blockKey(b);
+
+/**
+ * Whether two saved contents have the same blocks, ignoring save times and block ids
+ */
+export function sameContent(a: string | null, b: string | null): boolean {
+    if (a === b) return true;
+    if (a === null || b === null) return false;
+    try {
+        const blocks = (content: string) => JSON.stringify((JSON.parse(content).blocks || []).map(blockKey));
+        return blocks(a) === blocks(b);
+    } catch {
+        return false;
+    }
+}
+
+export function sameMetadata(a: DocumentMetadata | null, b: DocumentMetadata | null): boolean {
+    if (!a || !b) return a === b;
+    return a.Title === b.Title && JSON.stringify(a.contentType || []) === JSON.stringify(b.contentType || []);
+}
+
+const newBlockId = () => Math.random().toString(36).slice(2, 12);
+
+export function mergeContent(base: EditorData | null, mine: EditorData, theirs: EditorData): EditorData {
+    const baseBlocks = new Map((base?.blocks || []).map((block) => [block.id, block]));
+    const mineBlocks = new Map(mine.blocks.map((block) => [block.id, block]));
+    const theirIds = new Set(theirs.blocks.map((block) => block.id));
+    const merged: EditorBlock[] = [];
+
+    theirs.blocks.forEach((their) => {
+        const original = baseBlocks.get(their.id);
+        const own = mineBlocks.get(their.id);
+
+        if (!own) {
+            // Deleted by the user and left alone on the server
+            if (!sameBlock(original, their)) merged.push(their);
+        } else if (sameBlock(own, their) || sameBlock(original, own)) {
+            merged.push(their);
+        } else if (sameBlock(original, their)) {
+            merged.push(own);
+        } else {
+            merged.push(own, { ...their, id: newBlockId() });
+        }
+    });
+
+    // The user's blocks the server doesn't have go after the block they followed in the user's copy
+    mine.blocks.forEach((own, index) => {
+        if (theirIds.has(own.id)) return;
+        // Deleted on the server and left alone by the user
+        if (sameBlock(baseBlocks.get(own.id), own)) return;
+
+        let position = 0;
+        for (let i = index - 1; i >= 0; i--) {
+            const previous = merged.findIndex((block) => block.id === mine.blocks[i].id);
+            if (previous >= 0) {
+                position = previous + 1;
+                break;
+            }
+        }
+        merged.splice(position, 0, own);
+    });
+
+    return { ...theirs, time: Date.now(), blocks: merged };
+}
+
+export function mergeMetadata(base: DocumentMetadata | null, mine: DocumentMetadata, theirs: DocumentMetadata): DocumentMetadata {
+    const baseTags = base?.contentType || [];
+    const mineTags = mine.contentType || [];
+    const added = mineTags.filter((tag) => !baseTags.includes(tag));
+    const removed = baseTags.filter((tag) => !mineTags.includes(tag));
+
+    return {
+        Title: base && mine.Title === base.Title ? theirs.Title : mine.Title,
+        contentType: [...(theirs.contentType || []), ...added]
+            .filter((tag, index, tags) => tags.indexOf(tag) === index && !removed.includes(tag)),
+    };
+}
@@ -0,0 +1,438 @@
+/**
+ * Durable Save Outbox
+ *
+ * Document saves (content and title/tags) go through this queue in IndexedDB instead of straight
+ * to the API, so a save made offline, or one that failed, survives a reload and is replayed in
+ * order once the connection is back. Saves of the same document and kind are coalesced: the
+ * queue only ever holds the latest copy, along with the server copy it was edited from (its base).
+ *
+ * Before replaying a save that didn't go through when it was made, the server copy is checked
+ * against that base. If someone else saved in the meantime the entry is marked as a conflict and
+ * held - with later saves of that document - until the user picks a side (see resolve()).
+ *
+ * The queue is mirrored to useOutboxStore for the UI; saves, resolutions and dropped saves are
+ * announced to subscribers.
+ */
+
+import { documentsApi } from '../../api/documents';
+import type { EditorData } from '../export/blocks';
+import { useConnectionStore } from '../realtime/connectionStore';
+import { DocumentMetadata, mergeContent, mergeMetadata, sameContent, sameMetadata } from './merge';
+import { useOutboxStore } from './outboxStore';
+
+export type { DocumentMetadata } from './merge';
+
+interface SaveEntry {
+    // Replay order, assigned by IndexedDB
+    seq: number;
+    documentId: string;
+    createdAt: number;
+    updatedAt: number;
+    // Bumped whenever a newer copy is coalesced into the entry
+    revision: number;
+    // Failed attempts to send it
+    attempts: number;
+}
+
+export interface ContentSave extends SaveEntry {
+    kind: 'content';
+    content: string;
+    // Server content the save was edited from (null for a document without content yet)
+    base: string | null;
+    // Made while live-synced: collaborators' edits are already in it, even though the base lags behind
+    liveSynced?: boolean;
+    conflict?: { server: string | null; detectedAt: number };
+}
+
+export interface MetadataSave extends SaveEntry {
+    kind: 'metadata';
+    metadata: DocumentMetadata;
+    base: DocumentMetadata | null;
+    conflict?: { server: DocumentMetadata; detectedAt: number };
+}
+
+export type OutboxEntry = ContentSave | MetadataSave;
+
+export type SaveKind = OutboxEntry['kind'];
+
+// What became of a save: sent, waiting for the connection, or waiting for the user
+export type SaveResult = 'saved' | 'queued' | 'conflict';
+
+export type Resolution = 'mine' | 'theirs' | 'merge';
+
+export type OutboxEvent =
+    // Reached the server; entry holds what was sent
+    | { type: 'saved'; entry: OutboxEntry }
+    // A conflict was settled; entry holds what the document is now
+    | { type: 'resolved'; entry: OutboxEntry }
+    // Rejected by the server and dropped
+    | { type: 'failed'; entry: OutboxEntry; error: any };
+
+type NewEntry = Omit<ContentSave, 'seq'> | Omit<MetadataSave, 'seq'>;
+
+const DB_NAME = 'xplanb-outbox';
+const STORE = 'saves';
+
+const RETRY_DELAY = 5000;
+const RETRY_DELAY_MAX = 60000;
+
+// Saves queued before this page loaded are replays even if they were never attempted
+const sessionStart = Date.now();
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = (): Promise<IDBDatabase> => {
+    if (!dbPromise) {
+        dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+            const request = indexedDB.open(DB_NAME, 1);
+            request.onupgradeneeded = () => {
+                request.result.createObjectStore(STORE, { keyPath: 'seq', autoIncrement: true });
+            };
+            request.onsuccess = () => resolve(request.result);
+            request.onerror = () => reject(request.error);
+        });
+        // Try again on the next call rather than failing forever
+        dbPromise.catch(() => { dbPromise = null; });
+    }
+    return dbPromise;
+};
+
+const request = <T>(mode: IDBTransactionMode, operation: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> =>
+    openDb().then((db) => new Promise<T>((resolve, reject) => {
+        const transaction = db.transaction(STORE, mode);
+        const pending = operation(transaction.objectStore(STORE));
+        transaction.oncomplete = () => resolve(pending.result);
+        transaction.onerror = () => reject(transaction.error);
+        transaction.onabort = () => reject(transaction.error);
+    }));
+
+const listeners = new Set<(event: OutboxEvent) => void>();
+
+const emit = (event: OutboxEvent) => listeners.forEach((listener) => listener(event));
+
+// Writes run one at a time, so coalescing and the replay's bookkeeping don't race
+let writes: Promise<unknown> = Promise.resolve();
+
+const serialize = <T>(write: () => Promise<T>): Promise<T> => {
+    const result = writes.then(write);
+    writes = result.catch(() => undefined);
+    return result;
+};
+
+const readAll = (): Promise<OutboxEntry[]> => request('readonly', (store) => store.getAll() as IDBRequest<OutboxEntry[]>);
+
+const publish = async () => {
+    useOutboxStore.getState().setEntries(await readAll());
+};
+
+const findPending = async (documentId: string, kind: SaveKind) =>
+    (await readAll()).find((entry) => entry.documentId === documentId && entry.kind === kind);
+
+const put = (entry: OutboxEntry) => request('readwrite', (store) => store.put(entry));
+
+const remove = (seq: number) => request('readwrite', (store) => store.delete(seq));
+
+const normalizeContent = (content: unknown): string | null => {
+    if (content === null || content === undefined) return null;
+    return typeof content === 'string' ? content : JSON.stringify(content);
+};
+
+const fetchServerCopy = async (entry: OutboxEntry): Promise<string | DocumentMetadata | null> => {
+    if (entry.kind === 'content') {
+        return normalizeContent((await documentsApi.getLatestContent(entry.documentId))?.content);
+    }
+    const document = await documentsApi.getById(entry.documentId);
+    return { Title: document.Title, contentType: document.contentType || [] };
+};
+
+const send = async (entry: OutboxEntry) => {
+    if (entry.kind === 'content') {
+        await documentsApi.saveContent({ documentId: entry.documentId, content: entry.content });
+    } else {
+        await documentsApi.update(entry.documentId, entry.metadata);
+    }
+};
+
+// Offline, a flaky server or an expired session - the save is kept and tried again later
+const isRetryable = (error: any) => {
+    const status = error?.response?.status;
+    return !status || status >= 500 || status === 401 || status === 408 || status === 429;
+};
+
+// Keeps anything coalesced into the entry since it was read
+const markConflict = (seq: number, conflict: NonNullable<OutboxEntry['conflict']>) => serialize(async () => {
+    const current = (await readAll()).find((entry) => entry.seq === seq);
+    if (current) await put({ ...current, conflict } as OutboxEntry);
+});
+
+// Compare the server copy with the entry's base before replaying it, marking the entry if they differ
+const checkServer = async (entry: OutboxEntry): Promise<'send' | 'drop' | 'conflict'> => {
+    const server = await fetchServerCopy(entry);
+
+    if (entry.kind === 'content') {
+        const content = server as string | null;
+        if (sameContent(content, entry.content)) return 'drop';
+        // Only within the session it was made in - a save replayed after a reload may predate others' edits
+        if (sameContent(content, entry.base) || (entry.liveSynced && entry.createdAt >= sessionStart)) return 'send';
+        await markConflict(entry.seq, { server: content, detectedAt: Date.now() });
+    } else {
+        const metadata = server as DocumentMetadata;
+        if (sameMetadata(metadata, entry.metadata)) return 'drop';
+        if (sameMetadata(metadata, entry.base)) return 'send';
+        await markConflict(entry.seq, { server: metadata, detectedAt: Date.now() });
+    }
+    return 'conflict';
+};
+
+// Once sent, the entry is done - unless a newer copy was coalesced into it meanwhile, which now
+// starts from what was just sent
+const settle = (sent: OutboxEntry) => serialize(async () => {
+    const current = (await readAll()).find((entry) => entry.seq === sent.seq);
+    if (!current) return;
+    if (current.revision === sent.revision) {
+        await remove(sent.seq);
+    } else if (current.kind === 'content' && sent.kind === 'content') {
+        await put({ ...current, base: sent.content, attempts: 0, createdAt: Date.now() });
+    } else if (current.kind === 'metadata' && sent.kind === 'metadata') {
+        await put({ ...current, base: sent.metadata, attempts: 0, createdAt: Date.now() });
+    }
+});
+
+let retryTimer: ReturnType<typeof setTimeout> | null = null;
+let retryAttempts = 0;
+
+const scheduleRetry = () => {
+    if (retryTimer) clearTimeout(retryTimer);
+    const delay = Math.min(RETRY_DELAY_MAX, RETRY_DELAY * 2 ** retryAttempts);
+    retryAttempts++;
+    retryTimer = setTimeout(() => {
+        retryTimer = null;
+        flush();
+    }, delay);
+};
+
+const replay = async () => {
+    const blocked = new Set<string>();
+
+    for (const entry of await readAll()) {
+        // Later saves of a conflicted document wait for the conflict to be settled
+        if (entry.conflict || blocked.has(entry.documentId)) {
+            blocked.add(entry.documentId);
+            continue;
+        }
+
+        try {
+            if (entry.attempts > 0 || entry.createdAt < sessionStart) {
+                const check = await checkServer(entry);
+                if (check === 'drop') {
+                    await serialize(() => remove(entry.seq));
+                    emit({ type: 'saved', entry });
+                    continue;
+                }
+                if (check === 'conflict') {
+                    blocked.add(entry.documentId);
+                    continue;
+                }
+            }
+
+            await send(entry);
+            await settle(entry);
+            emit({ type: 'saved', entry });
+        } catch (error) {
+            if (isRetryable(error)) {
+                await serialize(async () => {
+                    const current = (await readAll()).find((pending) => pending.seq === entry.seq);
+                    if (current) await put({ ...current, attempts: current.attempts + 1 });
+                });
+                // Saves are replayed in order, so stop at the first one that can't go through yet
+                scheduleRetry();
+                return;
+            }
+
+            console.error('❌ Outbox: Save rejected by the server, dropping it:', error);
+            await serialize(() => remove(entry.seq));
+            emit({ type: 'failed', entry, error });
+        }
+    }
+
+    retryAttempts = 0;
+};
+
+let running: Promise<void> | null = null;
+let rerun = false;
+
+/**
+ * Send what is queued, in order. A flush asked for while one runs happens once it is done.
+ */
+export function flush(): Promise<void> {
+    if (running) {
+        rerun = true;
+        return running;
+    }
+
+    running = (async () => {
+        do {
+            rerun = false;
+            try {
+                await replay();
+            } catch (error) {
+                console.error('❌ Outbox: Replay failed:', error);
+            }
+            await publish().catch(() => undefined);
+        } while (rerun);
+    })().finally(() => {
+        running = null;
+    });
+    return running;
+}
+
+const resultFor = async (documentId: string, kind: SaveKind): Promise<SaveResult> => {
+    const pending = await findPending(documentId, kind);
+    if (!pending) return 'saved';
+    return pending.conflict ? 'conflict' : 'queued';
+};
+
+const enqueue = async (entry: NewEntry, coalesce: (pending: OutboxEntry) => OutboxEntry): Promise<SaveResult> => {
+    await serialize(async () => {
+        const pending = await findPending(entry.documentId, entry.kind);
+        if (pending) {
+            await put(coalesce(pending));
+        } else {
+            await request('readwrite', (store) => store.add(entry));
+        }
+    });
+    await flush();
+    return resultFor(entry.documentId, entry.kind);
+};
+
+/**
+ * Save a document's content through the queue.
+ * `base` is the server content the editor last loaded or saved; `liveSynced` tells whether the
+ * editor was live-synced with collaborators, in which case a retry isn't checked against the base.
+ */
+export async function saveContent(documentId: string, content: string, base: string | null, liveSynced = false): Promise<SaveResult> {
+    const now = Date.now();
+    try {
+        return await enqueue(
+            { kind: 'content', documentId, content, base, liveSynced, createdAt: now, updatedAt: now, revision: 0, attempts: 0 },
+            (pending) => ({ ...pending, content, liveSynced, updatedAt: now, revision: pending.revision + 1 } as ContentSave),
+        );
+    } catch (error) {
+        // IndexedDB unavailable (e.g. some private windows) - save directly as before
+        console.warn('⚠️ Outbox: Unavailable, saving directly:', error);
+        await documentsApi.saveContent({ documentId, content });
+        return 'saved';
+    }
+}
+
+/**
+ * Save a document's title and tags through the queue
+ */
+export async function saveMetadata(documentId: string, metadata: DocumentMetadata, base: DocumentMetadata | null): Promise<SaveResult> {
+    const now = Date.now();
+    try {
+        return await enqueue(
+            { kind: 'metadata', documentId, metadata, base, createdAt: now, updatedAt: now, revision: 0, attempts: 0 },
+            (pending) => ({ ...pending, metadata, updatedAt: now, revision: pending.revision + 1 } as MetadataSave),
+        );
+    } catch (error) {
+        console.warn('⚠️ Outbox: Unavailable, saving directly:', error);
+        await documentsApi.update(documentId, metadata);
+        return 'saved';
+    }
+}
+
+/**
+ * The queued save of a document, to open it with unsent changes after a reload
+ */
+export async function getPending(documentId: string, kind: 'content'): Promise<ContentSave | undefined>;
+export async function getPending(documentId: string, kind: 'metadata'): Promise<MetadataSave | undefined>;
+export async function getPending(documentId: string, kind: SaveKind): Promise<OutboxEntry | undefined> {
+    try {
+        return await findPending(documentId, kind);
+    } catch {
+        return undefined;
+    }
+}
+
+const parseContent = (content: string | null): EditorData => {
+    try {
+        const data = content ? JSON.parse(content) : null;
+        return data?.blocks ? data : { blocks: [] };
+    } catch {
+        return { blocks: [] };
+    }
+};
+
+/**
+ * Settle a conflict: keep the user's copy (overwriting the server's), keep the server's
+ * (discarding the user's), or merge the two and save the result
+ */
+export async function resolve(seq: number, resolution: Resolution): Promise<void> {
+    const entry = await serialize(async () => {
+        const current = (await readAll()).find((pending) => pending.seq === seq);
+        if (!current?.conflict) return null;
+
+        let resolved: OutboxEntry;
+        if (current.kind === 'content') {
+            const server = current.conflict.server;
+            const content = resolution === 'theirs'
+                ? server ?? JSON.stringify({ blocks: [] })
+                : resolution === 'merge'
+                    ? JSON.stringify(mergeContent(current.base ? parseContent(current.base) : null, parseContent(current.content), parseContent(server)))
+                    : current.content;
+            resolved = { ...current, content, base: server, conflict: undefined, attempts: 0, revision: current.revision + 1 };
+        } else {
+            const server = current.conflict.server;
+            const metadata = resolution === 'theirs'
+                ? server
+                : resolution === 'merge' ? mergeMetadata(current.base, current.metadata, server) : current.metadata;
+            resolved = { ...current, metadata, base: server, conflict: undefined, attempts: 0, revision: current.revision + 1 };
+        }
+
+        // The server copy needs no saving; anything else replays straight away without another check
+        if (resolution === 'theirs') {
+            await remove(seq);
+        } else {
+            await put({ ...resolved, createdAt: Date.now() });
+        }
+        return resolved;
+    });
+
+    if (!entry) return;
+    if (resolution !== 'mine') emit({ type: 'resolved', entry });
+    await flush();
+}
+
+/**
+ * Listen for saves, resolutions and dropped saves; returns the unsubscribe function
+ */
+export function subscribe(listener: (event: OutboxEvent) => void): () => void {
+    listeners.add(listener);
+    return () => {
+        listeners.delete(listener);
+    };
+}
+
+let started = false;
+
+/**
+ * Load the queue and replay it now and whenever the connection comes back
+ */
+export function start(): void {
+    if (started || typeof window === 'undefined' || typeof indexedDB === 'undefined') return;
+    started = true;
+
+    window.addEventListener('online', () => {
+        retryAttempts = 0;
+        flush();
+    });
+    useConnectionStore.subscribe((state, previous) => {
+        if (state.status === 'connected' && previous.status !== 'connected') {
+            retryAttempts = 0;
+            flush();
+        }
+    });
+
+    flush();
+}
@@ -0,0 +1,29 @@
+/**
+ * Save Outbox Store (Zustand)
+ *
+ * Mirror of the saves waiting in the outbox (see outbox.ts), for the save status in the editor
+ * and the conflict dialog.
+ */
+
+import { create } from 'zustand';
+import type { OutboxEntry } from './outbox';
+
+interface OutboxState {
+    // In replay order
+    entries: OutboxEntry[];
+
+    // Actions
+    setEntries: (entries: OutboxEntry[]) => void;
+}
+
+export const useOutboxStore = create<OutboxState>((set) => ({
+    entries: [],
+
+    setEntries: (entries) => set({ entries }),
+}));
+
+/**
+ * Saves of a document that haven't reached the server yet
+ */
+export const selectPending = (documentId: string | undefined) => (state: OutboxState) =>
+    documentId ? state.entries.filter((entry) => entry.documentId === documentId).length : 0;
@@ -0,0 +1,110 @@
+/**
+ * Presentation Mode
+ *
+ * Turns a document into slides: every H1/H2 header starts a new slide, quote blocks become
+ * the slide's speaker notes instead of being shown, and top-level list items can be revealed
+ * one at a time. The audience window and the presenter view (a second window) stay in step
+ * by exchanging PresentationMessages over a BroadcastChannel.
+ */
+
+import { EditorBlock, EditorData, escapeHtml, normalizeList, stripHtml } from './export/blocks';
+
+export interface Slide {
+    // Inline HTML
+    title: string;
+    // The opening slide: the document title and anything before the first H1/H2
+    isTitleSlide: boolean;
+    blocks: EditorBlock[];
+    notes: string[];
+    // Reveal steps: one per top-level list item
+    steps: number;
+}
+
+export interface PresentationState {
+    index: number;
+    // Top-level list items revealed on the current slide
+    step: number;
+    // Reveal list items one at a time, or show whole slides
+    reveal: boolean;
+}
+
+export type PresentationMessage =
+    | { type: 'state'; title: string; slides: Slide[]; state: PresentationState; startedAt: number }
+    | { type: 'navigate'; direction: 'next' | 'previous' }
+    | { type: 'goto'; index: number }
+    | { type: 'request-state' }
+    | { type: 'end' };
+
+export const presentationChannelName = (documentId: string) => `xplanb-presentation-${documentId}`;
+
+const isSlideHeader = (block: EditorBlock) => block.type === 'header' && Number(block.data?.level) <= 2;
+
+const isList = (block: EditorBlock) => block.type === 'list' || block.type === 'checklist';
+
+const quoteNote = (block: EditorBlock) => {
+    const text = stripHtml(block.data?.text || '').trim();
+    const caption = stripHtml(block.data?.caption || '').trim();
+    return caption ? `${text} — ${caption}` : text;
+};
+
+/**
+ * Split a document into slides
+ */
+export function buildSlides(data: EditorData, title: string): Slide[] {
+    const slides: Slide[] = [{
+        title: escapeHtml(title || 'Untitled Document'),
+        isTitleSlide: true,
+        blocks: [],
+        notes: [],
+        steps: 0,
+    }];
+
+    (data.blocks || []).forEach((block) => {
+        const slide = slides[slides.length - 1];
+
+        if (isSlideHeader(block)) {
+            slides.push({ title: block.data?.text || '', isTitleSlide: false, blocks: [], notes: [], steps: 0 });
+        } else if (block.type === 'quote') {
+            const note = quoteNote(block);
+            if (note) slide.notes.push(note);
+        } else {
+            slide.blocks.push(block);
+            if (isList(block)) slide.steps += normalizeList(block).items.length;
+        }
+    });
+
+    return slides;
+}
+
+/**
+ * Reveal the next list item, or move on to the next slide
+ */
+export function nextState(slides: Slide[], state: PresentationState): PresentationState {
+    if (state.reveal && state.step < slides[state.index].steps) {
+        return { ...state, step: state.step + 1 };
+    }
+    if (state.index < slides.length - 1) {
+        return { ...state, index: state.index + 1, step: 0 };
+    }
+    return state;
+}
+
+/**
+ * Hide the last revealed list item, or go back to the fully revealed previous slide
+ */
+export function previousState(slides: Slide[], state: PresentationState): PresentationState {
+    if (state.reveal && state.step > 0) {
+        return { ...state, step: state.step - 1 };
+    }
+    if (state.index > 0) {
+        return { ...state, index: state.index - 1, step: slides[state.index - 1].steps };
+    }
+    return state;
+}
+
+/**
+ * How many top-level list items of the slide are visible
+ */
+export function visibleItems(state: PresentationState): number {
+    return state.reveal ? state.step : Infinity;
+}
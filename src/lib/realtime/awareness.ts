@@ -0,0 +1,78 @@
+/**
+ * Collaborator Awareness
+ *
+ * Who is in a document and where their caret is, shared through the y-protocols awareness
+ * protocol. Carets and selections are text positions (block id, field and character offset),
+ * so every viewer can draw them at the right place in their own layout. Likewise the part of
+ * the document a collaborator is looking at is shared as a block and a fraction of its height,
+ * which is what follow mode scrolls to. A collaborator whose state stops being renewed - closed
+ * tab, lost connection - times out on its own.
+ */
+
+import type { TextPosition } from './textPosition';
+
+export interface AwarenessUser {
+    id: string;
+    name: string;
+    color: string;
+}
+
+/**
+ * A caret (anchor equals head) or a selection from anchor to head
+ */
+export interface CursorSelection {
+    anchor: TextPosition;
+    head: TextPosition;
+}
+
+/**
+ * The top of a collaborator's view, and the block they are working in
+ */
+export interface Viewport {
+    // Block at the top of the view, and how far down it (0 to 1) the view starts
+    blockId: string | null;
+    ratio: number;
+    // Block holding the caret, if it is in the editor
+    activeBlockId: string | null;
+}
+
+export interface AwarenessState {
+    user?: AwarenessUser;
+    cursor?: CursorSelection | null;
+    viewport?: Viewport | null;
+    // Id of the user this one is following
+    following?: string | null;
+}
+
+export interface RemoteCursor {
+    // Awareness client id - one per open editor, so a user in two tabs has two carets
+    clientId: number;
+    user: AwarenessUser;
+    cursor: CursorSelection | null;
+    viewport: Viewport | null;
+    following: string | null;
+}
+
+const CURSOR_COLORS = ['#3b82f6', '#ef4444', '#10b981', '#f59e0b', '#8b5cf6', '#ec4899', '#14b8a6', '#f97316'];
+
+/**
+ * Stable caret colour for a user, the same in every collaborator's view
+ */
+export function userColor(userId: string): string {
+    let hash = 0;
+    for (let i = 0; i < userId.length; i++) {
+        hash = (hash * 31 + userId.charCodeAt(i)) | 0;
+    }
+    return CURSOR_COLORS[Math.abs(hash) % CURSOR_COLORS.length];
+}
+
+export const samePosition = (a: TextPosition, b: TextPosition) =>
+    a.blockId === b.blockId && a.field === b.field && a.offset === b.offset;
+
+export const sameViewport = (a: Viewport | null | undefined, b: Viewport | null | undefined) =>
+    a && b
+        ? a.blockId === b.blockId && Math.abs(a.ratio - b.ratio) < 0.01 && a.activeBlockId === b.activeBlockId
+        : !a && !b;
+
+export const sameCursor = (a: CursorSelection | null | undefined, b: CursorSelection | null | undefined) =>
+    a && b ? samePosition(a.anchor, b.anchor) && samePosition(a.head, b.head) : !a && !b;
@@ -0,0 +1,311 @@
+/**
+ * Editor.js Block Binding
+ *
+ * Keeps an Editor.js instance and the shared block model in step. Local block mutation events
+ * (added, removed, moved, changed) become operations on just those blocks, with text changes
+ * written as Y.Text diffs. Remote changes - and the user's own undo / redo - are patched into the
+ * editor one block at a time, leaving every other block (and the caret) alone.
+ *
+ * Editor reads and shared-model writes are async and must not interleave, so everything runs
+ * through one queue; remote updates from YjsClient wait in it behind local changes.
+ */
+
+import type EditorJS from '@editorjs/editorjs';
+import type { BlockMutationEvent } from '@editorjs/editorjs';
+import * as Y from 'yjs';
+import { EditorBlock, EditorData } from '../export/blocks';
+import {
+    BlockChange,
+    SharedBlocks,
+    blockIndex,
+    createBlock,
+    diffBlocks,
+    readBlocks,
+    sameData,
+    updateBlock,
+    writeBlocks,
+} from './blockModel';
+import { CollaborativeUndoManager, LocalEdit, describeChanges } from './collaborativeUndo';
+import { TextPosition, domPointOf, fieldElement, textPositionOf, transformOffset } from './textPosition';
+import type { YjsClient } from './yjsClient';
+
+// Origin of the first write of the loaded document - shared, but not an undo step
+const SEED_ORIGIN = 'seed';
+
+interface SavedCaret {
+    anchor: TextPosition;
+    focus: TextPosition;
+    anchorText: string;
+    focusText: string;
+}
+
+const fieldText = (position: TextPosition) => fieldElement(position)?.textContent || '';
+
+// The selection, if it is inside the given block
+const saveCaret = (blockId: string): SavedCaret | null => {
+    const selection = window.getSelection();
+    if (!selection || selection.rangeCount === 0) return null;
+
+    const anchor = textPositionOf(selection.anchorNode, selection.anchorOffset);
+    const focus = textPositionOf(selection.focusNode, selection.focusOffset);
+    if (!anchor || !focus || anchor.blockId !== blockId || focus.blockId !== blockId) return null;
+
+    return { anchor, focus, anchorText: fieldText(anchor), focusText: fieldText(focus) };
+};
+
+// Put the selection back into the re-rendered block, shifted past text that changed before it
+const restoreCaret = (caret: SavedCaret) => {
+    const anchor = domPointOf({ ...caret.anchor, offset: transformOffset(caret.anchor.offset, caret.anchorText, fieldText(caret.anchor)) });
+    const focus = domPointOf({ ...caret.focus, offset: transformOffset(caret.focus.offset, caret.focusText, fieldText(caret.focus)) });
+    if (!anchor || !focus) return;
+
+    fieldElement(caret.focus)?.focus({ preventScroll: true });
+    window.getSelection()?.setBaseAndExtent(anchor.node, anchor.offset, focus.node, focus.offset);
+};
+
+export class BlockBinding {
+    private blocks: SharedBlocks;
+    private undoManager: CollaborativeUndoManager;
+    private queue: Promise<unknown> = Promise.resolve();
+    private patchScheduled = false;
+    private patchIsOwn = false;
+    // Blocks whose next editor events are the user's own changes even though the shared model
+    // already has them: written ahead of Editor.js's batched events, or patched by undo / redo
+    private ownBlocks = new Set<string>();
+    // Local changes are only written once the editor and the shared model were reconciled
+    private reconciled = false;
+    private destroyed = false;
+    private observer: (events: Array<Y.YEvent<any>>, transaction: Y.Transaction) => void;
+
+    constructor(private editor: EditorJS, private client: YjsClient, private readOnly = false) {
+        this.blocks = client.getBlocks();
+        this.undoManager = client.getUndoManager();
+
+        this.observer = (_events, transaction) => {
+            const origin = transaction.origin;
+            if (origin instanceof LocalEdit || origin === SEED_ORIGIN) return;
+            this.schedulePatch(this.undoManager.isOwnOrigin(origin));
+        };
+        this.blocks.observeDeep(this.observer);
+
+        // Catch up with keystrokes Editor.js hasn't reported yet before a remote change lands
+        client.setRemoteUpdateHandler((apply) => this.enqueue(async () => {
+            await this.writeSnapshot();
+            apply();
+        }));
+    }
+
+    /**
+     * Settle the editor and the shared blocks after the document loaded or the connection synced:
+     * blocks the server already has win, otherwise the editor's content seeds the shared model
+     */
+    reconcile(): Promise<void> {
+        return this.enqueue(async () => {
+            if (this.blocks.length > 0 && this.client.hasRemoteContent()) {
+                await this.patchEditor(false);
+            } else if (!this.readOnly) {
+                writeBlocks(this.blocks, await this.editor.save(), SEED_ORIGIN);
+            }
+            this.reconciled = true;
+            this.undoManager.clear();
+        });
+    }
+
+    /**
+     * Write Editor.js block mutation events to the shared model.
+     * Returns whether they carry the user's own changes (not echoes of patched remote changes).
+     */
+    handleChange(event: BlockMutationEvent | BlockMutationEvent[]): Promise<boolean> {
+        const events = Array.isArray(event) ? event : [event];
+
+        return this.enqueue(async () => {
+            const own = events.filter((e) => this.ownBlocks.delete(e.detail.target.id)).length > 0;
+            if (this.readOnly) return own;
+            // Still loading: reconcile() writes the whole document
+            if (!this.reconciled) return true;
+
+            // One consistent snapshot - Editor.js only sanitizes block data on a full save
+            const snapshot = await this.editor.save();
+            const order = snapshot.blocks.map((block) => block.id!);
+            const saved = new Map(snapshot.blocks.map((block) => [block.id!, block]));
+            const current = readBlocks(this.blocks).blocks;
+            const shared = new Map(current.map((block) => [block.id!, block]));
+
+            const changes: BlockChange[] = [];
+            events.forEach((e) => {
+                const id = e.detail.target.id;
+                const before = shared.get(id);
+                const after = saved.get(id);
+                if (e.type === 'block-removed') {
+                    if (before && !after) changes.push({ kind: 'removed', id, type: before.type });
+                } else if (after && !before) {
+                    changes.push({ kind: 'added', id, type: after.type });
+                } else if (after && before && (before.type !== after.type || !sameData(before.data, after.data))) {
+                    changes.push({ kind: 'changed', id, type: after.type });
+                } else if (after && e.type === 'block-moved') {
+                    changes.push({ kind: 'moved', id, type: after.type });
+                }
+            });
+            if (changes.length === 0) return own;
+
+            let changed = false;
+            this.blocks.doc!.transact((transaction) => {
+                events.forEach((e) => this.writeEvent(e, saved, order));
+                changed = transaction.changed.size > 0 || transaction.deleteSet.clients.size > 0;
+            }, new LocalEdit(describeChanges(changes)));
+
+            return changed || own;
+        });
+    }
+
+    /**
+     * Write the editor's current content to the shared model, e.g. after rendering imported content
+     */
+    sync(): Promise<boolean> {
+        return this.enqueue(() => this.writeSnapshot());
+    }
+
+    /**
+     * Undo / redo the user's own changes; the reverted blocks are patched into the editor
+     */
+    applyUndo(direction: 'undo' | 'redo', steps = 1): Promise<boolean> {
+        return this.enqueue(async () => {
+            if (this.readOnly) return false;
+            await this.writeSnapshot();
+            return this.undoManager.apply(direction, steps);
+        });
+    }
+
+    destroy(): void {
+        this.destroyed = true;
+        this.blocks.unobserveDeep(this.observer);
+        this.client.setRemoteUpdateHandler(null);
+    }
+
+    private enqueue<T>(task: () => Promise<T>): Promise<T> {
+        const run = this.queue.then(task);
+        this.queue = run.catch((error) => {
+            console.error('❌ BlockBinding: Failed to sync blocks:', error);
+        });
+        return run;
+    }
+
+    private schedulePatch(own: boolean): void {
+        this.patchIsOwn = this.patchIsOwn || own;
+        if (this.patchScheduled) return;
+
+        this.patchScheduled = true;
+        this.enqueue(async () => {
+            this.patchScheduled = false;
+            const isOwn = this.patchIsOwn;
+            this.patchIsOwn = false;
+            await this.patchEditor(isOwn);
+        }).catch(() => {});
+    }
+
+    // Diff the whole editor into the shared model as one local change
+    private async writeSnapshot(): Promise<boolean> {
+        if (this.readOnly || this.destroyed || !this.reconciled) return false;
+
+        const snapshot = await this.editor.save();
+        const changes = diffBlocks(readBlocks(this.blocks).blocks, snapshot.blocks);
+        if (changes.length === 0) return false;
+
+        changes.forEach((change) => this.ownBlocks.add(change.id));
+        return writeBlocks(this.blocks, snapshot, new LocalEdit(describeChanges(changes)));
+    }
+
+    // Index in the shared array right after the closest preceding editor block it already has
+    private sharedIndexAfter(id: string, order: string[]): number {
+        for (let i = order.indexOf(id) - 1; i >= 0; i--) {
+            const index = blockIndex(this.blocks, order[i]);
+            if (index >= 0) return index + 1;
+        }
+        return 0;
+    }
+
+    private writeEvent(event: BlockMutationEvent, saved: Map<string, EditorBlock>, order: string[]): void {
+        const id = event.detail.target.id;
+        const current = blockIndex(this.blocks, id);
+        const block = saved.get(id);
+
+        if (!block) {
+            // Removed, or gone again before the batched event arrived
+            if (current >= 0) this.blocks.delete(current, 1);
+            return;
+        }
+
+        const target = this.sharedIndexAfter(id, order);
+        if (current < 0) {
+            this.blocks.insert(target, [createBlock(block)]);
+        } else if (current !== target && event.type !== 'block-changed') {
+            // Yjs has no move - the block is re-created at its new position
+            this.blocks.delete(current, 1);
+            this.blocks.insert(current < target ? target - 1 : target, [createBlock(block)]);
+        } else {
+            updateBlock(this.blocks.get(current), block);
+        }
+    }
+
+    // Bring the editor to the shared model, touching only the blocks that differ
+    private async patchEditor(own: boolean): Promise<void> {
+        if (this.destroyed) return;
+
+        const touched = await applyBlockChanges(this.editor, readBlocks(this.blocks));
+        if (own) touched.forEach((id) => this.ownBlocks.add(id));
+    }
+}
+
+/**
+ * Bring the editor to `target` by touching only the blocks that differ. A block that is updated
+ * while the user is typing in it keeps their caret. Returns the ids of the touched blocks.
+ */
+export async function applyBlockChanges(editor: EditorJS, target: EditorData): Promise<string[]> {
+    const current = (await editor.save()).blocks;
+    const targetBlocks = (target.blocks || []).filter((block) => block.id);
+    const targetIds = new Set(targetBlocks.map((block) => block.id));
+    const currentById = new Map(current.map((block) => [block.id, block]));
+    const touched: string[] = [];
+
+    current.forEach((block) => {
+        if (block.id && !targetIds.has(block.id)) {
+            const index = editor.blocks.getBlockIndex(block.id);
+            if (index >= 0) {
+                editor.blocks.delete(index);
+                touched.push(block.id);
+            }
+        }
+    });
+
+    for (let index = 0; index < targetBlocks.length; index++) {
+        const block = targetBlocks[index];
+        const existing = currentById.get(block.id);
+
+        if (!existing || existing.type !== block.type) {
+            if (existing) editor.blocks.delete(editor.blocks.getBlockIndex(block.id!));
+            editor.blocks.insert(block.type, block.data, undefined, index, false, false, block.id);
+            touched.push(block.id!);
+            continue;
+        }
+
+        const currentIndex = editor.blocks.getBlockIndex(block.id!);
+        if (currentIndex !== index) {
+            editor.blocks.move(index, currentIndex);
+            touched.push(block.id!);
+        }
+        if (!sameData(existing.data, block.data)) {
+            const caret = saveCaret(block.id!);
+            await editor.blocks.update(block.id!, block.data);
+            if (caret) restoreCaret(caret);
+            touched.push(block.id!);
+        }
+    }
+
+    // Editor.js keeps an empty block around when every block was removed
+    for (let index = editor.blocks.getBlocksCount() - 1; index >= targetBlocks.length; index--) {
+        const block = editor.blocks.getBlockByIndex(index);
+        if (block && !targetIds.has(block.id)) editor.blocks.delete(index);
+    }
+
+    return touched;
+}
@@ -0,0 +1,203 @@
+/**
+ * Shared Block Model
+ *
+ * The collaborative form of an Editor.js document: an ordered Y.Array of blocks, each a Y.Map
+ * holding the block's id, type, the shape of its data (JSON with the strings blanked out) and
+ * every string field of the data as a Y.Text keyed by its JSON path. Edits to different blocks,
+ * or to different parts of the same text, merge instead of overwriting each other.
+ */
+
+import * as Y from 'yjs';
+import { EditorBlock, EditorData } from '../export/blocks';
+
+export type SharedBlock = Y.Map<any>;
+export type SharedBlocks = Y.Array<SharedBlock>;
+
+// Name of the blocks array in the shared Y.Doc
+export const BLOCKS_KEY = 'blocks';
+
+export type BlockChangeKind = 'added' | 'removed' | 'moved' | 'changed';
+
+export interface BlockChange {
+    kind: BlockChangeKind;
+    id: string;
+    type: string;
+}
+
+/**
+ * Split block data into its structure (strings blanked out) and its string fields by path,
+ * so each text field can be a Y.Text that merges character by character
+ */
+const flatten = (data: any) => {
+    const strings = new Map<string, string>();
+    const walk = (value: any, path: Array<string | number>): any => {
+        if (typeof value === 'string') {
+            strings.set(JSON.stringify(path), value);
+            return '';
+        }
+        if (Array.isArray(value)) return value.map((child, index) => walk(child, [...path, index]));
+        if (value && typeof value === 'object') {
+            return Object.fromEntries(Object.entries(value).map(([key, child]) => [key, walk(child, [...path, key])]));
+        }
+        return value;
+    };
+
+    const shape = JSON.stringify(walk(data || {}, []));
+    return { shape, strings };
+};
+
+const unflatten = (shape: string, fields: Y.Map<Y.Text>) => {
+    const data = JSON.parse(shape || '{}');
+    fields.forEach((text, key) => {
+        const path: Array<string | number> = JSON.parse(key);
+        const parent = path.slice(0, -1).reduce((value: any, part) => (value == null ? undefined : value[part]), data);
+        if (parent && typeof parent === 'object') parent[path[path.length - 1]] = text.toString();
+    });
+    return data;
+};
+
+// Replace the changed middle of a text, leaving the common prefix and suffix untouched
+const applyTextDiff = (text: Y.Text, value: string) => {
+    const current = text.toString();
+    if (current === value) return;
+
+    const max = Math.min(current.length, value.length);
+    let start = 0;
+    while (start < max && current[start] === value[start]) start++;
+    let end = 0;
+    while (end < max - start && current[current.length - 1 - end] === value[value.length - 1 - end]) end++;
+
+    if (current.length - start - end > 0) text.delete(start, current.length - start - end);
+    if (value.length - start - end > 0) text.insert(start, value.slice(start, value.length - end));
+};
+
+export const sameData = (a: any, b: any) => JSON.stringify(a ?? {}) === JSON.stringify(b ?? {});
+
+export function createBlock(block: EditorBlock): SharedBlock {
+    const { shape, strings } = flatten(block.data);
+    const fields = new Y.Map<Y.Text>();
+    strings.forEach((value, key) => fields.set(key, new Y.Text(value)));
+
+    const ymap = new Y.Map<any>();
+    ymap.set('id', block.id);
+    ymap.set('type', block.type);
+    ymap.set('shape', shape);
+    ymap.set('fields', fields);
+    return ymap;
+}
+
+/**
+ * Bring a shared block to the block's current data, changing only the parts that differ
+ */
+export function updateBlock(ymap: SharedBlock, block: EditorBlock): void {
+    const { shape, strings } = flatten(block.data);
+    if (ymap.get('type') !== block.type) ymap.set('type', block.type);
+    if (ymap.get('shape') !== shape) ymap.set('shape', shape);
+
+    const fields: Y.Map<Y.Text> = ymap.get('fields');
+    Array.from(fields.keys()).forEach((key) => {
+        if (!strings.has(key)) fields.delete(key);
+    });
+    strings.forEach((value, key) => {
+        const text = fields.get(key);
+        if (text) applyTextDiff(text, value);
+        else fields.set(key, new Y.Text(value));
+    });
+}
+
+export function readBlock(ymap: SharedBlock): EditorBlock {
+    return {
+        id: ymap.get('id'),
+        type: ymap.get('type'),
+        data: unflatten(ymap.get('shape'), ymap.get('fields')),
+    };
+}
+
+/**
+ * The shared document as Editor.js data. Two clients seeding the same document at once can
+ * leave a block in the array twice - only its first copy counts.
+ */
+export function readBlocks(blocks: SharedBlocks): EditorData {
+    const seen = new Set<string>();
+    return {
+        time: Date.now(),
+        blocks: blocks.toArray().filter((ymap) => {
+            const id = ymap.get('id');
+            if (seen.has(id)) return false;
+            seen.add(id);
+            return true;
+        }).map(readBlock),
+    };
+}
+
+export function blockIndex(blocks: SharedBlocks, id: string): number {
+    for (let i = 0; i < blocks.length; i++) {
+        if (blocks.get(i).get('id') === id) return i;
+    }
+    return -1;
+}
+
+/**
+ * Changes that turn one list of blocks into another, for describing an edit
+ */
+export function diffBlocks(previous: EditorBlock[], next: EditorBlock[]): BlockChange[] {
+    const current = new Map(previous.map((block) => [block.id, block]));
+    const nextIds = new Set(next.map((block) => block.id));
+    const changes: BlockChange[] = [];
+
+    next.forEach((block) => {
+        const before = current.get(block.id);
+        if (!before) changes.push({ kind: 'added', id: block.id!, type: block.type });
+        else if (before.type !== block.type || !sameData(before.data, block.data)) changes.push({ kind: 'changed', id: block.id!, type: block.type });
+    });
+    previous.forEach((block) => {
+        if (!nextIds.has(block.id)) changes.push({ kind: 'removed', id: block.id!, type: block.type });
+    });
+
+    if (changes.length === 0) {
+        const kept = previous.filter((block) => nextIds.has(block.id));
+        const moved = next.find((block, index) => kept[index]?.id !== block.id);
+        if (moved) changes.push({ kind: 'moved', id: moved.id!, type: moved.type });
+    }
+    return changes;
+}
+
+/**
+ * Diff a whole snapshot into the shared blocks in one transaction. Returns whether anything changed.
+ */
+export function writeBlocks(blocks: SharedBlocks, data: EditorData, origin: any): boolean {
+    const doc = blocks.doc;
+    if (!doc) return false;
+
+    const next = (data.blocks || []).filter((block) => block.id);
+    const ids = new Set(next.map((block) => block.id));
+    let changed = false;
+
+    doc.transact((transaction) => {
+        const seen = new Set<string>();
+        for (let i = 0; i < blocks.length; i++) {
+            const id = blocks.get(i).get('id');
+            if (!ids.has(id) || seen.has(id)) {
+                blocks.delete(i, 1);
+                i--;
+            } else {
+                seen.add(id);
+            }
+        }
+
+        next.forEach((block, index) => {
+            const currentIndex = blockIndex(blocks, block.id!);
+            if (currentIndex === index) {
+                updateBlock(blocks.get(index), block);
+                return;
+            }
+            // Yjs has no move - moved blocks are re-created at their new position
+            if (currentIndex > index) blocks.delete(currentIndex, 1);
+            blocks.insert(index, [createBlock(block)]);
+        });
+
+        changed = transaction.changed.size > 0 || transaction.deleteSet.clients.size > 0;
+    }, origin);
+
+    return changed;
+}
@@ -0,0 +1,156 @@
+/**
+ * Collaborative Undo / Redo
+ *
+ * Per-user undo history for a shared document. The user's own edits reach the shared block model
+ * in transactions whose origin is a LocalEdit; Y.UndoManager only tracks that origin, so undoing
+ * reverts the user's own operations and keeps collaborators' edits that were synced in afterwards,
+ * even in the same block. The reverted blocks are patched into the editor by the block binding.
+ */
+
+import * as Y from 'yjs';
+import type { BlockChange, SharedBlocks } from './blockModel';
+
+export interface UndoHistoryEntry {
+    label: string;
+    time: number;
+}
+
+export interface UndoHistory {
+    // Both lists start with the entry the next undo / redo applies to
+    undo: UndoHistoryEntry[];
+    redo: UndoHistoryEntry[];
+}
+
+/**
+ * Transaction origin of the local user's edits, labelled for the history list
+ */
+export class LocalEdit {
+    constructor(readonly label: string) {}
+}
+
+// Editor changes arrive in batches while typing - a burst of typing becomes one undo step
+const CAPTURE_TIMEOUT = 1000;
+
+const BLOCK_LABELS: Record<string, string> = {
+    paragraph: 'paragraph',
+    header: 'heading',
+    list: 'list',
+    checklist: 'checklist',
+    quote: 'quote',
+    code: 'code block',
+    table: 'table',
+    image: 'image',
+    delimiter: 'divider',
+};
+
+const blockLabel = (type: string) => BLOCK_LABELS[type] || type;
+
+/**
+ * Short description of a local change for the history list
+ */
+export function describeChanges(changes: BlockChange[]): string {
+    if (changes.length === 0) return 'Edit';
+    if (changes.length > 1) {
+        return changes.every((change) => change.kind === 'moved') ? 'Moved blocks' : `Changed ${changes.length} blocks`;
+    }
+
+    const [change] = changes;
+    switch (change.kind) {
+        case 'added':
+            return `Added ${blockLabel(change.type)}`;
+        case 'removed':
+            return `Deleted ${blockLabel(change.type)}`;
+        case 'moved':
+            return 'Moved blocks';
+        default:
+            return `Edited ${blockLabel(change.type)}`;
+    }
+}
+
+export class CollaborativeUndoManager {
+    private undoManager: Y.UndoManager;
+    private listeners = new Set<() => void>();
+
+    constructor(blocks: SharedBlocks) {
+        this.undoManager = new Y.UndoManager(blocks, {
+            trackedOrigins: new Set([LocalEdit]),
+            captureTimeout: CAPTURE_TIMEOUT,
+        });
+
+        this.undoManager.on('stack-item-added', ({ stackItem, origin }) => {
+            // Undo / redo move items between the stacks - their meta is copied when popped
+            if (origin instanceof LocalEdit) {
+                stackItem.meta.set('label', origin.label);
+                stackItem.meta.set('time', Date.now());
+            }
+            this.notify();
+        });
+
+        this.undoManager.on('stack-item-popped', ({ stackItem, type }) => {
+            const stack = type === 'undo' ? this.undoManager.redoStack : this.undoManager.undoStack;
+            const moved = stack[stack.length - 1];
+            if (moved) stackItem.meta.forEach((value, key) => moved.meta.set(key, value));
+            this.notify();
+        });
+
+        this.undoManager.on('stack-cleared', () => this.notify());
+    }
+
+    /**
+     * Forget the history, e.g. after the document was loaded
+     */
+    clear(): void {
+        this.undoManager.clear();
+    }
+
+    canUndo(): boolean {
+        return this.undoManager.undoStack.length > 0;
+    }
+
+    canRedo(): boolean {
+        return this.undoManager.redoStack.length > 0;
+    }
+
+    getHistory(): UndoHistory {
+        const entries = (stack: typeof this.undoManager.undoStack) => stack
+            .map((item) => ({ label: item.meta.get('label') || 'Edit', time: item.meta.get('time') || 0 }))
+            .reverse();
+        return { undo: entries(this.undoManager.undoStack), redo: entries(this.undoManager.redoStack) };
+    }
+
+    /**
+     * Undo (or redo) the user's last `steps` operations. Returns whether anything was reverted.
+     */
+    apply(direction: 'undo' | 'redo', steps = 1): boolean {
+        let changed = false;
+        for (let i = 0; i < steps; i++) {
+            const item = direction === 'undo' ? this.undoManager.undo() : this.undoManager.redo();
+            if (!item) break;
+            changed = true;
+        }
+        return changed;
+    }
+
+    /**
+     * Whether a transaction was made by undo / redo
+     */
+    isOwnOrigin(origin: any): boolean {
+        return origin === this.undoManager;
+    }
+
+    subscribe(listener: () => void): () => void {
+        this.listeners.add(listener);
+        return () => {
+            this.listeners.delete(listener);
+        };
+    }
+
+    destroy(): void {
+        this.listeners.clear();
+        this.undoManager.destroy();
+    }
+
+    private notify(): void {
+        this.listeners.forEach((listener) => listener());
+    }
+}
@@ -0,0 +1,298 @@
+/**
+ * Realtime Connection Manager
+ *
+ * One Socket.IO connection to the backend, shared by every realtime feature: documents
+ * (/ws/docs), chat (/ws/chat) and meetings (/ws/meetings) are namespaces multiplexed over it.
+ * The manager owns the auth token, reconnects with exponential backoff, re-authenticates when
+ * the token changes and re-joins each feature's rooms after every reconnect. Its state is
+ * published to useConnectionStore.
+ *
+ * Features open a RealtimeChannel on a namespace instead of a socket of their own; closing the
+ * last channel of a namespace disconnects it.
+ */
+
+import { Manager, Socket } from 'socket.io-client';
+import { ACCESS_TOKEN_KEY, API_URL } from '../config';
+import { NamespaceState, RealtimeNamespace, useConnectionStore } from './connectionStore';
+
+export type { RealtimeNamespace } from './connectionStore';
+
+type Listener = (...args: any[]) => void;
+
+const RECONNECT_DELAY = 1000;
+const RECONNECT_DELAY_MAX = 30000;
+
+const getToken = () => localStorage.getItem(ACCESS_TOKEN_KEY);
+
+// Exponential backoff with jitter, for retries Socket.IO doesn't make itself
+const backoffDelay = (failures: number) => {
+    const delay = Math.min(RECONNECT_DELAY_MAX, RECONNECT_DELAY * 2 ** Math.max(0, failures - 1));
+    return delay / 2 + Math.random() * delay / 2;
+};
+
+/**
+ * A feature's view of a namespace: its listeners and the rooms it is in.
+ * Channels on a namespace share one socket, so a room is only left once no channel is in it.
+ * Listeners are removed and rooms forgotten when the channel is closed.
+ */
+export class RealtimeChannel {
+    private listeners: Array<[string, Listener]> = [];
+    // Join event and payload of each room, by payload
+    private rooms = new Map<string, [string, object]>();
+    private closed = false;
+
+    constructor(private connection: NamespaceConnection) {
+        connection.add(this);
+    }
+
+    get connected(): boolean {
+        return !this.closed && this.connection.socket.connected;
+    }
+
+    on(event: string, listener: Listener): this {
+        if (this.closed) return this;
+        this.connection.socket.on(event, listener);
+        this.listeners.push([event, listener]);
+        return this;
+    }
+
+    off(event: string, listener: Listener): this {
+        this.connection.socket.off(event, listener);
+        this.listeners = this.listeners.filter(([e, l]) => e !== event || l !== listener);
+        return this;
+    }
+
+    emit(event: string, ...args: any[]): void {
+        if (!this.closed) this.connection.socket.emit(event, ...args);
+    }
+
+    /**
+     * Join a room now if connected, and again after every reconnect until it is left
+     */
+    join(event: string, payload: object): void {
+        if (this.closed) return;
+        this.rooms.set(JSON.stringify(payload), [event, payload]);
+        if (this.connected) this.connection.socket.emit(event, payload);
+    }
+
+    leave(event: string, payload: object): void {
+        const key = JSON.stringify(payload);
+        if (this.rooms.delete(key) && this.connected && !this.connection.inRoom(key)) {
+            this.connection.socket.emit(event, payload);
+        }
+    }
+
+    getRooms(): ReadonlyMap<string, [string, object]> {
+        return this.rooms;
+    }
+
+    /**
+     * Remove this channel's listeners; the namespace disconnects when no channel uses it
+     */
+    close(): void {
+        if (this.closed) return;
+        this.listeners.forEach(([event, listener]) => this.connection.socket.off(event, listener));
+        this.listeners = [];
+        this.rooms.clear();
+        this.closed = true;
+        this.connection.remove(this);
+    }
+}
+
+class NamespaceConnection {
+    readonly socket: Socket;
+    private channels = new Set<RealtimeChannel>();
+    private state: NamespaceState = { status: 'connecting', failures: 0 };
+    private retryTimer: ReturnType<typeof setTimeout> | null = null;
+    private destroyed = false;
+
+    constructor(manager: Manager, readonly namespace: RealtimeNamespace, private onUnused: () => void) {
+        // Read on every (re)connect, so a refreshed token is used without recreating the socket
+        this.socket = manager.socket(namespace, { auth: (cb) => cb({ token: getToken() }) });
+        this.publish();
+
+        this.socket.on('connect', () => {
+            console.log(`✅ Realtime: Connected to ${namespace}`);
+            this.setState({ status: 'connected', failures: 0 });
+            this.rejoin();
+        });
+
+        this.socket.on('disconnect', (reason) => {
+            if (reason === 'io client disconnect') return;
+            console.log(`⚠️ Realtime: Disconnected from ${namespace}:`, reason);
+            this.setState({ status: 'reconnecting', failures: this.state.failures });
+            // The server dropped the namespace (e.g. an expired token) - Socket.IO won't retry that itself
+            if (reason === 'io server disconnect') this.scheduleRetry();
+        });
+
+        this.socket.on('connect_error', (error) => {
+            console.error(`❌ Realtime: Connection error on ${namespace}:`, error.message);
+            this.setState({ status: 'reconnecting', failures: this.state.failures + 1 });
+            // Rejected by the server rather than unreachable - retry with the current token
+            if (!this.socket.active) this.scheduleRetry();
+        });
+
+        if (!this.socket.active) this.socket.connect();
+    }
+
+    add(channel: RealtimeChannel): void {
+        this.channels.add(channel);
+    }
+
+    remove(channel: RealtimeChannel): void {
+        this.channels.delete(channel);
+        if (this.channels.size === 0) this.onUnused();
+    }
+
+    /**
+     * Whether any channel is in the room
+     */
+    inRoom(key: string): boolean {
+        return Array.from(this.channels).some((channel) => channel.getRooms().has(key));
+    }
+
+    /**
+     * Drop the connection, to connect again with start()
+     */
+    stop(): void {
+        this.clearRetry();
+        this.socket.disconnect();
+    }
+
+    start(): void {
+        this.socket.connect();
+        this.setState({ status: 'connecting', failures: this.state.failures });
+    }
+
+    destroy(): void {
+        if (this.destroyed) return;
+        this.destroyed = true;
+        this.clearRetry();
+        this.socket.disconnect();
+        // The manager hands out the same socket for the namespace next time
+        this.socket.off();
+        useConnectionStore.getState().setNamespace(this.namespace, null);
+    }
+
+    // Rooms are per socket and the server forgets them on disconnect
+    private rejoin(): void {
+        const rooms = new Map<string, [string, object]>();
+        this.channels.forEach((channel) => channel.getRooms().forEach((room, key) => rooms.set(key, room)));
+        rooms.forEach(([event, payload]) => this.socket.emit(event, payload));
+    }
+
+    private scheduleRetry(): void {
+        this.clearRetry();
+        this.retryTimer = setTimeout(() => {
+            this.retryTimer = null;
+            this.socket.connect();
+        }, backoffDelay(this.state.failures));
+    }
+
+    private clearRetry(): void {
+        if (this.retryTimer) {
+            clearTimeout(this.retryTimer);
+            this.retryTimer = null;
+        }
+    }
+
+    private setState(state: NamespaceState): void {
+        this.state = state;
+        this.publish();
+    }
+
+    private publish(): void {
+        useConnectionStore.getState().setNamespace(this.namespace, this.state);
+    }
+}
+
+class ConnectionManager {
+    private manager: Manager | null = null;
+    private namespaces = new Map<RealtimeNamespace, NamespaceConnection>();
+
+    constructor() {
+        if (typeof window === 'undefined') return;
+
+        window.addEventListener('online', () => {
+            useConnectionStore.getState().setBrowserOnline(true);
+            this.reconnectNow();
+        });
+        window.addEventListener('offline', () => useConnectionStore.getState().setBrowserOnline(false));
+
+        // Logged in or out in another tab
+        window.addEventListener('storage', (e) => {
+            if (e.key === ACCESS_TOKEN_KEY) this.reauthenticate();
+        });
+    }
+
+    /**
+     * Open a channel on a namespace, connecting it if it isn't yet
+     */
+    open(namespace: RealtimeNamespace): RealtimeChannel {
+        let connection = this.namespaces.get(namespace);
+        if (!connection) {
+            const created: NamespaceConnection = new NamespaceConnection(this.getManager(), namespace, () => {
+                created.destroy();
+                if (this.namespaces.get(namespace) === created) this.namespaces.delete(namespace);
+            });
+            this.namespaces.set(namespace, created);
+            connection = created;
+        }
+        return new RealtimeChannel(connection);
+    }
+
+    /**
+     * Reconnect every namespace with the current token, e.g. after it was refreshed
+     */
+    reauthenticate(): void {
+        const token = getToken();
+        if (!token) {
+            this.close();
+            return;
+        }
+
+        if (this.manager) this.manager.opts.query = { token };
+        this.restart(Array.from(this.namespaces.values()));
+    }
+
+    /**
+     * Retry the namespaces that aren't connected without waiting for the backoff
+     */
+    reconnectNow(): void {
+        this.restart(Array.from(this.namespaces.values()).filter((connection) => !connection.socket.connected));
+    }
+
+    /**
+     * Disconnect everything, e.g. on logout
+     */
+    close(): void {
+        this.namespaces.forEach((connection) => connection.destroy());
+        this.namespaces.clear();
+        this.manager = null;
+    }
+
+    // All first, so the underlying connection is re-opened (with the current token) instead of
+    // waiting for the manager's own backoff
+    private restart(connections: NamespaceConnection[]): void {
+        connections.forEach((connection) => connection.stop());
+        connections.forEach((connection) => connection.start());
+    }
+
+    private getManager(): Manager {
+        if (!this.manager) {
+            const wsUrl = API_URL.replace('/api', '').replace('http', 'ws');
+            console.log('🔌 Realtime: Connecting to', wsUrl);
+            this.manager = new Manager(wsUrl, {
+                query: { token: getToken() || '' },
+                transports: ['websocket', 'polling'], // Fallback to polling if websocket fails
+                reconnection: true,
+                reconnectionDelay: RECONNECT_DELAY,
+                reconnectionDelayMax: RECONNECT_DELAY_MAX,
+                timeout: 30000,
+            });
+        }
+        return this.manager;
+    }
+}
+
+export const connectionManager = new ConnectionManager();
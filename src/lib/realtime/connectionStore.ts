@@ -0,0 +1,65 @@
+/**
+ * Connection State Store (Zustand)
+ *
+ * State of the shared realtime connection (see connection.ts), per namespace and overall.
+ * Drives the global connection indicator.
+ */
+
+import { create } from 'zustand';
+
+export type RealtimeNamespace = '/ws/docs' | '/ws/chat' | '/ws/meetings';
+
+export type NamespaceStatus = 'connecting' | 'connected' | 'reconnecting';
+
+export type ConnectionStatus = 'idle' | 'connecting' | 'connected' | 'reconnecting' | 'offline';
+
+export interface NamespaceState {
+    status: NamespaceStatus;
+    // Failed connection attempts since the namespace was last connected
+    failures: number;
+}
+
+// After this many failed attempts in a row the connection counts as offline (it keeps retrying)
+export const OFFLINE_AFTER_FAILURES = 5;
+
+interface ConnectionState {
+    // Overall status of the namespaces in use
+    status: ConnectionStatus;
+    namespaces: Partial<Record<RealtimeNamespace, NamespaceState>>;
+    browserOnline: boolean;
+
+    // Actions
+    setNamespace: (namespace: RealtimeNamespace, state: NamespaceState | null) => void;
+    setBrowserOnline: (online: boolean) => void;
+}
+
+const deriveStatus = (namespaces: ConnectionState['namespaces'], browserOnline: boolean): ConnectionStatus => {
+    const states = Object.values(namespaces).filter((state): state is NamespaceState => !!state);
+    if (states.length === 0) return 'idle';
+    if (!browserOnline) return 'offline';
+    if (states.every((state) => state.status === 'connected')) return 'connected';
+
+    const reconnecting = states.filter((state) => state.status === 'reconnecting');
+    if (reconnecting.length === 0) return 'connecting';
+    return reconnecting.some((state) => state.failures >= OFFLINE_AFTER_FAILURES) ? 'offline' : 'reconnecting';
+};
+
+export const useConnectionStore = create<ConnectionState>((set) => ({
+    // Initial state
+    status: 'idle',
+    namespaces: {},
+    browserOnline: typeof navigator === 'undefined' ? true : navigator.onLine,
+
+    // Actions
+    setNamespace: (namespace, state) => set((current) => {
+        const namespaces = { ...current.namespaces };
+        if (state) namespaces[namespace] = state;
+        else delete namespaces[namespace];
+        return { namespaces, status: deriveStatus(namespaces, current.browserOnline) };
+    }),
+
+    setBrowserOnline: (online) => set((current) => ({
+        browserOnline: online,
+        status: deriveStatus(current.namespaces, online),
+    })),
+}));
@@ -2,10 +2,11 @@
  * Realtime Store (Zustand)
  * 
  * Store for managing real-time co-editing state
- * Manages connected users, cursors, and save state
+ * Manages connected users, cursors, follow mode, and save state
  */
 
 import { create } from 'zustand';
+import type { RemoteCursor } from './awareness';
 
 export interface ConnectedUser {
     id: string;
@@ -13,29 +14,9 @@ export interface ConnectedUser {
     color: string;
     socketId?: string;
     avatar?: string;
-    cursor?: {
-        x: number;
-        y: number;
-        blockId?: string;
-    };
     lastSeen?: Date;
 }
 
-interface CursorData {
-    x: number;
-    y: number;
-    blockId?: string;
-    user: ConnectedUser;
-    timestamp?: number;
-    selection?: {
-        start: number;
-        end: number;
-        text: string;
-        startOffset: number;
-        endOffset: number;
-    };
-}
-
 interface RealtimeState {
     // Connection state
     isConnected: boolean;
@@ -44,8 +25,11 @@ interface RealtimeState {
     // Connected users
     connectedUsers: ConnectedUser[];
 
-    // Cursors from other users
-    cursors: Map<string, CursorData>;
+    // Carets of other users' editors, by awareness client id
+    cursors: Map<number, RemoteCursor>;
+
+    // Id of the user whose viewport this editor follows
+    following: string | null;
 
     // Save state
     isSaving: boolean;
@@ -58,24 +42,12 @@ interface RealtimeState {
     setConnectedUsers: (users: ConnectedUser[]) => void;
     addUser: (user: ConnectedUser) => void;
     removeUser: (userId: string) => void;
-    updateUserCursor: (userId: string, cursor: {
-        x: number;
-        y: number;
-        blockId?: string;
-        timestamp?: number;
-        selection?: {
-            start: number;
-            end: number;
-            text: string;
-            startOffset: number;
-            endOffset: number;
-        };
-    }) => void;
+    setCursors: (cursors: RemoteCursor[]) => void;
+    setFollowing: (userId: string | null) => void;
     setSaving: (saving: boolean) => void;
     setLastSaved: (date: Date) => void;
     setHasUnsavedChanges: (hasChanges: boolean) => void;
     clearCursors: () => void;
-    clearOldCursors: () => void;
     reset: () => void;
 }
 
@@ -85,6 +57,7 @@ export const useRealtimeStore = create<RealtimeState>((set) => ({
     currentDocumentId: null,
     connectedUsers: [],
     cursors: new Map(),
+    following: null,
     isSaving: false,
     lastSaved: null,
     hasUnsavedChanges: false,
@@ -96,6 +69,7 @@ export const useRealtimeStore = create<RealtimeState>((set) => ({
         currentDocumentId: documentId,
         connectedUsers: [],
         cursors: new Map(),
+        following: null,
     }),
 
     setConnectedUsers: (users) => set({
@@ -111,49 +85,24 @@ export const useRealtimeStore = create<RealtimeState>((set) => ({
 
     removeUser: (userId) => set((state) => {
         const newCursors = new Map(state.cursors);
-        newCursors.delete(userId);
+        newCursors.forEach((cursor, clientId) => {
+            if (cursor.user.id === userId) newCursors.delete(clientId);
+        });
 
         const users = Array.isArray(state.connectedUsers) ? state.connectedUsers : [];
         return {
             connectedUsers: users.filter(u => u.id !== userId),
             cursors: newCursors,
+            following: state.following === userId ? null : state.following,
         };
     }),
 
-    updateUserCursor: (userId, cursor) => set((state) => {
-        const users = Array.isArray(state.connectedUsers) ? state.connectedUsers : [];
-        const user = users.find(u => u.id === userId);
-        if (!user) {
-            console.log('updateUserCursor: User not found:', userId);
-            return state;
-        }
-
-        console.log('updateUserCursor: Updating cursor for user:', userId, cursor);
-        const newCursors = new Map(state.cursors);
-        newCursors.set(userId, { ...cursor, user, timestamp: cursor.timestamp || Date.now() });
-
-        return { cursors: newCursors };
+    // Awareness drops collaborators whose state is no longer renewed, so this is the full list
+    setCursors: (cursors) => set({
+        cursors: new Map(cursors.map((cursor) => [cursor.clientId, cursor])),
     }),
 
-    // Clear old cursors that haven't been updated recently
-    clearOldCursors: () => set((state) => {
-        const now = Date.now();
-        const newCursors = new Map();
-
-        state.cursors.forEach((cursor, userId) => {
-            // Keep cursors that are less than 5 seconds old
-            if (cursor.timestamp && (now - cursor.timestamp) < 5000) {
-                newCursors.set(userId, cursor);
-            }
-        });
-
-        if (newCursors.size !== state.cursors.size) {
-            console.log('Cleared old cursors, remaining:', newCursors.size);
-            return { cursors: newCursors };
-        }
-
-        return state;
-    }),
+    setFollowing: (userId) => set({ following: userId }),
 
     setSaving: (saving) => set({ isSaving: saving }),
 
@@ -171,9 +120,21 @@ export const useRealtimeStore = create<RealtimeState>((set) => ({
         currentDocumentId: null,
         connectedUsers: [],
         cursors: new Map(),
+        following: null,
         isSaving: false,
         lastSaved: null,
         hasUnsavedChanges: false,
     }),
 }));
 
+/**
+ * How many collaborators (this editor included) are following a user
+ */
+export const selectFollowerCount = (userId: string) => (state: RealtimeState) => {
+    const followers = new Set<string>();
+    state.cursors.forEach((cursor) => {
+        if (cursor.following === userId) followers.add(cursor.user.id);
+    });
+    return followers.size + (state.following === userId ? 1 : 0);
+};
+
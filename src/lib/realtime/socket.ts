@@ -1,12 +1,11 @@
 /**
  * Socket Client Wrapper
  * 
- * Wrapper around socket.io-client for real-time co-editing
- * Handles JWT authentication, automatic reconnection, and events
+ * Typed document events over the shared realtime connection (see connection.ts), which
+ * handles authentication, reconnection and re-joining the document room
  */
 
-import { io, Socket } from 'socket.io-client';
-import { API_URL } from '../config';
+import { RealtimeChannel, connectionManager } from './connection';
 
 export interface ConnectedUser {
     id: string;
@@ -14,11 +13,6 @@ export interface ConnectedUser {
     color: string;
     socketId?: string;
     avatar?: string;
-    cursor?: {
-        x: number;
-        y: number;
-        blockId?: string;
-    };
     lastSeen?: Date;
 }
 
@@ -32,24 +26,23 @@ export interface SocketEvents {
         blockId?: string;
         operation?: 'insert' | 'update' | 'delete';
     }) => void;
-    cursor_update: (data: {
+    awareness_update: (data: {
         documentId: string;
-        cursor: {
-            x: number;
-            y: number;
-            blockId?: string;
-            selection?: {
-                start: number;
-                end: number;
-            };
-        };
-        user: string;
+        update: number[];
     }) => void;
     save_snapshot: (data: {
         documentId: string;
         content: any;
         description?: string;
     }) => void;
+    // A milestone version was saved through the versions API
+    announce_snapshot: (data: {
+        documentId: string;
+        versionId: string;
+        version: number;
+        name?: string;
+        description?: string;
+    }) => void;
     get_presence: (data: { documentId: string }) => void;
 
     // Received events
@@ -74,112 +67,42 @@ export interface SocketEvents {
         operation?: string;
         userId: string;
     }) => void;
-    cursor_updated: (data: {
-        documentId: string;
-        userId: string;
-        cursor: {
-            x: number;
-            y: number;
-            blockId?: string;
-        };
-    }) => void;
     presence_update: (data: {
         documentId: string;
         users: ConnectedUser[];
     }) => void;
+    // Milestones announced by someone else carry the version and who saved it
     snapshot_saved: (data: {
         documentId: string;
         timestamp: Date;
+        versionId?: string;
+        version?: number;
+        name?: string;
+        description?: string;
+        userId?: string;
+        userName?: string;
     }) => void;
     error: (data: { message: string }) => void;
 }
 
 class SocketManager {
-    private socket: Socket | null = null;
-    private reconnectAttempts = 0;
-    private maxReconnectAttempts = 5;
-    private reconnectDelay = 1000;
+    private channel: RealtimeChannel | null = null;
 
     /**
-     * Connect to a document
+     * Connect to a document: join its room on the documents namespace
      */
-    connectToDocument(_documentId: string, token: string): Promise<Socket> {
-        return new Promise((resolve, reject) => {
-            try {
-                // Close existing connection if it exists
-                if (this.socket) {
-                    console.log('🔌 SocketManager: Disconnecting existing socket');
-                    this.socket.disconnect();
-                    this.socket = null;
-                }
-
-                // Create new connection
-                console.log('🔌 SocketManager: Creating new socket connection');
-                const wsUrl = API_URL.replace('/api', '').replace('http', 'ws');
-                this.socket = io(`${wsUrl}/ws/docs`, {
-                    auth: {
-                        token,
-                    },
-                    query: {
-                        token,
-                    },
-                    transports: ['websocket', 'polling'], // Fallback to polling if websocket fails
-                    timeout: 30000, // Increased timeout
-                    forceNew: true, // Force new connection
-                    reconnection: true,
-                    reconnectionDelay: 2000,
-                    reconnectionAttempts: 5,
-                });
-
-                // Handle connection events
-                this.socket.on('connect', () => {
-                    console.log('✅ SocketManager: Socket connected');
-                    this.reconnectAttempts = 0;
-                    resolve(this.socket!);
-                });
-
-                this.socket.on('connect_error', (error) => {
-                    console.error('❌ SocketManager: Socket connection error:', error);
-                    reject(error);
-                });
-
-                this.socket.on('disconnect', (reason) => {
-                    console.log('⚠️ SocketManager: Socket disconnected:', reason);
-                    if (reason === 'io server disconnect') {
-                        // Server closed the connection, don't try to reconnect
-                        return;
-                    }
-                    this.handleReconnect();
-                });
-
-                // Handle errors
-                this.socket.on('error', (error) => {
-                    console.error('❌ SocketManager: Socket error:', error);
-                });
-
-            } catch (error) {
-                reject(error);
-            }
-        });
+    connectToDocument(documentId: string): void {
+        this.open();
+        this.joinDocument(documentId);
     }
 
     /**
-     * Handle automatic reconnection
+     * Use the documents namespace without joining a room, for events of a document the
+     * editor's YjsClient already joined on the shared connection
      */
-    private handleReconnect(): void {
-        if (this.reconnectAttempts < this.maxReconnectAttempts) {
-            this.reconnectAttempts++;
-            const delay = this.reconnectDelay * Math.pow(2, this.reconnectAttempts - 1);
-
-            console.log(`Attempting to reconnect in ${delay}ms (attempt ${this.reconnectAttempts}/${this.maxReconnectAttempts})`);
-
-            setTimeout(() => {
-                if (this.socket) {
-                    this.socket.connect();
-                }
-            }, delay);
-        } else {
-            console.error('Max reconnection attempts reached');
+    open(): void {
+        if (!this.channel) {
+            this.channel = connectionManager.open('/ws/docs');
         }
     }
 
@@ -187,18 +110,14 @@ class SocketManager {
      * Join a document
      */
     joinDocument(documentId: string): void {
-        if (this.socket) {
-            this.socket.emit('join_document', { documentId });
-        }
+        this.channel?.join('join_document', { documentId });
     }
 
     /**
      * Leave a document
      */
     leaveDocument(documentId: string): void {
-        if (this.socket) {
-            this.socket.emit('leave_document', { documentId });
-        }
+        this.channel?.leave('leave_document', { documentId });
     }
 
     /**
@@ -210,8 +129,8 @@ class SocketManager {
         blockId?: string,
         operation?: 'insert' | 'update' | 'delete',
     ): void {
-        if (this.socket) {
-            this.socket.emit('content_update', {
+        if (this.channel) {
+            this.channel.emit('content_update', {
                 documentId,
                 content,
                 blockId,
@@ -221,42 +140,29 @@ class SocketManager {
     }
 
     /**
-     * Update cursor position
+     * Save a snapshot
      */
-    updateCursor(
-        documentId: string,
-        cursor: {
-            x: number;
-            y: number;
-            blockId?: string;
-            selection?: {
-                start: number;
-                end: number;
-            };
-        },
-        userId: string,
-    ): void {
-        if (this.socket && this.socket.connected) {
-            console.log('✅ SocketManager: Sending cursor update for user:', userId, 'to document:', documentId);
-            this.socket.emit('cursor_update', {
+    saveSnapshot(documentId: string, content?: any, description?: string): void {
+        if (this.channel) {
+            this.channel.emit('save_snapshot', {
                 documentId,
-                cursor,
-                user: userId,
+                content: content || {},
+                description,
             });
-        } else {
-            console.log('⚠️ SocketManager: No socket connection or not connected, cannot send cursor update');
         }
     }
 
     /**
-     * Save a snapshot
+     * Tell the rest of the document about a saved milestone version
      */
-    saveSnapshot(documentId: string, content?: any, description?: string): void {
-        if (this.socket) {
-            this.socket.emit('save_snapshot', {
+    announceSnapshot(documentId: string, version: { _id: string; version: number; name?: string; description?: string }): void {
+        if (this.channel) {
+            this.channel.emit('announce_snapshot', {
                 documentId,
-                content: content || {},
-                description,
+                versionId: version._id,
+                version: version.version,
+                name: version.name,
+                description: version.description,
             });
         }
     }
@@ -265,8 +171,8 @@ class SocketManager {
      * Request user presence
      */
     getPresence(documentId: string): void {
-        if (this.socket) {
-            this.socket.emit('get_presence', { documentId });
+        if (this.channel) {
+            this.channel.emit('get_presence', { documentId });
         }
     }
 
@@ -274,8 +180,8 @@ class SocketManager {
      * Listen to an event
      */
     on<K extends keyof SocketEvents>(event: K, callback: SocketEvents[K]): void {
-        if (this.socket) {
-            this.socket.on(event as string, callback);
+        if (this.channel) {
+            this.channel.on(event as string, callback);
         }
     }
 
@@ -283,18 +189,20 @@ class SocketManager {
      * Stop listening to an event
      */
     off<K extends keyof SocketEvents>(event: K, callback: SocketEvents[K]): void {
-        if (this.socket) {
-            this.socket.off(event as string, callback);
+        if (this.channel) {
+            this.channel.off(event as string, callback);
         }
     }
 
     /**
-     * Disconnect the socket
+     * Leave the documents namespace (it disconnects once nothing else uses it)
      */
     disconnect(): void {
-        if (this.socket) {
-            this.socket.disconnect();
-            this.socket = null;
+        if (this.channel) {
+            const channel = this.channel;
+            Array.from(channel.getRooms().values()).forEach(([, payload]) => channel.leave('leave_document', payload));
+            channel.close();
+            this.channel = null;
         }
     }
 
@@ -302,14 +210,14 @@ class SocketManager {
      * Check if socket is connected
      */
     isConnected(): boolean {
-        return this.socket?.connected || false;
+        return this.channel?.connected || false;
     }
 
     /**
-     * Get socket instance
+     * Get the documents channel
      */
-    getSocket(): Socket | null {
-        return this.socket;
+    getChannel(): RealtimeChannel | null {
+        return this.channel;
     }
 }
 
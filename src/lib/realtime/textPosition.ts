@@ -0,0 +1,88 @@
+/**
+ * Text Positions in Editor.js Blocks
+ *
+ * A position is a block id, the index of an editable field inside the block and a plain-text
+ * offset into that field. Unlike DOM nodes, it stays meaningful after the block is re-rendered,
+ * so carets and selections can be put back (or shown to collaborators) by position.
+ */
+
+export interface TextPosition {
+    blockId: string;
+    // Index of the contenteditable element among the block's editable fields
+    field: number;
+    offset: number;
+}
+
+export function blockElement(blockId: string): HTMLElement | null {
+    return window.document.querySelector<HTMLElement>(`.ce-block[data-id="${CSS.escape(blockId)}"]`);
+}
+
+const editableFields = (block: HTMLElement) => Array.from(block.querySelectorAll<HTMLElement>('[contenteditable="true"]'));
+
+/**
+ * The editable field a position points into
+ */
+export function fieldElement(position: TextPosition): HTMLElement | null {
+    const block = blockElement(position.blockId);
+    return block ? editableFields(block)[position.field] || null : null;
+}
+
+/**
+ * Position of a DOM point inside a block, or null when it isn't in an editable field
+ */
+export function textPositionOf(node: Node | null, offset: number): TextPosition | null {
+    const element = node instanceof Element ? node : node?.parentElement;
+    const block = element?.closest<HTMLElement>('.ce-block');
+    const blockId = block?.dataset.id;
+    if (!node || !block || !blockId) return null;
+
+    // The innermost field wins when fields are nested (e.g. list items)
+    const fields = editableFields(block);
+    let field = -1;
+    for (let i = fields.length - 1; i >= 0; i--) {
+        if (fields[i].contains(node)) {
+            field = i;
+            break;
+        }
+    }
+    if (field < 0) return null;
+
+    const range = window.document.createRange();
+    range.setStart(fields[field], 0);
+    range.setEnd(node, offset);
+    return { blockId, field, offset: range.toString().length };
+}
+
+/**
+ * DOM point of a position, clamped to the end of its field
+ */
+export function domPointOf(position: TextPosition): { node: Node; offset: number } | null {
+    const field = fieldElement(position);
+    if (!field) return null;
+
+    const walker = window.document.createTreeWalker(field, NodeFilter.SHOW_TEXT);
+    let remaining = Math.max(0, position.offset);
+    let last: Text | null = null;
+    for (let node = walker.nextNode() as Text | null; node; node = walker.nextNode() as Text | null) {
+        if (remaining <= node.length) return { node, offset: remaining };
+        remaining -= node.length;
+        last = node;
+    }
+    return last ? { node: last, offset: last.length } : { node: field, offset: field.childNodes.length };
+}
+
+/**
+ * Move an offset in `before` to the matching place in `after`, assuming one contiguous change.
+ * Offsets inside the changed part end up after the new text.
+ */
+export function transformOffset(offset: number, before: string, after: string): number {
+    const max = Math.min(before.length, after.length);
+    let start = 0;
+    while (start < max && before[start] === after[start]) start++;
+    let end = 0;
+    while (end < max - start && before[before.length - 1 - end] === after[after.length - 1 - end]) end++;
+
+    if (offset <= start) return offset;
+    if (offset >= before.length - end) return offset + after.length - before.length;
+    return after.length - end;
+}
@@ -1,34 +1,41 @@
 /**
  * Yjs Client for Real-Time Collaboration
  * 
- * Connects to the backend Socket.IO server and synchronizes Yjs documents
- * Handles real-time updates, offline persistence, and automatic reconnection
+ * Synchronizes Yjs documents over the shared realtime connection (see connection.ts)
+ * Handles real-time updates, offline persistence, and re-syncing after reconnects
+ *
+ * The document content is the shared block model (see blockModel.ts); BlockBinding keeps it
+ * in step with the editor. Collaborators' carets travel separately as awareness state
+ * (see awareness.ts), which is never stored.
  */
 
 import * as Y from 'yjs';
 import { IndexeddbPersistence } from 'y-indexeddb';
-import { io, Socket } from 'socket.io-client';
-import { API_URL } from '../config';
+import { Awareness, applyAwarenessUpdate, encodeAwarenessUpdate, removeAwarenessStates } from 'y-protocols/awareness';
+import { CollaborativeUndoManager } from './collaborativeUndo';
+import { RealtimeChannel, connectionManager } from './connection';
+import { BLOCKS_KEY, SharedBlocks, writeBlocks } from './blockModel';
+import {
+    AwarenessState,
+    AwarenessUser,
+    CursorSelection,
+    RemoteCursor,
+    Viewport,
+    sameCursor,
+    sameViewport,
+    userColor,
+} from './awareness';
 
 interface YjsClientOptions {
     documentId: string;
-    token: string;
     userId?: string;
+    // Shown to collaborators next to this user's caret
+    user?: AwarenessUser;
+    // Viewers receive updates but never send document changes
+    readOnly?: boolean;
     onSync?: () => void;
-    onUpdate?: () => void;
     onError?: (error: Error) => void;
-    onCursorUpdate?: (userId: string, cursor: {
-        x: number;
-        y: number;
-        blockId?: string;
-        selection?: {
-            start: number;
-            end: number;
-            text: string;
-            startOffset: number;
-            endOffset: number;
-        };
-    }) => void;
+    onCursorsChange?: (cursors: RemoteCursor[]) => void;
     onFormattingUpdate?: (userId: string, formatting: {
         type: 'bold' | 'italic' | 'underline' | 'color' | 'fontSize' | 'alignment';
         value: any;
@@ -38,20 +45,66 @@ interface YjsClientOptions {
     onUserLeft?: (userId: string) => void;
 }
 
+// Encoded size of an update without any changes
+const EMPTY_UPDATE_LENGTH = 2;
+
+interface AwarenessChanges {
+    added: number[];
+    updated: number[];
+    removed: number[];
+}
+
+// Whether a server state contains the shared block model (older clients only stored whole-document JSON)
+const hasBlocks = (update: Uint8Array) => {
+    const doc = new Y.Doc();
+    try {
+        Y.applyUpdate(doc, update);
+        return doc.getArray(BLOCKS_KEY).length > 0;
+    } finally {
+        doc.destroy();
+    }
+};
+
 export class YjsClient {
     private ydoc: Y.Doc;
-    private socket: Socket | null = null;
+    private channel: RealtimeChannel | null = null;
     private persistence: IndexeddbPersistence | null = null;
     private documentId: string;
     private userId: string;
+    private readOnly: boolean;
     public isConnected = false;
     public isSynced = false;
     private updateHandler: ((update: Uint8Array, origin: any) => void) | null = null;
+    private blocks: SharedBlocks;
+    // The local user's own undo / redo history for this document
+    private undoManager: CollaborativeUndoManager;
+    // Whether the shared blocks came from the server or a collaborator, not only this browser's offline copy
+    private remoteContent = false;
+    // Remote changes are applied one at a time, each after the handler (the editor binding) let it through
+    private remoteQueue: Promise<void> = Promise.resolve();
+    private remoteUpdateHandler: ((apply: () => void) => Promise<void>) | null = null;
+    // Presence and carets of everyone in the document, renewed periodically and dropped when stale
+    private awareness: Awareness;
+    private awarenessHandler: ((changes: AwarenessChanges, origin: any) => void) | null = null;
+    private cursorsHandler: (() => void) | null = null;
 
     constructor(options: YjsClientOptions) {
         this.documentId = options.documentId;
         this.userId = options.userId || 'anonymous';
+        this.readOnly = !!options.readOnly;
         this.ydoc = new Y.Doc();
+        this.blocks = this.ydoc.getArray(BLOCKS_KEY);
+        this.undoManager = new CollaborativeUndoManager(this.blocks);
+
+        this.awareness = new Awareness(this.ydoc);
+        this.awareness.setLocalState({
+            user: options.user || { id: this.userId, name: 'Anonymous', color: userColor(this.userId) },
+            cursor: null,
+            viewport: null,
+            following: null,
+        } satisfies AwarenessState);
+        this.cursorsHandler = () => options.onCursorsChange?.(this.getRemoteCursors());
+        this.awareness.on('change', this.cursorsHandler);
 
         // Set up IndexedDB persistence for offline support
         this.persistence = new IndexeddbPersistence(options.documentId, this.ydoc);
@@ -60,130 +113,101 @@ export class YjsClient {
             console.log('✅ YjsClient: IndexedDB persistence synced');
         });
 
-        // Connect to Socket.IO server
-        this.connectToServer(options.token, options);
+        // Connect to the documents namespace
+        this.connectToServer(options);
     }
 
-    private connectToServer(token: string, options: YjsClientOptions): void {
-        const backendUrl = API_URL.replace('/api', '');
-
-        // Disconnect existing socket if any
-        if (this.socket) {
-            this.socket.disconnect();
-            this.socket = null;
-        }
-
-        const wsUrl = backendUrl.replace('http', 'ws');
-        console.log('🔌 Connecting to WebSocket:', `${wsUrl}/ws/docs`);
-        this.socket = io(`${wsUrl}/ws/docs`, {
-            auth: { token },
-            query: { token },
-            transports: ['websocket', 'polling'], // Fallback to polling if websocket fails
-            reconnection: true,
-            reconnectionDelay: 2000,
-            reconnectionAttempts: 5,
-            timeout: 30000, // Increased timeout
-            forceNew: true, // Force new connection to avoid conflicts
-        });
+    private connectToServer(options: YjsClientOptions): void {
+        // The connection manager reconnects and joins the document room again after every reconnect
+        const channel = connectionManager.open('/ws/docs');
+        this.channel = channel;
+        this.isConnected = channel.connected;
 
         // Handle connection
-        this.socket.on('connect', () => {
+        channel.on('connect', () => {
             this.isConnected = true;
             console.log('✅ YjsClient: Connected to server');
-
-            // Join the document room
-            this.socket?.emit('join_document', { documentId: this.documentId });
         });
 
         // Handle disconnection
-        this.socket.on('disconnect', (reason) => {
+        channel.on('disconnect', (reason) => {
             this.isConnected = false;
             this.isSynced = false;
+            // Collaborators are unknown while offline - they announce themselves again on rejoin
+            removeAwarenessStates(
+                this.awareness,
+                Array.from(this.awareness.getStates().keys()).filter((clientId) => clientId !== this.ydoc.clientID),
+                'remote',
+            );
             console.log('⚠️ YjsClient: Disconnected from server:', reason);
         });
 
         // Handle connection error
-        this.socket.on('connect_error', (error) => {
+        channel.on('connect_error', (error) => {
             console.error('❌ YjsClient: Connection error:', error);
             options.onError?.(error);
         });
 
-        this.socket.on('document_joined', () => {
+        channel.on('document_joined', () => {
             console.log('✅ YjsClient: Joined document successfully');
+            this.sendAwareness([this.ydoc.clientID]);
         });
 
         // Handle initial Yjs sync
-        this.socket.on('yjs_sync', (stateVector: number[]) => {
-            try {
-                const update = new Uint8Array(stateVector);
-                // Only apply if there's actual content
-                if (update.length > 0) {
-                    Y.applyUpdate(this.ydoc, update, 'server');
-                    console.log('✅ YjsClient: Applied initial state from server');
+        channel.on('yjs_sync', (stateVector: number[]) => {
+            const update = new Uint8Array(stateVector);
+            this.enqueueRemote(() => {
+                try {
+                    // Only apply if there's actual content
+                    if (update.length > 0) {
+                        Y.applyUpdate(this.ydoc, update, 'server');
+                        if (hasBlocks(update)) this.remoteContent = true;
+                        console.log('✅ YjsClient: Applied initial state from server');
+                    }
+                    this.isSynced = true;
+                    this.sendMissingUpdates(update);
+                    options.onSync?.();
+                } catch (error) {
+                    console.error('❌ YjsClient: Error applying initial Yjs state:', error);
                 }
-                this.isSynced = true;
-                options.onSync?.();
-            } catch (error) {
-                console.error('❌ YjsClient: Error applying initial Yjs state:', error);
-            }
+            });
         });
 
         // Handle Yjs updates from other users
-        this.socket.on('yjs_update', (data: { documentId: string; update: number[]; timestamp?: number }) => {
-            if (data.documentId === this.documentId) {
+        channel.on('yjs_update', (data: { documentId: string; update: number[]; timestamp?: number }) => {
+            if (data.documentId !== this.documentId) return;
+
+            // Only apply updates after initial sync
+            if (!this.isSynced) {
+                console.log('⚠️ YjsClient: Ignoring update - not synced yet');
+                return;
+            }
+
+            const update = new Uint8Array(data.update);
+            this.enqueueRemote(() => {
                 try {
-                    const update = new Uint8Array(data.update);
-
-                    // Only apply updates after initial sync
-                    if (this.isSynced) {
-                        // Get current content to check if it's empty
-                        const ytext = this.ydoc.getText('editor');
-                        const currentContent = ytext.toString();
-
-                        Y.applyUpdate(this.ydoc, update, 'remote');
-                        options.onUpdate?.();
-
-                        const newContent = ytext.toString();
-                        console.log(`✅ YjsClient: Applied remote update (${data.timestamp ? new Date(data.timestamp).toLocaleTimeString() : 'no timestamp'})`);
-
-                        // Log if content changed significantly
-                        if (currentContent !== newContent) {
-                            console.log(`📝 Content changed: ${currentContent.length} -> ${newContent.length} chars`);
-                        }
-                    } else {
-                        console.log('⚠️ YjsClient: Ignoring update - not synced yet');
-                    }
+                    Y.applyUpdate(this.ydoc, update, 'remote');
+                    this.remoteContent = true;
+                    console.log(`✅ YjsClient: Applied remote update (${data.timestamp ? new Date(data.timestamp).toLocaleTimeString() : 'no timestamp'})`);
                 } catch (error) {
                     console.error('❌ YjsClient: Error applying remote Yjs update:', error);
                     // Don't disconnect, just log the error
                 }
-            }
+            });
         });
 
-        // Handle cursor updates from other users
-        this.socket.on('cursor_updated', (data: {
-            userId: string;
-            cursor: {
-                x: number;
-                y: number;
-                blockId?: string;
-                selection?: {
-                    start: number;
-                    end: number;
-                    text: string;
-                    startOffset: number;
-                    endOffset: number;
-                };
-            };
-        }) => {
-            if (data.userId !== this.userId) {
-                console.log('✅ YjsClient: Received cursor update from user:', data.userId);
-                options.onCursorUpdate?.(data.userId, data.cursor);
+        // Handle presence and caret changes from other users
+        channel.on('awareness_update', (data: { documentId: string; update: number[] }) => {
+            if (data.documentId !== this.documentId) return;
+            try {
+                applyAwarenessUpdate(this.awareness, new Uint8Array(data.update), 'remote');
+            } catch (error) {
+                console.error('❌ YjsClient: Error applying awareness update:', error);
             }
         });
 
         // Handle formatting updates
-        this.socket.on('formatting_updated', (data: {
+        channel.on('formatting_updated', (data: {
             userId: string;
             formatting: {
                 type: 'bold' | 'italic' | 'underline' | 'color' | 'fontSize' | 'alignment';
@@ -198,41 +222,40 @@ export class YjsClient {
         });
 
         // Handle presence updates
-        this.socket.on('presence_update', (data: { users: any[] }) => {
+        channel.on('presence_update', (data: { users: any[] }) => {
             console.log('✅ YjsClient: Presence update:', data.users);
             options.onPresenceUpdate?.(data.users);
+            // Someone joined - let them see this user's caret without waiting for the next renewal
+            this.sendAwareness([this.ydoc.clientID]);
         });
 
         // Handle user leaving
-        this.socket.on('user_left', (data: { userId: string }) => {
+        channel.on('user_left', (data: { userId: string }) => {
             console.log('⚠️ YjsClient: User left:', data.userId);
             options.onUserLeft?.(data.userId);
         });
 
-        // Handle direct content updates (for Editor.js)
-        this.socket.on('content_updated', (data: {
+        // Whole-document content updates from clients that predate the shared block model
+        channel.on('content_updated', (data: {
             documentId: string;
             content: any;
             userId: string;
         }) => {
-            if (data.documentId === this.documentId && data.userId !== this.userId) {
+            if (data.documentId === this.documentId && data.userId !== this.userId && Array.isArray(data.content?.blocks)) {
                 console.log('✅ YjsClient: Received content update from remote user');
-                // Store content in Y.Map for access
-                const contentMap = this.ydoc.getMap('content');
-                contentMap.set('data', JSON.stringify(data.content));
-                contentMap.set('timestamp', Date.now());
-
-                // Trigger onUpdate with the content
-                options.onUpdate?.(data.content);
+                this.enqueueRemote(() => {
+                    writeBlocks(this.blocks, data.content, 'remote');
+                    this.remoteContent = true;
+                });
             }
         });
 
         // Listen for local changes and send to server
         this.updateHandler = (update: Uint8Array, origin: any) => {
             // Only send updates that originated locally (not from server)
-            if (origin !== 'server' && origin !== 'remote' && origin !== this.socket && this.isConnected && this.isSynced) {
+            if (origin !== 'server' && origin !== 'remote' && this.isConnected && this.isSynced && !this.readOnly) {
                 console.log('📤 YjsClient: Sending local update to server');
-                this.socket?.emit('yjs_update', {
+                this.channel?.emit('yjs_update', {
                     documentId: this.documentId,
                     update: Array.from(update),
                     timestamp: Date.now(),
@@ -242,27 +265,47 @@ export class YjsClient {
 
         this.ydoc.on('update', this.updateHandler);
 
-        // Also listen for Y.Map changes (for document content)
-        const contentMap = this.ydoc.getMap('content');
-        contentMap.observe((event) => {
-            console.log('📝 Y.Map content changed');
+        // Share the local state whenever it changes or is renewed
+        this.awarenessHandler = ({ added, updated, removed }, origin) => {
+            if (origin === 'local') this.sendAwareness([...added, ...updated, ...removed]);
+        };
+        this.awareness.on('update', this.awarenessHandler);
 
-            // If this is a remote change (not from our own local update), trigger callback
-            // This will apply changes from other users
-            if (event.transaction.origin !== 'local') {
-                console.log('🔄 Remote content changed, notifying editor');
-                options.onUpdate?.();
-            }
+        // Join the document room
+        channel.join('join_document', { documentId: this.documentId });
+    }
+
+    private sendAwareness(clients: number[]): void {
+        if (!this.channel || !this.isConnected || clients.length === 0) return;
+
+        this.channel.emit('awareness_update', {
+            documentId: this.documentId,
+            update: Array.from(encodeAwarenessUpdate(this.awareness, clients)),
         });
+    }
 
-        // Also listen for Y.Text changes
-        const ytext = this.ydoc.getText('editor');
-        ytext.observe((event) => {
-            console.log('📝 Y.Text changed:', event.changes);
-            // Trigger callbacks when text changes (from remote)
-            if (event.transaction.origin !== 'local') {
-                options.onUpdate?.();
-            }
+    private enqueueRemote(apply: () => void): void {
+        this.remoteQueue = this.remoteQueue
+            .then(() => (this.remoteUpdateHandler ? this.remoteUpdateHandler(apply) : apply()))
+            .catch((error) => {
+                console.error('❌ YjsClient: Error applying remote change:', error);
+            });
+    }
+
+    // After (re)joining, send the changes the server doesn't have yet, e.g. edits made offline
+    private sendMissingUpdates(serverState: Uint8Array): void {
+        if (this.readOnly || !this.channel) return;
+
+        const missing = serverState.length > 0
+            ? Y.encodeStateAsUpdate(this.ydoc, Y.encodeStateVectorFromUpdate(serverState))
+            : Y.encodeStateAsUpdate(this.ydoc);
+        if (missing.length <= EMPTY_UPDATE_LENGTH) return;
+
+        console.log('📤 YjsClient: Sending local changes missing on the server');
+        this.channel.emit('yjs_update', {
+            documentId: this.documentId,
+            update: Array.from(missing),
+            timestamp: Date.now(),
         });
     }
 
@@ -281,27 +324,82 @@ export class YjsClient {
     }
 
     /**
-     * Update cursor position
+     * Get the shared block model of the document
      */
-    updateCursor(cursor: {
-        x: number;
-        y: number;
-        blockId?: string;
-        selection?: {
-            start: number;
-            end: number;
-            text: string;
-            startOffset: number;
-            endOffset: number;
-        };
-    }): void {
-        if (this.socket && this.isConnected) {
-            this.socket.emit('cursor_update', {
-                documentId: this.documentId,
-                userId: this.userId,
-                cursor,
-            });
-        }
+    getBlocks(): SharedBlocks {
+        return this.blocks;
+    }
+
+    /**
+     * Whether the shared blocks came from the server or a collaborator rather than only from
+     * this browser's offline copy - if so they win over the content the editor loaded
+     */
+    hasRemoteContent(): boolean {
+        return this.remoteContent;
+    }
+
+    /**
+     * Route remote changes through a handler that decides when to apply them (null to apply at once)
+     */
+    setRemoteUpdateHandler(handler: ((apply: () => void) => Promise<void>) | null): void {
+        this.remoteUpdateHandler = handler;
+    }
+
+    /**
+     * Share the local caret or selection (null when the editor isn't focused)
+     */
+    updateCursor(cursor: CursorSelection | null): void {
+        const state = this.awareness.getLocalState() as AwarenessState | null;
+        if (!sameCursor(state?.cursor, cursor)) this.awareness.setLocalStateField('cursor', cursor);
+    }
+
+    /**
+     * Share which part of the document this user is looking at, for collaborators following them
+     */
+    updateViewport(viewport: Viewport | null): void {
+        const state = this.awareness.getLocalState() as AwarenessState | null;
+        if (!sameViewport(state?.viewport, viewport)) this.awareness.setLocalStateField('viewport', viewport);
+    }
+
+    /**
+     * Share whose viewport this user is following (null when not following anyone)
+     */
+    setFollowing(userId: string | null): void {
+        const state = this.awareness.getLocalState() as AwarenessState | null;
+        if ((state?.following ?? null) !== userId) this.awareness.setLocalStateField('following', userId);
+    }
+
+    /**
+     * Set the name and colour collaborators see next to this user's caret
+     */
+    setUser(user: AwarenessUser): void {
+        this.awareness.setLocalStateField('user', user);
+    }
+
+    /**
+     * Collaborators currently in the document, with their carets and viewports
+     */
+    getRemoteCursors(): RemoteCursor[] {
+        const cursors: RemoteCursor[] = [];
+        this.awareness.getStates().forEach((state: AwarenessState, clientId) => {
+            if (clientId !== this.ydoc.clientID && state.user) {
+                cursors.push({
+                    clientId,
+                    user: state.user,
+                    cursor: state.cursor || null,
+                    viewport: state.viewport || null,
+                    following: state.following || null,
+                });
+            }
+        });
+        return cursors;
+    }
+
+    /**
+     * Get the awareness instance shared with collaborators
+     */
+    getAwareness(): Awareness {
+        return this.awareness;
     }
 
     /**
@@ -311,8 +409,8 @@ export class YjsClient {
         type: 'bold' | 'italic' | 'underline' | 'color' | 'fontSize' | 'alignment';
         value: any;
     }): void {
-        if (this.socket && this.isConnected) {
-            this.socket.emit('formatting_update', {
+        if (this.channel && this.isConnected && !this.readOnly) {
+            this.channel.emit('formatting_update', {
                 documentId: this.documentId,
                 userId: this.userId,
                 formatting: {
@@ -327,8 +425,8 @@ export class YjsClient {
      * Request presence information
      */
     getPresence(): void {
-        if (this.socket && this.isConnected) {
-            this.socket.emit('get_presence', {
+        if (this.channel && this.isConnected) {
+            this.channel.emit('get_presence', {
                 documentId: this.documentId,
             });
         }
@@ -345,10 +443,17 @@ export class YjsClient {
             this.updateHandler = null;
         }
 
-        if (this.socket) {
-            this.socket.emit('leave_document', { documentId: this.documentId });
-            this.socket.disconnect();
-            this.socket = null;
+        // Tell collaborators right away instead of letting this user's caret time out
+        removeAwarenessStates(this.awareness, [this.ydoc.clientID], 'local');
+        if (this.cursorsHandler) {
+            this.awareness.off('change', this.cursorsHandler);
+            this.cursorsHandler = null;
+        }
+
+        if (this.channel) {
+            this.channel.leave('leave_document', { documentId: this.documentId });
+            this.channel.close();
+            this.channel = null;
         }
 
         if (this.persistence) {
@@ -356,6 +461,15 @@ export class YjsClient {
             this.persistence = null;
         }
 
+        if (this.awarenessHandler) {
+            this.awareness.off('update', this.awarenessHandler);
+            this.awarenessHandler = null;
+        }
+        this.awareness.destroy();
+
+        this.remoteUpdateHandler = null;
+        this.undoManager.destroy();
+
         this.isConnected = false;
         this.isSynced = false;
     }
@@ -368,10 +482,24 @@ export class YjsClient {
     }
 
     /**
-     * Get socket instance for direct emits
+     * Whether this client only receives document changes (view-only access)
+     */
+    isReadOnly(): boolean {
+        return this.readOnly;
+    }
+
+    /**
+     * Get the per-user undo / redo manager, which only reverts this user's own changes
+     */
+    getUndoManager(): CollaborativeUndoManager {
+        return this.undoManager;
+    }
+
+    /**
+     * Get the documents channel for direct emits
      */
-    getSocket(): Socket | null {
-        return this.socket;
+    getChannel(): RealtimeChannel | null {
+        return this.channel;
     }
 }
 
@@ -1,10 +1,16 @@
 import { api } from '../api';
+import { getCurrentUserId } from '../auth';
 
 export const getUserById = async (userId: string) => {
     const response = await api.get(`/users/${userId}`);
     return response.data;
 };
 
+export const getCurrentUser = async () => {
+    const userId = getCurrentUserId();
+    return userId ? getUserById(userId) : null;
+};
+
 export const updateUser = async (id: string, userData: any) => {
     const response = await api.put(`/users/${id}`, userData);
     return response.data;
@@ -0,0 +1,320 @@
+/**
+ * Suggestions (track changes)
+ *
+ * Suggested edits are inline marks stored in Editor.js block HTML:
+ *   <ins class="suggestion suggestion--insert" data-suggestion-id="..." data-author-id="..." data-author-name="..." data-created-at="...">new text</ins>
+ *   <del class="suggestion suggestion--delete" data-suggestion-id="..." ...>old text</del>
+ * Being part of the block text, they reach collaborators through the shared block model like any other edit.
+ * One suggestion can span several marks sharing an id (e.g. a deletion across bold and plain text).
+ */
+
+import { MENTION_BLOCK_TOOLS } from './mentions';
+
+export type SuggestionType = 'insert' | 'delete';
+
+export interface SuggestionAuthor {
+    id: string;
+    name: string;
+}
+
+export interface Suggestion {
+    id: string;
+    type: SuggestionType;
+    authorId: string;
+    authorName: string;
+    createdAt: string;
+    text: string;
+    blockId: string | null;
+}
+
+// Fired by the inline toolbar button to mark the selection as a suggested deletion
+export const SUGGEST_DELETION_REQUEST_EVENT = 'xplanb:suggest-deletion-request';
+
+// Fired by find & replace in suggesting mode to suggest replacing text
+export const SUGGEST_REPLACEMENT_REQUEST_EVENT = 'xplanb:suggest-replacement-request';
+
+export interface SuggestedReplacement {
+    range: Range;
+    text: string;
+}
+
+export interface SuggestReplacementRequestDetail {
+    replacements: SuggestedReplacement[];
+}
+
+export const SUGGESTION_SELECTOR = 'ins.suggestion[data-suggestion-id], del.suggestion[data-suggestion-id]';
+
+// Marks only survive saving in blocks whose sanitizer keeps inline tool markup - the same ones as mentions
+export const SUGGESTION_BLOCK_TOOLS = MENTION_BLOCK_TOOLS;
+
+// Attributes the sanitizer keeps on suggestion marks
+export const SUGGESTION_MARK_ATTRIBUTES = {
+    class: true,
+    title: true,
+    'data-suggestion-id': true,
+    'data-author-id': true,
+    'data-author-name': true,
+    'data-created-at': true,
+};
+
+const CHIP_SELECTOR = '[contenteditable="false"]';
+
+const newSuggestionId = () => `sg-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+const markType = (mark: Element): SuggestionType => (mark.tagName === 'INS' ? 'insert' : 'delete');
+
+const isMark = (node: Node | null, type: SuggestionType): node is HTMLElement =>
+    node instanceof HTMLElement && node.matches(SUGGESTION_SELECTOR) && markType(node) === type;
+
+/**
+ * The closest suggestion mark of the given type around a node
+ */
+export function suggestionMarkOf(node: Node | null, type: SuggestionType): HTMLElement | null {
+    const element = node instanceof Element ? node : node?.parentElement;
+    let mark = element?.closest<HTMLElement>(SUGGESTION_SELECTOR) || null;
+    while (mark && markType(mark) !== type) {
+        mark = mark.parentElement?.closest<HTMLElement>(SUGGESTION_SELECTOR) || null;
+    }
+    return mark;
+}
+
+export function createSuggestionMark(type: SuggestionType, author: SuggestionAuthor, id = newSuggestionId()): HTMLElement {
+    const createdAt = new Date();
+    const mark = window.document.createElement(type === 'insert' ? 'ins' : 'del');
+    mark.className = `suggestion suggestion--${type}`;
+    mark.dataset.suggestionId = id;
+    mark.dataset.authorId = author.id;
+    mark.dataset.authorName = author.name;
+    mark.dataset.createdAt = createdAt.toISOString();
+    mark.title = `${type === 'insert' ? 'Inserted' : 'Deleted'} by ${author.name} · ${createdAt.toLocaleString()}`;
+    return mark;
+}
+
+/**
+ * Every suggestion in the editor, in document order
+ */
+export function readSuggestions(holder: HTMLElement): Suggestion[] {
+    const byId = new Map<string, Suggestion>();
+
+    holder.querySelectorAll<HTMLElement>(SUGGESTION_SELECTOR).forEach((mark) => {
+        const id = mark.dataset.suggestionId!;
+        const existing = byId.get(id);
+        if (existing) {
+            existing.text += mark.textContent || '';
+            return;
+        }
+
+        byId.set(id, {
+            id,
+            type: markType(mark),
+            authorId: mark.dataset.authorId || '',
+            authorName: mark.dataset.authorName || 'Unknown',
+            createdAt: mark.dataset.createdAt || '',
+            text: mark.textContent || '',
+            blockId: mark.closest<HTMLElement>('.ce-block')?.dataset.id || null,
+        });
+    });
+
+    return Array.from(byId.values());
+}
+
+const marksFor = (holder: HTMLElement, id: string) => Array
+    .from(holder.querySelectorAll<HTMLElement>(SUGGESTION_SELECTOR))
+    .filter((mark) => mark.dataset.suggestionId === id);
+
+/**
+ * First mark of a suggestion, e.g. to scroll to it
+ */
+export function findSuggestionMark(holder: HTMLElement, id: string): HTMLElement | null {
+    return marksFor(holder, id)[0] || null;
+}
+
+/**
+ * Accept or reject a suggestion. Accepting an insertion (or rejecting a deletion) keeps
+ * the text and drops the mark; the opposite removes the marked text.
+ * Returns false when the suggestion is no longer in the document.
+ */
+export function resolveSuggestion(holder: HTMLElement, id: string, accept: boolean): boolean {
+    const marks = marksFor(holder, id);
+
+    marks.forEach((mark) => {
+        const parent = mark.parentNode;
+        if ((markType(mark) === 'insert') === accept) {
+            mark.replaceWith(...Array.from(mark.childNodes));
+        } else {
+            mark.remove();
+        }
+        parent?.normalize();
+    });
+
+    return marks.length > 0;
+}
+
+// The node right before a collapsed position, if any
+const nodeBefore = (position: Range): Node | null => {
+    const container = position.startContainer;
+    if (container instanceof Text) {
+        return position.startOffset === 0 ? container.previousSibling : null;
+    }
+    return container.childNodes[position.startOffset - 1] || null;
+};
+
+const caretAt = (node: Node, offset: number) => {
+    const caret = window.document.createRange();
+    caret.setStart(node, offset);
+    caret.collapse(true);
+    return caret;
+};
+
+/**
+ * Insert text as a suggested insertion at the start of a range.
+ * Returns where the caret should go.
+ */
+export function insertSuggestedText(range: Range, text: string, author: SuggestionAuthor): Range {
+    const position = range.cloneRange();
+    position.collapse(true);
+
+    // Never type into deleted text - continue after the deletion instead
+    const deletion = suggestionMarkOf(position.startContainer, 'delete');
+    if (deletion) {
+        position.setStartAfter(deletion);
+        position.collapse(true);
+    }
+
+    // Keep growing the author's own insertion while they type
+    const insertion = suggestionMarkOf(position.startContainer, 'insert');
+    const container = position.startContainer;
+    if (insertion && insertion.dataset.authorId === author.id && container instanceof Text) {
+        container.insertData(position.startOffset, text);
+        return caretAt(container, position.startOffset + text.length);
+    }
+
+    const before = nodeBefore(position);
+    if (isMark(before, 'insert') && before.dataset.authorId === author.id) {
+        const last = before.lastChild instanceof Text ? before.lastChild : before.appendChild(window.document.createTextNode(''));
+        last.appendData(text);
+        return caretAt(last, last.length);
+    }
+
+    // Inside someone else's insertion: split it so the new mark sits between the halves
+    if (insertion) {
+        const tail = window.document.createRange();
+        tail.setStart(position.startContainer, position.startOffset);
+        tail.setEndAfter(insertion);
+        const rest = tail.extractContents();
+        if (rest.textContent) insertion.after(rest);
+        position.setStartAfter(insertion);
+        position.collapse(true);
+        if (!insertion.textContent) insertion.remove();
+    }
+
+    const mark = createSuggestionMark('insert', author);
+    mark.textContent = text;
+    position.insertNode(mark);
+    return caretAt(mark.firstChild!, text.length);
+}
+
+// Fold a new deletion mark into an adjacent deletion by the same author
+const mergeWithNeighbour = (mark: HTMLElement): HTMLElement => {
+    const sameAuthor = (node: Node | null): node is HTMLElement =>
+        isMark(node, 'delete') && node.dataset.authorId === mark.dataset.authorId;
+
+    if (sameAuthor(mark.previousSibling)) {
+        const previous = mark.previousSibling;
+        previous.append(...Array.from(mark.childNodes));
+        mark.remove();
+        previous.normalize();
+        return previous;
+    }
+    if (sameAuthor(mark.nextSibling)) {
+        const next = mark.nextSibling;
+        next.prepend(...Array.from(mark.childNodes));
+        mark.remove();
+        next.normalize();
+        return next;
+    }
+    return mark;
+};
+
+/**
+ * Mark the content of a range as a suggested deletion. Text the author suggested
+ * themselves is removed outright, and text that is already deleted is skipped.
+ * Returns where the caret should go: before the deletion when deleting backwards, after it otherwise.
+ */
+export function suggestDeletion(range: Range, author: SuggestionAuthor, backward: boolean): Range {
+    const root = range.commonAncestorContainer;
+    const nodes: Text[] = [];
+    if (root instanceof Text) {
+        nodes.push(root);
+    } else {
+        const walker = window.document.createTreeWalker(root, NodeFilter.SHOW_TEXT);
+        for (let node = walker.nextNode(); node; node = walker.nextNode()) {
+            if (range.intersectsNode(node)) nodes.push(node as Text);
+        }
+    }
+
+    // Work out every piece before changing the DOM, since splitting moves range boundaries
+    const pieces = nodes
+        .map((node) => ({
+            node,
+            start: node === range.startContainer ? range.startOffset : 0,
+            end: node === range.endContainer ? range.endOffset : node.length,
+        }))
+        .filter(({ start, end }) => start < end);
+
+    const id = newSuggestionId();
+    const targets: Node[] = [];
+    const chips = new Set<Element>();
+
+    pieces.forEach(({ node, start, end }) => {
+        const chip = node.parentElement?.closest(CHIP_SELECTOR);
+        if (chip) {
+            // Chips are deleted whole
+            if (!chips.has(chip) && !suggestionMarkOf(chip, 'delete')) targets.push(chip);
+            chips.add(chip);
+            return;
+        }
+        if (suggestionMarkOf(node, 'delete')) return;
+
+        let piece = node;
+        if (start > 0) piece = piece.splitText(start);
+        if (end - start < piece.length) piece.splitText(end - start);
+
+        const insertion = suggestionMarkOf(piece, 'insert');
+        if (insertion && insertion.dataset.authorId === author.id) {
+            // Taking back your own suggested text just removes it
+            piece.remove();
+            if (!insertion.textContent) insertion.remove();
+            return;
+        }
+        targets.push(piece);
+    });
+
+    const marks = targets.map((target) => {
+        const mark = createSuggestionMark('delete', author, id);
+        target.parentNode!.replaceChild(mark, target);
+        mark.appendChild(target);
+        return mergeWithNeighbour(mark);
+    });
+
+    if (marks.length === 0) {
+        const caret = range.cloneRange();
+        caret.collapse(backward);
+        return caret;
+    }
+
+    const caret = window.document.createRange();
+    if (backward) caret.setStartBefore(marks[0]);
+    else caret.setStartAfter(marks[marks.length - 1]);
+    caret.collapse(true);
+    return caret;
+}
+
+/**
+ * Suggest replacing the content of a range with text: a deletion followed by an insertion.
+ * Returns where the caret should go.
+ */
+export function suggestReplacement(range: Range, text: string, author: SuggestionAuthor): Range {
+    const start = range.collapsed ? range : suggestDeletion(range, author, false);
+    return text ? insertSuggestedText(start, text, author) : start;
+}
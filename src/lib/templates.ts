@@ -0,0 +1,201 @@
+/**
+ * Document Templates
+ *
+ * Built-in templates, saved (user/folder) templates and the helpers used to
+ * create a document from one. Template content is Editor.js OutputData and
+ * may contain placeholders ({{date}}, {{author}}, {{title}}) that are filled
+ * in when the document is created.
+ */
+
+import type { OutputBlockData } from '@editorjs/editorjs';
+import { documentsApi, Document } from '../api/documents';
+import { DocumentTemplate, TemplateScope } from '../api/templates';
+import { EditorData, escapeHtml, parseEditorData } from './export/blocks';
+import { getCurrentUser } from './services/userService';
+
+export interface TemplateOption {
+    id: string;
+    name: string;
+    description: string;
+    content: EditorData;
+    builtIn: boolean;
+    scope?: TemplateScope;
+}
+
+export interface SectionTemplate {
+    id: string;
+    title: string;
+    blocks: OutputBlockData[];
+}
+
+export interface PlaceholderValues {
+    date: string;
+    author: string;
+    title: string;
+}
+
+export const BLANK_TEMPLATE_ID = 'blank';
+
+const header = (text: string, level: number): OutputBlockData => ({ type: 'header', data: { text, level } });
+
+const paragraph = (text: string): OutputBlockData => ({ type: 'paragraph', data: { text } });
+
+const list = (style: 'ordered' | 'unordered', ...items: string[]): OutputBlockData => ({
+    type: 'list',
+    data: { style, meta: {}, items: items.map((content) => ({ content, meta: {}, items: [] })) },
+});
+
+const checklist = (...items: string[]): OutputBlockData => ({
+    type: 'checklist',
+    data: { items: items.map((text) => ({ text, checked: false })) },
+});
+
+const table = (...rows: string[][]): OutputBlockData => ({
+    type: 'table',
+    data: { withHeadings: true, content: rows },
+});
+
+const template = (id: string, name: string, description: string, blocks: OutputBlockData[]): TemplateOption => ({
+    id,
+    name,
+    description,
+    content: { time: 0, blocks },
+    builtIn: true,
+});
+
+export const BUILT_IN_TEMPLATES: TemplateOption[] = [
+    template(BLANK_TEMPLATE_ID, 'Blank document', 'Start from an empty page', []),
+    template('meeting-notes', 'Meeting notes', 'Agenda, notes, decisions and action items', [
+        header('{{title}}', 1),
+        paragraph('<b>Date:</b> {{date}}<br><b>Facilitator:</b> {{author}}<br><b>Attendees:</b> '),
+        header('Agenda', 2),
+        list('ordered', ''),
+        header('Notes', 2),
+        paragraph(''),
+        header('Decisions', 2),
+        list('unordered', ''),
+        header('Action items', 2),
+        checklist(''),
+    ]),
+    template('prd', 'Product requirements', 'Problem, goals, requirements and open questions', [
+        header('{{title}}', 1),
+        paragraph('<b>Author:</b> {{author}}<br><b>Last updated:</b> {{date}}<br><b>Status:</b> Draft'),
+        header('Problem', 2),
+        paragraph('What problem are we solving, and for whom?'),
+        header('Goals', 2),
+        list('unordered', ''),
+        header('Non-goals', 2),
+        list('unordered', ''),
+        header('Requirements', 2),
+        table(['Requirement', 'Priority', 'Notes'], ['', 'Must have', '']),
+        header('Success metrics', 2),
+        list('unordered', ''),
+        header('Open questions', 2),
+        list('unordered', ''),
+    ]),
+    template('retro', 'Retrospective', 'What went well, what didn\'t, and what to change', [
+        header('{{title}}', 1),
+        paragraph('<b>Date:</b> {{date}}<br><b>Facilitator:</b> {{author}}'),
+        header('What went well', 2),
+        list('unordered', ''),
+        header('What didn\'t go well', 2),
+        list('unordered', ''),
+        header('What we\'ll try next', 2),
+        checklist(''),
+    ]),
+    template('weekly-report', 'Weekly report', 'Highlights, progress, blockers and next week\'s plan', [
+        header('{{title}}', 1),
+        paragraph('<b>Week of:</b> {{date}}<br><b>Author:</b> {{author}}'),
+        header('Highlights', 2),
+        list('unordered', ''),
+        header('Progress', 2),
+        table(['Project', 'Status', 'Notes'], ['', 'On track', '']),
+        header('Blockers', 2),
+        list('unordered', ''),
+        header('Next week', 2),
+        checklist(''),
+    ]),
+];
+
+// Smaller snippets inserted into an existing document from the slash-command palette
+export const SECTION_TEMPLATES: SectionTemplate[] = [
+    { id: 'action-items', title: 'Action items', blocks: [header('Action items', 2), checklist('')] },
+    { id: 'decision-log', title: 'Decision log', blocks: [header('Decisions', 2), table(['Decision', 'Owner', 'Date'], ['', '', ''])] },
+    { id: 'risks', title: 'Risks and mitigations', blocks: [header('Risks', 2), table(['Risk', 'Impact', 'Mitigation'], ['', '', ''])] },
+    { id: 'open-questions', title: 'Open questions', blocks: [header('Open questions', 2), list('unordered', '')] },
+];
+
+/**
+ * Turn a saved template from the API into a picker option
+ */
+export function fromSavedTemplate(saved: DocumentTemplate): TemplateOption {
+    return {
+        id: saved._id,
+        name: saved.name,
+        description: saved.description || '',
+        content: parseEditorData(saved.content),
+        builtIn: false,
+        scope: saved.scope,
+    };
+}
+
+/**
+ * Replace {{placeholder}} tokens in every string of the template's block data.
+ * Unknown placeholders are left as they are.
+ */
+export function fillPlaceholders(data: EditorData, values: PlaceholderValues): EditorData {
+    const fill = (value: any): any => {
+        if (typeof value === 'string') {
+            return value.replace(/\{\{\s*(\w+)\s*\}\}/g, (match, key: string) =>
+                Object.prototype.hasOwnProperty.call(values, key) ? values[key as keyof PlaceholderValues] : match
+            );
+        }
+        if (Array.isArray(value)) return value.map(fill);
+        if (value && typeof value === 'object') {
+            return Object.fromEntries(Object.entries(value).map(([key, child]) => [key, fill(child)]));
+        }
+        return value;
+    };
+
+    return { ...data, time: Date.now(), blocks: fill(data.blocks || []) };
+}
+
+const getAuthorName = async (): Promise<string> => {
+    try {
+        const user = await getCurrentUser();
+        return `${user?.firstName || ''} ${user?.lastName || ''}`.trim() || user?.email || '';
+    } catch {
+        return '';
+    }
+};
+
+/**
+ * Create a document in a folder and seed it with the template's content.
+ * If the content can't be saved, the new document is deleted again and the error rethrown.
+ */
+export async function createDocumentFromTemplate(
+    title: string,
+    folderId: string,
+    selected: TemplateOption | null,
+): Promise<Document> {
+    const document = await documentsApi.create({ Title: title, folderId });
+
+    if (selected && selected.content.blocks.length > 0) {
+        const content = fillPlaceholders(selected.content, {
+            date: new Date().toLocaleDateString(undefined, { year: 'numeric', month: 'long', day: 'numeric' }),
+            author: escapeHtml(await getAuthorName()),
+            title: escapeHtml(title),
+        });
+        try {
+            await documentsApi.saveContent({ documentId: document._id, content: JSON.stringify(content) });
+        } catch (error) {
+            // Don't leave an empty document behind
+            await documentsApi.delete(document._id).catch((deleteError) => {
+                console.error('Failed to delete document after its template could not be saved:', deleteError);
+            });
+            throw error;
+        }
+    }
+
+    return document;
+}
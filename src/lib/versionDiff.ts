@@ -0,0 +1,447 @@
+/**
+ * Version Diff
+ *
+ * Block-level comparison of two saved versions of a document, for the history page.
+ * Blocks are matched by id first (Editor.js keeps ids across saves), then by identical
+ * content, then by similar text; matched blocks that are out of order are reported as moved
+ * rather than as a removal plus an insertion. Changed text blocks, list items and table
+ * cells carry word-level changes, computed on their plain text.
+ */
+
+import { EditorBlock, normalizeList, NormalizedListItem, stripHtml } from './export/blocks';
+import { blockKey } from './offline/merge';
+
+export type WordChange = 'same' | 'added' | 'removed';
+
+export interface WordPart {
+    text: string;
+    change: WordChange;
+}
+
+export type PartChange = 'unchanged' | 'added' | 'removed' | 'modified';
+
+export type BlockChange = PartChange | 'moved';
+
+export interface ListItemDiff {
+    change: PartChange;
+    depth: number;
+    checked?: boolean;
+    parts: WordPart[];
+}
+
+export interface TableRowDiff {
+    change: PartChange;
+    cells: WordPart[][];
+}
+
+export interface BlockDiff {
+    change: BlockChange;
+    // The block in the older version (null when added) and in the newer one (null when removed)
+    before: EditorBlock | null;
+    after: EditorBlock | null;
+    // Moved blocks: position in the older version, and whether their content changed too
+    from?: number;
+    edited?: boolean;
+    // Word-level changes of modified and edited moved blocks, by block type
+    text?: WordPart[];
+    items?: ListItemDiff[];
+    rows?: TableRowDiff[];
+}
+
+export type DiffSummary = Record<Exclude<BlockChange, 'unchanged'>, number>;
+
+// How alike (0-1, by words) two unmatched blocks must be to count as one edited block
+const SIMILARITY_THRESHOLD = 0.5;
+
+// Above this many comparisons the longest common subsequence only trims common ends
+const MAX_LCS_CELLS = 1_000_000;
+
+interface AlignedPair {
+    a: number | null;
+    b: number | null;
+}
+
+const tokenize = (text: string) => text.match(/\s+|\S+/g) || [];
+
+const isWord = (token: string) => token.trim() !== '';
+
+/**
+ * Index pairs of a longest common subsequence of two sequences
+ */
+function commonSubsequence<T>(a: T[], b: T[], equal: (x: T, y: T) => boolean): Array<[number, number]> {
+    let start = 0;
+    while (start < a.length && start < b.length && equal(a[start], b[start])) start++;
+
+    let endA = a.length;
+    let endB = b.length;
+    while (endA > start && endB > start && equal(a[endA - 1], b[endB - 1])) {
+        endA--;
+        endB--;
+    }
+
+    const pairs: Array<[number, number]> = [];
+    for (let i = 0; i < start; i++) pairs.push([i, i]);
+
+    const n = endA - start;
+    const m = endB - start;
+    if (n > 0 && m > 0 && n * m <= MAX_LCS_CELLS) {
+        // lengths[i * width + j]: common subsequence length of the tails from i and j
+        const width = m + 1;
+        const lengths = new Uint32Array((n + 1) * width);
+        for (let i = n - 1; i >= 0; i--) {
+            for (let j = m - 1; j >= 0; j--) {
+                lengths[i * width + j] = equal(a[start + i], b[start + j])
+                    ? lengths[(i + 1) * width + j + 1] + 1
+                    : Math.max(lengths[(i + 1) * width + j], lengths[i * width + j + 1]);
+            }
+        }
+
+        let i = 0;
+        let j = 0;
+        while (i < n && j < m) {
+            if (equal(a[start + i], b[start + j])) {
+                pairs.push([start + i, start + j]);
+                i++;
+                j++;
+            } else if (lengths[(i + 1) * width + j] >= lengths[i * width + j + 1]) {
+                i++;
+            } else {
+                j++;
+            }
+        }
+    }
+
+    for (let k = 0; k < a.length - endA; k++) pairs.push([endA + k, endB + k]);
+    return pairs;
+}
+
+/**
+ * Walk two sequences along their common pairs; in each gap removals come before additions
+ */
+function align(aLength: number, bLength: number, pairs: Array<[number, number]>): AlignedPair[] {
+    const aligned: AlignedPair[] = [];
+    let i = 0;
+    let j = 0;
+
+    [...pairs, [aLength, bLength] as [number, number]].forEach(([pairA, pairB]) => {
+        while (i < pairA) aligned.push({ a: i++, b: null });
+        while (j < pairB) aligned.push({ a: null, b: j++ });
+        if (pairA < aLength) {
+            aligned.push({ a: pairA, b: pairB });
+            i = pairA + 1;
+            j = pairB + 1;
+        }
+    });
+
+    return aligned;
+}
+
+/**
+ * Share of words two texts have in common, from 0 to 1
+ */
+function similarity(a: string, b: string): number {
+    const wordsA = tokenize(a).filter(isWord);
+    const wordsB = tokenize(b).filter(isWord);
+    if (wordsA.length + wordsB.length === 0) return 1;
+    return (2 * commonSubsequence(wordsA, wordsB, (x, y) => x === y).length) / (wordsA.length + wordsB.length);
+}
+
+/**
+ * Word-level changes from one text to another. Runs of changed words are merged (with the
+ * spaces between them) so a rewritten phrase reads as one removal and one addition.
+ */
+export function diffWords(before: string, after: string): WordPart[] {
+    const a = tokenize(before);
+    const b = tokenize(after);
+    const raw: WordPart[] = align(a.length, b.length, commonSubsequence(a, b, (x, y) => x === y)).map(({ a: i, b: j }) => {
+        if (i !== null && j !== null) return { text: a[i], change: 'same' };
+        return i !== null ? { text: a[i], change: 'removed' } : { text: b[j!], change: 'added' };
+    });
+
+    const parts: WordPart[] = [];
+    const push = (text: string, change: WordChange) => {
+        if (!text) return;
+        const last = parts[parts.length - 1];
+        if (last && last.change === change) last.text += text;
+        else parts.push({ text, change });
+    };
+
+    let removed = '';
+    let added = '';
+    const flush = () => {
+        push(removed, 'removed');
+        push(added, 'added');
+        removed = '';
+        added = '';
+    };
+
+    raw.forEach((part, index) => {
+        // A space between two changes belongs to the changed run
+        const joiner = part.change === 'same' && !isWord(part.text)
+            && raw[index - 1] && raw[index - 1].change !== 'same'
+            && raw[index + 1] && raw[index + 1].change !== 'same';
+
+        if (part.change === 'same' && !joiner) {
+            flush();
+            push(part.text, 'same');
+        } else {
+            if (part.change !== 'added') removed += part.text;
+            if (part.change !== 'removed') added += part.text;
+        }
+    });
+    flush();
+
+    return parts;
+}
+
+/**
+ * Align two sequences by key, then pair up entries of the same gap that are similar enough to
+ * be edits of each other
+ */
+function alignWithEdits<T>(a: T[], b: T[], key: (item: T) => string, text: (item: T) => string): AlignedPair[] {
+    const aKeys = a.map(key);
+    const bKeys = b.map(key);
+    const aligned = align(a.length, b.length, commonSubsequence(aKeys, bKeys, (x, y) => x === y));
+    const result: AlignedPair[] = [];
+
+    let k = 0;
+    while (k < aligned.length) {
+        if (aligned[k].a !== null && aligned[k].b !== null) {
+            result.push(aligned[k++]);
+            continue;
+        }
+
+        const removed: number[] = [];
+        const added: number[] = [];
+        while (k < aligned.length && (aligned[k].a === null || aligned[k].b === null)) {
+            if (aligned[k].b === null) removed.push(aligned[k].a!);
+            else added.push(aligned[k].b!);
+            k++;
+        }
+
+        const leftover: AlignedPair[] = [];
+        removed.forEach((i, index) => {
+            const j = added[index];
+            if (j !== undefined && similarity(text(a[i]), text(b[j])) >= SIMILARITY_THRESHOLD) {
+                result.push({ a: i, b: j });
+                added[index] = -1;
+            } else {
+                leftover.push({ a: i, b: null });
+            }
+        });
+        result.push(...leftover, ...added.filter((j) => j >= 0).map((j) => ({ a: null, b: j })));
+    }
+
+    return result;
+}
+
+const partChange = (pair: AlignedPair, same: boolean): PartChange => {
+    if (pair.a === null) return 'added';
+    if (pair.b === null) return 'removed';
+    return same ? 'unchanged' : 'modified';
+};
+
+const wholeText = (text: string, change: PartChange): WordPart[] => {
+    if (change === 'added') return [{ text, change: 'added' }];
+    if (change === 'removed') return [{ text, change: 'removed' }];
+    return [{ text, change: 'same' }];
+};
+
+interface FlatListItem {
+    text: string;
+    depth: number;
+    checked?: boolean;
+}
+
+const flattenItems = (items: NormalizedListItem[], depth = 0): FlatListItem[] => items.flatMap((item) => [
+    { text: stripHtml(item.text), depth, checked: item.checked },
+    ...flattenItems(item.items, depth + 1),
+]);
+
+const listItems = (block: EditorBlock) => flattenItems(normalizeList(block).items);
+
+const tableRows = (block: EditorBlock): string[][] =>
+    (block.data?.content || []).map((row: string[]) => row.map((cell) => stripHtml(cell ?? '')));
+
+const isList = (block: EditorBlock) => block.type === 'list' || block.type === 'checklist';
+
+/**
+ * Plain text of a block, for matching and word-level changes
+ */
+export function blockText(block: EditorBlock): string {
+    const data = block.data || {};
+
+    if (isList(block)) return listItems(block).map((item) => item.text).join('\n');
+    if (block.type === 'table') return tableRows(block).map((row) => row.join(' | ')).join('\n');
+    if (block.type === 'code') return data.code || '';
+    if (block.type === 'image') return stripHtml(data.caption || '');
+    return stripHtml(typeof data.text === 'string' ? data.text : '');
+}
+
+function diffListItems(before: EditorBlock, after: EditorBlock): ListItemDiff[] {
+    const a = listItems(before);
+    const b = listItems(after);
+    const key = (item: FlatListItem) => `${item.depth}|${item.checked ? 1 : 0}|${item.text}`;
+
+    return alignWithEdits(a, b, key, (item) => item.text).map((pair) => {
+        const older = pair.a !== null ? a[pair.a] : null;
+        const newer = pair.b !== null ? b[pair.b] : null;
+        const change = partChange(pair, !!older && !!newer && key(older) === key(newer));
+        const item = (newer || older)!;
+
+        return {
+            change,
+            depth: item.depth,
+            checked: item.checked,
+            parts: older && newer ? diffWords(older.text, newer.text) : wholeText(item.text, change),
+        };
+    });
+}
+
+function diffTableRows(before: EditorBlock, after: EditorBlock): TableRowDiff[] {
+    const a = tableRows(before);
+    const b = tableRows(after);
+    const text = (row: string[]) => row.join(' ');
+
+    return alignWithEdits(a, b, (row) => JSON.stringify(row), text).map((pair) => {
+        const older = pair.a !== null ? a[pair.a] : null;
+        const newer = pair.b !== null ? b[pair.b] : null;
+        const change = partChange(pair, !!older && !!newer && JSON.stringify(older) === JSON.stringify(newer));
+
+        if (!older || !newer) {
+            return { change, cells: (newer || older)!.map((cell) => wholeText(cell, change)) };
+        }
+        const columns = Math.max(older.length, newer.length);
+        return { change, cells: Array.from({ length: columns }, (_, column) => diffWords(older[column] ?? '', newer[column] ?? '')) };
+    });
+}
+
+/**
+ * Word-level changes between two versions of a block
+ */
+function diffContent(before: EditorBlock, after: EditorBlock): Pick<BlockDiff, 'text' | 'items' | 'rows'> {
+    if (isList(before) && isList(after)) return { items: diffListItems(before, after) };
+    if (before.type === 'table' && after.type === 'table') return { rows: diffTableRows(before, after) };
+    return { text: diffWords(blockText(before), blockText(after)) };
+}
+
+/**
+ * Entries (in the newer version's order) that keep their relative order: a longest
+ * increasing run of their positions in the older version
+ */
+function inPlace(matches: Array<[number, number]>): Set<number> {
+    const tails: number[] = [];
+    const previous: number[] = new Array(matches.length).fill(-1);
+
+    matches.forEach(([, position], index) => {
+        let low = 0;
+        let high = tails.length;
+        while (low < high) {
+            const middle = (low + high) >> 1;
+            if (matches[tails[middle]][1] < position) low = middle + 1;
+            else high = middle;
+        }
+        if (low > 0) previous[index] = tails[low - 1];
+        tails[low] = index;
+    });
+
+    const kept = new Set<number>();
+    for (let index = tails.length > 0 ? tails[tails.length - 1] : -1; index >= 0; index = previous[index]) {
+        kept.add(matches[index][0]);
+    }
+    return kept;
+}
+
+/**
+ * Block-level changes from an older list of blocks to a newer one, in reading order: each
+ * newer block in place, with removed blocks where they used to be
+ */
+export function diffBlocks(before: EditorBlock[], after: EditorBlock[]): BlockDiff[] {
+    // Older position of each newer block, or -1 when it is new
+    const matchOf: number[] = new Array(after.length).fill(-1);
+    const matched: boolean[] = new Array(before.length).fill(false);
+    const match = (j: number, i: number) => {
+        matchOf[j] = i;
+        matched[i] = true;
+    };
+
+    const byId = new Map<string, number>();
+    before.forEach((block, i) => {
+        if (block.id && !byId.has(block.id)) byId.set(block.id, i);
+    });
+    after.forEach((block, j) => {
+        const i = block.id ? byId.get(block.id) : undefined;
+        if (i !== undefined && !matched[i]) match(j, i);
+    });
+
+    const beforeKeys = before.map(blockKey);
+    after.forEach((block, j) => {
+        if (matchOf[j] >= 0) return;
+        const key = blockKey(block);
+        const i = beforeKeys.findIndex((candidate, index) => !matched[index] && candidate === key);
+        if (i >= 0) match(j, i);
+    });
+
+    after.forEach((block, j) => {
+        if (matchOf[j] >= 0) return;
+        const text = blockText(block);
+        let best = -1;
+        let bestScore = 0;
+        before.forEach((candidate, i) => {
+            if (matched[i] || candidate.type !== block.type) return;
+            const score = similarity(blockText(candidate), text);
+            if (score >= SIMILARITY_THRESHOLD && score > bestScore) {
+                best = i;
+                bestScore = score;
+            }
+        });
+        if (best >= 0) match(j, best);
+    });
+
+    const matches = matchOf.flatMap((i, j): Array<[number, number]> => (i >= 0 ? [[j, i]] : []));
+    const kept = inPlace(matches);
+
+    // Older position of the next block that stayed in place, from each newer position
+    const nextKept: number[] = new Array(after.length + 1).fill(before.length);
+    for (let j = after.length - 1; j >= 0; j--) {
+        nextKept[j] = kept.has(j) ? matchOf[j] : nextKept[j + 1];
+    }
+
+    const diffs: BlockDiff[] = [];
+    let cursor = 0;
+    const flushRemoved = (until: number) => {
+        for (; cursor < until; cursor++) {
+            if (!matched[cursor]) diffs.push({ change: 'removed', before: before[cursor], after: null });
+        }
+    };
+
+    after.forEach((block, j) => {
+        flushRemoved(nextKept[j]);
+        const i = matchOf[j];
+
+        if (i < 0) {
+            diffs.push({ change: 'added', before: null, after: block });
+            return;
+        }
+
+        const edited = beforeKeys[i] !== blockKey(block);
+        const detail = edited ? diffContent(before[i], block) : {};
+        if (kept.has(j)) {
+            cursor = i + 1;
+            diffs.push({ change: edited ? 'modified' : 'unchanged', before: before[i], after: block, ...detail });
+        } else {
+            diffs.push({ change: 'moved', before: before[i], after: block, from: i, edited, ...detail });
+        }
+    });
+    flushRemoved(before.length);
+
+    return diffs;
+}
+
+export function summarizeDiff(diffs: BlockDiff[]): DiffSummary {
+    const summary: DiffSummary = { added: 0, removed: 0, modified: 0, moved: 0 };
+    diffs.forEach((diff) => {
+        if (diff.change !== 'unchanged') summary[diff.change]++;
+    });
+    return summary;
+}
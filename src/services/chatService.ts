@@ -1,5 +1,5 @@
-import { io, Socket } from 'socket.io-client';
-import { API_URL, ACCESS_TOKEN_KEY } from '../lib/config';
+import { ACCESS_TOKEN_KEY } from '../lib/config';
+import { RealtimeChannel, connectionManager } from '../lib/realtime/connection';
 import { chatApi, Message, Conversation } from '../api/chat';
 
 export interface ChatEventCallbacks {
@@ -13,12 +13,9 @@ export interface ChatEventCallbacks {
 }
 
 class ChatService {
-    private socket: Socket | null = null;
-    private isConnected: boolean = false;
+    private channel: RealtimeChannel | null = null;
     private callbacks: ChatEventCallbacks = {};
     private currentConversationId: string | null = null;
-    private reconnectAttempts = 0;
-    private maxReconnectAttempts = 5;
 
     /**
      * Get authentication token
@@ -28,43 +25,22 @@ class ChatService {
     }
 
     /**
-     * Connect to WebSocket server
+     * Connect to the chat namespace of the shared realtime connection, which reconnects
+     * and re-joins the conversation room by itself
      */
     connect() {
-        const token = this.getToken();
-        if (!token) {
+        if (!this.getToken()) {
             console.error('❌ ChatService: No authentication token found');
             return;
         }
 
-        if (this.socket && this.isConnected) {
+        if (this.channel) {
             console.log('✅ ChatService: Already connected');
             return;
         }
 
-        // Disconnect existing socket if any
-        if (this.socket) {
-            this.socket.disconnect();
-            this.socket = null;
-        }
-
-        const backendUrl = API_URL.replace('/api', '');
-        const wsUrl = backendUrl.replace('http', 'ws');
-        const socketUrl = `${wsUrl}/ws/chat`;
-
-        console.log('🔌 ChatService: Connecting to WebSocket:', socketUrl);
-
-        this.socket = io(socketUrl, {
-            auth: { token },
-            query: { token },
-            transports: ['websocket', 'polling'],
-            reconnection: true,
-            reconnectionDelay: 2000,
-            reconnectionAttempts: this.maxReconnectAttempts,
-            timeout: 30000,
-            forceNew: true,
-        });
-
+        console.log('🔌 ChatService: Connecting to chat');
+        this.channel = connectionManager.open('/ws/chat');
         this.setupEventHandlers();
     }
 
@@ -72,64 +48,48 @@ class ChatService {
      * Setup socket event handlers
      */
     private setupEventHandlers() {
-        if (!this.socket) return;
+        if (!this.channel) return;
 
-        this.socket.on('connect', () => {
-            this.isConnected = true;
-            this.reconnectAttempts = 0;
+        this.channel.on('connect', () => {
             console.log('✅ ChatService: Connected to chat server');
-
-            // Rejoin conversation if there was one
-            if (this.currentConversationId) {
-                this.joinConversation(this.currentConversationId);
-            }
         });
 
-        this.socket.on('disconnect', (reason) => {
-            this.isConnected = false;
+        this.channel.on('disconnect', (reason) => {
             console.log('⚠️ ChatService: Disconnected from server:', reason);
-
-            // Attempt reconnection if not intentional
-            if (reason !== 'io client disconnect') {
-                this.reconnectAttempts++;
-                if (this.reconnectAttempts <= this.maxReconnectAttempts) {
-                    console.log(`🔄 ChatService: Reconnection attempt ${this.reconnectAttempts}/${this.maxReconnectAttempts}`);
-                }
-            }
         });
 
-        this.socket.on('connect_error', (error) => {
+        this.channel.on('connect_error', (error) => {
             console.error('❌ ChatService: Connection error:', error);
             this.callbacks.onError?.(error);
         });
 
-        this.socket.on('conversation_joined', (data) => {
+        this.channel.on('conversation_joined', (data) => {
             console.log('✅ ChatService: Joined conversation:', data.conversationId);
             this.callbacks.onConversationJoined?.(data);
         });
 
-        this.socket.on('new_message', (message: Message) => {
+        this.channel.on('new_message', (message: Message) => {
             console.log('📨 ChatService: New message received:', message);
             this.callbacks.onMessage?.(message);
         });
 
-        this.socket.on('messages_read', (data) => {
+        this.channel.on('messages_read', (data) => {
             this.callbacks.onMessagesRead?.(data);
         });
 
-        this.socket.on('user_online', (data) => {
+        this.channel.on('user_online', (data) => {
             this.callbacks.onUserOnline?.(data);
         });
 
-        this.socket.on('user_offline', (data) => {
+        this.channel.on('user_offline', (data) => {
             this.callbacks.onUserOffline?.(data);
         });
 
-        this.socket.on('online_users', (data) => {
+        this.channel.on('online_users', (data) => {
             this.callbacks.onOnlineUsers?.(data);
         });
 
-        this.socket.on('error', (error) => {
+        this.channel.on('error', (error) => {
             console.error('❌ ChatService: Error:', error);
             this.callbacks.onError?.(error);
         });
@@ -139,13 +99,12 @@ class ChatService {
      * Disconnect from WebSocket server
      */
     disconnect() {
-        if (this.socket) {
+        if (this.channel) {
             if (this.currentConversationId) {
                 this.leaveConversation(this.currentConversationId);
             }
-            this.socket.disconnect();
-            this.socket = null;
-            this.isConnected = false;
+            this.channel.close();
+            this.channel = null;
             this.currentConversationId = null;
             console.log('🔌 ChatService: Disconnected');
         }
@@ -155,13 +114,14 @@ class ChatService {
      * Join a conversation room
      */
     joinConversation(conversationId: string) {
-        if (!this.socket || !this.isConnected) {
+        if (!this.channel) {
             console.warn('⚠️ ChatService: Not connected, cannot join conversation');
             return;
         }
 
+        // Joined now if connected, otherwise as soon as the connection is back
         this.currentConversationId = conversationId;
-        this.socket.emit('join_conversation', { conversationId });
+        this.channel.join('join_conversation', { conversationId });
         console.log(`📥 ChatService: Joining conversation ${conversationId}`);
     }
 
@@ -169,7 +129,7 @@ class ChatService {
      * Leave a conversation room
      */
     leaveConversation(conversationId: string) {
-        if (!this.socket || !this.isConnected) {
+        if (!this.channel) {
             return;
         }
 
@@ -177,7 +137,7 @@ class ChatService {
             this.currentConversationId = null;
         }
 
-        this.socket.emit('leave_conversation', { conversationId });
+        this.channel.leave('leave_conversation', { conversationId });
         console.log(`📤 ChatService: Left conversation ${conversationId}`);
     }
 
@@ -185,13 +145,13 @@ class ChatService {
      * Send a message
      */
     sendMessage(conversationId: string, content: string, type: string = 'text', metadata?: any) {
-        if (!this.socket || !this.isConnected) {
+        if (!this.channel?.connected) {
             console.warn('⚠️ ChatService: Not connected, sending via REST API');
             // Fallback to REST API
             return chatApi.sendMessage({ conversationId, content, type, metadata });
         }
 
-        this.socket.emit('send_message', { conversationId, content, type, metadata });
+        this.channel.emit('send_message', { conversationId, content, type, metadata });
         console.log(`📤 ChatService: Sending message to conversation ${conversationId}`);
     }
 
@@ -199,23 +159,23 @@ class ChatService {
      * Mark messages as read
      */
     markAsRead(conversationId: string) {
-        if (!this.socket || !this.isConnected) {
+        if (!this.channel?.connected) {
             // Fallback to REST API
             return chatApi.markAsRead(conversationId);
         }
 
-        this.socket.emit('mark_read', { conversationId });
+        this.channel.emit('mark_read', { conversationId });
     }
 
     /**
      * Get online users for a conversation
      */
     getOnlineUsers(conversationId: string) {
-        if (!this.socket || !this.isConnected) {
+        if (!this.channel?.connected) {
             return;
         }
 
-        this.socket.emit('get_online_users', { conversationId });
+        this.channel.emit('get_online_users', { conversationId });
     }
 
     /**
@@ -236,7 +196,7 @@ class ChatService {
      * Check if connected
      */
     get connected(): boolean {
-        return this.isConnected;
+        return !!this.channel?.connected;
     }
 }
 
@@ -1,5 +1,5 @@
-import { io, Socket } from 'socket.io-client';
-import { API_URL, ACCESS_TOKEN_KEY } from '../lib/config';
+import { ACCESS_TOKEN_KEY } from '../lib/config';
+import { RealtimeChannel, connectionManager } from '../lib/realtime/connection';
 
 export interface MeetingParticipant {
     _id: string;
@@ -52,8 +52,7 @@ export interface MeetingEventCallbacks {
 }
 
 class MeetingService {
-    private socket: Socket | null = null;
-    private isConnected = false;
+    private channel: RealtimeChannel | null = null;
     private currentRoomId: string | null = null;
     private callbacks: MeetingEventCallbacks = {};
 
@@ -61,92 +60,67 @@ class MeetingService {
         return localStorage.getItem(ACCESS_TOKEN_KEY);
     }
 
+    // The shared realtime connection reconnects and re-joins the meeting room by itself
     connect() {
-        const token = this.getToken();
-        if (!token) {
+        if (!this.getToken()) {
             console.error('❌ MeetingService: No authentication token found');
             return;
         }
 
-        if (this.socket && this.isConnected) {
+        if (this.channel) {
             return;
         }
 
-        if (this.socket) {
-            this.socket.disconnect();
-            this.socket = null;
-        }
-
-        const backendUrl = API_URL.replace('/api', '');
-        const wsUrl = backendUrl.replace('http', 'ws');
-        const socketUrl = `${wsUrl}/ws/meetings`;
-
-        this.socket = io(socketUrl, {
-            auth: { token },
-            query: { token },
-            transports: ['websocket', 'polling'],
-            reconnection: true,
-            reconnectionDelay: 2000,
-            reconnectionAttempts: 5,
-            timeout: 30000,
-            forceNew: true,
-        });
-
+        this.channel = connectionManager.open('/ws/meetings');
         this.setupEventHandlers();
+        if (this.channel.connected) this.callbacks.onConnected?.();
     }
 
     private setupEventHandlers() {
-        if (!this.socket) return;
+        if (!this.channel) return;
 
-        this.socket.on('connect', () => {
-            this.isConnected = true;
+        this.channel.on('connect', () => {
             this.callbacks.onConnected?.();
-
-            if (this.currentRoomId) {
-                this.joinMeeting(this.currentRoomId);
-            }
         });
 
-        this.socket.on('disconnect', (reason) => {
-            this.isConnected = false;
+        this.channel.on('disconnect', (reason) => {
             this.callbacks.onDisconnected?.(reason);
         });
 
-        this.socket.on('connect_error', (error) => {
+        this.channel.on('connect_error', (error) => {
             console.error('❌ MeetingService: Connection error:', error);
             this.callbacks.onError?.(error);
         });
 
-        this.socket.on('error', (error) => {
+        this.channel.on('error', (error) => {
             console.error('❌ MeetingService error event:', error);
             this.callbacks.onError?.(error);
         });
 
-        this.socket.on('meeting_state', (payload: MeetingStatePayload) => {
+        this.channel.on('meeting_state', (payload: MeetingStatePayload) => {
             this.callbacks.onMeetingState?.(payload);
         });
 
-        this.socket.on('participant_joined', (data: { participant: MeetingParticipant }) => {
+        this.channel.on('participant_joined', (data: { participant: MeetingParticipant }) => {
             this.callbacks.onParticipantJoined?.(data);
         });
 
-        this.socket.on('participant_left', (data: { participantId: string }) => {
+        this.channel.on('participant_left', (data: { participantId: string }) => {
             this.callbacks.onParticipantLeft?.(data);
         });
 
-        this.socket.on('meeting_message', (message: MeetingMessage) => {
+        this.channel.on('meeting_message', (message: MeetingMessage) => {
             this.callbacks.onMeetingMessage?.(message);
         });
     }
 
     disconnect() {
-        if (this.socket) {
+        if (this.channel) {
             if (this.currentRoomId) {
                 this.leaveMeeting(this.currentRoomId);
             }
-            this.socket.disconnect();
-            this.socket = null;
-            this.isConnected = false;
+            this.channel.close();
+            this.channel = null;
             this.currentRoomId = null;
         }
     }
@@ -154,21 +128,16 @@ class MeetingService {
     joinMeeting(meetingRoomId: string) {
         if (!meetingRoomId) return;
 
-        if (!this.socket || !this.isConnected) {
+        if (!this.channel) {
             this.connect();
         }
 
         this.currentRoomId = meetingRoomId;
-
-        if (!this.socket || !this.isConnected) {
-            return;
-        }
-
-        this.socket.emit('join_meeting', { meetingRoomId });
+        this.channel?.join('join_meeting', { meetingRoomId });
     }
 
     leaveMeeting(meetingRoomId: string) {
-        if (!this.socket || !this.isConnected) {
+        if (!this.channel) {
             return;
         }
 
@@ -176,16 +145,16 @@ class MeetingService {
             this.currentRoomId = null;
         }
 
-        this.socket.emit('leave_meeting', { meetingRoomId });
+        this.channel.leave('leave_meeting', { meetingRoomId });
     }
 
     sendMessage(meetingRoomId: string, content: string) {
-        if (!this.socket || !this.isConnected) {
+        if (!this.channel?.connected) {
             console.warn('⚠️ MeetingService: Not connected, cannot send message');
             return;
         }
 
-        this.socket.emit('send_message', { meetingRoomId, content });
+        this.channel.emit('send_message', { meetingRoomId, content });
     }
 
     on(callbacks: MeetingEventCallbacks) {
@@ -197,7 +166,7 @@ class MeetingService {
     }
 
     get connected(): boolean {
-        return this.isConnected;
+        return !!this.channel?.connected;
     }
 }
 